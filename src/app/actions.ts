@@ -8,8 +8,34 @@
 import { revalidatePath } from "next/cache";
 
 // Import MongoDB database instance and functions for database operations.
-import { getDatabase } from "@/lib/mongodb";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
 import { ObjectId } from "mongodb";
+import { StockError, moveStock } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import {
+  ensureLedgerIndexes,
+  checkMovements,
+  importLegacyMovements,
+  reconcileLedger,
+  findLedgerMismatches,
+  insertMovements,
+  stockMovements,
+} from "@/lib/stock-ledger";
+import { checkMaterials, insertMaterials, materialFields, materialsCollection } from "@/lib/materials";
+import { checkClients, clientsCollection, insertClients } from "@/lib/clients";
+import { clientEntries, findClientEntries } from "@/lib/client-material-entries";
+import { checkCostings, costingCollection, insertCostings } from "@/lib/client-costing";
+import { bookClientEntry } from "@/lib/client-entries";
+import { recountReserved } from "@/lib/reservations";
+import { recountPaid } from "@/lib/client-payments";
+import { ensureSerialIndexes, moveSerials, receiveSerials, requireSerials } from "@/lib/serials";
+import { getCompanyProfile, saveCompanyProfile } from "@/lib/company";
+import { getCostingMethod, saveCostingMethod } from "@/lib/valuation";
+import { recordPriceChanges } from "@/lib/material-prices";
+import { receiveStock } from "@/lib/receiving";
+import { baseUnitOf, parsePurchaseUnits, toBaseQty } from "@/lib/units";
+// Every action below checks the caller's role on the server before touching data.
+import { authorize } from "@/lib/auth";
 
 // Import 'zod' for schema validation. This helps ensure that the data
 // received from forms is in the correct format.
@@ -17,7 +43,7 @@ import { z } from "zod";
 
 // Import mock data for seeding the database.
 import { mockMaterials, mockClients } from "@/lib/mock-data";
-import { Client, ClientMaterialEntry, Material, StockHistory } from "@/lib/types";
+import { BomTemplate, Client, ClientCostingRecord, ClientCostingVersion, ClientAuditEntry, ClientPayment, ClientMaterialEntry, CompanyProfile, Invoice, Material, MaterialPrice, Project, PurchaseOrder, PurchaseUnit, Reservation, SerialNumber, StockCount, StockHistory, StockLocation, StockMovement, StockTransfer, Supplier } from "@/lib/types";
 
 // Define a schema for validating material data from a form.
 // 'z.object' creates a schema for an object with specified properties.
@@ -38,6 +64,9 @@ const materialSchema = z.object({
 // This server action is designed to be used with React's 'useActionState' hook.
 // It provides more detailed state updates (loading, success, error messages).
 export async function addMaterialAction(prevState: any, formData: FormData) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, errors: null };
+
   // 'safeParse' validates the form data against the schema.
   // It doesn't throw an error on failure, but returns a success flag and errors.
   const selectedCategory = String(formData.get("category") || "").trim();
@@ -50,6 +79,14 @@ export async function addMaterialAction(prevState: any, formData: FormData) {
     category: finalCategory,
     price: formData.get("price"),
   });
+  const serialized = formData.get("serialized") === "on";
+  const unit = String(formData.get("unit") || "").trim();
+  let purchaseUnits: PurchaseUnit[];
+  try {
+    purchaseUnits = parsePurchaseUnits(String(formData.get("purchaseUnits") || ""), baseUnitOf({ unit }));
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
 
   // If validation fails, return detailed error messages.
   if (!validatedFields.success) {
@@ -61,17 +98,36 @@ export async function addMaterialAction(prevState: any, formData: FormData) {
   }
   // 'try...catch' block to handle potential errors during database operations.
   try {
-    const db = await getDatabase();
     const { price = undefined, ...rest } = validatedFields.data as any;
     const p = Number(price ?? 0) || 0;
     const doc: Record<string, any> = { ...rest };
+    if (serialized) doc.serialized = true;
+    if (unit) doc.unit = unit;
+    if (purchaseUnits.length > 0) doc.purchaseUnits = purchaseUnits;
     if (p > 0) {
       doc.price = p;
       // Clean legacy fields if any
       doc.pricePerPiece = undefined;
       doc.pricePerMeter = undefined;
     }
-    await db.collection("materials").insertOne(doc);
+    // The material and its opening balance in the stock ledger are created together.
+    // Serialized materials need one serial number per opening unit.
+    await ensureSerialIndexes(await getDatabase());
+    await withTransaction(async (db, session) => {
+      const { quantity, ...fields } = doc;
+      const openingSerials = serialized ? requireSerials(formData.get("serialNumbers") as string, Number(quantity) || 0, fields.name) : [];
+      const [materialId] = await insertMaterials(db, [{ ...fields, name: fields.name, quantity: 0 }], session);
+      await receiveSerials(db, { materialId, materialName: fields.name, serials: openingSerials }, session);
+      await moveStock(db, {
+        materialId,
+        kind: "opening",
+        setTo: Number(quantity) || 0,
+        reason: "Opening balance",
+        serials: openingSerials,
+        unitCost: p > 0 ? p : undefined,
+        user: auth.user,
+      }, session);
+    });
     
     // 'revalidatePath' tells Next.js to re-fetch data for these paths on the next request.
     // This ensures the UI is updated with the new material.
@@ -80,6 +136,7 @@ export async function addMaterialAction(prevState: any, formData: FormData) {
     // Return a success message.
     return { success: true, message: "Material added successfully." };
   } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
     // If an error occurs, log it for debugging and return a failure message.
     console.error("Error adding material:", error);
     return { success: false, message: "Failed to add material. Please try again." };
@@ -89,9 +146,11 @@ export async function addMaterialAction(prevState: any, formData: FormData) {
 
 // Optional: normalize existing materials to set unified price from legacy fields if needed
 export async function normalizeMaterialPricesAction() {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
   try {
     const db = await getDatabase();
-    const mats = await db.collection("materials").find({}).toArray();
+    const mats = await materialsCollection(db).find({}).toArray();
     const ops: any[] = [];
     for (const m of mats) {
       const p = Number(m.price ?? 0) || 0;
@@ -106,7 +165,7 @@ export async function normalizeMaterialPricesAction() {
         });
       }
     }
-    if (ops.length) await db.collection("materials").bulkWrite(ops);
+    if (ops.length) await materialsCollection(db).bulkWrite(ops);
     revalidatePath("/stock");
     revalidatePath("/stock/admin");
     return { success: true, normalized: ops.length };
@@ -136,17 +195,25 @@ const stockAdjustmentSchema = z.object({
   type: z.enum(['in', 'out'], { errorMap: () => ({ message: "Type must be 'in' or 'out'." }) }),
   // Accept missing or null reason
   reason: z.string().optional().nullable(),
+  // Required (one per unit) for serialized materials, ignored otherwise
+  serialNumbers: z.string().optional().nullable(),
+  // Stock location the material goes into or leaves from; the default one when empty.
+  locationId: z.string().optional().nullable(),
 });
 
 const clientStockAdjustmentSchema = stockAdjustmentSchema.extend({
   clientId: z.string().min(1, "Client ID is required."),
   // Ensure reason remains optional even if absent/null in client forms
   reason: z.string().optional().nullable(),
+  // Project (site) of the client; empty when the entry is not tied to one.
+  projectId: z.string().optional().nullable(),
 });
 
 // Server action for In/Out quantity adjustments
 export async function stockAdjustmentAction(prevState: any, formData: FormData) {
   const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
   
   const data = {
     materialId: formData.get("materialId"),
@@ -154,6 +221,8 @@ export async function stockAdjustmentAction(prevState: any, formData: FormData)
     quantity: formData.get("quantity"),
     type: formData.get("type"),
     reason: formData.get("reason"),
+    serialNumbers: formData.get("serialNumbers"),
+    locationId: formData.get("locationId"),
   };
   
   console.log("stockAdjustmentAction received:", data);
@@ -170,61 +239,28 @@ export async function stockAdjustmentAction(prevState: any, formData: FormData)
     };
   }
 
-  const { materialId, materialName, quantity, type, reason } = validatedFields.data;
+  const { materialId, quantity, type, reason, serialNumbers, locationId } = validatedFields.data;
 
   try {
-    const db = await getDatabase();
-    
-    // Fetch current material
-    const material = await db.collection('materials').findOne({ _id: new ObjectId(materialId) });
-    
-    if (!material) {
-      return {
-        success: false,
-        message: "Material not found.",
-        submissionId,
-      };
-    }
-
-    const currentStock = material.quantity || 0;
-    
-    // Calculate new stock based on type
-    let newStock: number;
-    let stockChange: number;
-    
-    if (type === 'in') {
-      // In: Add to stock
-      newStock = currentStock + quantity;
-      stockChange = quantity;
-    } else {
-      // Out: Reduce from stock
-      if (quantity > currentStock) {
-        return {
-          success: false,
-          message: `Insufficient stock. Available: ${currentStock}, Requested: ${quantity}`,
-          submissionId,
-        };
-      }
-      newStock = currentStock - quantity;
-      stockChange = -quantity;
-    }
-
-    // Update material stock
-    await db.collection('materials').updateOne(
-      { _id: new ObjectId(materialId) },
-      { $set: { quantity: newStock } }
-    );
-
-    // Record in stock history
-    await db.collection('stockHistory').insertOne({
-      materialId,
-      materialName: materialName || (material as any).name || '',
-      type,
-      quantity,
-      previousStock: currentStock,
-      newStock,
-      reason: reason || (type === 'in' ? 'Stock Added' : 'Stock Removed'),
-      date: new Date(),
+    await ensureSerialIndexes(await getDatabase());
+    // The stock change, its ledger line and any serial numbers are committed together.
+    const { newStock } = await withTransaction(async (db, session) => {
+      const serials = await moveSerials(db, {
+        materialId,
+        direction: type === 'in' ? 'receive' : 'issue',
+        quantity,
+        serials: serialNumbers,
+      }, session);
+      const { change } = await moveStock(db, {
+        materialId,
+        kind: type,
+        delta: type === 'in' ? quantity : -quantity,
+        reason: reason || (type === 'in' ? 'Stock Added' : 'Stock Removed'),
+        serials,
+        locationId,
+        user: auth.user,
+      }, session);
+      return { newStock: change.next };
     });
 
     // Revalidate paths
@@ -241,6 +277,9 @@ export async function stockAdjustmentAction(prevState: any, formData: FormData)
     };
 
   } catch (error: any) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId };
+    }
     console.error("Error adjusting stock:", error);
     return {
       success: false,
@@ -253,12 +292,14 @@ export async function stockAdjustmentAction(prevState: any, formData: FormData)
 // Server action to delete a material from the database.
 export async function deleteMaterial(materialId: string) {
   // Check if a material ID was provided. This is a basic safeguard.
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, error: auth.error };
   if (!materialId) {
     return { success: false, error: "Material ID is required." };
   }
   try {
     const db = await getDatabase();
-    await db.collection("materials").deleteOne({ _id: new ObjectId(materialId) });
+    await materialsCollection(db).deleteOne({ _id: new ObjectId(materialId) });
     
     // Revalidate paths to reflect the deletion in the UI.
     revalidatePath("/");
@@ -274,6 +315,8 @@ export async function deleteMaterial(materialId: string) {
 
 // Batch update material pricing (rate, gstPercent)
 export async function updateMaterialsPricingAction(prevState: any, formData: FormData) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
   try {
     const updates: { id: string; rate: number; gstPercent: number; price?: number }[] = [];
     const temp: Record<string, any> = {};
@@ -297,27 +340,21 @@ export async function updateMaterialsPricingAction(prevState: any, formData: For
       return { success: false, message: "No pricing changes provided." };
     }
 
-    const db = await getDatabase();
-    const bulkOps = updates.map(u => {
-      const $set: Record<string, any> = { rate: u.rate, gstPercent: u.gstPercent };
-      const $unset: Record<string, any> = {};
-      if (u.price !== undefined) {
-        $set.price = Number(u.price) || 0;
-        $unset.pricePerPiece = "";
-        $unset.pricePerMeter = "";
+    if (updates.some(u => !ObjectId.isValid(u.id))) {
+      return { success: false, message: "Material not found." };
+    }
+
+    const bulkOps = updates.map(u => ({
+      updateOne: {
+        filter: { _id: new ObjectId(u.id) },
+        update: { $set: materialFields({ rate: u.rate }) },
       }
-      const update: Record<string, any> = {};
-      if (Object.keys($set).length) update.$set = $set;
-      if (Object.keys($unset).length) update.$unset = $unset;
-      return {
-        updateOne: {
-          filter: { _id: new ObjectId(u.id) },
-          update,
-        }
-      };
+    }));
+    // Rates, and price and GST changes in the price history (effective today), are saved together.
+    await withTransaction(async (db, session) => {
+      await materialsCollection(db).bulkWrite(bulkOps, { session });
+      await recordPriceChanges(db, updates.map(u => ({ materialId: u.id, gstPercent: u.gstPercent, price: u.price })), { user: auth.user }, session);
     });
-    
-    await db.collection("materials").bulkWrite(bulkOps);
     revalidatePath("/stock/admin");
     return { success: true, message: "Pricing updated." };
   } catch (error) {
@@ -326,90 +363,29 @@ export async function updateMaterialsPricingAction(prevState: any, formData: For
   }
 }
 
-// Schema for validating new client data.
-const clientSchema = z.object({
-  name: z.string().min(1, "Client name is required."),
-  address: z.string().min(1, "Address is required."),
-  plantCapacity: z.string().min(1, "Plant capacity is required."),
-  consumerNo: z.string().length(12, "Consumer No. must be 12 digits."),
-});
-
-// Server action to add a new client. It is designed to be used with 'useActionState'.
-export async function addClientAction(prevState: any, formData: FormData) {
-  // Validate the form data against the client schema.
-  const validatedFields = clientSchema.safeParse({
-    name: formData.get("name"),
-    address: formData.get("address"),
-    plantCapacity: formData.get("plantCapacity"),
-    consumerNo: formData.get("consumerNo"),
-  });
-
-  // If validation fails, return the errors.
-  if (!validatedFields.success) {
-    return {
-      errors: validatedFields.error.flatten().fieldErrors,
-      message: "Invalid form data.",
-      success: false,
-    };
-  }
-
-  try {
-    const db = await getDatabase();
-    
-    // Check if the consumer number already exists
-    const consumerNo = validatedFields.data.consumerNo;
-    const existingClient = await db.collection("clients").findOne({ consumerNo });
-
-    if (existingClient) {
-      return {
-        success: false,
-        message: "A client with this consumer number already exists.",
-        errors: {
-          consumerNo: ["This consumer number is already in use."],
-        },
-      };
-    }
-
-    // Add a new document to the "clients" collection with the validated data.
-    const result = await db.collection("clients").insertOne({
-      name: validatedFields.data.name,
-      address: validatedFields.data.address,
-      plantCapacity: validatedFields.data.plantCapacity,
-      consumerNo: validatedFields.data.consumerNo,
-    });
-    
-    // Revalidate the client material page to ensure the new client appears in the grid.
-    revalidatePath("/client-material");
-    
-    // Return success status, a message, and the new client's ID.
-    // The ID can be be used on the client-side to redirect to the new client's detail page.
-    return { success: true, message: "Client added successfully.", clientId: result.insertedId.toString() };
-  } catch (error) {
-    // Log the error and return a failure message.
-    console.error("Error adding client:", error);
-    return { success: false, message: "Failed to add client." };
-  }
-}
-
-
 // Server action to seed the database with initial dummy data.
 // This function is designed to be called automatically if the database is found to be empty.
 export async function seedData() {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
   try {
     const db = await getDatabase();
     
     // First, perform a quick check to see if there's any data in the 'materials' collection.
-    const materialsCount = await db.collection("materials").countDocuments({}, { limit: 1 });
+    const materialsCount = await materialsCollection(db).countDocuments({}, { limit: 1 });
 
     // Only proceed to seed if the collection is empty.
     if (materialsCount === 0) {
         console.log("Database is empty. Seeding with mock data...");
         
         // Insert mock materials
-        await db.collection("materials").insertMany(mockMaterials);
+        await insertMaterials(db, mockMaterials);
         
         // Insert mock clients
-        await db.collection("clients").insertMany(mockClients);
+        await insertClients(db, mockClients);
+
+        // Give the seeded quantities their opening lines in the stock ledger.
+        await reconcileLedger(db, "opening", "Opening balance");
 
         // Revalidate all relevant paths to make sure the UI shows the new data immediately.
         revalidatePath('/dashboard');
@@ -432,11 +408,26 @@ export async function seedData() {
 const fillStockSchema = z.record(z.coerce.number().int().min(0, "Quantity must be a positive number."));
 
 export async function fillStockAction(prevState: any, formData: FormData) {
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error };
+
   const updates: Record<string, number> = {};
+  // Serial numbers of the received units, for serialized materials ("serials-<id>").
+  const serialInputs: Record<string, string> = {};
+  // Unit each quantity was entered in ("unit-<id>"); the base unit when absent.
+  const unitInputs: Record<string, string> = {};
+  // Purchase cost before GST per entered unit ("cost-<id>").
+  const costInputs: Record<string, number> = {};
   for (const [key, value] of formData.entries()) {
     if (key.startsWith("material-")) {
       const materialId = key.replace("material-", "");
       updates[materialId] = Number(value) || 0;
+    } else if (key.startsWith("serials-")) {
+      serialInputs[key.replace("serials-", "")] = String(value || "");
+    } else if (key.startsWith("unit-")) {
+      unitInputs[key.replace("unit-", "")] = String(value || "");
+    } else if (key.startsWith("cost-")) {
+      costInputs[key.replace("cost-", "")] = Number(value) || 0;
     }
   }
 
@@ -449,76 +440,67 @@ export async function fillStockAction(prevState: any, formData: FormData) {
     };
   }
 
-  const historyItems: { materialId: string; materialName: string; quantityAdded: number }[] = [];
-  let totalItemsAdded = 0;
-
   try {
-    const db = await getDatabase();
-    
-    for (const materialId in validatedFields.data) {
-      const quantityToAdd = validatedFields.data[materialId];
-      if (quantityToAdd > 0) {
-        const material = await db.collection("materials").findOne({ _id: new ObjectId(materialId) });
-
-        if (material) {
-          const currentQuantity = material.quantity;
-          const newQuantity = currentQuantity + quantityToAdd;
-          // Update stock quantity
-          await db.collection("materials").updateOne(
-            { _id: new ObjectId(materialId) },
-            { $set: { quantity: newQuantity } }
-          );
-
-          // Accumulate invested amounts ONLY for manual stock fill (this action)
-          const p = Number((material as any).price ?? 0) || 0;
-          const pp = Number((material as any).pricePerPiece ?? 0) || 0;
-          const pm = Number((material as any).pricePerMeter ?? 0) || 0;
-          const r = Number((material as any).rate ?? 0) || 0;
-          const unitPrice = p > 0 ? p : pp > 0 ? pp : pm > 0 ? pm : r > 0 ? r : 0;
-          const gstPercent = Number((material as any).gstPercent ?? 0) || 0;
-          const base = unitPrice * quantityToAdd;
-          const gst = (base * gstPercent) / 100;
-          const total = base + gst;
-          await db.collection("materials").updateOne(
-            { _id: new ObjectId(materialId) },
-            { $inc: { investedBase: base, investedGst: gst, investedTotal: total } }
-          );
-
-          historyItems.push({
-            materialId,
-            materialName: material.name,
-            quantityAdded: quantityToAdd
-          });
-          totalItemsAdded += quantityToAdd;
+    await ensureSerialIndexes(await getDatabase());
+    // All materials in one fill are received together, or not at all.
+    await withTransaction(async (db, session) => {
+      // Every line of one fill shares a batch id so the history can show it as one receipt.
+      const batchId = new ObjectId().toString();
+
+      for (const materialId in validatedFields.data) {
+        const entered = validatedFields.data[materialId];
+        if (entered <= 0 || !ObjectId.isValid(materialId)) continue;
+        const material = await materialsCollection(db).findOne(
+          { _id: new ObjectId(materialId) },
+          { session, projection: { name: 1, unit: 1, purchaseUnits: 1 } }
+        );
+        if (!material) continue;
+
+        // Quantities entered in a purchase unit are stored in the base unit.
+        const enteredUnit = unitInputs[materialId] || baseUnitOf(material);
+        const quantityToAdd = toBaseQty(material, entered, enteredUnit);
+        if (quantityToAdd === null) throw new StockError(`Unknown unit "${enteredUnit}" for ${material.name}.`);
+        if (!Number.isInteger(quantityToAdd)) {
+          throw new StockError(`${entered} ${enteredUnit} of ${material.name} is ${quantityToAdd} ${baseUnitOf(material)}; stock is kept in whole units.`);
         }
-      }
-    }
 
-    if (historyItems.length > 0) {
-      await db.collection("stockHistory").insertOne({
-        timestamp: new Date(),
-        items: historyItems,
-        totalItems: totalItemsAdded,
-      });
-    }
+        // Valued at what was paid, not the selling price: the cost is per entered unit.
+        const cost = costInputs[materialId] ?? 0;
+        if (!(cost > 0)) throw new StockError(`Enter the purchase cost per ${enteredUnit} for ${material.name}.`);
+
+        await receiveStock(db, {
+          materialId,
+          quantity: quantityToAdd,
+          kind: "fill",
+          unitPrice: (cost * entered) / quantityToAdd,
+          serials: serialInputs[materialId],
+          reason: enteredUnit === baseUnitOf(material) ? "Stock Fill" : `Stock Fill (${entered} ${enteredUnit})`,
+          batchId,
+          user: auth.user,
+        }, session);
+      }
+    });
 
     revalidatePath("/stock");
     revalidatePath("/dashboard");
     revalidatePath("/needs-to-buy");
     return { success: true, message: "Stock quantities updated successfully." };
   } catch (error: any) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
     console.error("Error filling stock:", error);
     return { success: false, message: error.message || "Failed to update stock." };
   }
 }
 
 export async function backupData() {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
   try {
     const db = await getDatabase();
     const backupObject: any = {};
 
     // 1. Backup materials
-    const materials = await db.collection("materials").find({}).toArray();
+    const materials = await materialsCollection(db).find({}).toArray();
     backupObject.materials = materials.map(doc => ({ 
       id: doc._id.toString(), 
       ...doc,
@@ -533,17 +515,109 @@ export async function backupData() {
       _id: undefined 
     }));
 
-    // 3. Backup clients and their material entries
-    const clients = await db.collection("clients").find({}).toArray();
+    // 3. Backup the stock ledger
+    const movements = await stockMovements(db).find({}).toArray();
+    backupObject.stockMovements = movements.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 4. Backup serial numbers of serialized materials
+    const serialNumbers = await db.collection("serial_numbers").find({}).toArray();
+    backupObject.serialNumbers = serialNumbers.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 5. Backup issued invoices and credit notes, and the company details on them
+    const invoices = await db.collection("invoices").find({}).toArray();
+    backupObject.invoices = invoices.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+    backupObject.companyProfile = await getCompanyProfile(db);
+    backupObject.costingMethod = await getCostingMethod(db);
+
+    // 6. Backup suppliers and purchase orders
+    const suppliers = await db.collection("suppliers").find({}).toArray();
+    backupObject.suppliers = suppliers.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+    const purchaseOrders = await db.collection("purchase_orders").find({}).toArray();
+    backupObject.purchaseOrders = purchaseOrders.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 7. Backup client projects (sites)
+    const projects = await db.collection("projects").find({}).toArray();
+    backupObject.projects = projects.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 8. Backup BOM templates
+    const bomTemplates = await db.collection("bom_templates").find({}).toArray();
+    backupObject.bomTemplates = bomTemplates.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 9. Backup stock reservations
+    const reservations = await db.collection("reservations").find({}).toArray();
+    backupObject.reservations = reservations.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 10. Backup stock locations and the transfers between them
+    const locations = await db.collection("locations").find({}).toArray();
+    backupObject.locations = locations.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+    const stockTransfers = await db.collection("stock_transfers").find({}).toArray();
+    backupObject.stockTransfers = stockTransfers.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 11. Backup stock counts
+    const stockCounts = await db.collection("stock_counts").find({}).toArray();
+    backupObject.stockCounts = stockCounts.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 12. Backup the price history of materials
+    const materialPrices = await db.collection("material_prices").find({}).toArray();
+    backupObject.materialPrices = materialPrices.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 13. Backup clients and their material entries
+    const clients = await clientsCollection(db).find({}).toArray();
     backupObject.clients = [];
     
     for (const client of clients) {
       const clientId = client._id.toString();
       
       // Get material entries for this client
-      const materialEntries = await db.collection("client_material_entries")
-        .find({ clientId })
-        .toArray();
+      const materialEntries = await findClientEntries(db, clientId);
       
       backupObject.clients.push({
         id: clientId,
@@ -557,6 +631,44 @@ export async function backupData() {
       });
     }
 
+    // 14. Backup client costing, with the discounts and charges entered on it, and its versions
+    const costings = await costingCollection(db).find({}).toArray();
+    backupObject.clientCostings = costings.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+    const costingVersions = await db.collection("client_costing_versions").find({}).toArray();
+    backupObject.clientCostingVersions = costingVersions.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 15. Backup payments received from clients
+    const payments = await db.collection("client_payments").find({}).toArray();
+    backupObject.clientPayments = payments.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 16. Backup the change history of client details
+    const clientAudit = await db.collection("client_audit").find({}).toArray();
+    backupObject.clientAudit = clientAudit.map(doc => ({
+      id: doc._id.toString(),
+      ...doc,
+      _id: undefined
+    }));
+
+    // 17. Backup the document number counters, so numbering carries on after a restore
+    const counters = await db.collection<{ _id: string; value: number }>("counters").find({}).toArray();
+    backupObject.counters = counters.map(doc => ({
+      id: doc._id,
+      ...doc,
+      _id: undefined
+    }));
+
     return { success: true, data: backupObject };
   } catch (error) {
     console.error("Error backing up data:", error);
@@ -568,9 +680,32 @@ const backupSchema = z.object({
   materials: z.array(z.any()),
   clients: z.array(z.any()),
   stockHistory: z.array(z.any()),
+  // Backups taken before the stock ledger existed do not have this.
+  stockMovements: z.array(z.any()).optional(),
+  serialNumbers: z.array(z.any()).optional(),
+  invoices: z.array(z.any()).optional(),
+  companyProfile: z.any().optional(),
+  costingMethod: z.enum(["weighted_average", "fifo"]).optional(),
+  suppliers: z.array(z.any()).optional(),
+  purchaseOrders: z.array(z.any()).optional(),
+  projects: z.array(z.any()).optional(),
+  bomTemplates: z.array(z.any()).optional(),
+  reservations: z.array(z.any()).optional(),
+  locations: z.array(z.any()).optional(),
+  stockTransfers: z.array(z.any()).optional(),
+  stockCounts: z.array(z.any()).optional(),
+  materialPrices: z.array(z.any()).optional(),
+  clientCostings: z.array(z.any()).optional(),
+  clientCostingVersions: z.array(z.any()).optional(),
+  clientPayments: z.array(z.any()).optional(),
+  clientAudit: z.array(z.any()).optional(),
+  counters: z.array(z.object({ id: z.string(), value: z.number() })).optional(),
 });
 
 export async function restoreData(backup: unknown) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+
   const validation = backupSchema.safeParse(backup);
   if (!validation.success) {
     console.error("Invalid backup file structure:", validation.error);
@@ -580,57 +715,278 @@ export async function restoreData(backup: unknown) {
 
   try {
     const db = await getDatabase();
-    
+
+    // Build and check every document before deleting anything, so a backup with a bad
+    // document fails with the old data still in place.
+    const materials = (data.materials as Material[]).map(material => {
+      const { id, ...rest } = material;
+      return { _id: new ObjectId(id), ...rest };
+    });
+
+    const stockHistory = (data.stockHistory as StockHistory[]).map(history => {
+      const { id, ...rest } = history;
+      return { 
+        _id: new ObjectId(id), 
+        ...rest,
+        timestamp: new Date(rest.timestamp)
+      };
+    });
+
+    const projects = ((data.projects ?? []) as Project[]).map(project => {
+      const { id, ...rest } = project;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        createdAt: new Date(rest.createdAt),
+        ...(rest.startDate ? { startDate: new Date(rest.startDate) } : {}),
+        ...(rest.endDate ? { endDate: new Date(rest.endDate) } : {}),
+      };
+    });
+
+    const bomTemplates = ((data.bomTemplates ?? []) as BomTemplate[]).map(template => {
+      const { id, ...rest } = template;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        createdAt: new Date(rest.createdAt),
+        ...(rest.updatedAt ? { updatedAt: new Date(rest.updatedAt) } : {}),
+      };
+    });
+
+    const reservations = ((data.reservations ?? []) as Reservation[]).map(reservation => {
+      const { id, ...rest } = reservation;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        expiresAt: new Date(rest.expiresAt),
+        createdAt: new Date(rest.createdAt),
+        ...(rest.scheduledFor ? { scheduledFor: new Date(rest.scheduledFor) } : {}),
+        ...(rest.closedAt ? { closedAt: new Date(rest.closedAt) } : {}),
+      };
+    });
+
+    // 'stockByLocation' on the materials refers to these ids.
+    const locations = ((data.locations ?? []) as StockLocation[]).map(location => {
+      const { id, ...rest } = location;
+      return { _id: new ObjectId(id), ...rest, createdAt: new Date(rest.createdAt) };
+    });
+
+    const stockTransfers = ((data.stockTransfers ?? []) as StockTransfer[]).map(transfer => {
+      const { id, ...rest } = transfer;
+      return { _id: new ObjectId(id), ...rest, date: new Date(rest.date) };
+    });
+
+    const stockCounts = ((data.stockCounts ?? []) as StockCount[]).map(count => {
+      const { id, ...rest } = count;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        lines: rest.lines.map(l => (l.countedAt ? { ...l, countedAt: new Date(l.countedAt) } : l)),
+        createdAt: new Date(rest.createdAt),
+        ...(rest.closedAt ? { closedAt: new Date(rest.closedAt) } : {}),
+      };
+    });
+
+    const materialPrices = ((data.materialPrices ?? []) as MaterialPrice[]).map(entry => {
+      const { id, ...rest } = entry;
+      return { _id: new ObjectId(id), ...rest, effectiveFrom: new Date(rest.effectiveFrom), changedAt: new Date(rest.changedAt) };
+    });
+
+    const clientCostings = ((data.clientCostings ?? []) as ClientCostingRecord[]).map(costing => {
+      const { id, ...rest } = costing;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        updatedAt: new Date(rest.updatedAt),
+        ...(rest.lockedAt ? { lockedAt: new Date(rest.lockedAt) } : {}),
+        ...(rest.staleAt ? { staleAt: new Date(rest.staleAt) } : {}),
+      };
+    });
+
+    const costingVersions = ((data.clientCostingVersions ?? []) as ClientCostingVersion[]).map(version => {
+      const { id, ...rest } = version;
+      return { _id: new ObjectId(id), ...rest, createdAt: new Date(rest.createdAt) };
+    });
+
+    const clientPayments = ((data.clientPayments ?? []) as ClientPayment[]).map(payment => {
+      const { id, ...rest } = payment;
+      return { _id: new ObjectId(id), ...rest, date: new Date(rest.date), createdAt: new Date(rest.createdAt) };
+    });
+
+    const clientAudit = ((data.clientAudit ?? []) as ClientAuditEntry[]).map(entry => {
+      const { id, ...rest } = entry;
+      return { _id: new ObjectId(id), ...rest, at: new Date(rest.at) };
+    });
+
+    const clients = (data.clients as any[]).map(client => {
+      const { id, materialEntries, ...rest } = client;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        ...(rest.archivedAt ? { archivedAt: new Date(rest.archivedAt) } : {}),
+      };
+    });
+    const materialEntries = (data.clients as any[]).flatMap(client =>
+      ((client.materialEntries ?? []) as ClientMaterialEntry[]).map(entry => {
+        const { id: entryId, ...entryRest } = entry;
+        return {
+          _id: new ObjectId(entryId),
+          ...entryRest,
+          date: new Date(entryRest.date as any),
+        };
+      })
+    );
+
+    const movements = ((data.stockMovements ?? []) as StockMovement[]).map(movement => {
+      const { id, ...rest } = movement;
+      return { _id: new ObjectId(id), ...rest, date: new Date(rest.date) };
+    });
+
+    const serialNumbers = ((data.serialNumbers ?? []) as SerialNumber[]).map(unit => {
+      const { id, ...rest } = unit;
+      return { _id: new ObjectId(id), ...rest, receivedAt: new Date(rest.receivedAt), updatedAt: new Date(rest.updatedAt) };
+    });
+
+    const invoices = ((data.invoices ?? []) as Invoice[]).map(invoice => {
+      const { id, ...rest } = invoice;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        date: new Date(rest.date),
+        ...(rest.voidedAt ? { voidedAt: new Date(rest.voidedAt) } : {}),
+      };
+    });
+
+    const suppliers = ((data.suppliers ?? []) as Supplier[]).map(supplier => {
+      const { id, ...rest } = supplier;
+      return { _id: new ObjectId(id), ...rest, ...(rest.createdAt ? { createdAt: new Date(rest.createdAt) } : {}) };
+    });
+
+    const purchaseOrders = ((data.purchaseOrders ?? []) as PurchaseOrder[]).map(po => {
+      const { id, ...rest } = po;
+      return {
+        _id: new ObjectId(id),
+        ...rest,
+        createdAt: new Date(rest.createdAt),
+        ...(rest.sentAt ? { sentAt: new Date(rest.sentAt) } : {}),
+        ...(rest.receivedAt ? { receivedAt: new Date(rest.receivedAt) } : {}),
+        receipts: (rest.receipts ?? []).map(r => ({ ...r, date: new Date(r.date) })),
+      };
+    });
+
+    checkMaterials(materials);
+    checkClients(clients);
+    checkCostings(clientCostings);
+    checkMovements(movements);
+
     console.log("Deleting old data...");
     // Delete all old data
-    await db.collection("materials").deleteMany({});
+    await materialsCollection(db).deleteMany({});
     await db.collection("stockHistory").deleteMany({});
-    await db.collection("clients").deleteMany({});
-    await db.collection("client_material_entries").deleteMany({});
+    await clientsCollection(db).deleteMany({});
+    await clientEntries(db).deleteMany({});
+    await stockMovements(db).deleteMany({});
+    await db.collection("serial_numbers").deleteMany({});
+    await db.collection("invoices").deleteMany({});
+    await db.collection("suppliers").deleteMany({});
+    await db.collection("purchase_orders").deleteMany({});
+    await db.collection("projects").deleteMany({});
+    await db.collection("bom_templates").deleteMany({});
+    await db.collection("reservations").deleteMany({});
+    await db.collection("locations").deleteMany({});
+    await db.collection("stock_transfers").deleteMany({});
+    await db.collection("stock_counts").deleteMany({});
+    await db.collection("material_prices").deleteMany({});
+    await costingCollection(db).deleteMany({});
+    await db.collection("client_costing_versions").deleteMany({});
+    await db.collection("client_payments").deleteMany({});
+    await db.collection("client_audit").deleteMany({});
     console.log("Old data deleted successfully.");
 
     console.log("Restoring new data...");
-    
-    // Restore materials
-    if (data.materials.length > 0) {
-      const materialsToInsert = (data.materials as Material[]).map(material => {
-        const { id, ...rest } = material;
-        return { _id: new ObjectId(id), ...rest };
-      });
-      await db.collection("materials").insertMany(materialsToInsert);
-    }
 
-    // Restore stock history
-    if (data.stockHistory.length > 0) {
-      const historyToInsert = (data.stockHistory as StockHistory[]).map(history => {
-        const { id, ...rest } = history;
-        return { 
-          _id: new ObjectId(id), 
-          ...rest,
-          timestamp: new Date(rest.timestamp)
-        };
-      });
-      await db.collection("stockHistory").insertMany(historyToInsert);
+    await insertMaterials(db, materials);
+    if (stockHistory.length > 0) {
+      await db.collection("stockHistory").insertMany(stockHistory);
+    }
+    if (projects.length > 0) {
+      await db.collection("projects").insertMany(projects);
+    }
+    if (bomTemplates.length > 0) {
+      await db.collection("bom_templates").insertMany(bomTemplates);
+    }
+    if (reservations.length > 0) {
+      await db.collection("reservations").insertMany(reservations);
+    }
+    if (locations.length > 0) {
+      await db.collection("locations").insertMany(locations);
+    }
+    if (stockTransfers.length > 0) {
+      await db.collection("stock_transfers").insertMany(stockTransfers);
+    }
+    if (stockCounts.length > 0) {
+      await db.collection("stock_counts").insertMany(stockCounts);
+    }
+    if (materialPrices.length > 0) {
+      await db.collection("material_prices").insertMany(materialPrices);
+    }
+    await insertCostings(db, clientCostings);
+    if (costingVersions.length > 0) {
+      await db.collection("client_costing_versions").insertMany(costingVersions);
+    }
+    if (clientPayments.length > 0) {
+      await db.collection("client_payments").insertMany(clientPayments);
+    }
+    if (clientAudit.length > 0) {
+      await db.collection("client_audit").insertMany(clientAudit);
     }
 
     // Restore clients and their material entries
-    for (const client of data.clients as any[]) {
-      const { id, materialEntries, ...rest } = client;
-      await db.collection("clients").insertOne({ _id: new ObjectId(id), ...rest });
-      
-      if (materialEntries && materialEntries.length > 0) {
-        const entriesToInsert = (materialEntries as ClientMaterialEntry[]).map(entry => {
-          const { id: entryId, ...entryRest } = entry;
-          return {
-            _id: new ObjectId(entryId),
-            ...entryRest,
-            date: new Date(entryRest.date as any),
-          };
-        });
-        await db.collection("client_material_entries").insertMany(entriesToInsert);
+    await insertClients(db, clients);
+    if (materialEntries.length > 0) {
+      // As they are: entries from before 'type' was stored would not pass the entry schema.
+      await clientEntries(db).insertMany(materialEntries);
+    }
+
+    // Restore the stock ledger, then bring in anything the backup only has in legacy
+    // form and correct any difference so the ledger matches the restored quantities.
+    if (movements.length > 0) {
+      await insertMovements(db, movements);
+    }
+    await importLegacyMovements(db);
+    await reconcileLedger(db, "restore", "Restored from backup");
+    await recountReserved(db);
+
+    if (serialNumbers.length > 0) {
+      await db.collection("serial_numbers").insertMany(serialNumbers);
+    }
+    if (invoices.length > 0) {
+      await db.collection("invoices").insertMany(invoices);
+    }
+    if (suppliers.length > 0) {
+      await db.collection("suppliers").insertMany(suppliers);
+    }
+    if (purchaseOrders.length > 0) {
+      await db.collection("purchase_orders").insertMany(purchaseOrders);
+    }
+    await recountPaid(db);
+
+    // Backups taken before counters were included leave the current counters as they are.
+    if (data.counters) {
+      const counters = db.collection<{ _id: string; value: number }>("counters");
+      await counters.deleteMany({});
+      if (data.counters.length > 0) {
+        await counters.insertMany(data.counters.map(({ id, value }) => ({ _id: id, value })));
       }
     }
 
+    if (data.companyProfile) {
+      await saveCompanyProfile(db, data.companyProfile as CompanyProfile);
+    }
+    if (data.costingMethod) {
+      await saveCostingMethod(db, data.costingMethod);
+    }
+
     console.log("New data restored successfully.");
 
     revalidatePath("/dashboard");
@@ -647,33 +1003,27 @@ export async function restoreData(backup: unknown) {
 
 // Quick stock adjustment actions
 export async function adjustMaterialQuantity(materialId: string, adjustment: number) {
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error };
   try {
-    const db = await getDatabase();
-    const material = await db.collection("materials").findOne({ _id: new ObjectId(materialId) });
-    
-    if (!material) {
-      return { success: false, message: "Material not found." };
-    }
-
-    const newQuantity = Math.max(0, material.quantity + adjustment);
-    
-    await db.collection("materials").updateOne(
-      { _id: new ObjectId(materialId) },
-      { $set: { quantity: newQuantity } }
-    );
-
-    // Record in stock history if it's an increase
-    if (adjustment > 0) {
-      await db.collection("stockHistory").insertOne({
-        timestamp: new Date(),
-        items: [{
-          materialId,
-          materialName: material.name,
-          quantityAdded: adjustment
-        }],
-        totalItems: adjustment,
-      });
-    }
+    const newQuantity = await withTransaction(async (db, session) => {
+      // Units of serialized materials can only move with their serial numbers.
+      const material = ObjectId.isValid(materialId)
+        ? await materialsCollection(db).findOne({ _id: new ObjectId(materialId) }, { session, projection: { serialized: 1 } })
+        : null;
+      if (material?.serialized) {
+        throw new StockError("This material is serialized. Use In/Out and enter the serial numbers.");
+      }
+      const { change } = await moveStock(db, {
+        materialId,
+        kind: adjustment >= 0 ? "in" : "out",
+        delta: adjustment,
+        clamp: true,
+        reason: "Quick adjustment",
+        user: auth.user,
+      }, session);
+      return change.next;
+    });
 
     revalidatePath("/stock");
     revalidatePath("/dashboard");
@@ -681,6 +1031,7 @@ export async function adjustMaterialQuantity(materialId: string, adjustment: num
     
     return { success: true, newQuantity };
   } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
     console.error("Error adjusting material quantity:", error);
     return { success: false, message: "Failed to adjust quantity." };
   }
@@ -688,22 +1039,25 @@ export async function adjustMaterialQuantity(materialId: string, adjustment: num
 
 // Absolute set: material quantity
 export async function setMaterialQuantity(materialId: string, newQuantity: number) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
   try {
-    const db = await getDatabase();
     if (!materialId || !Number.isFinite(newQuantity) || newQuantity < 0) {
       return { success: false, message: "Invalid quantity." };
     }
-    const material = await db.collection("materials").findOne({ _id: new ObjectId(materialId) });
-    if (!material) return { success: false, message: "Material not found." };
-    await db.collection("materials").updateOne(
-      { _id: new ObjectId(materialId) },
-      { $set: { quantity: Math.floor(newQuantity) } }
-    );
+    await withTransaction((db, session) => moveStock(db, {
+      materialId,
+      kind: "set",
+      setTo: Math.floor(newQuantity),
+      reason: "Quantity set by owner",
+      user: auth.user,
+    }, session));
     revalidatePath("/stock");
     revalidatePath("/dashboard");
     revalidatePath("/needs-to-buy");
     return { success: true };
   } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
     console.error("Error setting material quantity:", error);
     return { success: false, message: "Failed to set quantity." };
   }
@@ -726,22 +1080,16 @@ const materialPriceSchema = z.object({
 });
 
 export async function setMaterialPrices(materialId: string, price?: number) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
   try {
-    const db = await getDatabase();
-    const setUpdate: Record<string, any> = {};
-    const unsetUpdate: Record<string, any> = {};
-    if (price !== undefined && Number.isFinite(price) && price > 0) {
-      setUpdate.price = price;
-      unsetUpdate.pricePerPiece = "";
-      unsetUpdate.pricePerMeter = "";
-    }
-    if (Object.keys(setUpdate).length === 0 && Object.keys(unsetUpdate).length === 0) {
+    if (price === undefined || !Number.isFinite(price) || price <= 0) {
       return { success: false, message: "No price fields provided." };
     }
-    await db.collection("materials").updateOne(
-      { _id: new ObjectId(materialId) },
-      { ...(Object.keys(setUpdate).length ? { $set: setUpdate } : {}), ...(Object.keys(unsetUpdate).length ? { $unset: unsetUpdate } : {}) }
-    );
+    // Recorded in the price history, effective today; earlier dispatches keep their price.
+    await withTransaction(async (db, session) => {
+      await recordPriceChanges(db, [{ materialId, price }], { user: auth.user }, session);
+    });
     // Avoid revalidating paths here to prevent input resets while typing
     return { success: true };
   } catch (error) {
@@ -767,6 +1115,8 @@ export async function setMaterialPricesAction(prevState: any, formData: FormData
 // Client-specific In/Out that also updates client usage and costing
 export async function clientStockAdjustmentAction(prevState: any, formData: FormData) {
   const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
   
   const data = {
     clientId: formData.get("clientId"),
@@ -775,6 +1125,9 @@ export async function clientStockAdjustmentAction(prevState: any, formData: Form
     quantity: formData.get("quantity"),
     type: formData.get("type"),
     reason: formData.get("reason"),
+    serialNumbers: formData.get("serialNumbers"),
+    projectId: formData.get("projectId"),
+    locationId: formData.get("locationId"),
   };
   
   console.log("clientStockAdjustmentAction received:", data);
@@ -790,124 +1143,28 @@ export async function clientStockAdjustmentAction(prevState: any, formData: Form
       submissionId,
     };
   }
-  const { clientId, materialId, materialName, quantity, type, reason } = validated.data;
+  const { clientId, materialId, materialName, quantity, type, reason, serialNumbers, projectId: rawProjectId, locationId } = validated.data;
 
   try {
-    const db = await getDatabase();
-    
-    // For IN type, validate that IN quantity doesn't exceed OUT quantity
-    if (type === 'in') {
-      const entries = await db.collection('client_material_entries').find({ clientId }).toArray();
-      let totalOut = 0;
-      let totalIn = 0;
-      
-      for (const entry of entries as any[]) {
-        const entryType = String(entry.type || 'out');
-        const items: any[] = Array.isArray(entry.materials) ? entry.materials : [];
-        
-        for (const item of items) {
-          const itemMaterialId = String(item.materialId || '');
-          if (itemMaterialId === materialId) {
-            const qty = Number(item.quantity) || 0;
-            if (entryType === 'out') {
-              totalOut += qty;
-            } else if (entryType === 'in') {
-              totalIn += qty;
-            }
-          }
-        }
-      }
-      
-      const maxAllowedIn = totalOut - totalIn;
-      if (quantity > maxAllowedIn) {
-        return { 
-          success: false, 
-          message: `Cannot return more than taken. Max returnable: ${maxAllowedIn} (OUT: ${totalOut}, IN: ${totalIn})`, 
-          submissionId 
-        };
-      }
-    }
-    
-    // Adjust global stock same as normal action
-    const material = await db.collection('materials').findOne({ _id: new ObjectId(materialId) });
-    if (!material) {
-      return { success: false, message: "Material not found.", submissionId };
-    }
-    const currentStock = material.quantity || 0;
-    let newStock: number;
-    if (type === 'in') {
-      newStock = currentStock + quantity;
-    } else {
-      if (quantity > currentStock) {
-        return { success: false, message: `Insufficient stock. Available: ${currentStock}, Requested: ${quantity}`, submissionId };
-      }
-      newStock = currentStock - quantity;
-    }
-    await db.collection('materials').updateOne({ _id: new ObjectId(materialId) }, { $set: { quantity: newStock } });
-    // Record client entry
-    await db.collection('client_material_entries').insertOne({
+    await ensureSerialIndexes(await getDatabase());
+    // The returnable-quantity check, stock change, client entry and costing snapshot
+    // are one transaction (see 'bookClientEntry').
+    const { newStock } = await withTransaction((db, session) => bookClientEntry(db, {
       clientId,
+      materialId,
+      materialName,
+      quantity,
       type,
-      date: new Date(),
-      reason: reason || (type === 'in' ? 'Client Return' : 'Client Dispatch'),
-      materials: [
-        { materialId, materialName, quantity }
-      ],
-    });
-    // Recompute client costing and upsert snapshot for quick load
-    const entries = await db.collection('client_material_entries').find({ clientId }).toArray();
-    const usageMap = new Map<string, { name: string; qty: number }>();
-    for (const entry of entries as any[]) {
-      const sign = entry.type === 'in' ? -1 : 1;
-      const items: any[] = Array.isArray(entry.materials) ? entry.materials : [];
-      for (const it of items) {
-        const mid = String(it.materialId || '');
-        if (!mid) continue;
-        const name = String(it.materialName || '');
-        const q = Number(it.quantity) || 0;
-        const prev = usageMap.get(mid) || { name, qty: 0 };
-        usageMap.set(mid, { name: prev.name || name, qty: prev.qty + sign * q });
-      }
-    }
-    const materialIds = Array.from(usageMap.keys());
-    const validObjIds = materialIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
-    const mats = validObjIds.length > 0 ? await db.collection('materials').find({ _id: { $in: validObjIds } }).toArray() : [];
-    const byId: Record<string, any> = {};
-    const byName: Record<string, any> = {};
-    for (const m of mats) { byId[m._id.toString()] = m; if (m.name) byName[String(m.name).toLowerCase()] = m; }
-    const items = materialIds.map(id => {
-      const u = usageMap.get(id)!;
-      const qty = Math.max(0, Number(u.qty) || 0);
-      let m = byId[id] || {};
-      if (!m || Object.keys(m).length === 0) {
-        const key = String(u.name || '').toLowerCase();
-        if (key && byName[key]) m = byName[key];
-      }
-      const p = Number(m?.price ?? 0) || 0;
-      const pp = Number(m?.pricePerPiece ?? 0) || 0;
-      const pm = Number(m?.pricePerMeter ?? 0) || 0;
-      const r = Number(m?.rate ?? 0) || 0;
-      const unitPrice = p > 0 ? p : pp > 0 ? pp : pm > 0 ? pm : r > 0 ? r : 0;
-      const gstPercent = Number(m.gstPercent) || 0;
-      const base = qty * unitPrice;
-      const gst = base * (gstPercent / 100);
-      const total = base + gst;
-      return { materialId: id, name: u.name || m.name || '', qty, rate: unitPrice, gstPercent, base, gst, total };
-    }).filter(r => r.qty > 0).sort((a, b) => a.name.localeCompare(b.name));
-    const beforeTax = items.reduce((s, r) => s + r.base, 0);
-    const gstSum = items.reduce((s, r) => s + r.gst, 0);
-    const grand = beforeTax + gstSum;
-    await db.collection('client_costing').updateOne(
-      { clientId },
-      { $set: { clientId, items, beforeTax, gst: gstSum, grand, updatedAt: new Date() } },
-      { upsert: true }
-    );
+      reason,
+      serialNumbers,
+      projectId: rawProjectId,
+      locationId,
+    }, auth.user, session));
 
     // Revalidate
     revalidatePath(`/client-costing/${clientId}`);
     revalidatePath(`/client-material`);
     revalidatePath(`/client-material/${clientId}`);
-    revalidatePath(`/client-material/${clientId}`);
     revalidatePath('/stock');
     return {
       success: true,
@@ -915,7 +1172,84 @@ export async function clientStockAdjustmentAction(prevState: any, formData: Form
       submissionId,
     };
   } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId };
+    }
     console.error('Error in client stock adjustment:', error);
     return { success: false, message: 'Server error occurred. Please try again.', submissionId };
   }
 }
+
+// Stock ledger maintenance (owner). Migration imports the old 'stockHistory' and client
+// entry records into 'stock_movements' and writes an opening line for whatever quantity
+// those records do not explain. Running it again only picks up what is still missing.
+export async function migrateStockLedgerAction() {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  try {
+    const db = await getDatabase();
+    await ensureLedgerIndexes(db);
+    const imported = await importLegacyMovements(db);
+    const opened = await reconcileLedger(db, "opening", "Opening balance (ledger migration)", { onlyWithoutOpening: true });
+    const mismatches = await findLedgerMismatches(db);
+    revalidatePath("/stock");
+    return {
+      success: true,
+      message: `Imported ${imported} movement(s), wrote ${opened} opening balance(s).`,
+      mismatches,
+    };
+  } catch (error) {
+    console.error("Error migrating stock ledger:", error);
+    return { success: false, message: "Failed to migrate the stock ledger." };
+  }
+}
+
+// Checks that every material's quantity equals the sum of its ledger lines.
+export async function verifyStockLedgerAction() {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  try {
+    const db = await getDatabase();
+    const mismatches = await findLedgerMismatches(db);
+    return {
+      success: true,
+      message: mismatches.length === 0
+        ? "All material quantities match the stock ledger."
+        : `${mismatches.length} material(s) do not match the stock ledger.`,
+      mismatches,
+    };
+  } catch (error) {
+    console.error("Error verifying stock ledger:", error);
+    return { success: false, message: "Failed to verify the stock ledger." };
+  }
+}
+
+// Turn serial tracking on or off for a material (owner). Units already in stock need
+// their serial numbers when tracking is switched on, one per unit.
+export async function setMaterialSerializedAction(materialId: string, serialized: boolean, serialNumbers?: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  try {
+    await ensureSerialIndexes(await getDatabase());
+    await withTransaction(async (db, session) => {
+      if (!ObjectId.isValid(materialId)) throw new StockError("Material not found.");
+      const material = await materialsCollection(db).findOne({ _id: new ObjectId(materialId) }, { session });
+      if (!material) throw new StockError("Material not found.");
+      if (serialized && !material.serialized) {
+        const name = String(material.name || "");
+        const inStock = await db.collection("serial_numbers").countDocuments({ materialId, status: "in_stock" }, { session });
+        const missing = Math.max(0, (Number(material.quantity) || 0) - inStock);
+        const serials = requireSerials(serialNumbers, missing, name);
+        await receiveSerials(db, { materialId, materialName: name, serials }, session);
+      }
+      await materialsCollection(db).updateOne({ _id: material._id }, { $set: materialFields({ serialized }) }, { session });
+    });
+    revalidatePath("/stock");
+    revalidatePath("/stock/admin");
+    return { success: true, message: serialized ? "Serial tracking enabled." : "Serial tracking disabled." };
+  } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
+    console.error("Error updating serial tracking:", error);
+    return { success: false, message: "Failed to update serial tracking." };
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+
+// Returns the signed-in user so client components can mirror the server's permissions.
+export async function GET() {
+  const user = await getSessionUser();
+  return NextResponse.json({ user });
+}
@@ -1,91 +1,34 @@
 import { NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
+import { getDatabase, withTransaction } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { computeClientCosting, costingCollection, costingFilter, priceCostRows, saveCostingVersion, toClientCosting, type CostRowEdit } from '@/lib/client-costing';
+import { costCharge, costingTotals } from '@/lib/costing-totals';
+import { z } from 'zod';
 
+// Both methods take an optional ?projectId= to work on one project's (site's) costing
+// instead of the client roll-up.
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ clientId: string }> }
 ) {
   try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
     const { clientId } = await params;
+    const projectId = new URL(req.url).searchParams.get('projectId') || null;
     const db = await getDatabase();
 
-    const existing = await db.collection('client_costing').findOne({ clientId });
-    if (existing) {
-      const { _id, ...rest } = existing;
-      return NextResponse.json({ id: _id.toString(), ...rest });
-    }
-
-    // If no saved costing, compute defaults from client material entries (Out - In)
-    const entries = await db
-      .collection('client_material_entries')
-      .find({ clientId })
-      .toArray();
-
-    const usageMap = new Map<string, { name: string; qty: number }>();
-    for (const entry of entries as any[]) {
-      const type = String(entry.type || 'out');
-      const sign = type === 'in' ? -1 : 1;
-      const items: any[] = Array.isArray(entry.materials) ? entry.materials : [];
-      for (const it of items) {
-        const materialId = String(it.materialId || '');
-        if (!materialId) continue;
-        const name = String(it.materialName || '');
-        const qty = Number(it.quantity) || 0;
-        const prev = usageMap.get(materialId) || { name, qty: 0 };
-        const nextQty = prev.qty + sign * qty;
-        usageMap.set(materialId, { name: prev.name || name, qty: nextQty });
-      }
-    }
-
-    // Join with materials for rate and gstPercent
-    const materialIds = Array.from(usageMap.keys());
-    let materialsById: Record<string, any> = {};
-    let materialsByName: Record<string, any> = {};
-    if (materialIds.length > 0) {
-      const validObjIds = materialIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
-      if (validObjIds.length > 0) {
-        const mats = await db
-          .collection('materials')
-          .find({ _id: { $in: validObjIds } })
-          .toArray();
-        for (const m of mats) {
-          materialsById[m._id.toString()] = m;
-          if (m.name) materialsByName[String(m.name).toLowerCase()] = m;
-        }
-      }
-    }
+    const existing = await costingCollection(db).findOne(costingFilter(clientId, projectId));
+    if (existing) return NextResponse.json(toClientCosting(existing));
 
-    const items = materialIds
-      .map(id => {
-        const usage = usageMap.get(id)!;
-        const qty = Math.max(0, Number(usage.qty) || 0);
-        let mat = materialsById[id] || {};
-        if (!mat || Object.keys(mat).length === 0) {
-          // Fallback by name if available
-          const key = String(usage.name || '').toLowerCase();
-          if (key && materialsByName[key]) mat = materialsByName[key];
-        }
-        const unitPrice = Number(mat?.price ?? mat?.pricePerPiece ?? mat?.pricePerMeter ?? 0) || 0;
-        const gstPercent = Number(mat.gstPercent) || 0;
-        const base = qty * unitPrice;
-        const gst = base * (gstPercent / 100);
-        const total = base + gst;
-        return { materialId: id, name: usage.name || mat.name || '', qty, rate: unitPrice, gstPercent, base, gst, total };
-      })
-      .filter(r => r.qty > 0)
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    const beforeTax = items.reduce((s, r) => s + r.base, 0);
-    const gst = items.reduce((s, r) => s + r.gst, 0);
-    const grand = beforeTax + gst;
+    // If no saved costing, compute it from the client's entries (Out - In) at dated prices.
+    const costing = await computeClientCosting(db, clientId, projectId);
 
     return NextResponse.json({
       clientId,
-      items,
-      beforeTax,
-      gst,
-      grand,
+      projectId,
+      ...costing,
       updatedAt: new Date().toISOString(),
     });
   } catch (error) {
@@ -94,59 +37,73 @@ export async function GET(
   }
 }
 
+const nonNegative = (message: string) => z.coerce.number().finite().min(0, message).default(0);
+const percent = (label: string) => nonNegative(`${label} cannot be negative.`).pipe(z.number().max(100, `${label} cannot be more than 100%.`));
+
+// Only quantities and percentages come from the page; rates and amounts are worked out here.
+const saveSchema = z.object({
+  items: z.array(z.object({
+    materialId: z.string().default(''),
+    qty: nonNegative('Quantities cannot be negative.'),
+    rate: nonNegative('Rates cannot be negative.'),
+    discountPercent: percent('Discount'),
+    gstPercent: percent('GST'),
+  })).default([]),
+  charges: z.array(z.object({
+    label: z.string().default(''),
+    sacCode: z.string().nullish(),
+    amount: nonNegative('Charges cannot be negative.'),
+    gstPercent: percent('GST'),
+  })).default([]),
+  discountPercent: percent('Discount'),
+  reason: z.string().optional(),
+});
+
 export async function PUT(
   req: Request,
   { params }: { params: Promise<{ clientId: string }> }
 ) {
   try {
+    const auth = await authorize('owner');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
     const { clientId } = await params;
-    const body = await req.json();
-    const items = Array.isArray(body?.items) ? body.items : [];
+    const projectId = new URL(req.url).searchParams.get('projectId') || null;
+    const parsed = saveSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+    const body = parsed.data;
 
-    // Recompute amounts server-side
-    const computedItems = items.map((it: any) => {
-      const qty = Number(it.qty) || 0;
-      const rate = Number(it.rate) || 0;
-      const gstPercent = Number(it.gstPercent) || 0;
-      const base = qty * rate;
-      const gst = base * (gstPercent / 100);
-      const total = base + gst;
-      return {
-        materialId: String(it.materialId || ''),
-        name: String(it.name || ''),
-        qty,
-        rate,
-        gstPercent,
-        base,
-        gst,
-        total,
-      };
-    });
+    const edits: CostRowEdit[] = body.items
+      .map(it => ({
+        materialId: it.materialId,
+        qty: it.qty,
+        rate: it.rate,
+        discountPercent: it.discountPercent,
+        gstPercent: it.gstPercent,
+      }))
+      .filter(it => it.materialId);
+    const computedCharges = body.charges
+      .map(c => costCharge({ label: c.label, sacCode: c.sacCode, amount: c.amount, gstPercent: c.gstPercent }))
+      .filter(c => c.label && c.amount > 0);
 
-    const beforeTax = computedItems.reduce((s: number, r: any) => s + r.base, 0);
-    const gst = computedItems.reduce((s: number, r: any) => s + r.gst, 0);
-    const grand = beforeTax + gst;
+    const reason = body.reason?.trim() || 'Edited on costing page';
 
-    const doc = {
-      clientId,
-      items: computedItems,
-      beforeTax,
-      gst,
-      grand,
-      updatedAt: new Date(),
-    };
-
-    const db = await getDatabase();
-    const res = await db.collection('client_costing').findOneAndUpdate(
-      { clientId },
-      { $set: doc },
-      { upsert: true, returnDocument: 'after' as any }
-    );
+    // Saved as a new version; an approved (locked) costing has to be unlocked first.
+    const saved = await withTransaction(async (db, session) => {
+      const current = await costingCollection(db).findOne(costingFilter(clientId, projectId), { session });
+      if (current?.locked) return null;
+      const computedItems = await priceCostRows(db, clientId, projectId, edits, session);
+      const totals = costingTotals(computedItems, { discountPercent: body.discountPercent, charges: computedCharges });
+      await saveCostingVersion(db, clientId, projectId, { items: computedItems, ...totals }, { source: 'manual', reason, user: auth.user }, session);
+      return costingCollection(db).findOne(costingFilter(clientId, projectId), { session });
+    });
+    if (!saved) {
+      return NextResponse.json({ error: 'This costing is approved and locked. Unlock it to make changes.' }, { status: 409 });
+    }
 
-    const saved = res.value || (await db.collection('client_costing').findOne({ clientId }));
-    if (!saved) throw new Error('Failed to save');
-    const { _id, ...rest } = saved as any;
-    return NextResponse.json({ id: _id.toString(), ...rest });
+    return NextResponse.json(toClientCosting(saved));
   } catch (error) {
     console.error('Error saving client costing:', error);
     return NextResponse.json({ error: 'Failed to save client costing' }, { status: 500 });
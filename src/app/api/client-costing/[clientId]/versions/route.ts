@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { costingFilter } from '@/lib/client-costing';
+
+// Saved versions of a client's costing (or one project's with ?projectId=), newest first.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ clientId: string }> }
+) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { clientId } = await params;
+    const projectId = new URL(req.url).searchParams.get('projectId') || null;
+    const db = await getDatabase();
+    const docs = await db.collection('client_costing_versions')
+      .find(costingFilter(clientId, projectId))
+      .sort({ version: -1 })
+      .limit(100)
+      .toArray();
+    return NextResponse.json({ versions: docs.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest })) });
+  } catch (error) {
+    console.error('Error fetching costing versions:', error);
+    return NextResponse.json({ error: 'Failed to fetch costing versions' }, { status: 500 });
+  }
+}
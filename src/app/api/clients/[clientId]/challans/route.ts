@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { clientEntries, toClientEntry } from '@/lib/client-material-entries';
+
+// Dispatch challans for a client, newest first.
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ clientId: string }> }
+) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { clientId } = await params;
+    const db = await getDatabase();
+    const entries = await clientEntries(db)
+      .find({ clientId, challanNo: { $exists: true } })
+      .sort({ date: -1 })
+      .toArray();
+
+    const challans = entries.map(toClientEntry);
+    return NextResponse.json({ challans });
+  } catch (error) {
+    console.error('Error fetching challans:', error);
+    return NextResponse.json({ error: 'Failed to fetch challans' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+
+// Tax invoices and credit notes issued to a client, newest first.
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ clientId: string }> }
+) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { clientId } = await params;
+    const db = await getDatabase();
+    const docs = await db
+      .collection('invoices')
+      .find({ clientId })
+      .sort({ date: -1 })
+      .toArray();
+
+    const invoices = docs.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest }));
+    return NextResponse.json({ invoices });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return NextResponse.json({ error: 'Failed to fetch invoices' }, { status: 500 });
+  }
+}
@@ -1,51 +1,25 @@
 import { NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { findClientEntries } from '@/lib/client-material-entries';
+import { materialUsage } from '@/lib/usage';
 
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ clientId: string }> }
 ) {
   try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
     const { clientId } = await params;
+    // Optional ?projectId= limits the usage to one project (site) of the client.
+    const projectId = new URL(req.url).searchParams.get('projectId');
     const db = await getDatabase();
 
-    // Fetch all client material entries
-    const entries = await db
-      .collection('client_material_entries')
-      .find({ clientId })
-      .toArray();
-
-    // Calculate per-material usage: OUT - IN
-    const usageMap = new Map<string, { outQty: number; inQty: number }>();
-
-    for (const entry of entries as any[]) {
-      const type = String(entry.type || 'out');
-      const items: any[] = Array.isArray(entry.materials) ? entry.materials : [];
-      
-      for (const item of items) {
-        const materialId = String(item.materialId || '');
-        if (!materialId) continue;
-        
-        const qty = Number(item.quantity) || 0;
-        const current = usageMap.get(materialId) || { outQty: 0, inQty: 0 };
-        
-        if (type === 'out') {
-          current.outQty += qty;
-        } else if (type === 'in') {
-          current.inQty += qty;
-        }
-        
-        usageMap.set(materialId, current);
-      }
-    }
-
-    // Convert to array format
-    const usage = Array.from(usageMap.entries()).map(([materialId, data]) => ({
-      materialId,
-      outQty: data.outQty,
-      inQty: data.inQty,
-      netQty: data.outQty - data.inQty,
-    }));
+    // Per-material usage: OUT - IN
+    const entries = await findClientEntries(db, clientId, { projectId });
+    const usage = materialUsage(entries);
 
     return NextResponse.json({ usage });
   } catch (error) {
@@ -1,39 +1,23 @@
 import { NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { findClientEntries } from '@/lib/client-material-entries';
+import { materialUsage, usageTotals } from '@/lib/usage';
 
 export async function GET(
   _req: Request,
   { params }: { params: Promise<{ clientId: string }> }
 ) {
   try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
     const { clientId } = await params;
     const db = await getDatabase();
 
-    // Fetch all client material entries
-    const entries = await db
-      .collection('client_material_entries')
-      .find({ clientId })
-      .toArray();
-
-    // Calculate net quantity: OUT - IN
-    let totalOut = 0;
-    let totalIn = 0;
-
-    for (const entry of entries as any[]) {
-      const type = String(entry.type || 'out');
-      const items: any[] = Array.isArray(entry.materials) ? entry.materials : [];
-      
-      for (const item of items) {
-        const qty = Number(item.quantity) || 0;
-        if (type === 'out') {
-          totalOut += qty;
-        } else if (type === 'in') {
-          totalIn += qty;
-        }
-      }
-    }
-
-    const netQuantity = totalOut - totalIn;
+    // Net quantity: OUT - IN over all materials
+    const entries = await findClientEntries(db, clientId);
+    const { netQuantity, totalOut, totalIn } = usageTotals(materialUsage(entries));
 
     return NextResponse.json({ netQuantity, totalOut, totalIn });
   } catch (error) {
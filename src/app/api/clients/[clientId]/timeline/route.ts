@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { getClientTimeline } from '@/lib/clients';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// The client's entries in date order with the running net holding.
+// Optional ?materialId= narrows it to one material; ?from= and ?to= (YYYY-MM-DD) to a date range.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ clientId: string }> }
+) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { clientId } = await params;
+    const query = new URL(req.url).searchParams;
+    const from = query.get('from');
+    const to = query.get('to');
+    if ((from && !DAY.test(from)) || (to && !DAY.test(to))) {
+      return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const db = await getDatabase();
+    const timeline = await getClientTimeline(db, clientId, { materialId: query.get('materialId'), from, to });
+    return NextResponse.json(timeline);
+  } catch (error) {
+    console.error('Error fetching client timeline:', error);
+    return NextResponse.json({ error: 'Failed to fetch client timeline' }, { status: 500 });
+  }
+}
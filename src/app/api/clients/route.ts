@@ -1,26 +1,54 @@
 import { NextResponse } from 'next/server';
+import { ObjectId, type Filter } from 'mongodb';
 import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { getClientBalances } from '@/lib/client-payments';
+import { clientsCollection, ensureClientIndexes, toClient, type ClientDoc } from '@/lib/clients';
+import { parsePage, parseSort, searchPattern } from '@/lib/paging';
 
-export async function GET() {
+const SORTS = ['name', 'consumerNo', 'added'] as const;
+const VIEWS = ['active', 'dues', 'archived', 'all'] as const;
+
+// Clients with their outstanding balance, by name.
+// Optional query: ?q= (name or consumer no.), ?view=active|dues|archived|all (default all),
+// ?sort=name|consumerNo|added&order=asc|desc, and ?page=&pageSize= for one page
+// ({ items, total, page, pageSize }) instead of the whole list.
+export async function GET(request: Request) {
   try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { searchParams } = new URL(request.url);
+    const view = VIEWS.find(v => v === searchParams.get('view')) ?? 'all';
+    const { key, direction } = parseSort(searchParams, SORTS, 'name');
+    const paging = parsePage(searchParams);
+
     const db = await getDatabase();
-    const clients = await db
-      .collection('clients')
-      .find({})
-      .sort({ name: 1 })
-      .toArray();
-
-    // Convert MongoDB _id to id for consistency
-    const formattedClients = clients.map(client => ({
-      id: client._id.toString(),
-      name: client.name,
-      consumerNo: client.consumerNo,
-      avatarUrl: client.avatarUrl,
-      address: client.address,
-      plantCapacity: client.plantCapacity,
-    }));
-
-    return NextResponse.json(formattedClients);
+    await ensureClientIndexes(db);
+    const balances = await getClientBalances(db);
+
+    const filter: Filter<ClientDoc> = {};
+    const pattern = searchPattern(searchParams.get('q'));
+    if (pattern) filter.$or = [{ name: pattern }, { consumerNo: pattern }];
+    if (view === 'archived') filter.archived = true;
+    else if (view !== 'all') filter.archived = { $ne: true };
+    if (view === 'dues') {
+      const owing = [...balances].filter(([, b]) => b.outstanding > 0).map(([id]) => id).filter(id => ObjectId.isValid(id));
+      filter._id = { $in: owing.map(id => new ObjectId(id)) };
+    }
+
+    const sort: Record<string, 1 | -1> = key === 'added' ? { _id: direction } : { [key]: direction, _id: 1 };
+    const cursor = clientsCollection(db).find(filter).sort(sort);
+    if (paging) cursor.skip(paging.skip).limit(paging.pageSize);
+    const [clients, total] = await Promise.all([
+      cursor.toArray(),
+      paging ? clientsCollection(db).countDocuments(filter) : Promise.resolve(0),
+    ]);
+
+    const formattedClients = clients.map(client => toClient(client, balances.get(client._id.toString())?.outstanding));
+
+    if (!paging) return NextResponse.json(formattedClients);
+    return NextResponse.json({ items: formattedClients, total, page: paging.page, pageSize: paging.pageSize });
   } catch (error) {
     console.error('Error fetching clients:', error);
     return NextResponse.json(
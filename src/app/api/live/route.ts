@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { subscribeLive } from '@/lib/live-events';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 25000;
+
+// Server-sent events with the changes to materials, clients and the stock ledger (see
+// lib/live). Each message is one JSON LiveEvent. Responds 503 when change streams are
+// not available; the browser then keeps polling.
+export async function GET(request: Request) {
+  const auth = await authorize('viewer');
+  if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      stop();
+    },
+  });
+  const send = (text: string) => {
+    try {
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      stop();
+    }
+  };
+
+  let unsubscribe: () => void;
+  try {
+    unsubscribe = await subscribeLive(event => {
+      if (event) send(`data: ${JSON.stringify(event)}\n\n`);
+      else stop();  // The change stream failed; the browser reconnects.
+    });
+  } catch (error) {
+    console.error('Live updates unavailable:', error);
+    return NextResponse.json({ error: 'Live updates are unavailable' }, { status: 503 });
+  }
+
+  // Comments keep proxies from closing an idle connection.
+  const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+  stop = () => {
+    stop = () => {};
+    clearInterval(heartbeat);
+    unsubscribe();
+    try {
+      controller.close();
+    } catch {
+      // Already closed by the browser.
+    }
+  };
+  request.signal.addEventListener('abort', () => stop());
+  // Reconnect after 10 seconds if the connection drops.
+  send('retry: 10000\n\n');
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
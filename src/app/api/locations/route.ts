@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { getLocations } from '@/lib/locations';
+
+export async function GET() {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const locations = await getLocations(await getDatabase());
+    return NextResponse.json(locations);
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch locations' },
+      { status: 500 }
+    );
+  }
+}
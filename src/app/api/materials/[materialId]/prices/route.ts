@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { getPriceHistory } from '@/lib/material-prices';
+
+// Price history of one material, oldest first. Empty when its price was never changed.
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ materialId: string }> }
+) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { materialId } = await params;
+    const db = await getDatabase();
+    const history = await getPriceHistory(db, [materialId]);
+    return NextResponse.json({ history: history.get(materialId) ?? [] });
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    return NextResponse.json({ error: 'Failed to fetch price history' }, { status: 500 });
+  }
+}
@@ -1,16 +1,47 @@
 import { NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/mongodb';
+import { withTransaction } from '@/lib/mongodb';
+import { moveStock } from '@/lib/stock';
+import { ActionError } from '@/lib/errors';
+import { authorize } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
 import { revalidatePath } from 'next/cache';
+import { DEFAULT_UNIT, parsePurchaseUnits } from '@/lib/units';
+import { recordPriceChanges } from '@/lib/material-prices';
+import { startOfDay } from '@/lib/price-history';
+import type { PurchaseUnit } from '@/lib/types';
+import { materialFields, materialsCollection } from '@/lib/materials';
+
+const LEVEL_FIELDS = ['minLevel', 'reorderPoint', 'reorderQty'] as const;
 
 export async function POST(req: Request) {
   try {
+    const auth = await authorize('owner');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
     const formData = await req.formData();
-    const updates: { id: string; gstPercent?: number; price?: number; quantity?: number }[] = [];
+    // Price and GST changes apply from this day (today when not given); may be back-dated.
+    const effectiveFromRaw = String(formData.get('effectiveFrom') || '').trim();
+    const effectiveFrom = effectiveFromRaw ? new Date(effectiveFromRaw) : undefined;
+    if (effectiveFrom && Number.isNaN(effectiveFrom.getTime())) {
+      return NextResponse.json({ success: false, message: "Enter a valid effective-from date." }, { status: 400 });
+    }
+    if (effectiveFrom && startOfDay(effectiveFrom).getTime() > Date.now()) {
+      return NextResponse.json({ success: false, message: "Prices cannot take effect in the future." }, { status: 400 });
+    }
+    const updates: {
+      id: string;
+      gstPercent?: number;
+      price?: number;
+      quantity?: number;
+      hsnCode?: string;
+      unit?: string;
+      purchaseUnits?: PurchaseUnit[];
+      levels: Partial<Record<typeof LEVEL_FIELDS[number], number | null>>;
+    }[] = [];
     const temp: Record<string, any> = {};
 
     for (const [key, value] of formData.entries()) {
-      const match = key.match(/^pricing\[(.+)\]\[(gstPercent|price|quantity)\]$/);
+      const match = key.match(/^pricing\[(.+)\]\[(gstPercent|price|quantity|hsnCode|unit|purchaseUnits|minLevel|reorderPoint|reorderQty)\]$/);
       if (match) {
         const [, id, field] = match;
         if (!temp[id]) temp[id] = {};
@@ -19,32 +50,55 @@ export async function POST(req: Request) {
     }
 
     for (const id of Object.keys(temp)) {
+      if (!ObjectId.isValid(id)) {
+        return NextResponse.json({ success: false, message: "Material not found." }, { status: 400 });
+      }
       const gstPercent = temp[id].gstPercent !== undefined ? (Number(temp[id].gstPercent) || 0) : undefined;
       const price = temp[id].price !== undefined ? (Number(temp[id].price) || 0) : undefined;
       const quantity = temp[id].quantity !== undefined ? (Number(temp[id].quantity) || 0) : undefined;
-      updates.push({ id, gstPercent, price, quantity });
+      const hsnCode = temp[id].hsnCode !== undefined ? String(temp[id].hsnCode).trim() : undefined;
+      const unit = temp[id].unit !== undefined ? String(temp[id].unit).trim() : undefined;
+      // "roll=90, box=100"; the editor always sends the base unit along with it.
+      let purchaseUnits: PurchaseUnit[] | undefined;
+      if (temp[id].purchaseUnits !== undefined) {
+        try {
+          purchaseUnits = parsePurchaseUnits(String(temp[id].purchaseUnits), unit || DEFAULT_UNIT);
+        } catch (error: any) {
+          return NextResponse.json({ success: false, message: error.message }, { status: 400 });
+        }
+      }
+      // Stock levels: an empty value clears the level (the default reorder point applies again).
+      const levels: Partial<Record<typeof LEVEL_FIELDS[number], number | null>> = {};
+      for (const field of LEVEL_FIELDS) {
+        if (temp[id][field] === undefined) continue;
+        const raw = String(temp[id][field]).trim();
+        levels[field] = raw === '' ? null : Math.max(0, Math.floor(Number(raw) || 0));
+      }
+      updates.push({ id, gstPercent, price, quantity, hsnCode, unit, purchaseUnits, levels });
     }
 
     if (updates.length === 0) {
       return NextResponse.json({ success: false, message: "No pricing changes provided." });
     }
 
-    const db = await getDatabase();
-    const bulkOps = updates.map(u => {
+    const bulkOps = updates.filter(u =>
+      u.hsnCode !== undefined || u.unit !== undefined || u.purchaseUnits !== undefined || Object.keys(u.levels).length > 0
+    ).map(u => {
       const $set: Record<string, any> = {};
-      if (u.gstPercent !== undefined) $set.gstPercent = u.gstPercent;
-      if (u.quantity !== undefined) $set.quantity = Math.max(0, Math.floor(u.quantity));
       const $unset: Record<string, any> = {};
-      
-      // Store unified price and clear legacy fields
-      if (u.price !== undefined) {
-        $set.price = u.price;
+      if (u.hsnCode) $set.hsnCode = u.hsnCode;
+      else if (u.hsnCode !== undefined) $unset.hsnCode = "";
+      if (u.unit) $set.unit = u.unit;
+      else if (u.unit !== undefined) $unset.unit = "";
+      if (u.purchaseUnits?.length) $set.purchaseUnits = u.purchaseUnits;
+      else if (u.purchaseUnits !== undefined) $unset.purchaseUnits = "";
+      for (const [field, value] of Object.entries(u.levels)) {
+        if (value === null) $unset[field] = "";
+        else $set[field] = value;
       }
-      $unset.pricePerPiece = "";
-      $unset.pricePerMeter = "";
-      
+
       const update: Record<string, any> = {};
-      if (Object.keys($set).length) update.$set = $set;
+      if (Object.keys($set).length) update.$set = materialFields($set);
       if (Object.keys($unset).length) update.$unset = $unset;
       
       return {
@@ -55,15 +109,41 @@ export async function POST(req: Request) {
       };
     });
     
-    await db.collection("materials").bulkWrite(bulkOps);
+    // Price and GST go through the price history so earlier dispatches keep their price.
+    const priceChanges = updates
+      .filter(u => u.price !== undefined || u.gstPercent !== undefined)
+      .map(u => ({ materialId: u.id, price: u.price, gstPercent: u.gstPercent }));
+    // Quantity edits are stock movements: they go through the ledger like any other change.
+    const quantityUpdates = updates.filter(u => u.quantity !== undefined);
+
+    // One save, one transaction: a failing row leaves every material as it was.
+    await withTransaction(async (db, session) => {
+      if (bulkOps.length > 0) await materialsCollection(db).bulkWrite(bulkOps, { session });
+      if (priceChanges.length > 0) {
+        await recordPriceChanges(db, priceChanges, { effectiveFrom, user: auth.user }, session);
+      }
+      for (const u of quantityUpdates) {
+        await moveStock(db, {
+          materialId: u.id,
+          kind: 'set',
+          setTo: Math.max(0, Math.floor(u.quantity!)),
+          reason: 'Quantity set in pricing editor',
+          user: auth.user,
+        }, session);
+      }
+    });
     
     // Revalidate paths
     revalidatePath("/stock");
     revalidatePath("/stock/admin");
     revalidatePath("/client-costing");
+    revalidatePath("/needs-to-buy");
     
     return NextResponse.json({ success: true, message: "Pricing updated successfully." });
   } catch (error) {
+    if (error instanceof ActionError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 });
+    }
     console.error("Error updating materials pricing:", error);
     return NextResponse.json({ success: false, message: "Failed to update pricing." }, { status: 500 });
   }
@@ -1,32 +1,57 @@
 import { NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/mongodb';
+import { getDatabase, withTransaction } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import type { Filter } from 'mongodb';
+import { expireReservations } from '@/lib/reservations';
+import { resolveStockLocation } from '@/lib/stock';
+import { ActionError } from '@/lib/errors';
+import { ensureMaterialIndexes, materialsCollection, stockedAtFilter, toMaterial, valueAtPrice, type MaterialDoc } from '@/lib/materials';
+import { parsePage, parseSort, searchPattern } from '@/lib/paging';
 
-export async function GET() {
+const SORTS = ['category', 'name', 'quantity'] as const;
+
+// Materials with their reserved quantity, by category and name.
+// Optional query: ?q= (name or description), ?category=, ?locationId= (stocked there),
+// ?sort=category|name|quantity&order=asc|desc, and ?page=&pageSize= for one page
+// ({ items, total, page, pageSize, valueAtPrice }) instead of the whole list.
+export async function GET(request: Request) {
   try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { searchParams } = new URL(request.url);
+    const { key, direction } = parseSort(searchParams, SORTS, 'category');
+    const paging = parsePage(searchParams);
+
     const db = await getDatabase();
-    const materials = await db
-      .collection('materials')
-      .find({})
-      .sort({ category: 1, name: 1 })
-      .toArray();
+    await ensureMaterialIndexes(db);
+    await withTransaction(expireReservations);
+    const filter: Filter<MaterialDoc> = {};
+    const pattern = searchPattern(searchParams.get('q'));
+    if (pattern) filter.$or = [{ name: pattern }, { description: pattern }];
+    const category = searchParams.get('category');
+    // Materials without a category (null or '' in older documents) are listed under "Other".
+    if (category) filter.category = (category === 'Other' ? { $in: ['Other', null, ''] } : category) as MaterialDoc['category'];
+    const location = await resolveStockLocation(db, searchParams.get('locationId'));
+    if (location) Object.assign(filter, stockedAtFilter(location));
+
+    const sort: Record<string, 1 | -1> = key === 'category'
+      ? { category: direction, name: 1, _id: 1 }
+      : { [key]: direction, _id: 1 };
+    const cursor = materialsCollection(db).find(filter).sort(sort);
+    if (paging) cursor.skip(paging.skip).limit(paging.pageSize);
+    const [materials, total, value] = await Promise.all([
+      cursor.toArray(),
+      paging ? materialsCollection(db).countDocuments(filter) : Promise.resolve(0),
+      paging ? valueAtPrice(db, filter) : Promise.resolve(0),
+    ]);
 
-    // Convert MongoDB _id to id for consistency
-    const formattedMaterials = materials.map(material => ({
-      id: material._id.toString(),
-      name: material.name,
-      description: material.description,
-      quantity: material.quantity,
-      category: material.category,
-      rate: material.rate,
-      gstPercent: material.gstPercent,
-      price: material.price ?? material.pricePerPiece ?? material.pricePerMeter,
-      investedBase: material.investedBase ?? 0,
-      investedGst: material.investedGst ?? 0,
-      investedTotal: material.investedTotal ?? 0,
-    }));
+    const formattedMaterials = materials.map(toMaterial);
 
-    return NextResponse.json(formattedMaterials);
+    if (!paging) return NextResponse.json(formattedMaterials);
+    return NextResponse.json({ items: formattedMaterials, total, page: paging.page, pageSize: paging.pageSize, valueAtPrice: value });
   } catch (error) {
+    if (error instanceof ActionError) return NextResponse.json({ error: error.message }, { status: 400 });
     console.error('Error fetching materials:', error);
     return NextResponse.json(
       { error: 'Failed to fetch materials' },
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { stockMovements } from '@/lib/stock-ledger';
+import { clientEntries } from '@/lib/client-material-entries';
+import { clientsCollection } from '@/lib/clients';
+
+// Current state and full movement history of one serial number, oldest first.
+// Ledger lines carry the serials they moved; client entries recorded before serial
+// tracking only have the free-text 'serialNumbers' field, so those are matched too.
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ serial: string }> }
+) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { serial: rawSerial } = await params;
+    const serial = decodeURIComponent(rawSerial).trim();
+    if (!serial) return NextResponse.json({ error: 'Serial number is required' }, { status: 400 });
+
+    const db = await getDatabase();
+    const unit = await db.collection('serial_numbers').findOne({ serial });
+
+    const movements = await stockMovements(db)
+      .find({ serials: serial })
+      .sort({ date: 1, _id: 1 })
+      .toArray();
+
+    // Free-text matches on client entries not already covered by a ledger line.
+    const escaped = serial.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const covered = new Set(movements.map(m => m.reference?.id).filter(Boolean));
+    const entries = await clientEntries(db)
+      .find({ 'materials.serialNumbers': { $regex: `(^|[,;\\s])${escaped}($|[,;\\s])` } })
+      .sort({ date: 1 })
+      .toArray();
+
+    const clientIds = Array.from(new Set([
+      ...movements.map(m => m.clientId),
+      ...entries.map(e => e.clientId),
+      unit?.clientId,
+    ].filter((id): id is string => typeof id === 'string' && ObjectId.isValid(id))));
+    const clients = clientIds.length > 0
+      ? await clientsCollection(db).find({ _id: { $in: clientIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } }).toArray()
+      : [];
+    const clientNames = new Map(clients.map(c => [c._id.toString(), String(c.name || '')]));
+
+    const history = [
+      ...movements.map(m => ({
+        id: m._id.toString(),
+        date: m.date,
+        kind: m.kind,
+        materialName: m.materialName,
+        reason: m.reason,
+        clientId: m.clientId,
+        clientName: m.clientId ? clientNames.get(m.clientId) : undefined,
+        userName: m.userName,
+      })),
+      ...entries
+        .filter(e => !covered.has(e._id.toString()))
+        .map(e => ({
+          id: e._id.toString(),
+          date: e.date,
+          kind: e.type === 'in' ? 'client_in' : 'client_out',
+          materialName: (e.materials || []).find((i: any) => String(i.serialNumbers || '').includes(serial))?.materialName,
+          reason: e.challanNo ? `Challan ${e.challanNo}` : e.reason,
+          clientId: e.clientId,
+          clientName: clientNames.get(e.clientId),
+          userName: e.createdBy,
+        })),
+    ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    return NextResponse.json({
+      serial,
+      unit: unit ? {
+        id: unit._id.toString(),
+        serial: unit.serial,
+        materialId: unit.materialId,
+        materialName: unit.materialName,
+        status: unit.status,
+        clientId: unit.clientId,
+        clientName: unit.clientId ? clientNames.get(unit.clientId) : undefined,
+        receivedAt: unit.receivedAt,
+        updatedAt: unit.updatedAt,
+      } : null,
+      history,
+    });
+  } catch (error) {
+    console.error('Error looking up serial number:', error);
+    return NextResponse.json({ error: 'Failed to look up serial number' }, { status: 500 });
+  }
+}
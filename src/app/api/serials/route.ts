@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+
+// Lists serial numbers, used by the pickers on dispatch and return forms.
+// Query: ?materialId=<id>&status=in_stock|issued|removed&clientId=<id>
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const { searchParams } = new URL(request.url);
+    const filter: Record<string, any> = {};
+    for (const key of ['materialId', 'status', 'clientId']) {
+      const value = searchParams.get(key);
+      if (value) filter[key] = value;
+    }
+
+    const db = await getDatabase();
+    const serials = await db
+      .collection('serial_numbers')
+      .find(filter)
+      .sort({ serial: 1 })
+      .toArray();
+
+    const formatted = serials.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest }));
+    return NextResponse.json({ serials: formatted });
+  } catch (error) {
+    console.error('Error fetching serial numbers:', error);
+    return NextResponse.json({ error: 'Failed to fetch serial numbers' }, { status: 500 });
+  }
+}
@@ -1,24 +1,74 @@
 import { NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+import { ObjectId, type Filter } from 'mongodb';
+import { ensureLedgerIndexes, stockMovements, toStockMovement, type StockMovementDoc } from '@/lib/stock-ledger';
+import { parsePageSize, searchPattern } from '@/lib/paging';
+import type { StockMovementKind } from '@/lib/types';
 
-export async function GET() {
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// "<ISO date>_<id>" of the last line of a slice; the next slice starts after it.
+const encodeCursor = (line: { date: Date | string; _id: ObjectId }) => `${new Date(line.date).toISOString()}_${line._id.toString()}`;
+function decodeCursor(cursor: string) {
+  const [iso, id] = cursor.split('_');
+  const date = new Date(iso);
+  return !isNaN(date.getTime()) && ObjectId.isValid(id ?? '') ? { date, id: new ObjectId(id) } : null;
+}
+
+// Returns lines of the stock ledger ('stock_movements'), newest first.
+// Optional query: ?materialId=<id> to show a single material's movements, ?q= (material
+// name), ?kind=, ?from=&to= (YYYY-MM-DD, inclusive) and ?order=asc|desc (by date).
+// With ?limit= (and ?cursor= from the previous response) it returns one slice as
+// { items, nextCursor } instead of the whole ledger.
+export async function GET(request: Request) {
   try {
-    const db = await getDatabase();
-    const history = await db
-      .collection('stockHistory')
-      .find({})
-      .sort({ timestamp: -1 })
-      .toArray();
+    const auth = await authorize('viewer');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
 
-    // Convert MongoDB _id to id and ensure timestamp is serializable
-    const formattedHistory = history.map(item => ({
-      id: item._id.toString(),
-      timestamp: item.timestamp,
-      items: item.items,
-      totalItems: item.totalItems,
-    }));
+    const { searchParams } = new URL(request.url);
+    const filter: Filter<StockMovementDoc> = {};
+    const materialId = searchParams.get('materialId');
+    if (materialId) filter.materialId = materialId;
+    const pattern = searchPattern(searchParams.get('q'));
+    if (pattern) filter.materialName = pattern;
+    const kind = searchParams.get('kind');
+    if (kind) filter.kind = kind as StockMovementKind;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from && !DAY.test(from)) || (to && !DAY.test(to))) {
+      return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (from || to) {
+      filter.date = {
+        ...(from ? { $gte: new Date(`${from}T00:00:00`) } : {}),
+        ...(to ? { $lte: new Date(`${to}T23:59:59.999`) } : {}),
+      };
+    }
+    // Newest first unless asked otherwise.
+    const order = searchParams.get('order') === 'asc' ? 1 : -1;
+
+    const paged = searchParams.has('limit') || searchParams.has('cursor');
+    const limit = parsePageSize(searchParams, 50);
+    const after = paged && searchParams.get('cursor') ? decodeCursor(searchParams.get('cursor')!) : null;
+    if (after) {
+      const beyond = order === -1 ? '$lt' : '$gt';
+      filter.$and = [{ $or: [{ date: { [beyond]: after.date } }, { date: after.date, _id: { [beyond]: after.id } }] }];
+    }
+
+    const db = await getDatabase();
+    await ensureLedgerIndexes(db);
+    const cursor = stockMovements(db).find(filter).sort({ date: order, _id: order });
+    // One extra line tells whether there is a next slice.
+    if (paged) cursor.limit(limit + 1);
+    const found = await cursor.toArray();
+    const movements = paged ? found.slice(0, limit) : found;
+    const formattedMovements = movements.map(toStockMovement);
 
-    return NextResponse.json(formattedHistory);
+    if (!paged) return NextResponse.json(formattedMovements);
+    const last = movements[movements.length - 1];
+    const nextCursor = found.length > limit && last ? encodeCursor({ date: last.date, _id: last._id }) : null;
+    return NextResponse.json({ items: formattedMovements, nextCursor });
   } catch (error) {
     console.error('Error fetching stock history:', error);
     return NextResponse.json(
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authorize } from '@/lib/auth';
+
+export async function GET() {
+  try {
+    const auth = await authorize('owner');
+    if (auth.error) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+    const db = await getDatabase();
+    const users = await db
+      .collection('users')
+      .find({}, { projection: { passwordHash: 0 } })
+      .sort({ name: 1 })
+      .toArray();
+
+    const formattedUsers = users.map(user => ({
+      id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      active: user.active !== false,
+      createdAt: user.createdAt,
+    }));
+
+    return NextResponse.json(formattedUsers);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
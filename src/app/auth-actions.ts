@@ -0,0 +1,171 @@
+// Server actions for signing in/out and managing user accounts.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase } from "@/lib/mongodb";
+import { authorize, createSession, destroySession, hashPassword, safeNextPath, verifyPassword, USER_ROLES } from "@/lib/auth";
+
+const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email."),
+  password: z.string().min(1, "Password is required."),
+});
+
+export async function loginAction(prevState: any, formData: FormData) {
+  const validated = loginSchema.safeParse({
+    email: formData.get("email"),
+    password: formData.get("password"),
+  });
+  if (!validated.success) {
+    return { success: false, message: "Invalid credentials.", errors: validated.error.flatten().fieldErrors };
+  }
+
+  const { email, password } = validated.data;
+  try {
+    const db = await getDatabase();
+    const user = await db.collection("users").findOne({ email });
+    if (!user || user.active === false || !(await verifyPassword(password, user.passwordHash))) {
+      return { success: false, message: "Incorrect email or password." };
+    }
+    await createSession(user._id.toString());
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return { success: false, message: "Failed to sign in. Please try again." };
+  }
+  // 'redirect' throws, so it must stay outside the try/catch.
+  redirect(safeNextPath(formData.get("next")));
+}
+
+export async function logoutAction() {
+  await destroySession();
+  redirect("/login");
+}
+
+const userSchema = z.object({
+  name: z.string().trim().min(1, "Name is required."),
+  email: z.string().trim().toLowerCase().email("Enter a valid email."),
+  password: z.string().min(8, "Password must be at least 8 characters."),
+  role: z.enum(USER_ROLES as [string, ...string[]], { errorMap: () => ({ message: "Select a role." }) }),
+});
+
+// Marker in the 'settings' collection written by the first-run setup.
+const OWNER_SETUP_ID = "owner_setup";
+
+// Creates the very first account. Only allowed while the 'users' collection is empty,
+// and that account is always an owner.
+export async function setupOwnerAction(prevState: any, formData: FormData) {
+  const validated = userSchema.safeParse({
+    name: formData.get("name"),
+    email: formData.get("email"),
+    password: formData.get("password"),
+    role: "owner",
+  });
+  if (!validated.success) {
+    return { success: false, message: "Invalid form data.", errors: validated.error.flatten().fieldErrors };
+  }
+
+  const alreadySetUp = { success: false, message: "An owner account already exists. Please sign in." };
+  try {
+    const db = await getDatabase();
+    const existing = await db.collection("users").countDocuments({}, { limit: 1 });
+    if (existing > 0) return alreadySetUp;
+    const { name, email, password } = validated.data;
+    // Only one first-run setup may go ahead: the one that creates the marker document.
+    const claimed = await db.collection<{ _id: string; at: Date; email: string }>("settings")
+      .updateOne({ _id: OWNER_SETUP_ID }, { $setOnInsert: { at: new Date(), email } }, { upsert: true })
+      .then(result => result.upsertedCount === 1, (error: any) => (error?.code === 11000 ? false : Promise.reject(error)));
+    if (!claimed) return alreadySetUp;
+    const result = await db.collection("users").insertOne({
+      name,
+      email,
+      role: "owner",
+      active: true,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date(),
+    });
+    await createSession(result.insertedId.toString());
+  } catch (error) {
+    console.error("Error creating owner account:", error);
+    return { success: false, message: "Failed to create the owner account." };
+  }
+  redirect("/dashboard");
+}
+
+export async function addUserAction(prevState: any, formData: FormData) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+
+  const validated = userSchema.safeParse({
+    name: formData.get("name"),
+    email: formData.get("email"),
+    password: formData.get("password"),
+    role: formData.get("role"),
+  });
+  if (!validated.success) {
+    return { success: false, message: "Invalid form data.", errors: validated.error.flatten().fieldErrors };
+  }
+
+  try {
+    const db = await getDatabase();
+    const { name, email, password, role } = validated.data;
+    const existing = await db.collection("users").findOne({ email });
+    if (existing) {
+      return { success: false, message: "A user with this email already exists.", errors: { email: ["This email is already in use."] } };
+    }
+    await db.collection("users").insertOne({
+      name,
+      email,
+      role,
+      active: true,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date(),
+    });
+    revalidatePath("/users");
+    return { success: true, message: "User added successfully." };
+  } catch (error) {
+    console.error("Error adding user:", error);
+    return { success: false, message: "Failed to add user." };
+  }
+}
+
+const userUpdateSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(USER_ROLES as [string, ...string[]]).optional(),
+  active: z.boolean().optional(),
+});
+
+// Change a user's role or (de)activate them. Owners cannot demote or deactivate themselves,
+// which guarantees at least one active owner remains.
+export async function updateUserAction(userId: string, changes: { role?: string; active?: boolean }) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+
+  const validated = userUpdateSchema.safeParse({ userId, ...changes });
+  if (!validated.success || !ObjectId.isValid(userId)) {
+    return { success: false, message: "Invalid user update." };
+  }
+  const demotesSelf = changes.role !== undefined && changes.role !== "owner";
+  if (userId === auth.user.id && (demotesSelf || changes.active === false)) {
+    return { success: false, message: "You cannot remove your own owner access." };
+  }
+
+  try {
+    const db = await getDatabase();
+    const $set: Record<string, any> = {};
+    if (validated.data.role !== undefined) $set.role = validated.data.role;
+    if (validated.data.active !== undefined) $set.active = validated.data.active;
+    if (Object.keys($set).length === 0) return { success: false, message: "Nothing to update." };
+    await db.collection("users").updateOne({ _id: new ObjectId(userId) }, { $set });
+    // Signing a deactivated user out everywhere takes effect immediately.
+    if ($set.active === false) {
+      await db.collection("sessions").deleteMany({ userId });
+    }
+    revalidatePath("/users");
+    return { success: true, message: "User updated." };
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return { success: false, message: "Failed to update user." };
+  }
+}
@@ -0,0 +1,108 @@
+// Server actions for bill-of-materials templates. Templates only describe what a
+// standard installation needs; applying one pre-fills a dispatch challan, which moves
+// the stock.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import type { BomLine } from "@/lib/types";
+import { materialsCollection } from "@/lib/materials";
+
+const bomLineSchema = z.object({
+  materialId: z.string().min(1, "Material is required."),
+  quantity: z.coerce.number().positive("Quantities must be more than 0."),
+  scale: z.enum(["per_kw", "fixed"]),
+});
+
+const bomTemplateSchema = z.object({
+  templateId: z.string().optional(),
+  name: z.string().trim().min(1, "Template name is required."),
+  description: z.string().trim().optional(),
+  baseCapacityKw: z.coerce.number().positive("Base capacity must be more than 0 kW."),
+  lines: z.array(bomLineSchema).min(1, "Add at least one material."),
+});
+
+// Adds a template, or replaces it when 'templateId' is given. The form sends the
+// lines as JSON in the 'lines' field.
+export async function saveBomTemplateAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  let lines: unknown = [];
+  try {
+    lines = JSON.parse(String(formData.get("lines") || "[]"));
+  } catch {
+    return { success: false, message: "Invalid material lines.", submissionId };
+  }
+  const validated = bomTemplateSchema.safeParse({
+    templateId: formData.get("templateId") || undefined,
+    name: formData.get("name") ?? "",
+    description: formData.get("description") ?? "",
+    baseCapacityKw: formData.get("baseCapacityKw"),
+    lines,
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid template.", errors: fieldErrors, submissionId };
+  }
+  const { templateId, name, description, baseCapacityKw } = validated.data;
+  if (new Set(validated.data.lines.map(l => l.materialId)).size !== validated.data.lines.length) {
+    return { success: false, message: "Each material can only appear once in a template.", submissionId };
+  }
+
+  try {
+    const db = await getDatabase();
+    const materialIds = validated.data.lines.map(l => l.materialId).filter(id => ObjectId.isValid(id));
+    const materials = await materialsCollection(db)
+      .find({ _id: { $in: materialIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } })
+      .toArray();
+    const namesById = new Map(materials.map(m => [m._id.toString(), String(m.name || "")]));
+    if (validated.data.lines.some(l => !namesById.has(l.materialId))) {
+      return { success: false, message: "Material not found.", submissionId };
+    }
+    const bomLines: BomLine[] = validated.data.lines.map(l => ({
+      materialId: l.materialId,
+      materialName: namesById.get(l.materialId)!,
+      quantity: l.quantity,
+      scale: l.scale,
+    }));
+
+    const fields: Record<string, any> = { name, baseCapacityKw, lines: bomLines };
+    if (templateId) {
+      if (!ObjectId.isValid(templateId)) return { success: false, message: "Template not found.", submissionId };
+      const result = await db.collection("bom_templates").updateOne(
+        { _id: new ObjectId(templateId) },
+        description ? { $set: { ...fields, description, updatedAt: new Date() } } : { $set: { ...fields, updatedAt: new Date() }, $unset: { description: "" } }
+      );
+      if (result.matchedCount === 0) return { success: false, message: "Template not found.", submissionId };
+    } else {
+      await db.collection("bom_templates").insertOne({ ...fields, ...(description ? { description } : {}), createdAt: new Date() });
+    }
+    revalidatePath("/bom-templates");
+    return { success: true, message: `Template ${name} saved.`, submissionId };
+  } catch (error) {
+    console.error("Error saving BOM template:", error);
+    return { success: false, message: "Failed to save template.", submissionId };
+  }
+}
+
+export async function deleteBomTemplateAction(templateId: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(templateId)) return { success: false, message: "Template not found." };
+  try {
+    const db = await getDatabase();
+    const result = await db.collection("bom_templates").deleteOne({ _id: new ObjectId(templateId) });
+    if (result.deletedCount === 0) return { success: false, message: "Template not found." };
+    revalidatePath("/bom-templates");
+    return { success: true, message: "Template deleted." };
+  } catch (error) {
+    console.error("Error deleting BOM template:", error);
+    return { success: false, message: "Failed to delete template." };
+  }
+}
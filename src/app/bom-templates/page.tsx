@@ -0,0 +1,17 @@
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getBomTemplates } from "@/lib/bom-templates";
+import { BomTemplateList } from "@/components/bom/BomTemplateList";
+
+export default async function BomTemplatesPage() {
+  await requirePageRole("viewer");
+  const templates = await getBomTemplates(await getDatabase());
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <BomTemplateList templates={templates} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,103 @@
+// Server actions for client dispatch challans (delivery notes).
+// A challan is a single 'out' entry in 'client_material_entries' carrying many material
+// lines, a sequential challan number and transport details.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { ActionError } from "@/lib/errors";
+import { ensureSerialIndexes } from "@/lib/serials";
+import { createChallan } from "@/lib/challans";
+
+const challanItemSchema = z.object({
+  materialId: z.string().min(1, "Material is required."),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+  serialNumbers: z.string().optional().nullable(),
+});
+
+const challanSchema = z.object({
+  clientId: z.string().min(1, "Client ID is required."),
+  vehicleNo: z.string().optional().nullable(),
+  driverName: z.string().optional().nullable(),
+  remarks: z.string().optional().nullable(),
+  projectId: z.string().optional().nullable(),
+  locationId: z.string().optional().nullable(),
+  items: z.array(challanItemSchema).min(1, "Add at least one material to the challan."),
+});
+
+// Creates the challan, removes every line from stock and refreshes the client's costing
+// in one transaction (see 'createChallan'). The form sends the material lines as JSON in the 'items' field.
+export async function createChallanAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId, challan: null };
+
+  let items: unknown = [];
+  try {
+    items = JSON.parse(String(formData.get("items") || "[]"));
+  } catch {
+    return { success: false, message: "Invalid material lines.", submissionId, challan: null };
+  }
+
+  const validated = challanSchema.safeParse({
+    clientId: formData.get("clientId"),
+    vehicleNo: formData.get("vehicleNo"),
+    driverName: formData.get("driverName"),
+    remarks: formData.get("remarks"),
+    projectId: formData.get("projectId"),
+    locationId: formData.get("locationId"),
+    items,
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    return {
+      success: false,
+      message: fieldErrors.items?.[0] || "Invalid challan data.",
+      errors: fieldErrors,
+      submissionId,
+      challan: null,
+    };
+  }
+  const { clientId, vehicleNo, driverName, remarks } = validated.data;
+
+  const seen = new Set<string>();
+  for (const item of validated.data.items) {
+    if (seen.has(item.materialId)) {
+      return { success: false, message: "Each material can only appear once on a challan.", submissionId, challan: null };
+    }
+    seen.add(item.materialId);
+  }
+
+  try {
+    await ensureSerialIndexes(await getDatabase());
+    const challan = await withTransaction((db, session) => createChallan(db, {
+      clientId,
+      projectId: validated.data.projectId,
+      locationId: validated.data.locationId,
+      items: validated.data.items.map(i => ({ materialId: i.materialId!, quantity: i.quantity!, serialNumbers: i.serialNumbers })),
+      vehicleNo,
+      driverName,
+      remarks,
+    }, auth.user, session));
+
+    revalidatePath(`/client-costing/${clientId}`);
+    revalidatePath(`/client-material`);
+    revalidatePath(`/client-material/${clientId}`);
+    revalidatePath("/stock");
+    revalidatePath("/needs-to-buy");
+    return {
+      success: true,
+      message: `Challan ${challan.challanNo} created.`,
+      submissionId,
+      challan,
+    };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId, challan: null };
+    }
+    console.error("Error creating challan:", error);
+    return { success: false, message: "Server error occurred. Please try again.", submissionId, challan: null };
+  }
+}
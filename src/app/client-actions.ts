@@ -0,0 +1,209 @@
+// Server actions for the client lifecycle: add, edit, archive and delete. Every change
+// is written to the client's change history ('client_audit').
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { ActionError } from "@/lib/errors";
+import { consumerNoInUse, getUnreturnedMaterials, recordClientChange, clientFields, clientsCollection, insertClients } from "@/lib/clients";
+
+// Schema for validating client details.
+const clientSchema = z.object({
+  name: z.string().trim().min(1, "Client name is required."),
+  address: z.string().trim().min(1, "Address is required."),
+  plantCapacity: z.string().trim().min(1, "Plant capacity is required."),
+  consumerNo: z.string().regex(/^\d{12}$/, "Consumer No. must be 12 digits."),
+});
+
+const CLIENT_FIELDS: Record<keyof z.infer<typeof clientSchema>, string> = {
+  name: "Name",
+  address: "Address",
+  plantCapacity: "Plant capacity",
+  consumerNo: "Consumer No.",
+};
+
+const parseClient = (formData: FormData) => clientSchema.safeParse({
+  name: formData.get("name"),
+  address: formData.get("address"),
+  plantCapacity: formData.get("plantCapacity"),
+  consumerNo: formData.get("consumerNo"),
+});
+
+const revalidateClient = (clientId: string) => {
+  revalidatePath("/client-material");
+  revalidatePath(`/client-material/${clientId}`);
+  revalidatePath(`/client-costing/${clientId}`);
+};
+
+// Server action to add a new client. It is designed to be used with 'useActionState'.
+export async function addClientAction(prevState: any, formData: FormData) {
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, errors: null, clientId: null };
+
+  // Validate the form data against the client schema.
+  const validatedFields = parseClient(formData);
+
+  // If validation fails, return the errors.
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: "Invalid form data.",
+      success: false,
+    };
+  }
+
+  try {
+    const db = await getDatabase();
+
+    // Check if the consumer number already exists
+    if (await consumerNoInUse(db, validatedFields.data.consumerNo)) {
+      return {
+        success: false,
+        message: "A client with this consumer number already exists.",
+        errors: {
+          consumerNo: ["This consumer number is already in use."],
+        },
+      };
+    }
+
+    // Add a new document to the "clients" collection with the validated data.
+    const [clientId] = await insertClients(db, [validatedFields.data]);
+    await recordClientChange(db, { clientId, clientName: validatedFields.data.name, action: "created", user: auth.user });
+
+    // Revalidate the client material page to ensure the new client appears in the grid.
+    revalidatePath("/client-material");
+
+    // The ID is used on the client-side to redirect to the new client's detail page.
+    return { success: true, message: "Client added successfully.", clientId };
+  } catch (error) {
+    // Log the error and return a failure message.
+    console.error("Error adding client:", error);
+    return { success: false, message: "Failed to add client." };
+  }
+}
+
+// Corrects a client's details. The change history keeps the old and new value of every
+// field that changed.
+export async function updateClientAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, errors: null, submissionId };
+
+  const clientId = String(formData.get("clientId") ?? "");
+  if (!ObjectId.isValid(clientId)) return { success: false, message: "Client not found.", errors: null, submissionId };
+  const validated = parseClient(formData);
+  if (!validated.success) {
+    return { success: false, message: "Invalid form data.", errors: validated.error.flatten().fieldErrors, submissionId };
+  }
+  const fields = validated.data;
+
+  try {
+    const db = await getDatabase();
+    const client = await clientsCollection(db).findOne({ _id: new ObjectId(clientId) });
+    if (!client) return { success: false, message: "Client not found.", errors: null, submissionId };
+    if (await consumerNoInUse(db, fields.consumerNo, clientId)) {
+      return {
+        success: false,
+        message: "A client with this consumer number already exists.",
+        errors: { consumerNo: ["This consumer number is already in use."] },
+        submissionId,
+      };
+    }
+
+    const changes = (Object.keys(CLIENT_FIELDS) as (keyof typeof fields)[])
+      .filter(field => String(client[field] ?? "") !== fields[field])
+      .map(field => ({ field: CLIENT_FIELDS[field], from: String(client[field] ?? ""), to: fields[field] }));
+    if (changes.length === 0) return { success: true, message: "Nothing changed.", errors: null, submissionId };
+
+    await withTransaction(async (db, session) => {
+      await clientsCollection(db).updateOne({ _id: client._id }, { $set: clientFields(fields) }, { session });
+      // Open reservations show the client's name.
+      if (fields.name !== client.name) {
+        await db.collection("reservations").updateMany({ clientId }, { $set: { clientName: fields.name } }, { session });
+      }
+      await recordClientChange(db, { clientId, clientName: fields.name, action: "updated", changes, user: auth.user }, session);
+    });
+    revalidateClient(clientId);
+    return { success: true, message: `${fields.name} updated.`, errors: null, submissionId };
+  } catch (error) {
+    console.error("Error updating client:", error);
+    return { success: false, message: "Failed to update client.", errors: null, submissionId };
+  }
+}
+
+// Archived clients drop out of the client list (unless asked for) but keep all their
+// records; unarchiving brings them back.
+export async function setClientArchivedAction(clientId: string, archived: boolean) {
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(clientId)) return { success: false, message: "Client not found." };
+
+  try {
+    const name = await withTransaction(async (db, session) => {
+      const client = await clientsCollection(db).findOneAndUpdate(
+        { _id: new ObjectId(clientId) },
+        archived
+          ? { $set: { archived: true, archivedAt: new Date(), archivedBy: auth.user.name } }
+          : { $unset: { archived: "", archivedAt: "", archivedBy: "" } },
+        { session }
+      );
+      if (!client) return null;
+      const clientName = String(client.name || "");
+      await recordClientChange(db, { clientId, clientName, action: archived ? "archived" : "unarchived", user: auth.user }, session);
+      return clientName;
+    });
+    if (name === null) return { success: false, message: "Client not found." };
+    revalidateClient(clientId);
+    return { success: true, message: archived ? `${name} archived.` : `${name} restored to the client list.` };
+  } catch (error) {
+    console.error("Error archiving client:", error);
+    return { success: false, message: "Failed to update client." };
+  }
+}
+
+// Deletes a client with their entries, sites and costing. Not allowed while they hold
+// material or have stock reserved, nor once they were invoiced or paid: those records
+// have to stay, so archive the client instead.
+export async function deleteClientAction(clientId: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(clientId)) return { success: false, message: "Client not found." };
+
+  try {
+    const name = await withTransaction(async (db, session) => {
+      const client = await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }, { session });
+      if (!client) throw new ActionError("Client not found.");
+
+      const unreturned = await getUnreturnedMaterials(db, clientId, session);
+      if (unreturned.length > 0) {
+        const held = unreturned.slice(0, 3).map(m => `${m.quantity} ${m.materialName}`).join(", ");
+        throw new ActionError(`${client.name} still holds material (${held}${unreturned.length > 3 ? ", ..." : ""}). Record the returns first.`);
+      }
+      if (await db.collection("reservations").findOne({ clientId, status: "active" }, { session })) {
+        throw new ActionError(`${client.name} has stock reserved. Release the reservations first.`);
+      }
+      if (
+        await db.collection("invoices").findOne({ clientId }, { session, projection: { _id: 1 } }) ||
+        await db.collection("client_payments").findOne({ clientId }, { session, projection: { _id: 1 } })
+      ) {
+        throw new ActionError(`${client.name} has invoices or payments on record. Archive the client instead.`);
+      }
+
+      for (const collection of ["client_material_entries", "projects", "reservations", "client_costing", "client_costing_versions"]) {
+        await db.collection(collection).deleteMany({ clientId }, { session });
+      }
+      await clientsCollection(db).deleteOne({ _id: client._id }, { session });
+      await recordClientChange(db, { clientId, clientName: String(client.name || ""), action: "deleted", user: auth.user }, session);
+      return String(client.name || "");
+    });
+    revalidatePath("/client-material");
+    return { success: true, message: `${name} deleted.` };
+  } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
+    console.error("Error deleting client:", error);
+    return { success: false, message: "Failed to delete client." };
+  }
+}
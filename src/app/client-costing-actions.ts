@@ -0,0 +1,92 @@
+// Server actions for client costing: negotiated price lists, recomputing and approving
+// (locking) a costing.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { costingFilter, recomputeClientCosting, costingCollection } from "@/lib/client-costing";
+import type { ClientPrice } from "@/lib/types";
+import { clientFields, clientsCollection } from "@/lib/clients";
+
+// Replaces a client's price list and reprices their costing (the roll-up and every
+// site) with it. Prices of zero or less are dropped, so the material's own price applies.
+export async function saveClientPricesAction(clientId: string, prices: ClientPrice[]) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(clientId)) return { success: false, message: "Client not found." };
+
+  const priceList = prices
+    .map(p => ({ materialId: String(p.materialId || ""), unitPrice: Number(p.unitPrice) || 0 }))
+    .filter(p => ObjectId.isValid(p.materialId) && p.unitPrice > 0);
+  try {
+    const found = await withTransaction(async (db, session) => {
+      const result = await clientsCollection(db).updateOne({ _id: new ObjectId(clientId) }, { $set: clientFields({ priceList }) }, { session });
+      if (result.matchedCount === 0) return false;
+      const snapshots = await costingCollection(db).find({ clientId }, { projection: { projectId: 1 }, session }).toArray();
+      const projectIds = new Set<string | null>([null, ...snapshots.map(s => (s.projectId as string | null) || null)]);
+      for (const projectId of projectIds) {
+        await recomputeClientCosting(db, clientId, session, projectId, { reason: "Client price list", user: auth.user });
+      }
+      return true;
+    });
+    if (!found) return { success: false, message: "Client not found." };
+    revalidatePath(`/client-costing/${clientId}`);
+    return { success: true, message: "Client price list saved." };
+  } catch (error) {
+    console.error("Error saving client prices:", error);
+    return { success: false, message: "Failed to save price list." };
+  }
+}
+
+// Rebuilds a costing (the client roll-up, or one site's) from usage, keeping its
+// discounts and charges. Saved as a new version only when something changed.
+export async function recomputeCostingAction(clientId: string, projectId: string | null) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  try {
+    const locked = await withTransaction(async (db, session) => {
+      const current = await costingCollection(db).findOne(costingFilter(clientId, projectId), { session });
+      if (current?.locked) return true;
+      await recomputeClientCosting(db, clientId, session, projectId, { reason: "Recomputed from usage", user: auth.user });
+      return false;
+    });
+    if (locked) return { success: false, message: "This costing is approved and locked. Unlock it to recompute." };
+    revalidatePath(`/client-costing/${clientId}`);
+    return { success: true, message: "Costing recomputed from usage." };
+  } catch (error) {
+    console.error("Error recomputing costing:", error);
+    return { success: false, message: "Failed to recompute costing." };
+  }
+}
+
+// Approves (locks) a costing so that new entries no longer change it, or unlocks it.
+// Unlocking brings it up to date with whatever was recorded while it was locked.
+export async function setCostingLockAction(clientId: string, projectId: string | null, locked: boolean) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  try {
+    const found = await withTransaction(async (db, session) => {
+      const filter = costingFilter(clientId, projectId);
+      if (!(await costingCollection(db).findOne(filter, { session }))) return false;
+      await costingCollection(db).updateOne(
+        filter,
+        locked
+          ? { $set: { locked: true, lockedAt: new Date(), lockedBy: auth.user.name } }
+          : { $unset: { locked: "", lockedAt: "", lockedBy: "", staleAt: "" } },
+        { session }
+      );
+      if (!locked) {
+        await recomputeClientCosting(db, clientId, session, projectId, { reason: "Recomputed after unlocking", user: auth.user });
+      }
+      return true;
+    });
+    if (!found) return { success: false, message: "Save the costing before approving it." };
+    revalidatePath(`/client-costing/${clientId}`);
+    return { success: true, message: locked ? "Costing approved and locked." : "Costing unlocked." };
+  } catch (error) {
+    console.error("Error locking costing:", error);
+    return { success: false, message: "Failed to update costing." };
+  }
+}
@@ -0,0 +1,62 @@
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getCompanyProfile } from "@/lib/company";
+import { ObjectId } from "mongodb";
+import { notFound } from "next/navigation";
+import type { Client } from "@/lib/types";
+import { InvoiceList } from "@/components/invoices/InvoiceList";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Calculator, Wallet } from "lucide-react";
+import { clientsCollection } from "@/lib/clients";
+
+async function getClient(clientId: string) {
+  try {
+    const db = await getDatabase();
+    const client = await clientsCollection(db).findOne({ _id: new ObjectId(clientId) });
+    if (!client) return null;
+    const { _id, ...clientData } = client;
+    return { id: _id.toString(), ...clientData } as Client;
+  } catch (error) {
+    return null;
+  }
+}
+
+export default async function ClientInvoicesPage({ params }: { params: Promise<{ clientId: string }> }) {
+  await requirePageRole("viewer");
+  const { clientId } = await params;
+  const client = await getClient(clientId);
+  if (!client) notFound();
+  const company = await getCompanyProfile(await getDatabase());
+
+  return (
+    <div className="p-4 md:p-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button asChild variant="outline" size="icon" className="hover:bg-muted">
+          <Link href={`/client-material/${clientId}`}>
+            <ArrowLeft className="w-4 h-4" />
+            <span className="sr-only">Go Back</span>
+          </Link>
+        </Button>
+        <h1 className="text-lg md:text-xl font-bold font-headline truncate flex-1">
+          Invoices: {client.name}
+        </h1>
+        <Button asChild variant="outline">
+          <Link href={`/client-costing/${clientId}`}>
+            <Calculator className="w-4 h-4 mr-2" />
+            Costing
+          </Link>
+        </Button>
+        <Button asChild variant="outline">
+          <Link href={`/client-costing/${clientId}/payments`}>
+            <Wallet className="w-4 h-4 mr-2" />
+            Payments
+          </Link>
+        </Button>
+      </div>
+      <InvoiceList client={client} company={company} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
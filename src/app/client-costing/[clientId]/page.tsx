@@ -1,19 +1,24 @@
 import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole, hasRole } from "@/lib/auth";
 import { ObjectId } from "mongodb";
 import { notFound } from "next/navigation";
-import type { Client, Material, ClientMaterialEntry } from "@/lib/types";
+import type { Client, Material } from "@/lib/types";
 import { ClientCosting } from "@/components/clients/ClientCosting";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Receipt } from "lucide-react";
+import { getProjects } from "@/lib/projects";
+import { getClientIssueCosts } from "@/lib/valuation";
+import { clientsCollection, getClientEntries } from "@/lib/clients";
+import { materialsCollection } from "@/lib/materials";
+import { clientEntries } from "@/lib/client-material-entries";
+import { fromDoc } from "@/lib/documents";
 
 async function getClient(clientId: string) {
   try {
     const db = await getDatabase();
-    const client = await db.collection("clients").findOne({ _id: new ObjectId(clientId) });
-    if (!client) return null;
-    const { _id, ...clientData } = client;
-    return { id: _id.toString(), ...clientData } as Client;
+    const client = await clientsCollection(db).findOne({ _id: new ObjectId(clientId) });
+    return client ? fromDoc<Client>(client) : null;
   } catch (error) {
     return null;
   }
@@ -21,27 +26,47 @@ async function getClient(clientId: string) {
 
 async function getMaterials(): Promise<Material[]> {
   const db = await getDatabase();
-  const materials = await db.collection("materials").find({}).sort({ name: 1 }).toArray();
-  return materials.map(m => {
-    const { _id, ...data } = m;
-    return { id: _id.toString(), ...data } as Material;
-  });
+  const materials = await materialsCollection(db).find({}).sort({ name: 1 }).toArray();
+  return materials.map(m => fromDoc<Material>(m));
 }
 
-async function getClientHistory(clientId: string): Promise<ClientMaterialEntry[]> {
-  // In/Out quantity features have been removed
-  // Return empty array for now - costing will show no usage
-  return [];
+// Stock cost of everything issued to the client, or to one of its sites.
+async function getCostOfGoods(clientId: string, projectId?: string): Promise<number> {
+  const db = await getDatabase();
+  const costs = await getClientIssueCosts(db, clientId);
+  let entryIds = Object.keys(costs);
+  if (projectId) {
+    const entries = await clientEntries(db)
+      .find({ clientId, projectId }, { projection: { _id: 1 } })
+      .toArray();
+    const inProject = new Set(entries.map(e => e._id.toString()));
+    entryIds = entryIds.filter(id => inProject.has(id));
+  }
+  return entryIds.reduce((sum, id) => sum + costs[id], 0);
 }
 
-export default async function ClientCostingPage({ params }: { params: Promise<{ clientId: string }> }) {
+// ?projectId= shows the costing of one project (site); without it, the client roll-up.
+export default async function ClientCostingPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ clientId: string }>;
+  searchParams: Promise<{ projectId?: string }>;
+}) {
+  const user = await requirePageRole("viewer");
   const { clientId } = await params;
+  const { projectId } = await searchParams;
   const client = await getClient(clientId);
   if (!client) notFound();
-  const [materials, clientHistory] = await Promise.all([
+  const db = await getDatabase();
+  const [materials, clientHistory, projects] = await Promise.all([
     getMaterials(),
-    getClientHistory(clientId)
+    getClientEntries(db, clientId, projectId),
+    getProjects(db, clientId),
   ]);
+  const project = projectId ? projects.find(p => p.id === projectId) : null;
+  if (projectId && !project) notFound();
+  const costOfGoods = hasRole(user, "owner") ? await getCostOfGoods(clientId, project?.id) : null;
 
   return (
     <div className="p-4 md:p-8 space-y-6">
@@ -52,11 +77,29 @@ export default async function ClientCostingPage({ params }: { params: Promise<{
             <span className="sr-only">Go Back</span>
           </Link>
         </Button>
-        <h1 className="text-lg md:text-xl font-bold font-headline truncate">
+        <h1 className="text-lg md:text-xl font-bold font-headline truncate flex-1">
           Costing: {client.name}
         </h1>
+        <Button asChild variant="outline">
+          <Link href={`/client-costing/${clientId}/invoices`}>
+            <Receipt className="w-4 h-4 mr-2" />
+            Invoices
+          </Link>
+        </Button>
       </div>
-      <ClientCosting client={client} materials={materials} clientHistory={clientHistory} />
+      {projects.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <Button asChild size="sm" variant={project ? "outline" : "default"}>
+            <Link href={`/client-costing/${clientId}`}>All sites</Link>
+          </Button>
+          {projects.map(p => (
+            <Button key={p.id} asChild size="sm" variant={p.id === project?.id ? "default" : "outline"}>
+              <Link href={`/client-costing/${clientId}?projectId=${p.id}`}>{p.name}</Link>
+            </Button>
+          ))}
+        </div>
+      )}
+      <ClientCosting key={project?.id ?? "all"} client={client} materials={materials} clientHistory={clientHistory} project={project} costOfGoods={costOfGoods} />
     </div>
   );
 }
@@ -0,0 +1,115 @@
+// Server action for fixing a wrong client entry (an In/Out or a challan). The entry is
+// reversed, and the corrected quantities can be booked in the same transaction.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { StockError } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import { ensureSerialIndexes } from "@/lib/serials";
+import { createChallan } from "@/lib/challans";
+import { bookClientEntry, entryReference, reverseClientEntry } from "@/lib/client-entries";
+import { clientEntries } from "@/lib/client-material-entries";
+
+const reverseEntrySchema = z.object({
+  entryId: z.string().min(1, "Entry is required."),
+  reason: z.string().trim().min(1, "Say why the entry is reversed."),
+  // Corrected quantity (and serials) per line of the entry, when re-booking it.
+  lines: z.array(z.object({
+    quantity: z.coerce.number().int().min(0, "Quantities cannot be negative."),
+    serialNumbers: z.string().optional().nullable(),
+  })).optional(),
+});
+
+// Reverses the entry and, with corrected lines, books them as a new entry of the same
+// kind: a new challan for a challan, otherwise an In/Out per line. The form sends the
+// corrected lines as JSON in the 'lines' field.
+export async function reverseClientEntryAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  let lines: unknown = undefined;
+  try {
+    if (formData.get("lines")) lines = JSON.parse(String(formData.get("lines")));
+  } catch {
+    return { success: false, message: "Invalid corrected quantities.", submissionId };
+  }
+  const validated = reverseEntrySchema.safeParse({ entryId: formData.get("entryId"), reason: formData.get("reason"), lines });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    return { success: false, message: fieldErrors.reason?.[0] || "Invalid reversal data.", errors: fieldErrors, submissionId };
+  }
+  const { entryId, reason } = validated.data;
+  const corrected = validated.data.lines;
+  if (corrected && !corrected.some(l => l.quantity > 0)) {
+    return { success: false, message: "Enter the corrected quantities, or reverse without correcting.", submissionId };
+  }
+
+  try {
+    await ensureSerialIndexes(await getDatabase());
+    const { entry, correction } = await withTransaction(async (db, session) => {
+      const { entry } = await reverseClientEntry(db, entryId, { reason, user: auth.user }, session);
+      if (!corrected) return { entry, correction: null };
+      if (corrected.length !== entry.materials.length) throw new StockError("The entry changed. Reload and try again.");
+
+      const items = entry.materials
+        .map((line, i) => ({ line, quantity: corrected[i].quantity, serialNumbers: corrected[i].serialNumbers }))
+        .filter(item => item.quantity > 0);
+      if (entry.challanNo) {
+        const challan = await createChallan(db, {
+          clientId: entry.clientId,
+          projectId: entry.projectId,
+          locationId: entry.locationId,
+          items: items.map(({ line, quantity, serialNumbers }) => ({ materialId: line.materialId, quantity, serialNumbers })),
+          vehicleNo: entry.vehicleNo,
+          driverName: entry.driverName,
+          remarks: entry.remarks,
+        }, auth.user, session);
+        await clientEntries(db).updateOne(
+          { _id: new ObjectId(challan.id) },
+          { $set: { correctionOf: entryId } },
+          { session }
+        );
+        return { entry, correction: `Challan ${challan.challanNo}` };
+      }
+
+      for (const { line, quantity, serialNumbers } of items) {
+        await bookClientEntry(db, {
+          clientId: entry.clientId,
+          materialId: line.materialId,
+          materialName: line.materialName,
+          quantity,
+          type: entry.type,
+          reason: entry.reason,
+          serialNumbers,
+          projectId: entry.projectId,
+          locationId: entry.locationId,
+          correctionOf: entryId,
+        }, auth.user, session);
+      }
+      return { entry, correction: items.map(({ line, quantity }) => `${quantity} ${line.materialName}`).join(", ") };
+    });
+
+    revalidatePath(`/client-costing/${entry.clientId}`);
+    revalidatePath(`/client-material`);
+    revalidatePath(`/client-material/${entry.clientId}`);
+    revalidatePath("/stock");
+    revalidatePath("/needs-to-buy");
+    const reference = entryReference(entry);
+    return {
+      success: true,
+      message: correction ? `${reference} reversed and corrected to ${correction}.` : `${reference} reversed.`,
+      submissionId,
+    };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId };
+    }
+    console.error("Error reversing client entry:", error);
+    return { success: false, message: "Server error occurred. Please try again.", submissionId };
+  }
+}
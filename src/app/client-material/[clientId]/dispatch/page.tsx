@@ -0,0 +1,64 @@
+// This file defines the dispatch page for a client, at /client-material/<clientId>/dispatch.
+// Storekeepers build a multi-material delivery challan here and commit it in one step.
+
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { ObjectId } from "mongodb";
+import { notFound } from "next/navigation";
+import type { Client } from "@/lib/types";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { DispatchChallanForm } from "@/components/clients/DispatchChallanForm";
+import { ArrowLeft } from "lucide-react";
+import { getProjects } from "@/lib/projects";
+import { getBomTemplates } from "@/lib/bom-templates";
+import { getLocations } from "@/lib/locations";
+import { clientsCollection } from "@/lib/clients";
+
+// Fetch the client so the form and the PDF can show its details.
+async function getClientData(clientId: string) {
+    try {
+        const db = await getDatabase();
+        const client = await clientsCollection(db).findOne({ _id: new ObjectId(clientId) });
+        if (!client) {
+            return null;
+        }
+        const { _id, ...clientData } = client;
+        return { id: _id.toString(), ...clientData } as Client;
+    } catch (error) {
+        return null;
+    }
+}
+
+export default async function ClientDispatchPage({ params }: { params: Promise<{ clientId: string }> }) {
+    await requirePageRole("storekeeper");
+    const { clientId } = await params;
+    const client = await getClientData(clientId);
+
+    if (!client) {
+        notFound();
+    }
+    const db = await getDatabase();
+    const [projects, templates, locations] = await Promise.all([getProjects(db, clientId), getBomTemplates(db), getLocations(db)]);
+
+    return (
+        <div className="p-4 md:p-8 space-y-6">
+            <div className="flex items-center gap-4">
+                <Button asChild variant="outline" size="icon" className="hover:bg-muted">
+                    <Link href={`/client-material/${clientId}`}>
+                        <ArrowLeft className="w-4 h-4" />
+                        <span className="sr-only">Go Back</span>
+                    </Link>
+                </Button>
+                <h1 className="text-lg md:text-xl font-bold font-headline truncate">
+                    Dispatch to {client.name}
+                </h1>
+            </div>
+
+            <DispatchChallanForm client={client} projects={projects} templates={templates} locations={locations} />
+        </div>
+    );
+}
+
+// Always render with fresh client data.
+export const dynamic = 'force-dynamic';
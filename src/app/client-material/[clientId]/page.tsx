@@ -2,7 +2,8 @@
 // The [clientId] part in the folder name means that this page will be rendered for URLs like /client-material/some-client-id.
 
 // Import MongoDB database instance and functions for data fetching.
-import { getDatabase } from "@/lib/mongodb";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { requirePageRole, hasRole } from "@/lib/auth";
 import { ObjectId } from "mongodb";
 import { notFound } from "next/navigation";
 // Import TypeScript types for our data structures.
@@ -12,18 +13,28 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { ClientMaterialStock } from "@/components/clients/ClientMaterialStock";
-import { ArrowLeft, Calculator } from "lucide-react";
+import { ClientChallanList } from "@/components/clients/ClientChallanList";
+import { ProjectList } from "@/components/projects/ProjectList";
+import { getProjects } from "@/lib/projects";
+import { ReservationList } from "@/components/reservations/ReservationList";
+import { expireReservations, getReservations } from "@/lib/reservations";
+import { getClientIssueCosts } from "@/lib/valuation";
+import { getClientAudit, clientsCollection } from "@/lib/clients";
+import { ClientLifecycleActions } from "@/components/clients/ClientLifecycleActions";
+import { ClientChangeLog } from "@/components/clients/ClientChangeLog";
+import { ClientTimeline } from "@/components/clients/ClientTimeline";
+import { ArrowLeft, Archive, Calculator, Receipt, Truck, Wallet } from "lucide-react";
 
 // Asynchronous function to fetch a single client's data from MongoDB.
 async function getClientData(clientId: string) {
     try {
         const db = await getDatabase();
-        const client = await db.collection("clients").findOne({ _id: new ObjectId(clientId) });
+        const client = await clientsCollection(db).findOne({ _id: new ObjectId(clientId) });
         if (!client) {
             return null;
         }
-        const { _id, ...clientData } = client;
-        return { id: _id.toString(), ...clientData } as Client;
+        const { _id, archivedAt, ...clientData } = client;
+        return { id: _id.toString(), ...clientData, ...(archivedAt ? { archivedAt: new Date(archivedAt).toISOString() } : {}) } as Client;
     } catch (error) {
         return null;
     }
@@ -34,12 +45,21 @@ async function getClientData(clientId: string) {
 // This is the main React component for the client detail page.
 // It's an async component, allowing us to use 'await' for data fetching directly within it.
 export default async function ClientDetailPage({ params }: { params: Promise<{ clientId: string }> }) {
+    const user = await requirePageRole("viewer");
     const { clientId } = await params;
     const client = await getClientData(clientId);
     
     if (!client) {
         notFound();
     }
+    const db = await getDatabase();
+    await withTransaction(expireReservations);
+    const [projects, reservations, issueCosts, audit] = await Promise.all([
+        getProjects(db, clientId),
+        getReservations(db, { clientId, closedLimit: 5 }),
+        hasRole(user, "owner") ? getClientIssueCosts(db, clientId) : Promise.resolve(null),
+        getClientAudit(db, clientId),
+    ]);
 
     // Render the JSX for the page.
     return (
@@ -54,7 +74,20 @@ export default async function ClientDetailPage({ params }: { params: Promise<{ c
                 <h1 className="text-lg md:text-xl font-bold font-headline truncate">
                     Client: {client.name}
                 </h1>
+                <div className="ml-auto">
+                    <ClientLifecycleActions client={client} />
+                </div>
             </div>
+
+            {client.archived && (
+                <div className="flex items-center gap-2 rounded-md border border-dashed p-3 text-sm text-muted-foreground">
+                    <Archive className="w-4 h-4 shrink-0" />
+                    <span>
+                        Archived{client.archivedAt ? ` on ${new Date(client.archivedAt).toLocaleDateString()}` : ""}
+                        {client.archivedBy ? ` by ${client.archivedBy}` : ""}. The client is hidden from the client list; all records are kept.
+                    </span>
+                </div>
+            )}
             
             <Card>
                 <CardHeader>
@@ -65,6 +98,11 @@ export default async function ClientDetailPage({ params }: { params: Promise<{ c
                         <p className="text-sm text-muted-foreground">
                             Consumer No: {client.consumerNo} | Plant Capacity: {client.plantCapacity}
                         </p>
+                        {projects.length > 0 && (
+                            <p className="text-sm text-muted-foreground">
+                                {projects.length} project(s); costing and usage below cover all sites
+                            </p>
+                        )}
                     </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -75,14 +113,44 @@ export default async function ClientDetailPage({ params }: { params: Promise<{ c
                                 View Client Costing
                             </Link>
                         </Button>
+                        <Button asChild size="lg" variant="outline" className="w-full">
+                            <Link href={`/client-costing/${clientId}/invoices`}>
+                                <Receipt className="w-4 h-4 mr-2" />
+                                Tax Invoices
+                            </Link>
+                        </Button>
+                        <Button asChild size="lg" variant="outline" className="w-full">
+                            <Link href={`/client-costing/${clientId}/payments`}>
+                                <Wallet className="w-4 h-4 mr-2" />
+                                Payments &amp; Statement
+                            </Link>
+                        </Button>
+                        {hasRole(user, "storekeeper") && (
+                            <Button asChild size="lg" variant="outline" className="w-full">
+                                <Link href={`/client-material/${clientId}/dispatch`}>
+                                    <Truck className="w-4 h-4 mr-2" />
+                                    New Dispatch Challan
+                                </Link>
+                            </Button>
+                        )}
                     </div>
                 </CardContent>
             </Card>
 
+            <ProjectList clientId={clientId} projects={projects} />
+
+            <ReservationList clientId={clientId} projects={projects} active={reservations.active} closed={reservations.closed} />
+
             <Separator />
 
             {/* Client-specific view of materials with In/Out controls */}
-            <ClientMaterialStock clientId={clientId} />
+            <ClientMaterialStock clientId={clientId} projects={projects} />
+
+            <ClientChallanList client={client} projects={projects} issueCosts={issueCosts} />
+
+            <ClientTimeline client={client} projects={projects} />
+
+            <ClientChangeLog entries={audit} />
         </div>
     );
 }
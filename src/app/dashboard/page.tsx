@@ -2,6 +2,7 @@
 
 // Import MongoDB database functions for checking data.
 import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
 
 // Import server action for seeding data.
 import { seedData } from "@/app/actions";
@@ -13,22 +14,26 @@ import { ClientGrid } from "@/components/clients/ClientGrid";
 // Import UI components from ShadCN.
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { materialsCollection } from "@/lib/materials";
 
 
 // This is the main React component for the dashboard page.
 // It is an 'async' component, which allows us to use 'await' at the top level.
 export default async function DashboardPage() {
-  
+  // Any signed-in user may view the dashboard.
+  await requirePageRole("viewer");
+
   // This line automatically calls the 'seedData' server action when the dashboard is loaded.
   // The 'seedData' function itself contains logic to check if data already exists,
-  // so it will only run the seeding process once when the database is empty.
+  // so it will only run the seeding process once when the database is empty. Only an
+  // owner's visit seeds; for anyone else it does nothing.
   // This is a simple way to ensure the application has initial data without manual intervention.
   await seedData();
 
   // We perform a check here to see if any data exists in the database.
   // This helps us display a more user-friendly message on the dashboard if it's empty.
   const db = await getDatabase();
-  const materialsCount = await db.collection("materials").countDocuments({}, { limit: 1 });
+  const materialsCount = await materialsCollection(db).countDocuments({}, { limit: 1 });
   const dataExists = materialsCount > 0;
 
 
@@ -0,0 +1,288 @@
+// Server actions for GST tax invoices. An invoice is built from the client's costing
+// record, numbered per financial year and stored in 'invoices'. Issued invoices are
+// never edited: voiding one issues a credit note for the same amounts.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { ActionError } from "@/lib/errors";
+import { costingFilter, recomputeClientCosting, costingCollection } from "@/lib/client-costing";
+import { nextSequence, formatSequence } from "@/lib/sequence";
+import { getCompanyProfile, saveCompanyProfile } from "@/lib/company";
+import {
+  amountInWords,
+  buildInvoiceLines,
+  financialYearOf,
+  invoiceTotals,
+  isValidGstin,
+  stateCodeFromGstin,
+  stateName,
+  uninvoicedPart,
+} from "@/lib/gst";
+import type { ClientCostRow, Invoice, InvoiceKind, PaymentAllocation } from "@/lib/types";
+import { clientFields, clientsCollection } from "@/lib/clients";
+import { materialsCollection } from "@/lib/materials";
+
+const NUMBER_PREFIX: Record<InvoiceKind, string> = { invoice: "INV", credit_note: "CN" };
+
+// e.g. "INV-0001/2025-26". Each kind restarts at 1 every financial year.
+async function nextInvoiceNumber(db: Db, kind: InvoiceKind, financialYear: string, session: ClientSession) {
+  const value = await nextSequence(db, `${kind}:${financialYear}`, session);
+  return `${formatSequence(NUMBER_PREFIX[kind], value)}/${financialYear}`;
+}
+
+function toInvoice(doc: Record<string, any>): Invoice {
+  const { _id, ...rest } = doc;
+  return {
+    id: _id.toString(),
+    ...rest,
+    date: new Date(rest.date).toISOString(),
+    voidedAt: rest.voidedAt ? new Date(rest.voidedAt).toISOString() : undefined,
+  } as Invoice;
+}
+
+const gstinField = z.string().trim().toUpperCase()
+  .refine(v => v === "" || isValidGstin(v), "Enter a valid 15-character GSTIN.");
+
+const stateCodeField = z.string().trim()
+  .refine(v => stateName(v) !== "", "Select a valid state.");
+
+const companySchema = z.object({
+  name: z.string().trim().min(1, "Company name is required."),
+  address: z.string().trim().min(1, "Address is required."),
+  gstin: gstinField.refine(v => v !== "", "GSTIN is required."),
+  stateCode: stateCodeField,
+  phone: z.string().trim().optional(),
+  email: z.string().trim().optional(),
+});
+
+// Seller details printed on every invoice. Issued invoices keep the details they were
+// issued with; changes here only affect new invoices.
+export async function saveCompanyProfileAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  const validated = companySchema.safeParse({
+    name: formData.get("name") ?? "",
+    address: formData.get("address") ?? "",
+    gstin: formData.get("gstin") ?? "",
+    stateCode: formData.get("stateCode") ?? "",
+    phone: formData.get("phone") ?? "",
+    email: formData.get("email") ?? "",
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid company details.", errors: fieldErrors, submissionId };
+  }
+  const profile = validated.data;
+  if (stateCodeFromGstin(profile.gstin) !== profile.stateCode) {
+    return { success: false, message: "The state must match the first two digits of the GSTIN.", submissionId };
+  }
+
+  try {
+    const db = await getDatabase();
+    await saveCompanyProfile(db, {
+      name: profile.name,
+      address: profile.address,
+      gstin: profile.gstin,
+      stateCode: profile.stateCode,
+      ...(profile.phone ? { phone: profile.phone } : {}),
+      ...(profile.email ? { email: profile.email } : {}),
+    });
+    revalidatePath("/stock/admin");
+    return { success: true, message: "Company details saved.", submissionId };
+  } catch (error) {
+    console.error("Error saving company details:", error);
+    return { success: false, message: "Failed to save company details.", submissionId };
+  }
+}
+
+const invoiceSchema = z.object({
+  clientId: z.string().min(1, "Client ID is required."),
+  buyerGstin: gstinField,
+  placeOfSupply: stateCodeField,
+});
+
+// Issues a tax invoice for what on the client's costing record no issued invoice bills
+// yet, at its current rates. The buyer GSTIN and place of supply are remembered on the
+// client for next time; that write also makes two invoices for the same client at once
+// conflict, so the retried one sees what the other billed.
+export async function createInvoiceAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId, invoice: null };
+
+  const validated = invoiceSchema.safeParse({
+    clientId: formData.get("clientId") ?? "",
+    buyerGstin: formData.get("buyerGstin") ?? "",
+    placeOfSupply: formData.get("placeOfSupply") ?? "",
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid invoice data.", errors: fieldErrors, submissionId, invoice: null };
+  }
+  const { clientId, buyerGstin, placeOfSupply } = validated.data;
+
+  try {
+    const invoice = await withTransaction(async (db, session) => {
+      const seller = await getCompanyProfile(db, session);
+      if (!seller?.gstin || !seller.stateCode) {
+        throw new ActionError("Add the company GSTIN and state in Admin before issuing invoices.");
+      }
+      const client = ObjectId.isValid(clientId)
+        ? await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }, { session })
+        : null;
+      if (!client) throw new ActionError("Client not found.");
+
+      const costing = await costingCollection(db).findOne(costingFilter(clientId), { session })
+        ?? await recomputeClientCosting(db, clientId, session, null, { reason: "Invoice", user: auth.user });
+      const issued = await db.collection<Invoice>("invoices")
+        .find({ kind: "invoice", clientId, status: "issued" }, { session, projection: { status: 1, lines: 1 } })
+        .toArray();
+      const { rows, charges } = uninvoicedPart(
+        (Array.isArray(costing.items) ? costing.items : []) as ClientCostRow[],
+        Array.isArray(costing.charges) ? costing.charges : [],
+        issued
+      );
+
+      const materialIds = rows.map(r => r.materialId).filter(id => ObjectId.isValid(id));
+      const materials = await materialsCollection(db)
+        .find({ _id: { $in: materialIds.map(id => new ObjectId(id)) } }, { session })
+        .toArray();
+      const hsnCodes = Object.fromEntries(materials.map(m => [m._id.toString(), String(m.hsnCode || "")]));
+
+      const interState = placeOfSupply !== seller.stateCode;
+      const lines = buildInvoiceLines(rows, hsnCodes, interState, {
+        discountPercent: Number(costing.discountPercent) || 0,
+        charges,
+      });
+      if (lines.length === 0) {
+        throw new ActionError(issued.length > 0
+          ? "Everything on the client's costing has already been invoiced."
+          : "The client's costing has nothing to invoice.");
+      }
+      const totals = invoiceTotals(lines);
+
+      const date = new Date();
+      const financialYear = financialYearOf(date);
+      const number = await nextInvoiceNumber(db, "invoice", financialYear, session);
+      const doc: Record<string, any> = {
+        kind: "invoice",
+        number,
+        financialYear,
+        clientId,
+        date,
+        seller,
+        buyer: {
+          name: String(client.name || ""),
+          address: String(client.address || ""),
+          ...(buyerGstin ? { gstin: buyerGstin } : {}),
+          stateCode: placeOfSupply,
+        },
+        placeOfSupply,
+        interState,
+        lines,
+        totals,
+        amountInWords: amountInWords(totals.grand),
+        status: "issued",
+        createdBy: auth.user.name,
+      };
+      const result = await db.collection("invoices").insertOne(doc, { session });
+
+      await clientsCollection(db).updateOne(
+        { _id: client._id },
+        buyerGstin
+          ? { $set: clientFields({ gstin: buyerGstin, stateCode: placeOfSupply }) }
+          : { $set: clientFields({ stateCode: placeOfSupply }), $unset: { gstin: "" } },
+        { session }
+      );
+
+      return toInvoice({ _id: result.insertedId, ...doc });
+    });
+
+    revalidatePath(`/client-costing/${clientId}/invoices`);
+    revalidatePath(`/client-material/${clientId}`);
+    return { success: true, message: `Invoice ${invoice.number} issued.`, submissionId, invoice };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId, invoice: null };
+    }
+    console.error("Error creating invoice:", error);
+    return { success: false, message: "Server error occurred. Please try again.", submissionId, invoice: null };
+  }
+}
+
+// Voids an issued invoice by issuing a credit note for the same lines and amounts.
+// The filter on status makes a second void of the same invoice fail instead of
+// issuing two credit notes.
+export async function voidInvoiceAction(invoiceId: string, reason: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(invoiceId)) return { success: false, message: "Invoice not found." };
+  if (!reason?.trim()) return { success: false, message: "A reason is required to void an invoice." };
+
+  try {
+    const creditNote = await withTransaction(async (db, session) => {
+      const original = await db.collection("invoices").findOne({ _id: new ObjectId(invoiceId) }, { session });
+      if (!original || original.kind !== "invoice") throw new ActionError("Invoice not found.");
+      if (original.status !== "issued") throw new ActionError(`Invoice ${original.number} is already voided.`);
+
+      const date = new Date();
+      const financialYear = financialYearOf(date);
+      const number = await nextInvoiceNumber(db, "credit_note", financialYear, session);
+      const { _id, number: invoiceNo, financialYear: _fy, date: _date, createdBy: _by, ...copied } = original;
+      const doc: Record<string, any> = {
+        ...copied,
+        kind: "credit_note",
+        number,
+        financialYear,
+        date,
+        status: "issued",
+        againstInvoiceId: invoiceId,
+        againstInvoiceNo: invoiceNo,
+        voidReason: reason.trim(),
+        createdBy: auth.user.name,
+      };
+      const result = await db.collection("invoices").insertOne(doc, { session });
+
+      const update = await db.collection("invoices").updateOne(
+        { _id: original._id, status: "issued" },
+        {
+          $set: {
+            status: "voided",
+            voidedAt: date,
+            paid: 0,
+            voidReason: reason.trim(),
+            creditNoteId: result.insertedId.toString(),
+            creditNoteNo: number,
+          },
+        },
+        { session }
+      );
+      if (update.modifiedCount !== 1) throw new ActionError(`Invoice ${invoiceNo} is already voided.`);
+
+      // Payments allocated to the invoice go back to being advances.
+      await db.collection<{ allocations: PaymentAllocation[] }>("client_payments").updateMany(
+        { "allocations.invoiceId": invoiceId },
+        { $pull: { allocations: { invoiceId } } },
+        { session }
+      );
+
+      return toInvoice({ _id: result.insertedId, ...doc });
+    });
+
+    revalidatePath(`/client-costing/${creditNote.clientId}/invoices`);
+    revalidatePath(`/client-costing/${creditNote.clientId}/payments`);
+    return { success: true, message: `Credit note ${creditNote.number} issued against ${creditNote.againstInvoiceNo}.`, creditNote };
+  } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
+    console.error("Error voiding invoice:", error);
+    return { success: false, message: "Failed to void invoice." };
+  }
+}
@@ -0,0 +1,164 @@
+// Server actions for stock locations (godown, vans, site stores) and transfers between
+// them. A transfer moves stock from one location to another without changing the total.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { resolveStockLocation, transferStock } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import { getDefaultLocation } from "@/lib/locations";
+import { nextSequence, formatSequence } from "@/lib/sequence";
+import { baseUnitOf } from "@/lib/units";
+import type { StockTransferLine } from "@/lib/types";
+
+const TRANSFER_SEQUENCE = "stock_transfer";
+const TRANSFER_PREFIX = "TR";
+
+const locationSchema = z.object({
+  locationId: z.string().optional(),
+  name: z.string().trim().min(1, "Location name is required."),
+  kind: z.enum(["warehouse", "van", "site"]),
+  address: z.string().trim().optional(),
+});
+
+// Adds a location, or renames / updates it when 'locationId' is given.
+export async function saveLocationAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  const validated = locationSchema.safeParse({
+    locationId: formData.get("locationId") || undefined,
+    name: formData.get("name") ?? "",
+    kind: formData.get("kind") || "warehouse",
+    address: formData.get("address") ?? "",
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid location.", errors: fieldErrors, submissionId };
+  }
+  const { locationId, name, kind, address } = validated.data;
+
+  try {
+    const db = await getDatabase();
+    await getDefaultLocation(db);
+    const sameName = await db.collection("locations").findOne({ name });
+    if (sameName && sameName._id.toString() !== locationId) {
+      return { success: false, message: `A location named ${name} already exists.`, submissionId };
+    }
+    const update = address ? { $set: { name, kind, address } } : { $set: { name, kind }, $unset: { address: "" } };
+    if (locationId) {
+      if (!ObjectId.isValid(locationId)) return { success: false, message: "Location not found.", submissionId };
+      const result = await db.collection("locations").updateOne({ _id: new ObjectId(locationId) }, update);
+      if (result.matchedCount === 0) return { success: false, message: "Location not found.", submissionId };
+    } else {
+      await db.collection("locations").insertOne({ name, kind, ...(address ? { address } : {}), createdAt: new Date() });
+    }
+    revalidatePath("/locations");
+    revalidatePath("/stock");
+    return { success: true, message: `Location ${name} saved.`, submissionId };
+  } catch (error) {
+    console.error("Error saving location:", error);
+    return { success: false, message: "Failed to save location.", submissionId };
+  }
+}
+
+const transferItemSchema = z.object({
+  materialId: z.string().min(1, "Material is required."),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+});
+
+const transferSchema = z.object({
+  fromLocationId: z.string().min(1, "Pick the location to move stock from."),
+  toLocationId: z.string().min(1, "Pick the location to move stock to."),
+  note: z.string().trim().optional(),
+  items: z.array(transferItemSchema).min(1, "Add at least one material to transfer."),
+});
+
+// Moves the listed materials between two locations and records the transfer, all in
+// one transaction. The form sends the lines as JSON in 'items'.
+export async function transferStockAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  let items: unknown = [];
+  try {
+    items = JSON.parse(String(formData.get("items") || "[]"));
+  } catch {
+    return { success: false, message: "Invalid material lines.", submissionId };
+  }
+  const validated = transferSchema.safeParse({
+    fromLocationId: formData.get("fromLocationId") ?? "",
+    toLocationId: formData.get("toLocationId") ?? "",
+    note: formData.get("note") ?? "",
+    items,
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid transfer.", errors: fieldErrors, submissionId };
+  }
+  const { fromLocationId, toLocationId, note } = validated.data;
+  const transferItems = validated.data.items.map(i => ({ materialId: i.materialId!, quantity: i.quantity! }));
+  if (fromLocationId === toLocationId) {
+    return { success: false, message: "Pick two different locations.", submissionId };
+  }
+  if (new Set(transferItems.map(i => i.materialId)).size !== transferItems.length) {
+    return { success: false, message: "Each material can only appear once on a transfer.", submissionId };
+  }
+
+  try {
+    const transferNo = await withTransaction(async (db, session) => {
+      const from = (await resolveStockLocation(db, fromLocationId, session))!;
+      const to = (await resolveStockLocation(db, toLocationId, session))!;
+      const transferNo = formatSequence(TRANSFER_PREFIX, await nextSequence(db, TRANSFER_SEQUENCE, session));
+      const transferId = new ObjectId();
+      const date = new Date();
+
+      const lines: StockTransferLine[] = [];
+      for (const item of transferItems) {
+        const material = await transferStock(db, {
+          materialId: item.materialId,
+          quantity: item.quantity,
+          from,
+          to,
+          reason: `Transfer ${transferNo}: ${from.name} → ${to.name}`,
+          batchId: transferId.toString(),
+          reference: { type: "stock_transfer", id: transferId.toString() },
+          user: auth.user,
+          date,
+        }, session);
+        lines.push({ materialId: item.materialId, materialName: String(material.name || ""), quantity: item.quantity, unit: baseUnitOf(material) });
+      }
+
+      await db.collection("stock_transfers").insertOne({
+        _id: transferId,
+        transferNo,
+        fromLocationId: from.id,
+        fromLocationName: from.name,
+        toLocationId: to.id,
+        toLocationName: to.name,
+        lines,
+        date,
+        ...(note ? { note } : {}),
+        createdBy: auth.user.name,
+      }, { session });
+      return transferNo;
+    });
+
+    revalidatePath("/locations");
+    revalidatePath("/stock");
+    return { success: true, message: `Transfer ${transferNo} recorded.`, submissionId };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId };
+    }
+    console.error("Error transferring stock:", error);
+    return { success: false, message: "Failed to transfer stock.", submissionId };
+  }
+}
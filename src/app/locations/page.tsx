@@ -0,0 +1,20 @@
+// Stock locations (godown, vans, site stores) and the latest transfers between them.
+
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getLocations, getStockTransfers } from "@/lib/locations";
+import { LocationList } from "@/components/locations/LocationList";
+
+export default async function LocationsPage() {
+  await requirePageRole("viewer");
+  const db = await getDatabase();
+  const [locations, transfers] = await Promise.all([getLocations(db), getStockTransfers(db)]);
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <LocationList locations={locations} transfers={transfers} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
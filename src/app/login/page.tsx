@@ -0,0 +1,37 @@
+// This file defines the sign-in page. When no accounts exist yet it offers to create
+// the first owner account instead.
+
+import { redirect } from "next/navigation";
+import { getDatabase } from "@/lib/mongodb";
+import { getSessionUser, safeNextPath } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { LoginForm } from "@/components/auth/LoginForm";
+import { SetupOwnerForm } from "@/components/auth/SetupOwnerForm";
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+  const { next } = await searchParams;
+  // Already signed in? Go straight to the app.
+  const user = await getSessionUser();
+  if (user) redirect(safeNextPath(next));
+
+  const db = await getDatabase();
+  const hasUsers = (await db.collection("users").countDocuments({}, { limit: 1 })) > 0;
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-8 bg-background">
+      <Card className="w-full max-w-md shadow-xl border-2 border-border">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-headline">Future Energy Dashboard</CardTitle>
+          <CardDescription>
+            {hasUsers ? "Sign in to continue." : "Create the owner account to get started."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hasUsers ? <LoginForm next={next} /> : <SetupOwnerForm />}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
+
+export const dynamic = 'force-dynamic';
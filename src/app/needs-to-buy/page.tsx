@@ -2,28 +2,39 @@
 // This file defines the "Needs To Buy" page, which displays materials with low inventory.
 
 // Import MongoDB database instance and functions for data fetching.
-import { getDatabase } from "@/lib/mongodb";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
 // Import UI components from the component library.
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 // Import icons from lucide-react.
-import { ShoppingCart, Info } from "lucide-react";
+import { ShoppingCart, Info, ClipboardList } from "lucide-react";
 // Import the TypeScript type for a Material.
 import type { Material } from "@/lib/types";
-import { Badge } from "@/components/ui/badge";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { NeedsToBuyList } from "@/components/purchasing/NeedsToBuyList";
+import { getSuppliers, getOnOrderQuantities } from "@/lib/purchasing";
+import { getDailyConsumption } from "@/lib/stock-ledger";
+import { CONSUMPTION_WINDOW_DAYS, DEFAULT_REORDER_POINT, isLowStock, suggestOrderQty } from "@/lib/reorder";
+import { expireReservations } from "@/lib/reservations";
+import { materialsCollection } from "@/lib/materials";
 
-// This is the threshold for what is considered "low stock".
-const LOW_STOCK_THRESHOLD = 10;
-
-// Asynchronous function to fetch materials that are low in stock from Firestore.
+// Asynchronous function to fetch materials that are low in stock from MongoDB.
 // This is a server-side data fetching function.
 async function getLowStockMaterials(): Promise<Material[]> {
   // Get MongoDB database instance
   const db = await getDatabase();
   
-  // Query for materials where quantity is less than or equal to threshold
-  const materials = await db.collection("materials")
-    .find({ quantity: { $lte: LOW_STOCK_THRESHOLD } })
+  // Query for materials whose stock on hand is at or below their own reorder point (the
+  // default where none is set), plus any that only fall below it once reservations count.
+  await withTransaction(expireReservations);
+  const materials = await materialsCollection(db)
+    .find({ $or: [
+      { $expr: { $lte: [{ $ifNull: ["$quantity", 0] }, { $ifNull: ["$reorderPoint", DEFAULT_REORDER_POINT] }] } },
+      { reserved: { $gt: 0 } },
+    ] })
+    .sort({ name: 1 })
     .toArray();
   
   // Map through the documents to create an array of Material objects.
@@ -33,50 +44,62 @@ async function getLowStockMaterials(): Promise<Material[]> {
       return { 
         id: _id.toString(), 
         ...data,
+        reserved: data.reserved ?? 0,
       } as Material;
-  });
+  }).filter(material => isLowStock(material));
 }
 
 
 // This is the main React component for the NeedsToBuyPage.
 // It's an 'async' component, allowing us to use 'await' for data fetching directly.
 export default async function NeedsToBuyPage() {
-    // Fetch the low stock materials when the page is rendered on the server.
-    const materialsToBuy = await getLowStockMaterials();
+    await requirePageRole("viewer");
+    // Fetch the low stock materials when the page is rendered on the server,
+    // with what is already on order and the suppliers a purchase order can go to.
+    const db = await getDatabase();
+    const [materialsToBuy, suppliers, onOrder, consumption] = await Promise.all([
+        getLowStockMaterials(),
+        getSuppliers(db),
+        getOnOrderQuantities(db),
+        getDailyConsumption(db, CONSUMPTION_WINDOW_DAYS),
+    ]);
+    // Suggested order quantity per material, from its recent dispatch rate.
+    const suggestions = Object.fromEntries(materialsToBuy.map(m => {
+        const dailyUsage = consumption.get(m.id) ?? 0;
+        return [m.id, { quantity: suggestOrderQty(m, dailyUsage, onOrder[m.id] ?? 0), dailyUsage }];
+    }));
 
     return (
         <div className="p-4 md:p-8 lg:p-10">
             <Card>
-                <CardHeader className="flex flex-row items-center gap-2">
-                    <ShoppingCart className="w-6 h-6" />
-                    <CardTitle className="font-headline">Needs To Buy</CardTitle>
+                <CardHeader className="flex flex-row items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                        <ShoppingCart className="w-6 h-6" />
+                        <CardTitle className="font-headline">Needs To Buy</CardTitle>
+                    </div>
+                    <Button asChild variant="outline">
+                        <Link href="/purchase-orders">
+                            <ClipboardList className="w-4 h-4 mr-2" />
+                            Purchase Orders
+                        </Link>
+                    </Button>
                 </CardHeader>
                 <CardContent>
                     {/* Check if there are any materials to display. */}
                     {materialsToBuy.length > 0 ? (
-                       <div className="space-y-4">
-                        {materialsToBuy.map((material) => (
-                           <Card key={material.id} className="p-4">
-                               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                                    <div className="flex-1 min-w-0">
-                                        <h3 className="font-bold text-lg break-words">{material.name}</h3>
-                                        <p className="text-sm text-muted-foreground break-words">{material.description}</p>
-                                    </div>
-                                    <div className="flex items-center justify-between sm:justify-end gap-2 shrink-0">
-                                        <span className="text-sm font-medium text-muted-foreground">Qty Remaining:</span>
-                                        <Badge variant="destructive" className="text-base">{material.quantity}</Badge>
-                                    </div>
-                               </div>
-                           </Card>
-                        ))}
-                       </div>
+                        <NeedsToBuyList
+                            materials={materialsToBuy}
+                            suppliers={suppliers}
+                            onOrder={onOrder}
+                            suggestions={suggestions}
+                        />
                     ) : (
                         // If all materials are well-stocked, display an informational alert.
                         <Alert>
                             <Info className="h-4 w-4" />
                             <AlertTitle className="font-headline">All Stocked Up!</AlertTitle>
                             <AlertDescription>
-                                There are currently no materials with a quantity of {LOW_STOCK_THRESHOLD} or less.
+                                There are currently no materials whose available stock is at or below their reorder point.
                             </AlertDescription>
                         </Alert>
                     )}
@@ -0,0 +1,150 @@
+// Server actions for client payments: recording money received, allocating it against
+// invoices or costings, and removing a payment entered by mistake.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { ActionError } from "@/lib/errors";
+import { nextSequence, formatSequence } from "@/lib/sequence";
+import { bookAllocations, resolveAllocations, toPayment } from "@/lib/client-payments";
+import { PAYMENT_MODES } from "@/lib/payments";
+import { clientsCollection } from "@/lib/clients";
+
+const RECEIPT_SEQUENCE = "client_payment";
+const RECEIPT_PREFIX = "RCPT";
+
+const allocationsField = z.string().optional().transform((value, ctx) => {
+  try {
+    const parsed = value ? JSON.parse(value) : [];
+    if (!Array.isArray(parsed)) throw new Error();
+    return parsed.map((a: any) => ({ key: String(a?.key ?? ""), amount: Number(a?.amount) || 0 }));
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid allocations." });
+    return z.NEVER;
+  }
+});
+
+const paymentSchema = z.object({
+  clientId: z.string().min(1, "Client ID is required."),
+  date: z.string().trim()
+    .refine(v => !Number.isNaN(new Date(v).getTime()), "Enter a valid date.")
+    .refine(v => new Date(v).getTime() <= Date.now(), "The payment date cannot be in the future."),
+  mode: z.enum(Object.keys(PAYMENT_MODES) as [string, ...string[]], { errorMap: () => ({ message: "Select how it was paid." }) }),
+  reference: z.string().trim().optional(),
+  amount: z.coerce.number().positive("Amount must be more than zero."),
+  notes: z.string().trim().optional(),
+  allocations: allocationsField,
+});
+
+const revalidateClient = (clientId: string) => {
+  revalidatePath(`/client-costing/${clientId}/payments`);
+  revalidatePath(`/client-material/${clientId}`);
+  revalidatePath("/client-material");
+};
+
+// Records a payment from a client. Amounts not allocated to an invoice or costing are
+// kept as an advance and can be allocated later.
+export async function recordPaymentAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  const validated = paymentSchema.safeParse({
+    clientId: formData.get("clientId") ?? "",
+    date: formData.get("date") ?? "",
+    mode: formData.get("mode") ?? "",
+    reference: formData.get("reference") ?? "",
+    amount: formData.get("amount") ?? "",
+    notes: formData.get("notes") ?? "",
+    allocations: formData.get("allocations") || undefined,
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid payment details.", errors: fieldErrors, submissionId };
+  }
+  const { clientId, date, mode, reference, amount, notes, allocations: requested } = validated.data;
+  if (!ObjectId.isValid(clientId)) return { success: false, message: "Client not found.", submissionId };
+
+  try {
+    const receiptNo = await withTransaction(async (db, session) => {
+      if (!(await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }, { session, projection: { _id: 1 } }))) {
+        throw new ActionError("Client not found.");
+      }
+      const allocations = await resolveAllocations(db, clientId, requested, amount, undefined, session);
+      await bookAllocations(db, clientId, [], allocations, session);
+      const receiptNo = formatSequence(RECEIPT_PREFIX, await nextSequence(db, RECEIPT_SEQUENCE, session));
+      await db.collection("client_payments").insertOne({
+        receiptNo,
+        clientId,
+        date: new Date(date),
+        mode,
+        ...(reference ? { reference } : {}),
+        amount,
+        allocations,
+        ...(notes ? { notes } : {}),
+        createdAt: new Date(),
+        createdBy: auth.user.name,
+      }, { session });
+      return receiptNo;
+    });
+    revalidateClient(clientId);
+    return { success: true, message: `Payment ${receiptNo} of ${amount.toFixed(2)} recorded.`, submissionId };
+  } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message, submissionId };
+    console.error("Error recording payment:", error);
+    return { success: false, message: "Failed to record payment.", submissionId };
+  }
+}
+
+// Replaces how a payment is allocated, e.g. to settle an invoice from an advance.
+export async function allocatePaymentAction(paymentId: string, requested: { key: string; amount: number }[]) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(paymentId)) return { success: false, message: "Payment not found." };
+
+  try {
+    const payment = await withTransaction(async (db, session) => {
+      const payment = await db.collection("client_payments").findOne({ _id: new ObjectId(paymentId) }, { session });
+      if (!payment) throw new ActionError("Payment not found.");
+      const allocations = await resolveAllocations(db, payment.clientId, requested, Number(payment.amount) || 0, paymentId, session);
+      await bookAllocations(db, payment.clientId, toPayment(payment).allocations, allocations, session);
+      await db.collection("client_payments").updateOne(
+        { _id: payment._id },
+        { $set: { allocations } },
+        { session }
+      );
+      return payment;
+    });
+    revalidateClient(payment.clientId);
+    return { success: true, message: `Payment ${payment.receiptNo} allocated.` };
+  } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message };
+    console.error("Error allocating payment:", error);
+    return { success: false, message: "Failed to allocate payment." };
+  }
+}
+
+// Removes a payment recorded by mistake. Its receipt number is not reused.
+export async function deletePaymentAction(paymentId: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(paymentId)) return { success: false, message: "Payment not found." };
+
+  try {
+    const payment = await withTransaction(async (db, session) => {
+      const payment = await db.collection("client_payments").findOneAndDelete({ _id: new ObjectId(paymentId) }, { session });
+      if (payment) await bookAllocations(db, payment.clientId, toPayment(payment).allocations, [], session);
+      return payment;
+    });
+    if (!payment) return { success: false, message: "Payment not found." };
+    revalidateClient(payment.clientId);
+    return { success: true, message: `Payment ${payment.receiptNo} deleted.` };
+  } catch (error) {
+    console.error("Error deleting payment:", error);
+    return { success: false, message: "Failed to delete payment." };
+  }
+}
@@ -0,0 +1,81 @@
+// Server actions for client projects (sites). Material entries and costing can be
+// booked to a project; the client's own costing stays the roll-up over all of them.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { PROJECT_STATUSES } from "@/lib/projects";
+import { clientsCollection } from "@/lib/clients";
+
+const optionalDate = z.string().trim().optional()
+  .refine(v => !v || !Number.isNaN(new Date(v).getTime()), "Enter a valid date.");
+
+const projectSchema = z.object({
+  clientId: z.string().min(1, "Client ID is required."),
+  projectId: z.string().optional(),
+  name: z.string().trim().min(1, "Project name is required."),
+  address: z.string().trim().optional(),
+  plantCapacity: z.string().trim().optional(),
+  status: z.enum(PROJECT_STATUSES as [string, ...string[]]),
+  startDate: optionalDate,
+  endDate: optionalDate,
+}).refine(p => !p.startDate || !p.endDate || new Date(p.startDate) <= new Date(p.endDate), {
+  message: "End date cannot be before the start date.",
+  path: ["endDate"],
+});
+
+// Adds a project to a client, or updates it when 'projectId' is given.
+export async function saveProjectAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  const validated = projectSchema.safeParse({
+    clientId: formData.get("clientId") ?? "",
+    projectId: formData.get("projectId") || undefined,
+    name: formData.get("name") ?? "",
+    address: formData.get("address") ?? "",
+    plantCapacity: formData.get("plantCapacity") ?? "",
+    status: formData.get("status") || "planned",
+    startDate: formData.get("startDate") ?? "",
+    endDate: formData.get("endDate") ?? "",
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid project details.", errors: fieldErrors, submissionId };
+  }
+  const { clientId, projectId, startDate, endDate, ...fields } = validated.data;
+  const $set: Record<string, any> = {};
+  const $unset: Record<string, ""> = {};
+  for (const [key, value] of Object.entries({ ...fields, startDate: startDate ? new Date(startDate) : "", endDate: endDate ? new Date(endDate) : "" })) {
+    if (value) $set[key] = value;
+    else $unset[key] = "";
+  }
+
+  try {
+    const db = await getDatabase();
+    if (!ObjectId.isValid(clientId) || !(await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }))) {
+      return { success: false, message: "Client not found.", submissionId };
+    }
+    if (projectId) {
+      if (!ObjectId.isValid(projectId)) return { success: false, message: "Project not found.", submissionId };
+      const result = await db.collection("projects").updateOne(
+        { _id: new ObjectId(projectId), clientId },
+        Object.keys($unset).length ? { $set, $unset } : { $set }
+      );
+      if (result.matchedCount === 0) return { success: false, message: "Project not found.", submissionId };
+    } else {
+      await db.collection("projects").insertOne({ ...$set, clientId, createdAt: new Date(), createdBy: auth.user.name });
+    }
+    revalidatePath(`/client-material/${clientId}`);
+    revalidatePath(`/client-costing/${clientId}`);
+    return { success: true, message: `Project ${fields.name} saved.`, submissionId };
+  } catch (error) {
+    console.error("Error saving project:", error);
+    return { success: false, message: "Failed to save project.", submissionId };
+  }
+}
@@ -0,0 +1,336 @@
+// Server actions for suppliers and purchase orders.
+// A purchase order moves draft -> sent -> partially_received -> received. Goods received
+// against it go through the same receiving path as a stock fill, so serial numbers,
+// the stock ledger and the invested amounts are all kept in step.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { StockError } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import { ensureSerialIndexes } from "@/lib/serials";
+import { receiveStock } from "@/lib/receiving";
+import { unitPriceOf } from "@/lib/price-history";
+import { nextSequence, formatSequence } from "@/lib/sequence";
+import { OPEN_PO_STATUSES, outstandingQty } from "@/lib/purchasing";
+import { isValidGstin } from "@/lib/gst";
+import { baseUnitOf } from "@/lib/units";
+import type { PurchaseOrderLine, SupplierPrice } from "@/lib/types";
+import { materialsCollection } from "@/lib/materials";
+
+const PO_SEQUENCE = "purchase_order";
+const PO_PREFIX = "PO";
+
+function revalidatePurchasing(purchaseOrderId?: string) {
+  revalidatePath("/purchase-orders");
+  if (purchaseOrderId) revalidatePath(`/purchase-orders/${purchaseOrderId}`);
+  revalidatePath("/needs-to-buy");
+}
+
+const supplierSchema = z.object({
+  supplierId: z.string().optional(),
+  name: z.string().trim().min(1, "Supplier name is required."),
+  contactName: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  email: z.string().trim().optional(),
+  address: z.string().trim().optional(),
+  gstin: z.string().trim().toUpperCase()
+    .refine(v => v === "" || isValidGstin(v), "Enter a valid 15-character GSTIN."),
+});
+
+// Adds a supplier, or updates its contact details when 'supplierId' is given.
+export async function saveSupplierAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  const validated = supplierSchema.safeParse({
+    supplierId: formData.get("supplierId") || undefined,
+    name: formData.get("name") ?? "",
+    contactName: formData.get("contactName") ?? "",
+    phone: formData.get("phone") ?? "",
+    email: formData.get("email") ?? "",
+    address: formData.get("address") ?? "",
+    gstin: formData.get("gstin") ?? "",
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid supplier details.", errors: fieldErrors, submissionId };
+  }
+  const { supplierId, ...fields } = validated.data;
+  const $set: Record<string, string> = {};
+  const $unset: Record<string, ""> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value) $set[key] = value;
+    else $unset[key] = "";
+  }
+
+  try {
+    const db = await getDatabase();
+    if (supplierId) {
+      if (!ObjectId.isValid(supplierId)) return { success: false, message: "Supplier not found.", submissionId };
+      const result = await db.collection("suppliers").updateOne(
+        { _id: new ObjectId(supplierId) },
+        Object.keys($unset).length ? { $set, $unset } : { $set }
+      );
+      if (result.matchedCount === 0) return { success: false, message: "Supplier not found.", submissionId };
+    } else {
+      await db.collection("suppliers").insertOne({ ...$set, priceList: [], createdAt: new Date() });
+    }
+    revalidatePath("/suppliers");
+    revalidatePath("/needs-to-buy");
+    return { success: true, message: `Supplier ${fields.name} saved.`, submissionId };
+  } catch (error) {
+    console.error("Error saving supplier:", error);
+    return { success: false, message: "Failed to save supplier.", submissionId };
+  }
+}
+
+// Replaces a supplier's price list. Prices of zero or less are dropped.
+export async function saveSupplierPricesAction(supplierId: string, prices: SupplierPrice[]) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(supplierId)) return { success: false, message: "Supplier not found." };
+
+  const priceList = prices
+    .map(p => ({ materialId: String(p.materialId || ""), unitPrice: Number(p.unitPrice) || 0 }))
+    .filter(p => ObjectId.isValid(p.materialId) && p.unitPrice > 0);
+  try {
+    const db = await getDatabase();
+    const result = await db.collection("suppliers").updateOne({ _id: new ObjectId(supplierId) }, { $set: { priceList } });
+    if (result.matchedCount === 0) return { success: false, message: "Supplier not found." };
+    revalidatePath("/suppliers");
+    revalidatePath("/needs-to-buy");
+    return { success: true, message: "Price list saved." };
+  } catch (error) {
+    console.error("Error saving supplier prices:", error);
+    return { success: false, message: "Failed to save price list." };
+  }
+}
+
+const poItemSchema = z.object({
+  materialId: z.string().min(1, "Material is required."),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+  unitPrice: z.coerce.number().min(0, "Price cannot be negative.").optional(),
+});
+
+const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Select a supplier."),
+  notes: z.string().optional().nullable(),
+  items: z.array(poItemSchema).min(1, "Add at least one material to the purchase order."),
+});
+
+// Creates a draft purchase order. Lines without a price take the supplier's price
+// list, then the material's own price. The form sends the lines as JSON in 'items'.
+export async function createPurchaseOrderAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error, submissionId, purchaseOrderId: null };
+
+  let items: unknown = [];
+  try {
+    items = JSON.parse(String(formData.get("items") || "[]"));
+  } catch {
+    return { success: false, message: "Invalid material lines.", submissionId, purchaseOrderId: null };
+  }
+  const validated = purchaseOrderSchema.safeParse({
+    supplierId: formData.get("supplierId") ?? "",
+    notes: formData.get("notes"),
+    items,
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid purchase order.", submissionId, purchaseOrderId: null };
+  }
+  const { supplierId, notes } = validated.data;
+  if (new Set(validated.data.items.map(i => i.materialId)).size !== validated.data.items.length) {
+    return { success: false, message: "Each material can only appear once on a purchase order.", submissionId, purchaseOrderId: null };
+  }
+
+  try {
+    const purchaseOrderId = await withTransaction(async (db, session) => {
+      const supplier = ObjectId.isValid(supplierId)
+        ? await db.collection("suppliers").findOne({ _id: new ObjectId(supplierId) }, { session })
+        : null;
+      if (!supplier) throw new ActionError("Supplier not found.");
+      const supplierPrices = new Map<string, number>(
+        (Array.isArray(supplier.priceList) ? supplier.priceList : []).map((p: SupplierPrice) => [p.materialId, Number(p.unitPrice) || 0])
+      );
+
+      const materialIds = validated.data.items.map(i => i.materialId).filter(id => ObjectId.isValid(id));
+      const materials = await materialsCollection(db)
+        .find({ _id: { $in: materialIds.map(id => new ObjectId(id)) } }, { session })
+        .toArray();
+      const byId = new Map(materials.map(m => [m._id.toString(), m]));
+
+      const lines: PurchaseOrderLine[] = validated.data.items.map(item => {
+        const material = byId.get(item.materialId);
+        if (!material) throw new StockError("Material not found.");
+        const unitPrice = item.unitPrice && item.unitPrice > 0
+          ? item.unitPrice
+          : supplierPrices.get(item.materialId) || unitPriceOf(material);
+        return {
+          materialId: item.materialId,
+          materialName: String(material.name || ""),
+          quantity: item.quantity,
+          unit: baseUnitOf(material),
+          receivedQty: 0,
+          unitPrice,
+          gstPercent: Number(material.gstPercent) || 0,
+        };
+      });
+
+      const poNumber = formatSequence(PO_PREFIX, await nextSequence(db, PO_SEQUENCE, session));
+      const doc: Record<string, any> = {
+        poNumber,
+        supplierId,
+        supplierName: String(supplier.name || ""),
+        status: "draft",
+        lines,
+        receipts: [],
+        createdAt: new Date(),
+        createdBy: auth.user.name,
+      };
+      if (notes?.trim()) doc.notes = notes.trim();
+      const result = await db.collection("purchase_orders").insertOne(doc, { session });
+      return result.insertedId.toString();
+    });
+
+    revalidatePurchasing();
+    return { success: true, message: "Purchase order created as a draft.", submissionId, purchaseOrderId };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId, purchaseOrderId: null };
+    }
+    console.error("Error creating purchase order:", error);
+    return { success: false, message: "Server error occurred. Please try again.", submissionId, purchaseOrderId: null };
+  }
+}
+
+// Marks a draft as sent to the supplier. From then on its lines are fixed and it
+// can be received against.
+export async function sendPurchaseOrderAction(purchaseOrderId: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(purchaseOrderId)) return { success: false, message: "Purchase order not found." };
+  try {
+    const db = await getDatabase();
+    const result = await db.collection("purchase_orders").updateOne(
+      { _id: new ObjectId(purchaseOrderId), status: "draft" },
+      { $set: { status: "sent", sentAt: new Date() } }
+    );
+    if (result.modifiedCount === 0) return { success: false, message: "Only draft purchase orders can be sent." };
+    revalidatePurchasing(purchaseOrderId);
+    return { success: true, message: "Purchase order marked as sent." };
+  } catch (error) {
+    console.error("Error sending purchase order:", error);
+    return { success: false, message: "Failed to update purchase order." };
+  }
+}
+
+// Drafts can be thrown away; anything sent stays on record.
+export async function deletePurchaseOrderAction(purchaseOrderId: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(purchaseOrderId)) return { success: false, message: "Purchase order not found." };
+  try {
+    const db = await getDatabase();
+    const result = await db.collection("purchase_orders").deleteOne({ _id: new ObjectId(purchaseOrderId), status: "draft" });
+    if (result.deletedCount === 0) return { success: false, message: "Only draft purchase orders can be deleted." };
+    revalidatePurchasing();
+    return { success: true, message: "Draft purchase order deleted." };
+  } catch (error) {
+    console.error("Error deleting purchase order:", error);
+    return { success: false, message: "Failed to delete purchase order." };
+  }
+}
+
+// Books a delivery against a sent purchase order. The form sends 'receive-<materialId>'
+// quantities and, for serialized materials, 'serials-<materialId>'. Every line goes into
+// stock at the order's agreed price; nothing is received if any line fails.
+export async function receivePurchaseOrderAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  const purchaseOrderId = String(formData.get("purchaseOrderId") || "");
+  if (!ObjectId.isValid(purchaseOrderId)) return { success: false, message: "Purchase order not found.", submissionId };
+
+  const quantities: Record<string, number> = {};
+  const serialInputs: Record<string, string> = {};
+  for (const [key, value] of formData.entries()) {
+    if (key.startsWith("receive-")) {
+      const qty = Number(value) || 0;
+      if (!Number.isInteger(qty) || qty < 0) {
+        return { success: false, message: "Quantities must be whole positive numbers.", submissionId };
+      }
+      quantities[key.replace("receive-", "")] = qty;
+    } else if (key.startsWith("serials-")) {
+      serialInputs[key.replace("serials-", "")] = String(value || "");
+    }
+  }
+
+  try {
+    await ensureSerialIndexes(await getDatabase());
+    const poNumber = await withTransaction(async (db, session) => {
+      const po = await db.collection("purchase_orders").findOne({ _id: new ObjectId(purchaseOrderId) }, { session });
+      if (!po) throw new ActionError("Purchase order not found.");
+      if (!OPEN_PO_STATUSES.includes(po.status)) {
+        throw new ActionError(po.status === "draft"
+          ? "Mark the purchase order as sent before receiving against it."
+          : `${po.poNumber} has already been fully received.`);
+      }
+
+      const batchId = new ObjectId().toString();
+      const lines = (po.lines as PurchaseOrderLine[]).map(line => ({ ...line }));
+      const received: { materialId: string; quantity: number }[] = [];
+      for (const line of lines) {
+        const qty = quantities[line.materialId] ?? 0;
+        if (qty <= 0) continue;
+        const outstanding = outstandingQty(line);
+        if (qty > outstanding) {
+          throw new StockError(`Only ${outstanding} of ${line.materialName} is outstanding on ${po.poNumber}.`);
+        }
+        await receiveStock(db, {
+          materialId: line.materialId,
+          quantity: qty,
+          kind: "po_receipt",
+          unitPrice: line.unitPrice,
+          serials: serialInputs[line.materialId],
+          reason: `PO ${po.poNumber}`,
+          batchId,
+          reference: { type: "purchase_order", id: purchaseOrderId },
+          user: auth.user,
+        }, session);
+        line.receivedQty = (Number(line.receivedQty) || 0) + qty;
+        received.push({ materialId: line.materialId, quantity: qty });
+      }
+      if (received.length === 0) throw new StockError("Enter the quantity received for at least one material.");
+
+      const date = new Date();
+      const complete = lines.every(line => outstandingQty(line) === 0);
+      const $set: Record<string, any> = { lines, status: complete ? "received" : "partially_received" };
+      if (complete) $set.receivedAt = date;
+      await db.collection("purchase_orders").updateOne(
+        { _id: po._id },
+        { $set, $push: { receipts: { batchId, date, lines: received, receivedBy: auth.user.name } } as any },
+        { session }
+      );
+      return String(po.poNumber);
+    });
+
+    revalidatePurchasing(purchaseOrderId);
+    revalidatePath("/stock");
+    revalidatePath("/dashboard");
+    return { success: true, message: `Goods received against ${poNumber}.`, submissionId };
+  } catch (error) {
+    if (error instanceof ActionError) return { success: false, message: error.message, submissionId };
+    console.error("Error receiving purchase order:", error);
+    return { success: false, message: "Server error occurred. Please try again.", submissionId };
+  }
+}
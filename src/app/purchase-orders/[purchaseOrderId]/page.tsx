@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ObjectId } from "mongodb";
+import { ArrowLeft } from "lucide-react";
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getPurchaseOrder, getSuppliers } from "@/lib/purchasing";
+import { getCompanyProfile } from "@/lib/company";
+import { Button } from "@/components/ui/button";
+import { PurchaseOrderDetail } from "@/components/purchasing/PurchaseOrderDetail";
+
+export default async function PurchaseOrderPage({ params }: { params: Promise<{ purchaseOrderId: string }> }) {
+  await requirePageRole("viewer");
+  const { purchaseOrderId } = await params;
+  if (!ObjectId.isValid(purchaseOrderId)) notFound();
+  const db = await getDatabase();
+  const po = await getPurchaseOrder(db, purchaseOrderId);
+  if (!po) notFound();
+  const [suppliers, company] = await Promise.all([getSuppliers(db), getCompanyProfile(db)]);
+  const supplier = suppliers.find(s => s.id === po.supplierId) ?? null;
+
+  return (
+    <div className="p-4 md:p-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button asChild variant="outline" size="icon" className="hover:bg-muted">
+          <Link href="/purchase-orders">
+            <ArrowLeft className="w-4 h-4" />
+            <span className="sr-only">Go Back</span>
+          </Link>
+        </Button>
+        <h1 className="text-lg md:text-xl font-bold font-headline truncate">
+          Purchase Order {po.poNumber}
+        </h1>
+      </div>
+      <PurchaseOrderDetail po={po} supplier={supplier} company={company} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,28 @@
+import Link from "next/link";
+import { Factory } from "lucide-react";
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getPurchaseOrders } from "@/lib/purchasing";
+import { Button } from "@/components/ui/button";
+import { PurchaseOrderList } from "@/components/purchasing/PurchaseOrderList";
+
+export default async function PurchaseOrdersPage() {
+  await requirePageRole("viewer");
+  const purchaseOrders = await getPurchaseOrders(await getDatabase());
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10 space-y-6">
+      <div className="flex justify-end">
+        <Button asChild variant="outline">
+          <Link href="/suppliers">
+            <Factory className="w-4 h-4 mr-2" />
+            Suppliers
+          </Link>
+        </Button>
+      </div>
+      <PurchaseOrderList purchaseOrders={purchaseOrders} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,231 @@
+// Server actions for client reservations. A reservation sets stock aside for a scheduled
+// job without moving it; releasing it frees the stock again and dispatching it turns it
+// into a challan in the same transaction.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { StockError } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import { ensureSerialIndexes } from "@/lib/serials";
+import { createChallan } from "@/lib/challans";
+import { requireClientProject } from "@/lib/projects";
+import { closeReservation, getReservation, holdStock } from "@/lib/reservations";
+import { baseUnitOf } from "@/lib/units";
+import type { ReservationLine } from "@/lib/types";
+import { clientsCollection } from "@/lib/clients";
+import { materialsCollection } from "@/lib/materials";
+
+const reservationItemSchema = z.object({
+  materialId: z.string().min(1, "Material is required."),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+});
+
+const optionalDate = z.string().trim().optional()
+  .refine(v => !v || !Number.isNaN(new Date(v).getTime()), "Enter a valid date.");
+
+const reservationSchema = z.object({
+  clientId: z.string().min(1, "Client ID is required."),
+  projectId: z.string().optional().nullable(),
+  expiresAt: z.string().trim().min(1, "Expiry date is required.")
+    .refine(v => !Number.isNaN(new Date(v).getTime()), "Enter a valid expiry date."),
+  scheduledFor: optionalDate,
+  note: z.string().trim().optional(),
+  items: z.array(reservationItemSchema).min(1, "Add at least one material to reserve."),
+});
+
+function revalidateReservations(clientId: string) {
+  revalidatePath("/reservations");
+  revalidatePath(`/client-material/${clientId}`);
+  revalidatePath("/stock");
+  revalidatePath("/needs-to-buy");
+}
+
+// Reserves stock for a client. Each line must fit in what is on hand less what other
+// active reservations already hold, including the same client's. The form sends the lines as JSON in 'items'.
+export async function createReservationAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId };
+
+  let items: unknown = [];
+  try {
+    items = JSON.parse(String(formData.get("items") || "[]"));
+  } catch {
+    return { success: false, message: "Invalid material lines.", submissionId };
+  }
+  const validated = reservationSchema.safeParse({
+    clientId: formData.get("clientId") ?? "",
+    projectId: formData.get("projectId"),
+    expiresAt: formData.get("expiresAt") ?? "",
+    scheduledFor: formData.get("scheduledFor") ?? "",
+    note: formData.get("note") ?? "",
+    items,
+  });
+  if (!validated.success) {
+    const fieldErrors = validated.error.flatten().fieldErrors;
+    const first = Object.values(fieldErrors).flat()[0];
+    return { success: false, message: first || "Invalid reservation.", errors: fieldErrors, submissionId };
+  }
+  const { clientId, scheduledFor, note } = validated.data;
+  const reservedItems = validated.data.items.map(i => ({ materialId: i.materialId!, quantity: i.quantity! }));
+  if (new Set(reservedItems.map(i => i.materialId)).size !== reservedItems.length) {
+    return { success: false, message: "Each material can only appear once on a reservation.", submissionId };
+  }
+  // Held until the end of the expiry day.
+  const expiresAt = new Date(validated.data.expiresAt);
+  expiresAt.setHours(23, 59, 59, 999);
+  if (expiresAt <= new Date()) {
+    return { success: false, message: "Expiry date must be in the future.", submissionId };
+  }
+
+  try {
+    await withTransaction(async (db, session) => {
+      const client = ObjectId.isValid(clientId)
+        ? await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }, { session })
+        : null;
+      if (!client) throw new ActionError("Client not found.");
+      const projectId = await requireClientProject(db, clientId, validated.data.projectId, session);
+
+      const materials = await materialsCollection(db)
+        .find({ _id: { $in: reservedItems.filter(i => ObjectId.isValid(i.materialId)).map(i => new ObjectId(i.materialId)) } }, { session })
+        .toArray();
+      const byId = new Map(materials.map(m => [m._id.toString(), m]));
+      const lines: ReservationLine[] = reservedItems.map(item => {
+        const material = byId.get(item.materialId);
+        if (!material) throw new StockError("Material not found.");
+        return { materialId: item.materialId, materialName: String(material.name || ""), quantity: item.quantity, unit: baseUnitOf(material) };
+      });
+      await holdStock(db, reservedItems, session);
+
+      const doc: Record<string, any> = {
+        clientId,
+        clientName: client.name,
+        lines,
+        status: "active",
+        expiresAt,
+        createdAt: new Date(),
+        createdBy: auth.user.name,
+      };
+      if (projectId) doc.projectId = projectId;
+      if (scheduledFor) doc.scheduledFor = new Date(scheduledFor);
+      if (note) doc.note = note;
+      await db.collection("reservations").insertOne(doc, { session });
+    });
+
+    revalidateReservations(clientId);
+    return { success: true, message: "Stock reserved.", submissionId };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId };
+    }
+    console.error("Error creating reservation:", error);
+    return { success: false, message: "Failed to reserve stock.", submissionId };
+  }
+}
+
+// Frees the stock of an active reservation.
+export async function releaseReservationAction(reservationId: string) {
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(reservationId)) return { success: false, message: "Reservation not found." };
+  try {
+    const reservation = await withTransaction((db, session) => closeReservation(
+      db,
+      { _id: new ObjectId(reservationId) },
+      { status: "released", closedAt: new Date(), closedBy: auth.user.name },
+      session
+    ));
+    if (!reservation) return { success: false, message: "Reservation is no longer active." };
+    revalidateReservations(String(reservation.clientId));
+    return { success: true, message: "Reservation released." };
+  } catch (error) {
+    console.error("Error releasing reservation:", error);
+    return { success: false, message: "Failed to release reservation." };
+  }
+}
+
+const dispatchSchema = z.object({
+  reservationId: z.string().min(1, "Reservation ID is required."),
+  locationId: z.string().optional().nullable(),
+  vehicleNo: z.string().optional().nullable(),
+  driverName: z.string().optional().nullable(),
+  remarks: z.string().optional().nullable(),
+  serials: z.record(z.array(z.string())),
+});
+
+// Dispatches a reservation as a challan: the challan is created, stock leaves the
+// warehouse and the reservation is closed in one transaction. Serialized materials
+// send the picked units as JSON in 'serials' ({ materialId: [serial, ...] }).
+export async function dispatchReservationAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId, challan: null };
+
+  let serials: unknown = {};
+  try {
+    serials = JSON.parse(String(formData.get("serials") || "{}"));
+  } catch {
+    return { success: false, message: "Invalid serial numbers.", submissionId, challan: null };
+  }
+  const validated = dispatchSchema.safeParse({
+    reservationId: formData.get("reservationId") ?? "",
+    locationId: formData.get("locationId"),
+    vehicleNo: formData.get("vehicleNo"),
+    driverName: formData.get("driverName"),
+    remarks: formData.get("remarks"),
+    serials,
+  });
+  if (!validated.success) {
+    return { success: false, message: "Invalid dispatch data.", submissionId, challan: null };
+  }
+  const { reservationId, vehicleNo, driverName, remarks } = validated.data;
+  const picked = validated.data.serials;
+
+  try {
+    await ensureSerialIndexes(await getDatabase());
+    const { challan, clientId } = await withTransaction(async (db, session) => {
+      const reservation = await getReservation(db, reservationId, session);
+      if (!reservation || reservation.status !== "active") throw new StockError("Reservation is no longer active.");
+      if (new Date(reservation.expiresAt) <= new Date()) throw new StockError("Reservation has expired. Reserve the stock again.");
+
+      const challan = await createChallan(db, {
+        clientId: reservation.clientId,
+        projectId: reservation.projectId,
+        locationId: validated.data.locationId,
+        items: reservation.lines.map(l => ({
+          materialId: l.materialId,
+          quantity: l.quantity,
+          serialNumbers: picked[l.materialId]?.join(", "),
+        })),
+        vehicleNo,
+        driverName,
+        remarks,
+      }, auth.user, session);
+
+      // Guarded on the status so a concurrent release or dispatch aborts this one.
+      const closed = await closeReservation(
+        db,
+        { _id: new ObjectId(reservationId) },
+        { status: "dispatched", closedAt: new Date(), closedBy: auth.user.name, challanNo: challan.challanNo },
+        session
+      );
+      if (!closed) throw new StockError("Reservation is no longer active.");
+      return { challan, clientId: reservation.clientId };
+    });
+
+    revalidateReservations(clientId);
+    revalidatePath(`/client-costing/${clientId}`);
+    revalidatePath(`/client-material`);
+    return { success: true, message: `Challan ${challan.challanNo} created.`, submissionId, challan };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId, challan: null };
+    }
+    console.error("Error dispatching reservation:", error);
+    return { success: false, message: "Server error occurred. Please try again.", submissionId, challan: null };
+  }
+}
@@ -0,0 +1,21 @@
+// Lists every client's stock reservations. Reservations past their hold date are
+// marked expired when this page loads.
+
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { expireReservations, getReservations } from "@/lib/reservations";
+import { ReservationList } from "@/components/reservations/ReservationList";
+
+export default async function ReservationsPage() {
+  await requirePageRole("viewer");
+  await withTransaction(expireReservations);
+  const { active, closed } = await getReservations(await getDatabase());
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <ReservationList active={active} closed={closed} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,20 @@
+// This file defines the serial number lookup page at /serials.
+// It shows where a single unit of a serialized material is now and everything that happened to it.
+
+import { requirePageRole } from "@/lib/auth";
+import { SerialLookup } from "@/components/serials/SerialLookup";
+
+export default async function SerialsPage({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
+  // Any signed-in user may look up serial numbers.
+  await requirePageRole("viewer");
+  const { q } = await searchParams;
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10 space-y-8">
+      <SerialLookup initialSerial={q ?? ""} />
+    </div>
+  );
+}
+
+// Always render fresh, the history changes with every dispatch and return.
+export const dynamic = 'force-dynamic';
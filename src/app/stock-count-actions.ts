@@ -0,0 +1,213 @@
+// Server actions for physical stock counts (stock takes). Starting a count freezes the
+// system quantity of every material at one location; counters then enter what they
+// find, and an owner posts the approved variances to the stock ledger.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ObjectId } from "mongodb";
+import { z } from "zod";
+import { getDatabase, withTransaction } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { StockError, moveStock, resolveStockLocation } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import { getDefaultLocation } from "@/lib/locations";
+import { stockAt } from "@/lib/location-stock";
+import { unitPriceOf } from "@/lib/price-history";
+import { nextSequence, formatSequence } from "@/lib/sequence";
+import { baseUnitOf } from "@/lib/units";
+import type { StockCountLine } from "@/lib/types";
+import { materialsCollection } from "@/lib/materials";
+
+const COUNT_SEQUENCE = "stock_count";
+const COUNT_PREFIX = "SC";
+
+function revalidateCounts(countId?: string) {
+  revalidatePath("/stock-counts");
+  if (countId) revalidatePath(`/stock-counts/${countId}`);
+}
+
+const startSchema = z.object({
+  locationId: z.string().optional().nullable(),
+  category: z.string().optional().nullable(),
+  note: z.string().trim().optional(),
+});
+
+// Opens a count sheet for one location, optionally one category only. Serialized
+// materials are left out: their units are corrected one by one with In/Out.
+export async function startStockCountAction(prevState: any, formData: FormData) {
+  const submissionId = Date.now();
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error, submissionId, countId: null };
+
+  const validated = startSchema.safeParse({
+    locationId: formData.get("locationId"),
+    category: formData.get("category"),
+    note: formData.get("note") ?? "",
+  });
+  if (!validated.success) {
+    return { success: false, message: "Invalid stock count.", submissionId, countId: null };
+  }
+  const { category, note } = validated.data;
+
+  try {
+    const { countId, countNo } = await withTransaction(async (db, session) => {
+      const location = (await resolveStockLocation(db, validated.data.locationId, session)) ?? (await getDefaultLocation(db, session));
+      if (await db.collection("stock_counts").findOne({ status: "open", locationId: location.id }, { session })) {
+        throw new StockError(`A count is already open for ${location.name}. Post or cancel it first.`);
+      }
+      const filter: Record<string, any> = { serialized: { $ne: true } };
+      if (category) filter.category = category;
+      const materials = await materialsCollection(db).find(filter, { session }).sort({ category: 1, name: 1 }).toArray();
+      if (materials.length === 0) throw new StockError("There are no materials to count.");
+
+      const lines: StockCountLine[] = materials.map(m => ({
+        materialId: m._id.toString(),
+        materialName: String(m.name || ""),
+        category: m.category || "Other",
+        unit: baseUnitOf(m),
+        systemQty: stockAt({ quantity: Number(m.quantity) || 0, stockByLocation: m.stockByLocation }, location),
+      }));
+      const countNo = formatSequence(COUNT_PREFIX, await nextSequence(db, COUNT_SEQUENCE, session));
+      const result = await db.collection("stock_counts").insertOne({
+        countNo,
+        status: "open",
+        locationId: location.id,
+        locationName: location.name,
+        lines,
+        ...(note ? { note } : {}),
+        createdAt: new Date(),
+        createdBy: auth.user.name,
+      }, { session });
+      return { countId: result.insertedId.toString(), countNo };
+    });
+
+    revalidateCounts();
+    return { success: true, message: `Stock count ${countNo} started.`, submissionId, countId };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message, submissionId, countId: null };
+    }
+    console.error("Error starting stock count:", error);
+    return { success: false, message: "Failed to start stock count.", submissionId, countId: null };
+  }
+}
+
+// Saves counted quantities for some lines of an open count; null clears a line. Only
+// the given lines are touched, so several people can count different shelves at once.
+export async function saveStockCountsAction(countId: string, counts: Record<string, number | null>) {
+  const auth = await authorize("storekeeper");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(countId)) return { success: false, message: "Stock count not found." };
+
+  const entries = Object.entries(counts);
+  if (entries.some(([, q]) => q !== null && (!Number.isInteger(q) || q < 0))) {
+    return { success: false, message: "Counted quantities must be whole numbers, zero or more." };
+  }
+  if (entries.length === 0) return { success: false, message: "Nothing to save." };
+
+  try {
+    const db = await getDatabase();
+    const filter = { _id: new ObjectId(countId), status: "open" };
+    if (!(await db.collection("stock_counts").findOne(filter, { projection: { _id: 1 } }))) {
+      return { success: false, message: "This count is no longer open." };
+    }
+    const now = new Date();
+    await db.collection("stock_counts").bulkWrite(entries.map(([materialId, quantity]) => ({
+      updateOne: {
+        filter,
+        update: quantity === null
+          ? { $unset: { "lines.$[line].countedQty": "", "lines.$[line].countedBy": "", "lines.$[line].countedAt": "" } }
+          : { $set: { "lines.$[line].countedQty": quantity, "lines.$[line].countedBy": auth.user.name, "lines.$[line].countedAt": now } },
+        arrayFilters: [{ "line.materialId": materialId }],
+      },
+    })));
+    revalidateCounts(countId);
+    return { success: true, message: `${entries.length} count(s) saved.` };
+  } catch (error) {
+    console.error("Error saving stock counts:", error);
+    return { success: false, message: "Failed to save counts." };
+  }
+}
+
+// Books the variance (counted less frozen system quantity) of each approved line as a
+// 'count_variance' movement and closes the count. Stock that moved after the count
+// started is kept: only the difference found by counting is applied. Uncounted and
+// unapproved lines change nothing.
+export async function postStockCountAction(countId: string, approvedMaterialIds: string[]) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(countId)) return { success: false, message: "Stock count not found." };
+  const approved = new Set(approvedMaterialIds);
+
+  try {
+    const { countNo, posted } = await withTransaction(async (db, session) => {
+      const count = await db.collection("stock_counts").findOne({ _id: new ObjectId(countId), status: "open" }, { session });
+      if (!count) throw new StockError("This count is no longer open.");
+      const date = new Date();
+
+      const lines: StockCountLine[] = [];
+      let posted = 0;
+      for (const line of count.lines as StockCountLine[]) {
+        const material = ObjectId.isValid(line.materialId)
+          ? await materialsCollection(db).findOne({ _id: new ObjectId(line.materialId) }, { session })
+          : null;
+        const variance = line.countedQty === undefined ? 0 : line.countedQty - line.systemQty;
+        const book = variance !== 0 && approved.has(line.materialId);
+        if (book) {
+          if (!material) throw new StockError(`${line.materialName} no longer exists. Leave its variance unapproved.`);
+          await moveStock(db, {
+            materialId: line.materialId,
+            kind: "count_variance",
+            delta: variance,
+            locationId: count.locationId,
+            reason: `Stock count ${count.countNo}`,
+            batchId: countId,
+            reference: { type: "stock_count", id: countId },
+            user: auth.user,
+            date,
+          }, session);
+          posted++;
+        }
+        lines.push({ ...line, unitPrice: unitPriceOf(material), approved: book });
+      }
+
+      await db.collection("stock_counts").updateOne(
+        { _id: count._id },
+        { $set: { status: "posted", lines, closedAt: date, closedBy: auth.user.name } },
+        { session }
+      );
+      return { countNo: String(count.countNo), posted };
+    });
+
+    revalidateCounts(countId);
+    revalidatePath("/stock");
+    revalidatePath("/needs-to-buy");
+    return { success: true, message: `Stock count ${countNo} posted with ${posted} adjustment(s).` };
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { success: false, message: error.message };
+    }
+    console.error("Error posting stock count:", error);
+    return { success: false, message: "Failed to post stock count." };
+  }
+}
+
+// Closes an open count without touching stock.
+export async function cancelStockCountAction(countId: string) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (!ObjectId.isValid(countId)) return { success: false, message: "Stock count not found." };
+  try {
+    const db = await getDatabase();
+    const result = await db.collection("stock_counts").updateOne(
+      { _id: new ObjectId(countId), status: "open" },
+      { $set: { status: "cancelled", closedAt: new Date(), closedBy: auth.user.name } }
+    );
+    if (result.modifiedCount === 0) return { success: false, message: "This count is no longer open." };
+    revalidateCounts(countId);
+    return { success: true, message: "Stock count cancelled." };
+  } catch (error) {
+    console.error("Error cancelling stock count:", error);
+    return { success: false, message: "Failed to cancel stock count." };
+  }
+}
@@ -0,0 +1,34 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getStockCount } from "@/lib/stock-counts";
+import { Button } from "@/components/ui/button";
+import { StockCountSheet } from "@/components/stock-counts/StockCountSheet";
+
+export default async function StockCountPage({ params }: { params: Promise<{ countId: string }> }) {
+  await requirePageRole("viewer");
+  const { countId } = await params;
+  const count = await getStockCount(await getDatabase(), countId);
+  if (!count) notFound();
+
+  return (
+    <div className="p-4 md:p-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button asChild variant="outline" size="icon" className="hover:bg-muted">
+          <Link href="/stock-counts">
+            <ArrowLeft className="w-4 h-4" />
+            <span className="sr-only">Go Back</span>
+          </Link>
+        </Button>
+        <h1 className="text-lg md:text-xl font-bold font-headline truncate">
+          Stock Count {count.countNo}
+        </h1>
+      </div>
+      <StockCountSheet count={count} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
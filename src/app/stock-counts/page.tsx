@@ -0,0 +1,21 @@
+// Physical stock counts: open count sheets and the latest posted or cancelled ones.
+
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getStockCounts } from "@/lib/stock-counts";
+import { getLocations } from "@/lib/locations";
+import { StockCountList } from "@/components/stock-counts/StockCountList";
+
+export default async function StockCountsPage() {
+  await requirePageRole("viewer");
+  const db = await getDatabase();
+  const [{ open, closed }, locations] = await Promise.all([getStockCounts(db), getLocations(db)]);
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <StockCountList open={open} closed={closed} locations={locations} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -9,13 +9,22 @@ import { StockHistory } from "@/components/materials/StockHistory";
 import { PricingEditor } from "@/components/materials/PricingEditor";
 import { Separator } from "@/components/ui/separator";
 import { AdminControls } from "@/components/admin/AdminControls";
+import { CompanySettings } from "@/components/admin/CompanySettings";
+import { requirePageRole } from "@/lib/auth";
+import { getDatabase } from "@/lib/mongodb";
+import { getCompanyProfile } from "@/lib/company";
 
 // This is the main React component for the Stock page.
-export default function StockPage() {
+// Only owners may open the admin view; everyone else is sent back to the dashboard.
+export default async function StockPage() {
+  await requirePageRole("owner");
+  const company = await getCompanyProfile(await getDatabase());
+
   return (
     // Add padding around the main content area.
     <div className="p-4 md:p-8 lg:p-10 space-y-8">
       <AdminControls />
+      <CompanySettings company={company} />
       <PricingEditor />
       <Card>
         <CardHeader className="flex flex-row items-center gap-2">
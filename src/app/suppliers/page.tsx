@@ -0,0 +1,17 @@
+import { getDatabase } from "@/lib/mongodb";
+import { requirePageRole } from "@/lib/auth";
+import { getSuppliers } from "@/lib/purchasing";
+import { SupplierList } from "@/components/purchasing/SupplierList";
+
+export default async function SuppliersPage() {
+  await requirePageRole("viewer");
+  const suppliers = await getSuppliers(await getDatabase());
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <SupplierList suppliers={suppliers} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,26 @@
+// This file defines the owner-only page for managing user accounts and roles.
+
+import { requirePageRole } from "@/lib/auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserCog } from "lucide-react";
+import { UserManagement } from "@/components/auth/UserManagement";
+
+export default async function UsersPage() {
+  const currentUser = await requirePageRole("owner");
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <Card>
+        <CardHeader className="flex flex-row items-center gap-2">
+          <UserCog className="w-6 h-6" />
+          <CardTitle className="font-headline">Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <UserManagement currentUserId={currentUser.id} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
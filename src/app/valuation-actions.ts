@@ -0,0 +1,24 @@
+// Server actions for inventory valuation settings.
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getDatabase } from "@/lib/mongodb";
+import { authorize } from "@/lib/auth";
+import { saveCostingMethod } from "@/lib/valuation";
+import type { CostingMethod } from "@/lib/types";
+
+// Sets the costing method used for valuation reports and cost of goods issued. The
+// ledger keeps every receipt's cost, so switching recomputes all history consistently.
+export async function saveCostingMethodAction(method: CostingMethod) {
+  const auth = await authorize("owner");
+  if (auth.error) return { success: false, message: auth.error };
+  if (method !== "weighted_average" && method !== "fifo") return { success: false, message: "Unknown costing method." };
+  try {
+    await saveCostingMethod(await getDatabase(), method);
+    revalidatePath("/valuation");
+    return { success: true, message: "Costing method saved." };
+  } catch (error) {
+    console.error("Error saving costing method:", error);
+    return { success: false, message: "Failed to save costing method." };
+  }
+}
@@ -0,0 +1,38 @@
+// Closing stock at cost as of a date (?asOf=YYYY-MM-DD, today when absent), by the
+// saved costing method unless ?method= asks for the other one.
+
+import { requirePageRole } from "@/lib/auth";
+import { getDatabase } from "@/lib/mongodb";
+import { getCostingMethod, getStockValuation } from "@/lib/valuation";
+import { StockValuationReport } from "@/components/valuation/StockValuationReport";
+import type { CostingMethod } from "@/lib/types";
+
+export default async function ValuationPage({ searchParams }: { searchParams: Promise<{ asOf?: string; method?: string }> }) {
+  await requirePageRole("owner");
+  const { asOf, method } = await searchParams;
+  const db = await getDatabase();
+
+  // The end of that day in local time; 'new Date("YYYY-MM-DD")' would be UTC midnight.
+  const [, y, m, d] = (/^(\d{4})-(\d{2})-(\d{2})$/.exec(asOf ?? "") ?? []).map(Number);
+  const dayEnd = y ? new Date(y, m - 1, d, 23, 59, 59, 999) : null;
+  // A date like 2025-02-30 would roll over into March.
+  const day = dayEnd && dayEnd.getDate() === d ? asOf : null;
+  const end = day ? dayEnd : new Date();
+  const savedMethod = await getCostingMethod(db);
+  const chosen: CostingMethod = method === "fifo" || method === "weighted_average" ? method : savedMethod;
+  const valuation = await getStockValuation(db, { asOf: end, method: chosen });
+
+  return (
+    <div className="p-4 md:p-8 lg:p-10">
+      <StockValuationReport
+        asOf={day}
+        method={chosen}
+        savedMethod={savedMethod}
+        rows={valuation.rows}
+        total={valuation.total}
+      />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -3,8 +3,9 @@
 import { useState, useRef } from "react";
 import { useOwner } from "@/hooks/use-owner";
 import { Button } from "@/components/ui/button";
-import { Download, Upload, ShieldAlert, DatabaseBackup } from "lucide-react";
-import { backupData, restoreData } from "@/app/actions";
+import { Download, Upload, ShieldAlert, DatabaseBackup, BookCheck, GitMerge } from "lucide-react";
+import { backupData, restoreData, migrateStockLedgerAction, verifyStockLedgerAction } from "@/app/actions";
+import type { LedgerMismatch } from "@/lib/stock-ledger";
 import { useToast } from "@/hooks/use-toast";
 import {
   Card,
@@ -29,6 +30,8 @@ export function AdminControls() {
   const isOwner = useOwner();
   const [backupLoading, setBackupLoading] = useState(false);
   const [restoreLoading, setRestoreLoading] = useState(false);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const [ledgerMismatches, setLedgerMismatches] = useState<LedgerMismatch[] | null>(null);
   
   const [showRestoreConfirm, setShowRestoreConfirm] = useState(false);
   const [backupFile, setBackupFile] = useState<File | null>(null);
@@ -146,6 +149,27 @@ export function AdminControls() {
     }
   };
 
+  // Migration and verification share the same result view: the list of materials
+  // whose quantity is not explained by the stock ledger.
+  const handleLedger = async (mode: "migrate" | "verify") => {
+    setLedgerLoading(true);
+    const result = mode === "migrate" ? await migrateStockLedgerAction() : await verifyStockLedgerAction();
+    if (result.success) {
+      setLedgerMismatches(result.mismatches ?? []);
+      toast({
+        title: mode === "migrate" ? "Ledger Migrated" : "Ledger Verified",
+        description: result.message,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Stock Ledger Error",
+        description: result.message || "An unknown error occurred.",
+      });
+    }
+    setLedgerLoading(false);
+  };
+
   if (!isOwner) {
     return null;
   }
@@ -203,7 +227,41 @@ export function AdminControls() {
                 </Button>
             </div>
 
-             
+             <Separator />
+
+             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                 <div className="flex-1">
+                    <h3 className="font-semibold">Stock Ledger</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Import old stock history into the ledger, or check that every quantity matches its movements.
+                    </p>
+                </div>
+                <div className="flex gap-2 w-full sm:w-auto shrink-0">
+                    <Button variant="outline" onClick={() => handleLedger("migrate")} disabled={ledgerLoading} className="flex-1 sm:flex-none">
+                        <GitMerge className="w-4 h-4 mr-2" />
+                        Migrate
+                    </Button>
+                    <Button variant="outline" onClick={() => handleLedger("verify")} disabled={ledgerLoading} className="flex-1 sm:flex-none">
+                        <BookCheck className="w-4 h-4 mr-2" />
+                        {ledgerLoading ? "Checking..." : "Verify"}
+                    </Button>
+                </div>
+            </div>
+
+            {ledgerMismatches && (
+                ledgerMismatches.length === 0 ? (
+                    <p className="text-sm text-green-600">All material quantities match the stock ledger.</p>
+                ) : (
+                    <ul className="text-sm space-y-1">
+                        {ledgerMismatches.map((m) => (
+                            <li key={m.materialId} className="flex justify-between">
+                                <span>{m.materialName}</span>
+                                <span className="font-mono text-destructive">stock {m.quantity} · ledger {m.ledgerQuantity}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )
+            )}
         </CardContent>
       </Card>
 
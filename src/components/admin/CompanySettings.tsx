@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Building2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveCompanyProfileAction } from "@/app/invoice-actions";
+import { GST_STATES, stateCodeFromGstin } from "@/lib/gst";
+import type { CompanyProfile } from "@/lib/types";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Saving..." : "Save Company Details"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+// Seller details printed on tax invoices. The state must match the GSTIN; it decides
+// whether an invoice charges CGST + SGST or IGST.
+export function CompanySettings({ company }: { company: CompanyProfile | null }) {
+  const [state, formAction] = useActionState(saveCompanyProfileAction, initialState);
+  const [stateCode, setStateCode] = useState(company?.stateCode ?? "");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    toast(state.success
+      ? { title: "Success", description: state.message }
+      : { variant: "destructive", title: "Error", description: state.message });
+  }, [state.submissionId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          <CardTitle className="font-headline">Company Details</CardTitle>
+        </div>
+        <CardDescription>Printed as the seller on tax invoices. Changes apply to invoices issued from now on.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="stateCode" value={stateCode} />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="company-name">Company Name</Label>
+              <Input id="company-name" name="name" defaultValue={company?.name} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-gstin">GSTIN</Label>
+              <Input
+                id="company-gstin"
+                name="gstin"
+                defaultValue={company?.gstin}
+                maxLength={15}
+                required
+                onChange={(e) => {
+                  e.target.value = e.target.value.toUpperCase();
+                  const code = stateCodeFromGstin(e.target.value);
+                  if (code) setStateCode(code);
+                }}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-address">Address</Label>
+            <Textarea id="company-address" name="address" defaultValue={company?.address} required />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>State</Label>
+              <Select value={stateCode} onValueChange={setStateCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {GST_STATES.map(s => (
+                    <SelectItem key={s.code} value={s.code}>{s.code} - {s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-phone">Phone</Label>
+              <Input id="company-phone" name="phone" defaultValue={company?.phone} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-email">Email</Label>
+              <Input id="company-email" name="email" type="email" defaultValue={company?.email} />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <SubmitButton />
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState, useRef, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { addUserAction } from "@/app/auth-actions";
+import { useToast } from "@/hooks/use-toast";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Adding..." : "Add User"}
+    </Button>
+  );
+}
+
+const initialState = {
+  success: false,
+  message: null,
+  errors: null,
+};
+
+export function AddUserModal({ onAdded }: { onAdded?: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState("storekeeper");
+  const formRef = useRef<HTMLFormElement>(null);
+  const { toast } = useToast();
+  const [state, formAction] = useActionState(addUserAction as any, initialState as any);
+
+  useEffect(() => {
+    if (state.message) {
+      if (state.success) {
+        toast({ title: "Success", description: state.message });
+        setOpen(false);
+        formRef.current?.reset();
+        setRole("storekeeper");
+        onAdded?.();
+      } else {
+        toast({ variant: "destructive", title: "Error", description: state.message });
+      }
+    }
+  }, [state, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add User
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Add New User</DialogTitle>
+        </DialogHeader>
+        <form ref={formRef} action={formAction} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="user-name">Name</Label>
+            <Input id="user-name" name="name" required />
+            {state.errors?.name && <p className="text-sm text-destructive">{state.errors.name[0]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="user-email">Email</Label>
+            <Input id="user-email" name="email" type="email" required />
+            {state.errors?.email && <p className="text-sm text-destructive">{state.errors.email[0]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="user-password">Temporary Password</Label>
+            <Input id="user-password" name="password" type="password" minLength={8} required />
+            {state.errors?.password && <p className="text-sm text-destructive">{state.errors.password[0]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="user-role">Role</Label>
+            <input type="hidden" name="role" value={role} />
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger id="user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="viewer">Viewer</SelectItem>
+                <SelectItem value="storekeeper">Storekeeper</SelectItem>
+                <SelectItem value="owner">Owner</SelectItem>
+              </SelectContent>
+            </Select>
+            {state.errors?.role && <p className="text-sm text-destructive">{state.errors.role[0]}</p>}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useActionState, useEffect } from "react";
+import { useFormStatus } from "react-dom";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { setupOwnerAction } from "@/app/auth-actions";
+import { useToast } from "@/hooks/use-toast";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending} className="w-full">
+      <ShieldCheck className="w-4 h-4 mr-2" />
+      {pending ? "Creating..." : "Create Owner Account"}
+    </Button>
+  );
+}
+
+const initialState = {
+  success: false,
+  message: null,
+  errors: null,
+};
+
+// Shown on the login page only while no user accounts exist.
+export function SetupOwnerForm() {
+  const { toast } = useToast();
+  const [state, formAction] = useActionState(setupOwnerAction as any, initialState as any);
+
+  useEffect(() => {
+    if (state?.message && !state.success) {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state, toast]);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name">Your Name</Label>
+        <Input id="name" name="name" required />
+        {state?.errors?.name && <p className="text-sm text-destructive">{state.errors.name[0]}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input id="email" name="email" type="email" autoComplete="username" required />
+        {state?.errors?.email && <p className="text-sm text-destructive">{state.errors.email[0]}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input id="password" name="password" type="password" autoComplete="new-password" minLength={8} required />
+        {state?.errors?.password && <p className="text-sm text-destructive">{state.errors.password[0]}</p>}
+      </div>
+      <SubmitButton />
+    </form>
+  );
+}
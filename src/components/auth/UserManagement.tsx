@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { User, UserRole } from "@/lib/types";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { updateUserAction } from "@/app/auth-actions";
+import { useToast } from "@/hooks/use-toast";
+import { AddUserModal } from "./AddUserModal";
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  storekeeper: "Storekeeper",
+  owner: "Owner",
+};
+
+export function UserManagement({ currentUserId }: { currentUserId: string }) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users');
+      if (!response.ok) throw new Error('Failed to fetch users');
+      setUsers(await response.json());
+    } catch (error) {
+      console.error("Error fetching users:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleUpdate = async (userId: string, changes: { role?: UserRole; active?: boolean }) => {
+    const result = await updateUserAction(userId, changes);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      fetchUsers();
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <AddUserModal onAdded={fetchUsers} />
+      </div>
+      <div className="relative w-full overflow-auto border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead className="w-[180px]">Role</TableHead>
+              <TableHead className="text-center w-[100px]">Active</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={4}><Skeleton className="h-8 w-full" /></TableCell>
+              </TableRow>
+            ) : users.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">No users found.</TableCell>
+              </TableRow>
+            ) : (
+              users.map(user => {
+                const isSelf = user.id === currentUserId;
+                return (
+                  <TableRow key={user.id} className={user.active ? "" : "opacity-60"}>
+                    <TableCell className="font-medium">{user.name}{isSelf && <span className="text-muted-foreground"> (you)</span>}</TableCell>
+                    <TableCell className="text-muted-foreground">{user.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        disabled={isSelf}
+                        onValueChange={(role) => handleUpdate(user.id, { role: role as UserRole })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={user.active}
+                        disabled={isSelf}
+                        onCheckedChange={(active) => handleUpdate(user.id, { active })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { parseCapacityKw, scaleBom, type BomRequirement } from "@/lib/bom";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import type { BomTemplate, Material } from "@/lib/types";
+
+type Props = {
+  templates: BomTemplate[];
+  materials: Material[];
+  capacity: string;      // Plant capacity of the client or site, e.g. "5 kW".
+  onApply: (requirements: BomRequirement[]) => void;
+};
+
+// Scales a BOM template to the installation's capacity, shows what is short in stock
+// and hands the quantities to the dispatch form.
+export function ApplyBomTemplate({ templates, materials, capacity, onApply }: Props) {
+  const [templateId, setTemplateId] = useState("");
+  const [capacityKw, setCapacityKw] = useState("");
+
+  useEffect(() => {
+    const parsed = parseCapacityKw(capacity);
+    if (parsed) setCapacityKw(String(parsed));
+  }, [capacity]);
+
+  const template = templates.find(t => t.id === templateId);
+  const requirements = useMemo(
+    () => (template && Number(capacityKw) > 0 ? scaleBom(template, Number(capacityKw), materials) : []),
+    [template, capacityKw, materials]
+  );
+  const unitOf = (materialId: string) => baseUnitOf(materials.find(m => m.id === materialId));
+  const shortCount = requirements.filter(r => r.shortfall > 0).length;
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-4 h-4" />
+        <p className="font-medium">Fill from BOM template</p>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <Select value={templateId} onValueChange={setTemplateId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(t => (
+                <SelectItem key={t.id} value={t.id}>{t.name} ({t.baseCapacityKw} kW)</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="bom-apply-capacity">Capacity (kW)</Label>
+          <Input
+            id="bom-apply-capacity"
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={capacityKw}
+            onChange={(e) => setCapacityKw(e.target.value)}
+          />
+        </div>
+      </div>
+      {requirements.length > 0 && (
+        <>
+          <div className="w-full overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material</TableHead>
+                  <TableHead className="text-center">Needed</TableHead>
+                  <TableHead className="text-center">In Stock</TableHead>
+                  <TableHead className="text-center">Short</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requirements.map(r => (
+                  <TableRow key={r.materialId} className={r.shortfall > 0 ? "bg-destructive/5" : undefined}>
+                    <TableCell className="font-medium">{r.materialName}</TableCell>
+                    <TableCell className="text-center">{formatQty(r.quantity, unitOf(r.materialId))}</TableCell>
+                    <TableCell className="text-center">{formatQty(r.available, unitOf(r.materialId))}</TableCell>
+                    <TableCell className={`text-center ${r.shortfall > 0 ? "text-destructive font-semibold" : "text-muted-foreground"}`}>
+                      {r.shortfall > 0 ? formatQty(r.shortfall, unitOf(r.materialId)) : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className={`text-sm ${shortCount > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+              {shortCount > 0
+                ? `${shortCount} material(s) are short. Reduce them or restock before creating the challan.`
+                : "Everything is in stock."}
+            </p>
+            <Button type="button" variant="outline" onClick={() => onApply(requirements)}>
+              Fill Challan Lines
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMaterials } from "@/hooks/use-materials";
+import { useToast } from "@/hooks/use-toast";
+import { saveBomTemplateAction } from "@/app/bom-actions";
+import { baseUnitOf } from "@/lib/units";
+import type { BomLineScale, BomTemplate } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? "Saving..." : "Save Template"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+type Line = { key: number; materialId: string; quantity: string; scale: BomLineScale };
+
+let nextLineKey = 1;
+const emptyLine = (): Line => ({ key: nextLineKey++, materialId: "", quantity: "", scale: "per_kw" });
+
+// Adds a BOM template, or edits 'template'. Quantities are for the base capacity.
+export function BomTemplateFormDialog({ template, trigger }: { template?: BomTemplate; trigger: React.ReactNode }) {
+  const { materials } = useMaterials();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [state, formAction] = useActionState(saveBomTemplateAction, initialState);
+  const [lines, setLines] = useState<Line[]>([]);
+
+  const onOpenChange = (next: boolean) => {
+    if (next) {
+      setLines(template?.lines.length
+        ? template.lines.map(l => ({ key: nextLineKey++, materialId: l.materialId, quantity: String(l.quantity), scale: l.scale }))
+        : [emptyLine()]);
+    }
+    setOpen(next);
+  };
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const updateLine = (key: number, patch: Partial<Line>) => {
+    setLines(prev => prev.map(l => (l.key === key ? { ...l, ...patch } : l)));
+  };
+
+  const payload = lines
+    .filter(l => l.materialId)
+    .map(l => ({ materialId: l.materialId, quantity: Number(l.quantity) || 0, scale: l.scale }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline">{template ? `Edit ${template.name}` : "New BOM Template"}</DialogTitle>
+          <DialogDescription>
+            Quantities are for the base capacity. &quot;Per kW&quot; lines scale with the capacity the template is applied to; fixed lines do not.
+          </DialogDescription>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          {template && <input type="hidden" name="templateId" value={template.id} />}
+          <input type="hidden" name="lines" value={JSON.stringify(payload)} />
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="bom-name">Name</Label>
+              <Input id="bom-name" name="name" defaultValue={template?.name} placeholder="e.g., 5 kW on-grid rooftop" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bom-capacity">Base Capacity (kW)</Label>
+              <Input id="bom-capacity" name="baseCapacityKw" type="number" min={0.1} step={0.1} defaultValue={template?.baseCapacityKw ?? 5} required />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bom-description">Description</Label>
+            <Textarea id="bom-description" name="description" defaultValue={template?.description} className="min-h-[40px]" />
+          </div>
+          <div className="max-h-[40vh] overflow-y-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[180px]">Material</TableHead>
+                  <TableHead className="text-center w-[110px]">Qty</TableHead>
+                  <TableHead className="w-[130px]">Scaling</TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => {
+                  const taken = new Set(lines.filter(l => l.key !== line.key).map(l => l.materialId));
+                  const material = materials.find(m => m.id === line.materialId);
+                  return (
+                    <TableRow key={line.key}>
+                      <TableCell>
+                        <Select value={line.materialId} onValueChange={(v) => updateLine(line.key, { materialId: v })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select material" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {materials.filter(m => !taken.has(m.id)).map(m => (
+                              <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="text-center"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                        />
+                        {material && <p className="text-xs text-muted-foreground text-center mt-1">{baseUnitOf(material)}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Select value={line.scale} onValueChange={(v) => updateLine(line.key, { scale: v as BomLineScale })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="per_kw">Per kW</SelectItem>
+                            <SelectItem value="fixed">Fixed</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          disabled={lines.length === 1}
+                          onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          <span className="sr-only">Remove line</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <Button type="button" variant="outline" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Line
+          </Button>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton disabled={payload.length === 0 || payload.some(l => l.quantity <= 0)} />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
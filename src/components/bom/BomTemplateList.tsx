@@ -0,0 +1,120 @@
+"use client";
+
+import { ListChecks, Pencil, PlusCircle, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useOwner } from "@/hooks/use-owner";
+import { useToast } from "@/hooks/use-toast";
+import { deleteBomTemplateAction } from "@/app/bom-actions";
+import { BomTemplateFormDialog } from "@/components/bom/BomTemplateFormDialog";
+import type { BomTemplate } from "@/lib/types";
+
+export function BomTemplateList({ templates }: { templates: BomTemplate[] }) {
+  const isOwner = useOwner();
+  const { toast } = useToast();
+
+  const remove = async (template: BomTemplate) => {
+    const result = await deleteBomTemplateAction(template.id);
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListChecks className="w-6 h-6" />
+          <CardTitle className="font-headline">BOM Templates</CardTitle>
+        </div>
+        {isOwner && (
+          <BomTemplateFormDialog
+            trigger={
+              <Button>
+                <PlusCircle className="w-4 h-4 mr-2" />
+                New Template
+              </Button>
+            }
+          />
+        )}
+      </CardHeader>
+      <CardContent>
+        {templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No templates yet. A template lists the materials of a standard installation and pre-fills dispatch challans.
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {templates.map(t => (
+              <div key={t.id} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold break-words">{t.name}</p>
+                    <p className="text-sm text-muted-foreground">Base capacity {t.baseCapacityKw} kW</p>
+                  </div>
+                  {isOwner && (
+                    <div className="flex shrink-0">
+                      <BomTemplateFormDialog
+                        template={t}
+                        trigger={
+                          <Button variant="ghost" size="icon">
+                            <Pencil className="w-4 h-4" />
+                            <span className="sr-only">Edit template</span>
+                          </Button>
+                        }
+                      />
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10">
+                            <Trash2 className="w-4 h-4" />
+                            <span className="sr-only">Delete template</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle className="font-headline">Delete {t.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Challans already created from this template are not affected.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => remove(t)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                              Delete Template
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
+                </div>
+                {t.description && <p className="text-sm text-muted-foreground">{t.description}</p>}
+                <ul className="text-sm space-y-1">
+                  {t.lines.map(l => (
+                    <li key={l.materialId} className="flex justify-between gap-2">
+                      <span className="break-words">{l.materialName}</span>
+                      <span className="text-muted-foreground whitespace-nowrap">
+                        {l.quantity}{l.scale === "fixed" ? " (fixed)" : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,7 +21,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 // Import the server action that will handle adding a new client to the database.
-import { addClientAction } from "@/app/actions";
+import { addClientAction } from "@/app/client-actions";
 // Import the custom hook for showing toast notifications.
 import { useToast } from "@/hooks/use-toast";
 // Import Next.js's router for programmatic navigation.
@@ -55,12 +55,19 @@ export function ClientCard({ client }: ClientCardProps) {
                 </Avatar>
                 <div className="flex-1 min-w-0">
                     <CardTitle className="text-lg font-headline truncate" title={client.name}>{client.name}</CardTitle>
+                    {client.archived && <Badge variant="outline" className="mt-1">Archived</Badge>}
                     {netQty !== null && (
                       <CardDescription className="mt-1 truncate">
                         Net Used: <Badge variant="secondary" className="ml-1">{netQty}</Badge>
                       </CardDescription>
                     )}
                 </div>
+                {/* Billed less paid; a negative balance is money received in advance. */}
+                {(client.outstanding ?? 0) > 0 ? (
+                  <Badge variant="destructive" className="shrink-0">Due {client.outstanding!.toFixed(2)}</Badge>
+                ) : (client.outstanding ?? 0) < 0 ? (
+                  <Badge variant="outline" className="shrink-0">Advance {Math.abs(client.outstanding!).toFixed(2)}</Badge>
+                ) : null}
             </CardHeader>
         </Card>
     </Link>
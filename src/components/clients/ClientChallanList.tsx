@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileDown, Truck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { downloadChallanPdf } from "@/lib/challan-pdf";
+import type { Client, ClientMaterialEntry, Project } from "@/lib/types";
+
+type Props = {
+  client: Client;
+  projects?: Project[];
+  issueCosts?: Record<string, number> | null; // Stock cost per challan; passed to owners only.
+};
+
+// Dispatch challans issued to a client, each with a printable delivery note.
+export function ClientChallanList({ client, projects = [], issueCosts = null }: Props) {
+  const [challans, setChallans] = useState<ClientMaterialEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchChallans = async () => {
+      try {
+        const res = await fetch(`/api/clients/${client.id}/challans`);
+        if (res.ok) {
+          const data = await res.json();
+          setChallans(Array.isArray(data.challans) ? data.challans : []);
+        }
+      } catch (error) {
+        console.error("Error fetching challans:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchChallans();
+  }, [client.id]);
+
+  const projectOf = (c: ClientMaterialEntry) => projects.find(p => p.id === c.projectId) ?? null;
+  const columns = issueCosts ? 7 : 6;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Truck className="w-5 h-5" />
+          <CardTitle className="font-headline">Dispatch Challans</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Challan No</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-center">Lines</TableHead>
+                <TableHead className="text-center">Total Qty</TableHead>
+                <TableHead>Vehicle</TableHead>
+                {issueCosts && <TableHead className="text-right">Cost</TableHead>}
+                <TableHead className="text-right">PDF</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columns} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : challans.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columns} className="text-center text-muted-foreground">No challans issued to this client yet.</TableCell>
+                </TableRow>
+              ) : (
+                challans.map(c => (
+                  <TableRow key={c.id}>
+                    <TableCell className="font-medium">
+                      {c.challanNo}
+                      {projectOf(c) && <p className="text-xs text-muted-foreground font-normal">{projectOf(c)!.name}</p>}
+                      {c.locationName && <p className="text-xs text-muted-foreground font-normal">From {c.locationName}</p>}
+                      {c.reversedAt && <p className="text-xs text-destructive font-normal">Reversed</p>}
+                    </TableCell>
+                    <TableCell>{new Date(c.date).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-center">{c.materials.length}</TableCell>
+                    <TableCell className="text-center">{c.materials.reduce((s, l) => s + (Number(l.quantity) || 0), 0)}</TableCell>
+                    <TableCell>{c.vehicleNo || "-"}</TableCell>
+                    {issueCosts && (
+                      <TableCell className="text-right">{issueCosts[c.id] !== undefined ? issueCosts[c.id].toFixed(2) : "-"}</TableCell>
+                    )}
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => downloadChallanPdf(client, c, projectOf(c))}>
+                        <FileDown className="w-4 h-4" />
+                        <span className="sr-only">Download challan PDF</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
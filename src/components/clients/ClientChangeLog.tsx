@@ -0,0 +1,44 @@
+import { History } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ClientAuditAction, ClientAuditEntry } from "@/lib/types";
+
+const ACTIONS: Record<ClientAuditAction, string> = {
+  created: "Added",
+  updated: "Edited",
+  archived: "Archived",
+  unarchived: "Unarchived",
+  deleted: "Deleted",
+};
+
+// Who changed a client's details and when, newest first.
+export function ClientChangeLog({ entries }: { entries: ClientAuditEntry[] }) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2">
+        <History className="w-5 h-5" />
+        <CardTitle className="font-headline">Change History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded. Changes are kept from now on.</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map(entry => (
+              <li key={entry.id} className="text-sm border-l-2 pl-3">
+                <p>
+                  <span className="font-semibold">{ACTIONS[entry.action] ?? entry.action}</span>
+                  <span className="text-muted-foreground"> · {new Date(entry.at).toLocaleString()}{entry.by ? ` · ${entry.by}` : ""}</span>
+                </p>
+                {entry.changes?.map(change => (
+                  <p key={change.field} className="text-muted-foreground break-words">
+                    {change.field}: <span className="line-through">{change.from || "-"}</span> → <span className="text-foreground">{change.to}</span>
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,67 +1,99 @@
 "use client";
 
 import React, { useMemo, useEffect, useState } from "react";
-import type { Client, Material, ClientMaterialEntry } from "@/lib/types";
+import { Lock, LockOpen, Plus, Trash2 } from "lucide-react";
+import type { Client, ClientCostingRecord, ClientCostRow, CostingCharge, Material, ClientMaterialEntry, Project } from "@/lib/types";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ClientPriceListDialog } from "@/components/clients/ClientPriceListDialog";
+import { CostingVersions } from "@/components/clients/CostingVersions";
 import { useOwner } from "@/hooks/use-owner";
-import jsPDF from "jspdf";
+import { useToast } from "@/hooks/use-toast";
+import { recomputeCostingAction, setCostingLockAction } from "@/app/client-costing-actions";
 import autoTable from "jspdf-autotable";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import { costCharge, costingTotals, costRow } from "@/lib/costing-totals";
+import { createClientPdf, addClientBlock, addProjectBlock, addPageNumbers, afterLastTable, pdfFileName, PDF_MARGIN_X, PDF_TABLE_STYLES } from "@/lib/pdf";
+
+type ChargeDraft = Pick<CostingCharge, "label" | "amount" | "gstPercent"> & { sacCode: string };
+
+// Common extra lines, with the SAC headings for goods transport and construction services.
+const CHARGE_PRESETS: Omit<ChargeDraft, "amount">[] = [
+  { label: "Freight", sacCode: "9965", gstPercent: 18 },
+  { label: "Installation", sacCode: "9954", gstPercent: 18 },
+];
 
 type Props = {
   client: Client;
   materials: Material[];
   clientHistory: ClientMaterialEntry[];
+  project?: Project | null;   // Costing of one site; the client roll-up when absent.
+  costOfGoods?: number | null; // Stock cost of what was issued (owners only).
 };
 
-export function ClientCosting({ client, materials, clientHistory }: Props) {
+export function ClientCosting({ client, materials, clientHistory, project, costOfGoods }: Props) {
+  const projectQuery = project ? `?projectId=${encodeURIComponent(project.id)}` : "";
   const isOwner = useOwner();
   const initialRateMap = useMemo(() => {
-    const m = new Map<string, { name: string; rate: number; gstPercent: number; price: number }>();
+    const m = new Map<string, { name: string; rate: number; gstPercent: number; price: number; unit: string }>();
     for (const mat of materials) {
       m.set(mat.id, {
         name: mat.name,
         rate: Number(mat.rate || 0),
         gstPercent: Number(mat.gstPercent || 0),
         price: Number((mat as any).price ?? (mat as any).pricePerPiece ?? (mat as any).pricePerMeter ?? 0),
+        unit: baseUnitOf(mat),
       });
     }
     return m;
   }, [materials]);
 
-  const [rows, setRows] = useState<{ materialId: string; name: string; qty: number; rate: number; gstPercent: number; base: number; gst: number; total: number }[]>([]);
+  const [rows, setRows] = useState<ClientCostRow[]>([]);
+  const [discountPercent, setDiscountPercent] = useState(0);
+  const [charges, setCharges] = useState<ChargeDraft[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [reloading, setReloading] = useState(false);
+  const [reason, setReason] = useState("");
+  const [version, setVersion] = useState<Pick<ClientCostingRecord, "version" | "locked" | "lockedBy" | "lockedAt" | "staleAt">>({});
+  const { toast } = useToast();
+  const locked = Boolean(version.locked);
+
+  // Rows, bill discount and charges as stored; amounts are recomputed on every edit.
+  const applyCosting = (data: any) => {
+    const items: ClientCostRow[] = (Array.isArray(data.items) ? data.items : []).map((r: any) => {
+      const materialId = String(r.materialId);
+      const meta = initialRateMap.get(materialId);
+      return costRow({
+        materialId,
+        name: String(r.name || meta?.name || ''),
+        qty: Number(r.qty) || 0,
+        unit: r.unit ? String(r.unit) : meta?.unit,
+        // Snapshots from before rates were stored fall back to our current price.
+        rate: r.rate !== undefined ? Number(r.rate) || 0 : (meta && meta.price > 0 ? meta.price : 0),
+        ...(Number(r.listRate) > 0 ? { listRate: Number(r.listRate) } : {}),
+        discountPercent: Number(r.discountPercent) || 0,
+        gstPercent: Number(r.gstPercent) || 0,
+      });
+    });
+    setRows(items.sort((a, b) => a.name.localeCompare(b.name) || a.rate - b.rate));
+    setDiscountPercent(Number(data.discountPercent) || 0);
+    setCharges((Array.isArray(data.charges) ? data.charges : []).map((c: any) => ({
+      label: String(c.label || ''),
+      sacCode: String(c.sacCode || ''),
+      amount: Number(c.amount) || 0,
+      gstPercent: Number(c.gstPercent) || 0,
+    })));
+    setVersion({ version: data.version, locked: data.locked, lockedBy: data.lockedBy, lockedAt: data.lockedAt, staleAt: data.staleAt });
+  };
 
   const loadCosting = async () => {
-    const res = await fetch(`/api/client-costing/${client.id}`);
+    const res = await fetch(`/api/client-costing/${client.id}${projectQuery}`);
     if (!res.ok) throw new Error("Failed to load costing");
-    const data = await res.json();
-    if (Array.isArray(data.items) && data.items.length > 0) {
-      const sorted = data.items.map((r: any) => {
-        const materialId = String(r.materialId);
-        const name = String(r.name || initialRateMap.get(materialId)?.name || '');
-        const qty = Number(r.qty) || 0;
-        const gstPercent = Number(r.gstPercent) || 0;
-        const baseIn = Number(r.base);
-        const gstIn = Number(r.gst);
-        const totalIn = Number(r.total);
-        if (Number.isFinite(baseIn) && Number.isFinite(gstIn) && Number.isFinite(totalIn)) {
-          return { materialId, name, qty, rate: Number(r.rate) || 0, gstPercent, base: baseIn, gst: gstIn, total: totalIn };
-        }
-        const unit = (() => { const meta = initialRateMap.get(materialId); return meta ? (meta.price > 0 ? meta.price : 0) : 0; })();
-        const base = qty * unit;
-        const gst = base * (gstPercent / 100);
-        const total = base + gst;
-        return { materialId, name, qty, rate: unit, gstPercent, base, gst, total };
-      }).sort((a: any, b: any) => a.name.localeCompare(b.name));
-      setRows(sorted);
-    } else {
-      setRows([]);
-    }
+    applyCosting(await res.json());
   };
 
   // Load existing costing if available; otherwise initialize with empty list
@@ -76,9 +108,9 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
     };
     run();
     return () => { cancelled = true; };
-  }, [client.id, initialRateMap]);
+  }, [client.id, projectQuery, initialRateMap]);
 
-  const recomputeFromUsage = async () => {
+  const reloadCosting = async () => {
     try {
       setReloading(true);
       await loadCosting();
@@ -87,121 +119,105 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
     }
   };
 
-  const recalcRow = (materialId: string, r: { qty: number; gstPercent: number }) => {
-    const meta = initialRateMap.get(materialId);
-    const unit = meta ? (meta.price > 0 ? meta.price : 0) : 0;
-    const base = r.qty * unit;
-    const gst = base * (r.gstPercent / 100);
-    const total = base + gst;
-    return { base, gst, total };
+  const notify = (result: { success: boolean; message: string }) => {
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
   };
 
-  const upsertRow = (materialId: string, name: string, patch: Partial<{ qty: number; rate: number; gstPercent: number }>) => {
-    setRows(prev => {
-      const next = [...prev];
-      const idx = next.findIndex(x => x.materialId === materialId);
-      if (idx >= 0) {
-        const current = { ...next[idx], ...patch } as any;
-        const { base, gst, total } = recalcRow(materialId, { qty: current.qty, gstPercent: current.gstPercent });
-        next[idx] = { ...current, base, gst, total };
-      } else {
-        const qty = Number(patch.qty ?? 0) || 0;
-        const gstPercent = Number(patch.gstPercent ?? (initialRateMap.get(materialId)?.gstPercent || 0)) || 0;
-        const { base, gst, total } = recalcRow(materialId, { qty, gstPercent });
-        next.push({ materialId, name, qty, rate: 0, gstPercent, base, gst, total });
-      }
-      next.sort((a, b) => a.name.localeCompare(b.name));
-      return next;
-    });
+  const recomputeFromUsage = async () => {
+    setReloading(true);
+    const result = await recomputeCostingAction(client.id, project?.id ?? null);
+    if (!result.success) notify(result);
+    await reloadCosting();
+  };
+
+  // Approving locks the costing: new entries and price changes no longer alter it.
+  const toggleLock = async () => {
+    setSaving(true);
+    const result = await setCostingLockAction(client.id, project?.id ?? null, !locked);
+    setSaving(false);
+    notify(result);
+    if (result.success) await reloadCosting();
   };
 
-  const summary = useMemo(() => {
-    const beforeTax = rows.reduce((s, r) => s + r.base, 0);
-    const gst = rows.reduce((s, r) => s + r.gst, 0);
-    const grand = beforeTax + gst;
-    return { beforeTax, gst, grand };
+  // Rows keep the rate they were billed at; a material dispatched at different prices
+  // has one row per price.
+  const updateRow = (idx: number, patch: Partial<Pick<ClientCostRow, "qty" | "gstPercent" | "discountPercent">>) => {
+    setRows(prev => prev.map((r, i) => (i === idx ? costRow({ ...r, ...patch }) : r)));
+  };
+
+  const updateCharge = (idx: number, patch: Partial<ChargeDraft>) => {
+    setCharges(prev => prev.map((c, i) => (i === idx ? { ...c, ...patch } : c)));
+  };
+
+  const pricedMoreThanOnce = useMemo(() => {
+    const seen = new Set<string>();
+    const repeated = new Set<string>();
+    for (const r of rows) (seen.has(r.materialId) ? repeated : seen).add(r.materialId);
+    return repeated;
   }, [rows]);
 
+  // Same calculation the server stores on save.
+  const summary = useMemo(() => costingTotals(rows, {
+    discountPercent,
+    charges: charges.map(costCharge).filter(c => c.label && c.amount > 0),
+  }), [rows, discountPercent, charges]);
+
   const save = async () => {
     try {
       setSaving(true);
-      const res = await fetch(`/api/client-costing/${client.id}`, {
+      const res = await fetch(`/api/client-costing/${client.id}${projectQuery}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items: rows }),
+        body: JSON.stringify({ items: rows, discountPercent, charges, reason }),
       });
-      if (!res.ok) throw new Error('Failed to save');
-      // reload to normalize and ensure server computed
       const data = await res.json();
-      const normalized = Array.isArray(data.items) ? data.items.map((r: any) => ({
-        materialId: String(r.materialId),
-        name: String(r.name),
-        qty: Number(r.qty)||0,
-        rate: Number(r.rate)||0,
-        gstPercent: Number(r.gstPercent)||0,
-        base: Number(r.base)||0,
-        gst: Number(r.gst)||0,
-        total: Number(r.total)||0,
-      })) : [];
-      setRows(normalized.sort((a, b) => a.name.localeCompare(b.name)));
+      if (!res.ok) throw new Error(data.error || 'Failed to save');
+      // Show what the server computed and stored.
+      applyCosting(data);
+      setReason("");
+      toast({ title: "Success", description: `Saved as version ${data.version}.` });
     } catch (e) {
-      // ignore for now or integrate toast if available
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : 'Failed to save' });
     } finally {
       setSaving(false);
     }
   };
 
   const downloadPdf = () => {
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const marginX = 14;
-    const lineY = 30;
-    const dateStr = new Date().toLocaleString();
-
-    // Header
-    doc.setFontSize(18);
-    doc.text("Client Costing", marginX, 16);
-    doc.setFontSize(10);
-    doc.text(`Generated: ${dateStr}`, pageWidth - marginX - 50, 16, { align: "left" });
-
-    // Client details block
-    doc.setDrawColor(200);
-    doc.line(marginX, 20, pageWidth - marginX, 20);
-    doc.setFontSize(11);
-    doc.text(`Client: ${client.name}`, marginX, 26);
-    const addr = client.address || "-";
-    const addrLines = doc.splitTextToSize(`Address: ${addr}`, pageWidth - marginX * 2);
-    doc.text(addrLines, marginX, lineY);
-    const yAfterAddr = lineY + (Array.isArray(addrLines) ? addrLines.length * 5 : 5);
-    doc.text(`Consumer No: ${client.consumerNo ?? '-'}`, marginX, yAfterAddr);
-    doc.text(`Plant Capacity: ${client.plantCapacity ?? '-'}`, marginX + 80, yAfterAddr);
+    const doc = createClientPdf("Client Costing");
+    const marginX = PDF_MARGIN_X;
+    const yAfterAddr = addProjectBlock(doc, project, addClientBlock(doc, client));
 
     // Table
     autoTable(doc, {
-      head: [["Item", "Used Qty", "GST %", "Base Amt", "GST Amt", "Total"]],
+      head: [["Item", "Used Qty", "Rate", "Disc %", "GST %", "Base Amt", "GST Amt", "Total"]],
       body: rows.map(r => [
         r.name,
-        String(r.qty),
+        formatQty(r.qty, r.unit),
+        r.rate.toFixed(2),
+        r.discountPercent ? String(r.discountPercent) : "-",
         String(r.gstPercent),
         r.base.toFixed(2),
         r.gst.toFixed(2),
         r.total.toFixed(2)
       ]),
       startY: yAfterAddr + 6,
-      theme: "grid",
-      styles: { fontSize: 9, cellPadding: 2 },
-      headStyles: { fillColor: [30, 58, 138], textColor: 255 },
+      ...PDF_TABLE_STYLES,
       columnStyles: {
         1: { halign: 'right' },
         2: { halign: 'right' },
         3: { halign: 'right' },
         4: { halign: 'right' },
         5: { halign: 'right' },
+        6: { halign: 'right' },
+        7: { halign: 'right' },
       },
     });
 
     // Totals block
-    let y = (doc as any).lastAutoTable.finalY + 8;
+    let y = afterLastTable(doc);
     doc.setFontSize(12);
     doc.text("Summary", marginX, y);
     y += 2;
@@ -209,46 +225,87 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
     doc.line(marginX, y, marginX + 30, y);
     y += 6;
     doc.setFontSize(11);
-    doc.text(`Total Before Tax: ${summary.beforeTax.toFixed(2)}`, marginX, y);
-    y += 6;
-    doc.text(`Total GST: ${summary.gst.toFixed(2)}`, marginX, y);
-    y += 6;
+    const summaryLine = (text: string) => {
+      doc.text(text, marginX, y);
+      y += 6;
+    };
+    if (summary.discount > 0 || summary.charges.length > 0) {
+      summaryLine(`Materials: ${summary.subTotal.toFixed(2)}`);
+      if (summary.discount > 0) summaryLine(`Discount (${summary.discountPercent}%): -${summary.discount.toFixed(2)}`);
+      for (const c of summary.charges) {
+        summaryLine(`${c.label}${c.sacCode ? ` (SAC ${c.sacCode})` : ""}: ${c.amount.toFixed(2)} + GST ${c.gstPercent}%`);
+      }
+    }
+    summaryLine(`Total Before Tax: ${summary.beforeTax.toFixed(2)}`);
+    summaryLine(`Total GST: ${summary.gst.toFixed(2)}`);
     doc.setFontSize(12);
     doc.text(`Grand Total: ${summary.grand.toFixed(2)}`, marginX, y);
 
-    // Footer page number
-    const pageCount = doc.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      doc.setPage(i);
-      doc.setFontSize(9);
-      doc.text(`Page ${i} of ${pageCount}`, pageWidth - marginX, doc.internal.pageSize.getHeight() - 10, { align: 'right' });
-    }
-
-    const fileName = `Costing_${client.name.replace(/\s+/g, "_")}_${new Date().toISOString().slice(0,10)}.pdf`;
-    doc.save(fileName);
+    addPageNumbers(doc);
+    doc.save(pdfFileName("Costing", client.name, ...(project ? [project.name] : []), new Date().toISOString().slice(0,10)));
   };
 
+  const summaryRow = (label: React.ReactNode, value: string, className = "font-semibold") => (
+    <TableRow>
+      <TableCell colSpan={7} className={`text-right ${className}`}>{label}</TableCell>
+      <TableCell className={`text-right ${className}`}>{value}</TableCell>
+    </TableRow>
+  );
+
   return (
     <Card>
       <CardHeader className="flex items-center justify-between flex-row">
-        <CardTitle className="font-headline">Client Costing</CardTitle>
-        <div className="flex gap-2">
+        <div className="space-y-1">
+          <CardTitle className="font-headline">{project ? `Site Costing: ${project.name}` : "Client Costing"}</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {version.version ? `Version ${version.version}` : "Not saved yet"}
+            {locked && (
+              <span className="ml-2 inline-flex items-center gap-1 text-foreground">
+                <Lock className="w-3 h-3" />
+                Approved{version.lockedBy ? ` by ${version.lockedBy}` : ""}{version.lockedAt ? ` on ${new Date(version.lockedAt).toLocaleDateString()}` : ""}
+              </span>
+            )}
+            {locked && version.staleAt && (
+              <span className="block text-amber-700">Usage or prices changed since approval; unlock to bring it up to date.</span>
+            )}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
           <Button variant="outline" onClick={downloadPdf}>Download PDF</Button>
+          <CostingVersions clientId={client.id} projectId={project?.id} refreshKey={version.version} />
           {isOwner && (
             <>
-              <Button variant="outline" onClick={recomputeFromUsage} disabled={reloading}>{reloading ? 'Recomputing...' : 'Recompute from usage'}</Button>
-              <Button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+              <ClientPriceListDialog client={client} onSaved={reloadCosting} />
+              <Button variant="outline" onClick={recomputeFromUsage} disabled={reloading || locked}>{reloading ? 'Recomputing...' : 'Recompute from usage'}</Button>
+              <Button variant="outline" onClick={toggleLock} disabled={saving || !version.version}>
+                {locked ? <LockOpen className="w-4 h-4 mr-2" /> : <Lock className="w-4 h-4 mr-2" />}
+                {locked ? 'Unlock' : 'Approve & Lock'}
+              </Button>
+              {!locked && (
+                <>
+                  <Input
+                    aria-label="Reason for change"
+                    placeholder="Reason for change"
+                    className="w-full sm:w-56"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                  <Button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+                </>
+              )}
             </>
           )}
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
         <div className="w-full overflow-x-auto border rounded-lg">
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Item</TableHead>
                 <TableHead className="text-center">Used Qty</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-center">Disc %</TableHead>
                 <TableHead className="text-center">GST %</TableHead>
                 <TableHead className="text-right">Base Amt</TableHead>
                 <TableHead className="text-right">GST Amt</TableHead>
@@ -258,11 +315,11 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-muted-foreground">Loading...</TableCell>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">Loading...</TableCell>
                 </TableRow>
               ) : rows.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-muted-foreground">No usage found for this client yet.</TableCell>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">No usage found for this client yet.</TableCell>
                 </TableRow>
               ) : (
                 rows.map((r, idx) => {
@@ -272,6 +329,9 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
                       <div className="flex items-center gap-2">
                         <span>{r.name}</span>
                       </div>
+                      {pricedMoreThanOnce.has(r.materialId) && (
+                        <p className="text-xs text-muted-foreground font-normal">Dispatched at more than one price</p>
+                      )}
                     </TableCell>
                     <TableCell className="text-center">
                       <Input
@@ -280,8 +340,29 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
                         step={1}
                         inputMode="numeric"
                         className="w-24 mx-auto text-center"
+                        disabled={locked}
                         value={r.qty}
-                        onChange={(e) => upsertRow(r.materialId, r.name, { qty: Number(e.target.value || 0) })}
+                        onChange={(e) => updateRow(idx, { qty: Number(e.target.value || 0) })}
+                      />
+                      {r.unit && <span className="text-xs text-muted-foreground">{r.unit}</span>}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {r.rate.toFixed(2)}
+                      {r.listRate !== undefined && (
+                        <p className="text-xs text-muted-foreground line-through" title="Our price">{r.listRate.toFixed(2)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.5}
+                        inputMode="decimal"
+                        className="w-20 mx-auto text-center"
+                        disabled={locked}
+                        value={r.discountPercent ?? 0}
+                        onChange={(e) => updateRow(idx, { discountPercent: Number(e.target.value || 0) })}
                       />
                     </TableCell>
                     <TableCell className="text-center">
@@ -291,8 +372,9 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
                         step={1}
                         inputMode="numeric"
                         className="w-20 mx-auto text-center"
+                        disabled={locked}
                         value={r.gstPercent}
-                        onChange={(e) => upsertRow(r.materialId, r.name, { gstPercent: Number(e.target.value || 0) })}
+                        onChange={(e) => updateRow(idx, { gstPercent: Number(e.target.value || 0) })}
                       />
                     </TableCell>
                     <TableCell className="text-right">{r.base.toFixed(2)}</TableCell>
@@ -301,27 +383,104 @@ export function ClientCosting({ client, materials, clientHistory }: Props) {
                   </TableRow>
                 )})
               )}
-              <TableRow>
-                <TableCell colSpan={4} className="text-right font-semibold">Total Before Tax</TableCell>
-                <TableCell className="text-right font-semibold">{summary.beforeTax.toFixed(2)}</TableCell>
-                <TableCell className="text-right"/>
-                <TableCell className="text-right"/>
-              </TableRow>
-              <TableRow>
-                <TableCell colSpan={4} className="text-right font-semibold">Total GST</TableCell>
-                <TableCell className="text-right font-semibold">{summary.gst.toFixed(2)}</TableCell>
-                <TableCell className="text-right"/>
-                <TableCell className="text-right"/>
-              </TableRow>
-              <TableRow>
-                <TableCell colSpan={4} className="text-right font-bold">Grand Total</TableCell>
-                <TableCell className="text-right font-bold">{summary.grand.toFixed(2)}</TableCell>
-                <TableCell className="text-right"/>
-                <TableCell className="text-right"/>
-              </TableRow>
+              {(summary.discount > 0 || summary.charges.length > 0) && (
+                <>
+                  {summaryRow("Materials", summary.subTotal.toFixed(2), "")}
+                  {summary.discount > 0 && summaryRow(`Discount (${summary.discountPercent}%)`, `-${summary.discount.toFixed(2)}`, "")}
+                  {summary.charges.map((c, idx) => (
+                    <React.Fragment key={`charge-${idx}`}>
+                      {summaryRow(`${c.label} (GST ${c.gstPercent}%)`, c.amount.toFixed(2), "")}
+                    </React.Fragment>
+                  ))}
+                </>
+              )}
+              {summaryRow("Total Before Tax", summary.beforeTax.toFixed(2))}
+              {summaryRow("Total GST", summary.gst.toFixed(2))}
+              {summaryRow("Grand Total", summary.grand.toFixed(2), "font-bold")}
+              {isOwner && costOfGoods != null && (
+                <>
+                  {summaryRow("Cost of Goods Issued", costOfGoods.toFixed(2), "text-muted-foreground")}
+                  {summaryRow(
+                    "Margin Before Tax",
+                    (summary.beforeTax - costOfGoods).toFixed(2),
+                    `font-semibold ${summary.beforeTax - costOfGoods < 0 ? "text-destructive" : ""}`
+                  )}
+                </>
+              )}
             </TableBody>
           </Table>
         </div>
+
+        {isOwner && !locked && (
+          <div className="grid gap-4 md:grid-cols-[12rem_1fr] border rounded-lg p-3 bg-muted/30">
+            <div className="space-y-2">
+              <Label htmlFor="bill-discount">Bill Discount %</Label>
+              <Input
+                id="bill-discount"
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                inputMode="decimal"
+                value={discountPercent}
+                onChange={(e) => setDiscountPercent(Number(e.target.value || 0))}
+              />
+              <p className="text-xs text-muted-foreground">On materials, after line discounts.</p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Label>Charges</Label>
+                <div className="flex gap-2">
+                  {CHARGE_PRESETS.map(preset => (
+                    <Button
+                      key={preset.label}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCharges(prev => [...prev, { ...preset, amount: 0 }])}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {charges.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No freight, installation or other charges.</p>
+              ) : (
+                charges.map((c, idx) => (
+                  <div key={idx} className="grid grid-cols-2 sm:grid-cols-[1fr_7rem_7rem_5rem_auto] gap-2 items-center">
+                    <Input aria-label="Charge" placeholder="Charge" value={c.label} onChange={(e) => updateCharge(idx, { label: e.target.value })} />
+                    <Input aria-label="SAC code" placeholder="SAC" value={c.sacCode} onChange={(e) => updateCharge(idx, { sacCode: e.target.value.replace(/[^0-9]/g, '') })} />
+                    <Input
+                      aria-label="Amount before GST"
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      inputMode="decimal"
+                      placeholder="Amount"
+                      value={c.amount || ""}
+                      onChange={(e) => updateCharge(idx, { amount: Number(e.target.value || 0) })}
+                    />
+                    <Input
+                      aria-label="GST %"
+                      type="number"
+                      min={0}
+                      step={1}
+                      inputMode="numeric"
+                      value={c.gstPercent}
+                      onChange={(e) => updateCharge(idx, { gstPercent: Number(e.target.value || 0) })}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => setCharges(prev => prev.filter((_, i) => i !== idx))}>
+                      <Trash2 className="w-4 h-4" />
+                      <span className="sr-only">Remove charge</span>
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
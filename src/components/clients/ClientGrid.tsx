@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
-// Import the custom hook 'useClients' to fetch client data in real-time.
-import { useClients } from "@/hooks/use-clients";
+import { useEffect, useState } from "react";
+// Import the custom hook 'useClients' to fetch one page of clients.
+import { useClients, type ClientListParams } from "@/hooks/use-clients";
 // Import the component for displaying a single client card.
 import { ClientCard } from "./ClientCard";
 // Import a Skeleton component for loading states.
@@ -11,19 +11,37 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { AddClientModal } from "./AddClientModal";
 import { Input } from "../ui/input";
 import { Search } from "lucide-react";
+import { useHasRole } from "@/hooks/use-session";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListPager } from "@/components/layout/ListPager";
+import { pageCount } from "@/lib/paging";
+
+const PAGE_SIZE = 20;
+// Sort choices of the client list, as sort and order of '/api/clients'.
+const SORTS = {
+  "name-asc": { sort: "name", order: "asc" },
+  "name-desc": { sort: "name", order: "desc" },
+  "added-desc": { sort: "added", order: "desc" },
+} as const;
 
 // This component displays a grid of client cards.
 export function ClientGrid() {
-  // The 'useClients' hook returns the list of clients and a loading state.
-  // The component will automatically re-render when the client data changes in Firestore.
-  const { clients, loading } = useClients();
   const [searchTerm, setSearchTerm] = useState("");
+  // Archived clients are only listed when asked for.
+  const [view, setView] = useState<NonNullable<ClientListParams["view"]>>("active");
+  const [sortBy, setSortBy] = useState<keyof typeof SORTS>("name-asc");
+  const [pageNo, setPageNo] = useState(1);
+  // Search, filter, sort and paging all happen on the server.
+  const { clients: filteredClients, page, loading } = useClients({ q: searchTerm, view, ...SORTS[sortBy], page: pageNo, pageSize: PAGE_SIZE });
+  // Viewers can browse clients but not create them.
+  const canAddClients = useHasRole("storekeeper");
 
-  const filteredClients = clients.filter(client => {
-    const nameMatch = client.name?.toLowerCase().includes(searchTerm.toLowerCase()) || false;
-    const consumerNoMatch = client.consumerNo?.toString().toLowerCase().includes(searchTerm.toLowerCase()) || false;
-    return nameMatch || consumerNoMatch;
-  });
+  // Back to the first page whenever the list itself changes.
+  useEffect(() => setPageNo(1), [searchTerm, view, sortBy]);
+  // Stay within the list when it shrinks, e.g. after archiving the last client of a page.
+  useEffect(() => {
+    if (page && page.page > pageCount(page)) setPageNo(pageCount(page));
+  }, [page]);
 
   return (
     <div className="space-y-4">
@@ -38,14 +56,35 @@ export function ClientGrid() {
                     className="pl-10"
                 />
             </div>
+            <Select value={view} onValueChange={(v) => setView(v as typeof view)}>
+                <SelectTrigger className="w-full sm:w-44" aria-label="Filter clients">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="active">Active clients</SelectItem>
+                    <SelectItem value="dues">With dues</SelectItem>
+                    <SelectItem value="archived">Archived</SelectItem>
+                    <SelectItem value="all">All clients</SelectItem>
+                </SelectContent>
+            </Select>
+            <Select value={sortBy} onValueChange={(v) => setSortBy(v as typeof sortBy)}>
+                <SelectTrigger className="w-full sm:w-40" aria-label="Sort clients">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="name-asc">Name A–Z</SelectItem>
+                    <SelectItem value="name-desc">Name Z–A</SelectItem>
+                    <SelectItem value="added-desc">Newest first</SelectItem>
+                </SelectContent>
+            </Select>
             <div className="flex justify-end w-full sm:w-auto">
-                <AddClientModal />
+                {canAddClients && <AddClientModal />}
             </div>
         </div>
         {/* The grid layout for the cards. Force one card per row across breakpoints. */}
         <div className="grid grid-cols-1 gap-4">
         {/* Conditional rendering based on the 'loading' state. */}
-        {loading ? (
+        {loading && !page ? (
             // If data is loading, display a series of skeleton cards as placeholders.
             // This provides a better user experience than a blank screen.
             Array.from({ length: 4 }).map((_, i) => (
@@ -60,10 +99,14 @@ export function ClientGrid() {
         ) : (
             // If loading is complete and there are no clients, display a helpful message.
             <p className="col-span-full text-center text-muted-foreground py-8">
-                {searchTerm ? "No clients match your search." : "No clients found. Add one to get started!"}
+                {searchTerm ? "No clients match your search."
+                  : view === "dues" ? "No client has dues."
+                  : view === "archived" ? "No archived clients."
+                  : "No clients found. Add one to get started!"}
             </p>
         )}
         </div>
+        <ListPager page={page} onPageChange={setPageNo} noun="clients" />
     </div>
   );
 }
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Archive, ArchiveRestore, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useHasRole } from "@/hooks/use-session";
+import { useToast } from "@/hooks/use-toast";
+import { deleteClientAction, setClientArchivedAction } from "@/app/client-actions";
+import { EditClientDialog } from "@/components/clients/EditClientDialog";
+import type { Client } from "@/lib/types";
+
+// Edit and archive for storekeepers; delete for owners. The server refuses to delete a
+// client who still holds material, has reservations, invoices or payments.
+export function ClientLifecycleActions({ client }: { client: Client }) {
+  const canEdit = useHasRole("storekeeper");
+  const canDelete = useHasRole("owner");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+  };
+
+  const toggleArchived = async () => {
+    setBusy(true);
+    notify(await setClientArchivedAction(client.id, !client.archived));
+    setBusy(false);
+  };
+
+  const remove = async () => {
+    setBusy(true);
+    const result = await deleteClientAction(client.id);
+    setBusy(false);
+    notify(result);
+    if (result.success) router.push("/client-material");
+  };
+
+  if (!canEdit) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <EditClientDialog client={client} />
+      <Button variant="outline" size="sm" onClick={toggleArchived} disabled={busy}>
+        {client.archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+        {client.archived ? "Unarchive" : "Archive"}
+      </Button>
+      {canDelete && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" disabled={busy}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle className="font-headline">Delete {client.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This removes the client with their material entries, sites and costing. It cannot be undone.
+                Only possible once all material is returned and nothing was invoiced or paid; otherwise archive the client.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={remove} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                Delete Client
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
@@ -6,21 +6,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { AlertTriangle, Search } from "lucide-react";
 import { StockAdjustmentModal } from "@/components/materials/StockAdjustmentModal";
+import { useHasRole } from "@/hooks/use-session";
+import { isLowStock } from "@/lib/reorder";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import { ProjectSelect } from "@/components/projects/ProjectSelect";
+import type { MaterialUsage, Project } from "@/lib/types";
 
-const LOW_STOCK_THRESHOLD = 10;
-
-type MaterialUsage = {
-  materialId: string;
-  outQty: number;
-  inQty: number;
-  netQty: number;
-};
-
-export function ClientMaterialStock({ clientId }: { clientId?: string }) {
+// With projects, usage and In/Out are per site when one is selected; "All sites" shows
+// the client roll-up and books entries without a project.
+export function ClientMaterialStock({ clientId, projects = [] }: { clientId?: string; projects?: Project[] }) {
   const { materials, loading } = useMaterials();
   const [searchTerm, setSearchTerm] = useState("");
   const [materialUsage, setMaterialUsage] = useState<Map<string, MaterialUsage>>(new Map());
   const [usageLoading, setUsageLoading] = useState(true);
+  const [projectId, setProjectId] = useState("");
+  // Only storekeepers and owners may dispatch or take back material.
+  const canMoveStock = useHasRole("storekeeper");
 
   // Fetch client-specific material usage
   useEffect(() => {
@@ -31,7 +32,8 @@ export function ClientMaterialStock({ clientId }: { clientId?: string }) {
 
     const fetchUsage = async () => {
       try {
-        const res = await fetch(`/api/clients/${clientId}/material-usage`);
+        const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : "";
+        const res = await fetch(`/api/clients/${clientId}/material-usage${query}`);
         if (res.ok) {
           const data = await res.json();
           const usageMap = new Map<string, MaterialUsage>();
@@ -51,8 +53,9 @@ export function ClientMaterialStock({ clientId }: { clientId?: string }) {
       }
     };
 
+    setUsageLoading(true);
     fetchUsage();
-  }, [clientId]);
+  }, [clientId, projectId]);
 
   const filtered = useMemo(() => {
     const term = searchTerm.toLowerCase();
@@ -63,7 +66,12 @@ export function ClientMaterialStock({ clientId }: { clientId?: string }) {
 
   return (
     <div className="space-y-4">
-      <div className="flex items-center">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        {projects.length > 0 && (
+          <div className="w-full sm:max-w-xs">
+            <ProjectSelect projects={projects} value={projectId} onChange={setProjectId} noneLabel="All sites" />
+          </div>
+        )}
         <div className="relative w-full sm:max-w-xs">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -102,7 +110,7 @@ export function ClientMaterialStock({ clientId }: { clientId?: string }) {
               filtered.map((m) => {
                 const usage = materialUsage.get(m.id);
                 const netQty = Math.max(0, usage?.netQty || 0);
-                const isLow = (m.quantity ?? 0) <= LOW_STOCK_THRESHOLD;
+                const isLow = isLowStock(m);
                 
                 return (
                   <TableRow key={m.id} className={isLow ? "bg-destructive/5" : ""}>
@@ -113,14 +121,19 @@ export function ClientMaterialStock({ clientId }: { clientId?: string }) {
                       </div>
                     </TableCell>
                     <TableCell className="text-muted-foreground">{m.description || "-"}</TableCell>
-                    <TableCell className="text-center font-semibold">{netQty}</TableCell>
+                    <TableCell className="text-center font-semibold">{formatQty(netQty, baseUnitOf(m))}</TableCell>
                     <TableCell className="text-center">
-                      <StockAdjustmentModal 
-                        material={m} 
-                        clientId={clientId} 
-                        currentOutQty={usage?.outQty || 0}
-                        currentInQty={usage?.inQty || 0}
-                      />
+                      {canMoveStock ? (
+                        <StockAdjustmentModal 
+                          material={m} 
+                          clientId={clientId} 
+                          projectId={projectId || undefined}
+                          currentOutQty={usage?.outQty || 0}
+                          currentInQty={usage?.inQty || 0}
+                        />
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
                     </TableCell>
                   </TableRow>
                 );
@@ -5,6 +5,8 @@ import type { ClientMaterialEntry, Material } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
 import { FileStack } from 'lucide-react';
+import { baseUnitOf, formatQty } from '@/lib/units';
+import { materialUsage } from '@/lib/usage';
 
 type ClientMaterialSummaryProps = {
     clientHistory: ClientMaterialEntry[];
@@ -13,29 +15,25 @@ type ClientMaterialSummaryProps = {
 
 export function ClientMaterialSummary({ clientHistory, materials }: ClientMaterialSummaryProps) {
     const summary = useMemo(() => {
-        const summaryMap: Record<string, { materialName: string, outQty: number, inQty: number }> = {};
+        const summaryMap: Record<string, { materialName: string, unit: string, outQty: number, inQty: number }> = {};
         
         // Initialize summary map with all materials to ensure all are listed
         materials.forEach(material => {
             summaryMap[material.id] = {
                 materialName: material.name,
+                unit: baseUnitOf(material),
                 outQty: 0,
                 inQty: 0,
             };
         });
 
         // Populate quantities from history
-        clientHistory.forEach(entry => {
-            entry.materials.forEach(item => {
-                if (summaryMap[item.materialId]) {
-                    if (entry.type === 'out') {
-                        summaryMap[item.materialId].outQty += Number(item.quantity);
-                    } else if (entry.type === 'in') {
-                        summaryMap[item.materialId].inQty += Number(item.quantity);
-                    }
-                }
-            });
-        });
+        for (const usage of materialUsage(clientHistory)) {
+            const row = summaryMap[usage.materialId];
+            if (!row) continue;
+            row.outQty = usage.outQty;
+            row.inQty = usage.inQty;
+        }
 
         return Object.values(summaryMap);
     }, [clientHistory, materials]);
@@ -68,10 +66,10 @@ export function ClientMaterialSummary({ clientHistory, materials }: ClientMateri
                                 return (
                                     <TableRow key={index}>
                                         <TableCell className="font-medium">{item.materialName}</TableCell>
-                                        <TableCell className="text-right">{item.outQty}</TableCell>
-                                        <TableCell className="text-right text-green-600">{item.inQty}</TableCell>
+                                        <TableCell className="text-right">{formatQty(item.outQty, item.unit)}</TableCell>
+                                        <TableCell className="text-right text-green-600">{formatQty(item.inQty, item.unit)}</TableCell>
                                         <TableCell className={`text-right font-bold ${balance > 0 ? 'text-destructive' : 'text-green-600'}`}>
-                                            {balance}
+                                            {formatQty(balance, item.unit)}
                                         </TableCell>
                                     </TableRow>
                                 );
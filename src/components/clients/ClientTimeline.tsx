@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileDown, ListOrdered, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ReverseEntryDialog } from "@/components/clients/ReverseEntryDialog";
+import { useHasRole } from "@/hooks/use-session";
+import { downloadChallanPdf } from "@/lib/challan-pdf";
+import { formatQty } from "@/lib/units";
+import type { Client, ClientTimeline as Timeline, ClientTimelineEntry, Project } from "@/lib/types";
+
+const ALL = "all";
+const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+// Every dispatch and return of the client in date order, with what they hold after each.
+export function ClientTimeline({ client, projects = [] }: { client: Client; projects?: Project[] }) {
+  const [materialId, setMaterialId] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Storekeepers reverse wrong entries from here.
+  const canReverse = useHasRole("storekeeper");
+  const router = useRouter();
+
+  const fetchTimeline = useCallback(async () => {
+    setLoading(true);
+    const query = new URLSearchParams();
+    if (materialId !== ALL) query.set("materialId", materialId);
+    if (from) query.set("from", from);
+    if (to) query.set("to", to);
+    try {
+      const res = await fetch(`/api/clients/${client.id}/timeline?${query}`);
+      if (res.ok) setTimeline(await res.json());
+    } catch (error) {
+      console.error("Error fetching client timeline:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [client.id, materialId, from, to]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  const material = timeline?.materials.find(m => m.materialId === materialId);
+  // Quantities of different materials only add up to a rough count; one material gives its real holding.
+  const qty = (n: number) => (material ? formatQty(n, material.unit) : String(n));
+  const projectOf = (e: ClientTimelineEntry) => projects.find(p => p.id === e.projectId) ?? null;
+  const entries = timeline?.entries ?? [];
+  // Entries keep all their lines for the challan PDF; the table shows the filtered material only.
+  const linesOf = (e: ClientTimelineEntry) => (material ? e.materials.filter(l => l.materialId === material.materialId) : e.materials);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5" />
+          <CardTitle className="font-headline">Material Timeline</CardTitle>
+        </div>
+        <Button variant="ghost" size="icon" onClick={fetchTimeline} disabled={loading}>
+          <RefreshCw className="w-4 h-4" />
+          <span className="sr-only">Refresh</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="timeline-material">Material</Label>
+            <Select value={materialId} onValueChange={setMaterialId}>
+              <SelectTrigger id="timeline-material" className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All materials</SelectItem>
+                {timeline?.materials.map(m => (
+                  <SelectItem key={m.materialId} value={m.materialId}>{m.materialName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timeline-from">From</Label>
+            <Input id="timeline-from" type="date" className="w-full sm:w-44" max={to || undefined} value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timeline-to">To</Label>
+            <Input id="timeline-to" type="date" className="w-full sm:w-44" min={from || undefined} value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          {(materialId !== ALL || from || to) && (
+            <Button variant="outline" onClick={() => { setMaterialId(ALL); setFrom(""); setTo(""); }}>Clear</Button>
+          )}
+        </div>
+
+        {from && timeline && (
+          <p className="text-sm text-muted-foreground">Held before {new Date(`${from}T00:00:00`).toLocaleDateString()}: {qty(timeline.opening)}</p>
+        )}
+
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead className="text-right">Net</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Challan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && !timeline ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {materialId !== ALL || from || to ? "No entries match the filters." : "No material has gone to this client yet."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map(e => (
+                  <TableRow key={e.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(e.date).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={e.type === "in" ? "secondary" : "default"}>{e.type === "in" ? "In" : "Out"}</Badge>
+                      {e.reversalOf && <Badge variant="outline" className="ml-1">Reversal</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-medium">{e.challanNo || e.reason || "-"}</span>
+                      {e.challanNo && e.reason && <p className="text-xs text-muted-foreground">{e.reason}</p>}
+                      {projectOf(e) && <p className="text-xs text-muted-foreground">{projectOf(e)!.name}</p>}
+                      {e.createdBy && <p className="text-xs text-muted-foreground">by {e.createdBy}</p>}
+                      {e.reversedAt && (
+                        <p className="text-xs text-destructive">
+                          Reversed {new Date(e.reversedAt).toLocaleDateString()}{e.reversedBy ? ` by ${e.reversedBy}` : ""}: {e.reversalReason}
+                        </p>
+                      )}
+                      {e.correctionOf && <p className="text-xs text-muted-foreground">Corrected entry</p>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {linesOf(e).map((line, i) => (
+                        <p key={`${line.materialId}-${i}`}>{line.materialName} × {formatQty(line.quantity, line.unit)}</p>
+                      ))}
+                    </TableCell>
+                    <TableCell className={`text-right whitespace-nowrap ${e.net < 0 ? "text-green-600" : ""}`}>{signed(e.net)}</TableCell>
+                    <TableCell className="text-right font-medium whitespace-nowrap">{qty(e.balance)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => downloadChallanPdf(client, e, projectOf(e))}>
+                        <FileDown className="w-4 h-4" />
+                        <span className="sr-only">Download challan PDF</span>
+                      </Button>
+                      {canReverse && !e.reversedAt && !e.reversalOf && (
+                        <ReverseEntryDialog entry={e} onDone={() => { fetchTimeline(); router.refresh(); }} />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {!material && entries.length > 0 && (
+          <p className="text-xs text-muted-foreground">Net and balance add up all materials; pick one material to see what the client holds of it.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { diffCostingRows, diffCostingTotals } from "@/lib/costing-diff";
+import { formatQty } from "@/lib/units";
+import type { ClientCostingVersion, CostingVersionSource } from "@/lib/types";
+
+const SOURCES: Record<CostingVersionSource, string> = {
+  recompute: "Recomputed",
+  manual: "Edited",
+  legacy: "Before versions",
+};
+
+const versionLabel = (v: ClientCostingVersion) =>
+  `v${v.version} · ${new Date(v.createdAt).toLocaleString()} · ${SOURCES[v.source] ?? v.source}`;
+
+const changeClass = (before: number | undefined, after: number | undefined) =>
+  before === after ? "" : (after ?? 0) > (before ?? 0) ? "text-green-700" : "text-destructive";
+
+// Every saved version of a costing with who changed it and why, and any two of them
+// side by side. 'refreshKey' reloads the list when the costing changes on the page.
+export function CostingVersions({ clientId, projectId, refreshKey }: { clientId: string; projectId?: string | null; refreshKey?: unknown }) {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<ClientCostingVersion[] | null>(null);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setVersions(null);
+    const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : "";
+    fetch(`/api/client-costing/${clientId}/versions${query}`)
+      .then(res => (res.ok ? res.json() : { versions: [] }))
+      .then(data => {
+        const list: ClientCostingVersion[] = Array.isArray(data.versions) ? data.versions : [];
+        setVersions(list);
+        setToId(list[0]?.id ?? "");
+        setFromId(list[1]?.id ?? list[0]?.id ?? "");
+      })
+      .catch(() => setVersions([]));
+  }, [open, clientId, projectId, refreshKey]);
+
+  const from = versions?.find(v => v.id === fromId);
+  const to = versions?.find(v => v.id === toId);
+  const rows = from && to ? diffCostingRows(from.items, to.items) : [];
+  const totals = from && to ? diffCostingTotals(from, to) : [];
+
+  const versionSelect = (id: string, value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Pick a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {(versions ?? []).map(v => (
+          <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <GitCompare className="w-4 h-4 mr-2" />
+          Versions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Costing Versions</DialogTitle>
+          <DialogDescription>Every save and recompute is kept. Pick two versions to compare them.</DialogDescription>
+        </DialogHeader>
+
+        {versions === null ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions yet. One is kept each time the costing is saved or recomputed.</p>
+        ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+            <div className="w-full overflow-x-auto border rounded-lg max-h-48">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Grand Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map(v => (
+                    <TableRow key={v.id}>
+                      <TableCell className="font-medium whitespace-nowrap">v{v.version} <span className="text-muted-foreground font-normal">{SOURCES[v.source] ?? v.source}</span></TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(v.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{v.createdBy ?? "-"}</TableCell>
+                      <TableCell>{v.reason ?? "-"}</TableCell>
+                      <TableCell className="text-right">{v.grand.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="costing-version-from">Compare</Label>
+                {versionSelect("costing-version-from", fromId, setFromId)}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="costing-version-to">With</Label>
+                {versionSelect("costing-version-to", toId, setToId)}
+              </div>
+            </div>
+
+            {from && to && (
+              <div className="w-full overflow-x-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead rowSpan={2}>Item</TableHead>
+                      <TableHead colSpan={3} className="text-center border-l">v{from.version}</TableHead>
+                      <TableHead colSpan={3} className="text-center border-l">v{to.version}</TableHead>
+                    </TableRow>
+                    <TableRow>
+                      {[from, to].map(v => (
+                        <Fragment key={v.id}>
+                          <TableHead className="text-center border-l">Qty</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </Fragment>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">No items in either version.</TableCell>
+                      </TableRow>
+                    )}
+                    {rows.map(r => (
+                      <TableRow key={r.key} className={r.changed ? "bg-amber-50 dark:bg-amber-950/30" : undefined}>
+                        <TableCell className="font-medium">
+                          {r.name}
+                          {!r.before && <span className="ml-2 text-xs text-green-700">added</span>}
+                          {!r.after && <span className="ml-2 text-xs text-destructive">removed</span>}
+                        </TableCell>
+                        {[r.before, r.after].map((row, idx) => (
+                          <Fragment key={idx}>
+                            <TableCell className="text-center border-l">{row ? formatQty(row.qty, row.unit) : "-"}</TableCell>
+                            <TableCell className="text-right">
+                              {row ? row.rate.toFixed(2) : "-"}
+                              {row?.discountPercent ? <span className="text-xs text-muted-foreground"> -{row.discountPercent}%</span> : null}
+                            </TableCell>
+                            <TableCell className={`text-right ${idx === 1 ? changeClass(r.before?.total, r.after?.total) : ""}`}>
+                              {row ? row.total.toFixed(2) : "-"}
+                            </TableCell>
+                          </Fragment>
+                        ))}
+                      </TableRow>
+                    ))}
+                    {totals.map(line => (
+                      <TableRow key={line.label}>
+                        <TableCell className="font-semibold">{line.label}</TableCell>
+                        <TableCell colSpan={3} className="text-right border-l">{line.before.toFixed(2)}</TableCell>
+                        <TableCell colSpan={3} className={`text-right border-l ${changeClass(line.before, line.after)}`}>{line.after.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useState, useEffect, useActionState, useMemo } from "react";
+import { useFormStatus } from "react-dom";
+import Link from "next/link";
+import { Plus, Trash2, Truck, FileDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useMaterials } from "@/hooks/use-materials";
+import { useToast } from "@/hooks/use-toast";
+import { createChallanAction } from "@/app/challan-actions";
+import { downloadChallanPdf } from "@/lib/challan-pdf";
+import { SerialPicker } from "@/components/materials/SerialPicker";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import { ProjectSelect } from "@/components/projects/ProjectSelect";
+import { ApplyBomTemplate } from "@/components/bom/ApplyBomTemplate";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import { stockAt } from "@/lib/location-stock";
+import type { BomRequirement } from "@/lib/bom";
+import type { BomTemplate, Client, ClientMaterialEntry, Material, Project, StockLocation } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      <Truck className="w-4 h-4 mr-2" />
+      {pending ? "Dispatching..." : "Create Challan"}
+    </Button>
+  );
+}
+
+type ChallanLine = {
+  key: number;
+  materialId: string;
+  quantity: string;
+  serialNumbers: string;
+  pickedSerials: string[];   // For serialized materials; decides the quantity.
+  bomQty?: number;           // Quantity asked for by an applied BOM template.
+};
+
+const initialState = {
+  success: false,
+  message: null as string | null,
+  submissionId: 0,
+  challan: null as ClientMaterialEntry | null,
+};
+
+let nextLineKey = 1;
+const emptyLine = (): ChallanLine => ({ key: nextLineKey++, materialId: "", quantity: "", serialNumbers: "", pickedSerials: [] });
+
+// Builds a multi-line dispatch challan for one client. All lines are committed by a
+// single server action; on success the delivery note can be downloaded as a PDF.
+export function DispatchChallanForm({ client, projects = [], templates = [], locations = [] }: { client: Client; projects?: Project[]; templates?: BomTemplate[]; locations?: StockLocation[] }) {
+  const { materials } = useMaterials();
+  const { toast } = useToast();
+  const [state, formAction] = useActionState(createChallanAction, initialState);
+  const [lines, setLines] = useState<ChallanLine[]>(() => [emptyLine()]);
+  const [created, setCreated] = useState<ClientMaterialEntry | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const [projectId, setProjectId] = useState("");
+  const [locationId, setLocationId] = useState("");
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success && state.challan) {
+      toast({ title: "Success", description: state.message });
+      setCreated(state.challan);
+      setLines([emptyLine()]);
+      setFormKey(k => k + 1);
+    } else if (!state.success) {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const materialsById = useMemo(() => new Map(materials.map(m => [m.id, m])), [materials]);
+
+  const updateLine = (key: number, patch: Partial<ChallanLine>) => {
+    setLines(prev => prev.map(l => (l.key === key ? { ...l, ...patch } : l)));
+  };
+
+  // Stock at the location the delivery leaves from ("" is the default location).
+  const location = locations.find(l => l.id === locationId) ?? locations.find(l => l.isDefault);
+  const onHand = (m: Material) => (location ? stockAt(m, location) : m.quantity ?? 0);
+
+  const isSerialized = (l: ChallanLine) => materialsById.get(l.materialId)?.serialized === true;
+  const lineQty = (l: ChallanLine) => (isSerialized(l) ? l.pickedSerials.length : Number(l.quantity) || 0);
+  const shortBy = (l: ChallanLine) => {
+    const m = materialsById.get(l.materialId);
+    return m ? Math.max(0, lineQty(l) - onHand(m)) : 0;
+  };
+
+  // Replaces the lines with a scaled BOM. Serial numbers still have to be picked, and
+  // quantities above stock are left in place so the shortfall stays visible.
+  const applyTemplate = (requirements: BomRequirement[]) => {
+    const next = requirements
+      .filter(r => materialsById.has(r.materialId))
+      .map(r => ({ ...emptyLine(), materialId: r.materialId, quantity: String(r.quantity), bomQty: r.quantity }));
+    setLines(next.length ? next : [emptyLine()]);
+  };
+
+  const payload = lines
+    .filter(l => l.materialId)
+    .map(l => ({
+      materialId: l.materialId,
+      quantity: lineQty(l),
+      serialNumbers: isSerialized(l) ? l.pickedSerials.join(", ") : l.serialNumbers,
+    }));
+
+  const shortLines = lines.filter(l => shortBy(l) > 0);
+  const overStock = shortLines.length > 0;
+
+  return (
+    <div className="space-y-6">
+      {created && (
+        <Alert>
+          <Truck className="h-4 w-4" />
+          <AlertTitle>Challan {created.challanNo} created</AlertTitle>
+          <AlertDescription className="flex flex-col sm:flex-row sm:items-center gap-2 justify-between">
+            <span>{created.materials.length} material line(s) dispatched to {client.name}.</span>
+            <Button variant="outline" size="sm" onClick={() => downloadChallanPdf(client, created, projects.find(p => p.id === created.projectId))}>
+              <FileDown className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">New Dispatch Challan</CardTitle>
+          <CardDescription>Add every material going out on this delivery. Stock is only reduced when the challan is created.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form key={formKey} action={formAction} className="space-y-6">
+            <input type="hidden" name="clientId" value={client.id} />
+            <input type="hidden" name="items" value={JSON.stringify(payload)} />
+            <input type="hidden" name="projectId" value={projectId} />
+            <input type="hidden" name="locationId" value={locationId} />
+
+            {(projects.length > 0 || locations.length > 1) && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {projects.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="challan-project">Project / Site</Label>
+                    <ProjectSelect id="challan-project" projects={projects} value={projectId} onChange={setProjectId} />
+                  </div>
+                )}
+                {locations.length > 1 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="challan-location">Dispatch From</Label>
+                    <LocationSelect id="challan-location" locations={locations} value={locationId} onChange={setLocationId} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <ApplyBomTemplate
+              templates={templates}
+              materials={location ? materials.map(m => ({ ...m, quantity: onHand(m) })) : materials}
+              capacity={projects.find(p => p.id === projectId)?.plantCapacity || client.plantCapacity || ""}
+              onApply={applyTemplate}
+            />
+
+            <div className="w-full overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[200px]">Material</TableHead>
+                    <TableHead className="text-center w-[120px]">Qty</TableHead>
+                    <TableHead className="min-w-[200px]">Serial Numbers</TableHead>
+                    <TableHead className="w-[50px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map(line => {
+                    const material = materialsById.get(line.materialId);
+                    const taken = new Set(lines.filter(l => l.key !== line.key).map(l => l.materialId));
+                    return (
+                      <TableRow key={line.key}>
+                        <TableCell>
+                          <Select value={line.materialId} onValueChange={(v) => updateLine(line.key, { materialId: v, pickedSerials: [], bomQty: undefined })}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select material" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {materials.filter(m => !taken.has(m.id)).map(m => (
+                                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {material && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Available{locations.length > 1 && location ? ` at ${location.name}` : ""}: {formatQty(onHand(material), baseUnitOf(material))}
+                              {(material.reserved ?? 0) > 0 && ` (${material.reserved} reserved)`}
+                            </p>
+                          )}
+                          {material && shortBy(line) > 0 && (
+                            <p className="text-xs text-destructive font-medium">Short by {formatQty(shortBy(line), baseUnitOf(material))}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {material?.serialized ? (
+                            <>
+                              <p className="text-center font-semibold">{line.pickedSerials.length}</p>
+                              {line.bomQty !== undefined && line.pickedSerials.length !== line.bomQty && (
+                                <p className="text-xs text-center text-muted-foreground">BOM: pick {line.bomQty}</p>
+                              )}
+                            </>
+                          ) : (
+                            <Input
+                              type="number"
+                              min={1}
+                              step={1}
+                              inputMode="numeric"
+                              className="text-center"
+                              value={line.quantity}
+                              onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {material?.serialized ? (
+                            <SerialPicker
+                              materialId={material.id}
+                              status="in_stock"
+                              value={line.pickedSerials}
+                              onChange={(picked) => updateLine(line.key, { pickedSerials: picked })}
+                            />
+                          ) : (
+                            <Input
+                              placeholder="Optional, comma separated"
+                              value={line.serialNumbers}
+                              onChange={(e) => updateLine(line.key, { serialNumbers: e.target.value })}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            disabled={lines.length === 1}
+                            onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            <span className="sr-only">Remove line</span>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <Button type="button" variant="outline" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="vehicleNo">Vehicle No.</Label>
+                <Input id="vehicleNo" name="vehicleNo" placeholder="e.g. MH12AB1234" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="driverName">Driver</Label>
+                <Input id="driverName" name="driverName" placeholder="Driver name" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="remarks">Remarks</Label>
+              <Textarea id="remarks" name="remarks" placeholder="Optional notes printed on the challan" />
+            </div>
+
+            {overStock && (
+              <Alert variant="destructive">
+                <AlertTitle>Not enough stock</AlertTitle>
+                <AlertDescription>
+                  {shortLines.map(l => {
+                    const m = materialsById.get(l.materialId)!;
+                    return `${m.name} short by ${formatQty(shortBy(l), baseUnitOf(m))}`;
+                  }).join(", ")}. Reduce these lines or fill stock before creating the challan.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button asChild variant="outline">
+                <Link href={`/client-material/${client.id}`}>Back to Client</Link>
+              </Button>
+              <SubmitButton disabled={payload.length === 0 || overStock} />
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { updateClientAction } from "@/app/client-actions";
+import type { Client } from "@/lib/types";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Saving..." : "Save Changes"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, errors: null as Record<string, string[] | undefined> | null, submissionId: 0 };
+
+// Corrects a client's name, consumer number, address or plant capacity.
+export function EditClientDialog({ client }: { client: Client }) {
+  const [open, setOpen] = useState(false);
+  const [state, formAction] = useActionState(updateClientAction, initialState);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="w-4 h-4 mr-2" />
+          Edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Edit {client.name}</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="clientId" value={client.id} />
+          <div className="space-y-2">
+            <Label htmlFor="edit-client-name">Client Name</Label>
+            <Input
+              id="edit-client-name"
+              name="name"
+              defaultValue={client.name}
+              required
+              onInput={(e) => {
+                const target = e.target as HTMLInputElement;
+                target.value = target.value.replace(/[^A-Za-z\s'-]/g, '');
+              }}
+            />
+            {state.errors?.name && <p className="text-sm text-destructive">{state.errors.name[0]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-client-consumer-no">Consumer No.</Label>
+            <Input
+              id="edit-client-consumer-no"
+              name="consumerNo"
+              defaultValue={client.consumerNo}
+              required
+              maxLength={12}
+              onInput={(e) => {
+                const target = e.target as HTMLInputElement;
+                target.value = target.value.replace(/[^0-9]/g, '');
+              }}
+            />
+            {state.errors?.consumerNo && <p className="text-sm text-destructive">{state.errors.consumerNo[0]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-client-address">Address</Label>
+            <Textarea id="edit-client-address" name="address" defaultValue={client.address} required />
+            {state.errors?.address && <p className="text-sm text-destructive">{state.errors.address[0]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-client-capacity">Solar Plant Capacity( KW )</Label>
+            <Input id="edit-client-capacity" name="plantCapacity" defaultValue={client.plantCapacity} inputMode="decimal" required />
+            {state.errors?.plantCapacity && <p className="text-sm text-destructive">{state.errors.plantCapacity[0]}</p>}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { reverseClientEntryAction } from "@/app/client-entry-actions";
+import { formatQty } from "@/lib/units";
+import type { ClientMaterialEntry } from "@/lib/types";
+
+function SubmitButton({ correct }: { correct: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" variant={correct ? "default" : "destructive"} disabled={pending}>
+      {pending ? "Saving..." : correct ? "Reverse & Correct" : "Reverse Entry"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+// Reverses a wrong entry with the opposite movement; optionally books the corrected
+// quantities in its place.
+export function ReverseEntryDialog({ entry, onDone }: { entry: ClientMaterialEntry; onDone?: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [correct, setCorrect] = useState(false);
+  const [lines, setLines] = useState(() => entry.materials.map(l => ({ quantity: String(l.quantity), serialNumbers: l.serialNumbers ?? "" })));
+  const [state, formAction] = useActionState(reverseClientEntryAction, initialState);
+  const { toast } = useToast();
+  const reference = entry.challanNo ? `Challan ${entry.challanNo}` : entry.reason || "this entry";
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+      onDone?.();
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const setLine = (i: number, field: "quantity" | "serialNumbers", value: string) =>
+    setLines(prev => prev.map((l, j) => (j === i ? { ...l, [field]: value } : l)));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <Undo2 className="w-4 h-4" />
+          <span className="sr-only">Reverse entry</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Reverse {reference}</DialogTitle>
+          <DialogDescription>
+            {entry.type === "in"
+              ? "The returned material goes back out to the client."
+              : "The dispatched material comes back into stock."}{" "}
+            The entry stays on record, marked as reversed, and the costing is recomputed.
+          </DialogDescription>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="entryId" value={entry.id} />
+          {correct && <input type="hidden" name="lines" value={JSON.stringify(lines)} />}
+          <ul className="text-sm border rounded-md p-3 space-y-1">
+            {entry.materials.map((line, i) => (
+              <li key={`${line.materialId}-${i}`}>{line.materialName} × {formatQty(line.quantity, line.unit)}</li>
+            ))}
+          </ul>
+          <div className="space-y-2">
+            <Label htmlFor={`reverse-reason-${entry.id}`}>Reason</Label>
+            <Textarea id={`reverse-reason-${entry.id}`} name="reason" placeholder="e.g. Wrong quantity entered" required />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id={`reverse-correct-${entry.id}`} checked={correct} onCheckedChange={(c) => setCorrect(c === true)} />
+            <Label htmlFor={`reverse-correct-${entry.id}`}>
+              Book the corrected quantities{entry.challanNo ? " on a new challan" : ""}
+            </Label>
+          </div>
+          {correct && (
+            <div className="space-y-3">
+              {entry.materials.map((line, i) => (
+                <div key={`${line.materialId}-${i}`} className="space-y-2">
+                  <Label htmlFor={`reverse-qty-${entry.id}-${i}`}>{line.materialName}{line.unit ? ` (${line.unit})` : ""}</Label>
+                  <Input
+                    id={`reverse-qty-${entry.id}-${i}`}
+                    inputMode="numeric"
+                    value={lines[i].quantity}
+                    onChange={(e) => setLine(i, "quantity", e.target.value.replace(/[^0-9]/g, ""))}
+                  />
+                  {line.serialNumbers && (
+                    <Textarea
+                      aria-label={`Serial numbers of ${line.materialName}`}
+                      value={lines[i].serialNumbers}
+                      onChange={(e) => setLine(i, "serialNumbers", e.target.value)}
+                    />
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Leave 0 to drop a line. Serialized materials need one serial number per unit.</p>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton correct={correct} />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { FilePlus2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createInvoiceAction } from "@/app/invoice-actions";
+import { GST_STATES, stateCodeFromGstin } from "@/lib/gst";
+import type { Client, CompanyProfile, Invoice } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? "Issuing..." : "Issue Invoice"}
+    </Button>
+  );
+}
+
+const initialState = {
+  success: false,
+  message: null as string | null,
+  submissionId: 0,
+  invoice: null as Invoice | null,
+};
+
+type Props = {
+  client: Client;
+  company: CompanyProfile | null;
+  onCreated: (invoice: Invoice) => void;
+};
+
+// Issues a tax invoice for the client's current costing. The place of supply decides
+// whether the tax is split into CGST + SGST or charged as IGST.
+export function CreateInvoiceDialog({ client, company, onCreated }: Props) {
+  const [open, setOpen] = useState(false);
+  const [gstin, setGstin] = useState(client.gstin ?? "");
+  const [placeOfSupply, setPlaceOfSupply] = useState(
+    client.stateCode || stateCodeFromGstin(client.gstin) || company?.stateCode || ""
+  );
+  const [state, formAction] = useActionState(createInvoiceAction, initialState);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success && state.invoice) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+      onCreated(state.invoice);
+    } else if (!state.success) {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const onGstinChange = (value: string) => {
+    const next = value.toUpperCase();
+    setGstin(next);
+    const code = stateCodeFromGstin(next);
+    if (code) setPlaceOfSupply(code);
+  };
+
+  const interState = !!company && !!placeOfSupply && placeOfSupply !== company.stateCode;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <FilePlus2 className="w-4 h-4 mr-2" />
+          New Invoice
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">New Tax Invoice</DialogTitle>
+          <DialogDescription>
+            Invoices every item on {client.name}&apos;s costing at the current rates. An issued invoice cannot be edited, only voided with a credit note.
+          </DialogDescription>
+        </DialogHeader>
+        {!company ? (
+          <p className="text-sm text-destructive">
+            Add the company name, GSTIN and state under Company Details in Admin before issuing invoices.
+          </p>
+        ) : (
+          <form action={formAction} className="space-y-4">
+            <input type="hidden" name="clientId" value={client.id} />
+            <input type="hidden" name="placeOfSupply" value={placeOfSupply} />
+            <div className="space-y-2">
+              <Label htmlFor="buyerGstin">Buyer GSTIN</Label>
+              <Input
+                id="buyerGstin"
+                name="buyerGstin"
+                placeholder="Leave empty for an unregistered buyer"
+                maxLength={15}
+                value={gstin}
+                onChange={(e) => onGstinChange(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Place of Supply</Label>
+              <Select value={placeOfSupply} onValueChange={setPlaceOfSupply}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {GST_STATES.map(s => (
+                    <SelectItem key={s.code} value={s.code}>{s.code} - {s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {placeOfSupply && (
+                <p className="text-xs text-muted-foreground">
+                  {interState ? "Inter-state supply: IGST will be charged." : "Intra-state supply: tax is split into CGST and SGST."}
+                </p>
+              )}
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton disabled={!placeOfSupply} />
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileDown, Receipt } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOwner } from "@/hooks/use-owner";
+import { downloadInvoicePdf } from "@/lib/invoice-pdf";
+import { CreateInvoiceDialog } from "@/components/invoices/CreateInvoiceDialog";
+import { VoidInvoiceDialog } from "@/components/invoices/VoidInvoiceDialog";
+import type { Client, CompanyProfile, Invoice } from "@/lib/types";
+
+// Tax invoices and credit notes issued to a client. Anyone can download them; owners
+// can issue new invoices and void issued ones.
+export function InvoiceList({ client, company }: { client: Client; company: CompanyProfile | null }) {
+  const isOwner = useOwner();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInvoices = async () => {
+    try {
+      const res = await fetch(`/api/clients/${client.id}/invoices`);
+      if (res.ok) {
+        const data = await res.json();
+        setInvoices(Array.isArray(data.invoices) ? data.invoices : []);
+      }
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [client.id]);
+
+  const onIssued = (invoice: Invoice) => {
+    downloadInvoicePdf(invoice);
+    fetchInvoices();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Receipt className="w-5 h-5" />
+          <CardTitle className="font-headline">Tax Invoices</CardTitle>
+        </div>
+        {isOwner && <CreateInvoiceDialog client={client} company={company} onCreated={onIssued} />}
+      </CardHeader>
+      <CardContent>
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Number</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Taxable</TableHead>
+                <TableHead className="text-right">Tax</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : invoices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">No invoices issued to this client yet.</TableCell>
+                </TableRow>
+              ) : (
+                invoices.map(inv => {
+                  const tax = inv.totals.cgst + inv.totals.sgst + inv.totals.igst;
+                  return (
+                    <TableRow key={inv.id}>
+                      <TableCell className="font-medium">
+                        {inv.number}
+                        {inv.againstInvoiceNo && (
+                          <p className="text-xs text-muted-foreground">Against {inv.againstInvoiceNo}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{new Date(inv.date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {inv.kind === "credit_note" ? "Credit Note" : "Invoice"}
+                        <p className="text-xs text-muted-foreground">{inv.interState ? "IGST" : "CGST + SGST"}</p>
+                      </TableCell>
+                      <TableCell className="text-right">{inv.totals.taxable.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{tax.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-semibold">{inv.totals.grand.toFixed(2)}</TableCell>
+                      <TableCell>
+                        {inv.status === "voided" ? (
+                          <Badge variant="destructive" title={inv.voidReason}>Voided by {inv.creditNoteNo}</Badge>
+                        ) : (
+                          <Badge variant="secondary">Issued</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => downloadInvoicePdf(inv)}>
+                          <FileDown className="w-4 h-4" />
+                          <span className="sr-only">Download PDF</span>
+                        </Button>
+                        {isOwner && inv.kind === "invoice" && inv.status === "issued" && (
+                          <VoidInvoiceDialog invoice={inv} onVoided={() => fetchInvoices()} />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
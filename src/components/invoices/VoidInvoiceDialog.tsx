@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { voidInvoiceAction } from "@/app/invoice-actions";
+import type { Invoice } from "@/lib/types";
+
+// Voids an issued invoice. The server issues a credit note for the full amount; the
+// invoice itself stays on record marked as voided.
+export function VoidInvoiceDialog({ invoice, onVoided }: { invoice: Invoice; onVoided: (creditNote: Invoice) => void }) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const submit = async () => {
+    setSaving(true);
+    const result = await voidInvoiceAction(invoice.id, reason);
+    setSaving(false);
+    if (result.success && result.creditNote) {
+      toast({ title: "Success", description: result.message });
+      setOpen(false);
+      setReason("");
+      onVoided(result.creditNote);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" onClick={() => setOpen(true)}>
+        <Ban className="w-4 h-4" />
+        <span className="sr-only">Void invoice</span>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="font-headline">Void {invoice.number}</DialogTitle>
+            <DialogDescription>
+              A credit note for {invoice.totals.grand.toFixed(2)} will be issued against this invoice. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`void-reason-${invoice.id}`}>Reason</Label>
+            <Textarea
+              id={`void-reason-${invoice.id}`}
+              placeholder="e.g. Wrong buyer GSTIN"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={submit} disabled={saving || !reason.trim()}>
+              {saving ? "Voiding..." : "Void and Issue Credit Note"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -14,30 +14,45 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar";
 // Import icons that will be used in the sidebar navigation.
-import { LayoutDashboard, Package, Users, ShoppingCart } from "lucide-react";
+import { LayoutDashboard, Package, Users, ShoppingCart, UserCog, LogOut, Barcode, ClipboardList, Factory, ListChecks, CalendarClock, Warehouse, ClipboardCheck, Coins } from "lucide-react";
 // Import Next.js's hook for accessing the current URL's pathname.
 import { usePathname } from "next/navigation";
 // Import the Next.js Image component for optimized image handling.
 import Image from "next/image";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/hooks/use-session";
+import { logoutAction } from "@/app/auth-actions";
+import { LiveIndicator } from "@/components/layout/LiveIndicator";
 
 // This is the main layout component for the application. It wraps around the page content
 // and provides the consistent sidebar and header structure.
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   // Get the current path from the URL (e.g., "/dashboard", "/stock").
   const pathname = usePathname();
+  // The signed-in user, used for the header and owner-only navigation.
+  const { user } = useSession();
 
   // Determine if the full app layout (with sidebar and header) should be shown.
-  // For this app, we only want to hide it on the root landing page ('/').
-  const showAppLayout = pathname !== "/";
+  // It is hidden on the root landing page ('/') and on the login page.
+  const showAppLayout = pathname !== "/" && pathname !== "/login";
 
   // Derive a human-friendly current page label for the header.
   const currentPageLabel = (() => {
     if (!pathname) return "";
     if (pathname === "/dashboard") return "Dashboard";
+    if (pathname.startsWith("/stock-counts")) return "Stock Counts";
     if (pathname.startsWith("/stock")) return "Stock";
     if (pathname.startsWith("/client-material")) return "Client Material";
     if (pathname === "/needs-to-buy") return "Needs to Buy";
+    if (pathname === "/users") return "Users";
+    if (pathname === "/serials") return "Serial Lookup";
+    if (pathname.startsWith("/purchase-orders")) return "Purchase Orders";
+    if (pathname === "/suppliers") return "Suppliers";
+    if (pathname === "/bom-templates") return "BOM Templates";
+    if (pathname === "/reservations") return "Reservations";
+    if (pathname === "/locations") return "Locations";
+    if (pathname === "/valuation") return "Valuation";
     // Fallback to the first path segment capitalized
     const seg = pathname.split("/").filter(Boolean)[0] || "";
     return seg ? seg.replace(/-/g, " ").replace(/\b\w/g, c => c.toUpperCase()) : "";
@@ -83,7 +98,7 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
             <SidebarMenuItem>
               <SidebarMenuButton
                 asChild
-                isActive={pathname.startsWith("/stock")}
+                isActive={pathname.startsWith("/stock") && !pathname.startsWith("/stock-counts")}
                 className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
               >
                 <a href="/stock">
@@ -116,6 +131,120 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
                 </a>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname.startsWith("/purchase-orders")}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/purchase-orders">
+                  <ClipboardList />
+                  <span>Purchase Orders</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname === "/suppliers"}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/suppliers">
+                  <Factory />
+                  <span>Suppliers</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname === "/bom-templates"}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/bom-templates">
+                  <ListChecks />
+                  <span>BOM Templates</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname === "/reservations"}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/reservations">
+                  <CalendarClock />
+                  <span>Reservations</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname === "/locations"}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/locations">
+                  <Warehouse />
+                  <span>Locations</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname.startsWith("/stock-counts")}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/stock-counts">
+                  <ClipboardCheck />
+                  <span>Stock Counts</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                asChild
+                isActive={pathname === "/serials"}
+                className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+              >
+                <a href="/serials">
+                  <Barcode />
+                  <span>Serial Lookup</span>
+                </a>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            {/* Stock at cost is owner-only, like the cost figures elsewhere. */}
+            {user?.role === "owner" && (
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  asChild
+                  isActive={pathname === "/valuation"}
+                  className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+                >
+                  <a href="/valuation">
+                    <Coins />
+                    <span>Valuation</span>
+                  </a>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            )}
+            {/* User management is only offered to owners; the page itself is guarded on the server. */}
+            {user?.role === "owner" && (
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  asChild
+                  isActive={pathname === "/users"}
+                  className="data-[active=true]:bg-primary data-[active=true]:text-primary-foreground data-[active=true]:shadow data-[active=true]:border data-[active=true]:border-primary"
+                >
+                  <a href="/users">
+                    <UserCog />
+                    <span>Users</span>
+                  </a>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            )}
           </SidebarMenu>
         </SidebarContent>
       </Sidebar>
@@ -136,12 +265,30 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
               </h1>
             </div>
           </div>
-          {/* Explicit current page indicator */}
-          {currentPageLabel ? (
-            <Badge variant="secondary" className="whitespace-nowrap">
-              {currentPageLabel}
-            </Badge>
-          ) : null}
+          <div className="flex items-center gap-2">
+            {/* Explicit current page indicator */}
+            {currentPageLabel ? (
+              <Badge variant="secondary" className="whitespace-nowrap">
+                {currentPageLabel}
+              </Badge>
+            ) : null}
+            {/* Signed-in user and their role, with a sign-out button. */}
+            {user && (
+              <>
+                {/* Whether lists are updating live or falling back to polling. */}
+                <LiveIndicator />
+                <span className="hidden md:inline text-sm text-muted-foreground whitespace-nowrap">
+                  {user.name} · <span className="capitalize">{user.role}</span>
+                </span>
+                <form action={logoutAction}>
+                  <Button type="submit" variant="ghost" size="icon" title="Sign out">
+                    <LogOut className="w-4 h-4" />
+                    <span className="sr-only">Sign out</span>
+                  </Button>
+                </form>
+              </>
+            )}
+          </div>
         </header>
         {/* The actual page content ('children') is rendered here. */}
         {children}
@@ -0,0 +1,34 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { pageCount, type Page } from "@/lib/paging";
+
+// Previous/next controls under a paged list, with where the list is at.
+export function ListPager({ page, onPageChange, noun = "items" }: {
+  page: Pick<Page<unknown>, "total" | "page" | "pageSize"> | null;
+  onPageChange: (page: number) => void;
+  noun?: string;
+}) {
+  if (!page || page.total <= page.pageSize) return null;
+  const pages = pageCount(page);
+  const first = (page.page - 1) * page.pageSize + 1;
+  const last = Math.min(page.total, page.page * page.pageSize);
+
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+      <span>{first}–{last} of {page.total} {noun}</span>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page.page - 1)} disabled={page.page <= 1}>
+          <ChevronLeft className="w-4 h-4" />
+          <span className="sr-only">Previous page</span>
+        </Button>
+        <span>Page {page.page} of {pages}</span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page.page + 1)} disabled={page.page >= pages}>
+          <ChevronRight className="w-4 h-4" />
+          <span className="sr-only">Next page</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useLiveStatus } from "@/hooks/use-live";
+import { cn } from "@/lib/utils";
+
+const LABELS = {
+  connecting: "Connecting…",
+  live: "Live",
+  offline: "Offline · polling",
+} as const;
+
+// Shows whether lists update live or, with the connection down, by polling.
+export function LiveIndicator() {
+  const status = useLiveStatus();
+  return (
+    <span
+      className="flex items-center gap-1.5 text-xs text-muted-foreground whitespace-nowrap"
+      title={status === "live" ? "Changes appear as they happen" : "Lists refresh every few seconds until live updates are back"}
+    >
+      <span
+        className={cn(
+          "h-2 w-2 rounded-full",
+          status === "live" ? "bg-green-500" : status === "offline" ? "bg-amber-500" : "bg-muted-foreground/40 animate-pulse",
+        )}
+      />
+      <span className={cn(status === "live" && "hidden sm:inline")}>{LABELS[status]}</span>
+    </span>
+  );
+}
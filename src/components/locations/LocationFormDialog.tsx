@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveLocationAction } from "@/app/location-actions";
+import type { LocationKind, StockLocation } from "@/lib/types";
+
+export const LOCATION_KINDS: Record<LocationKind, string> = {
+  warehouse: "Warehouse",
+  van: "Van",
+  site: "Site Store",
+};
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Saving..." : "Save Location"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+// Adds a stock location, or edits 'location'.
+export function LocationFormDialog({ location, trigger }: { location?: StockLocation; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<LocationKind>(location?.kind ?? "warehouse");
+  const [state, formAction] = useActionState(saveLocationAction, initialState);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">{location ? `Edit ${location.name}` : "Add Location"}</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          {location && <input type="hidden" name="locationId" value={location.id} />}
+          <input type="hidden" name="kind" value={kind} />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Name</Label>
+              <Input id="location-name" name="name" defaultValue={location?.name} placeholder="e.g., Van 1, Pune Godown" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-kind">Type</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as LocationKind)}>
+                <SelectTrigger id="location-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LOCATION_KINDS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="location-address">Address</Label>
+            <Textarea id="location-address" name="address" defaultValue={location?.address} placeholder="Optional" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
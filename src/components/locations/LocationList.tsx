@@ -0,0 +1,128 @@
+"use client";
+
+import { ArrowLeftRight, Pencil, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMaterials } from "@/hooks/use-materials";
+import { useOwner } from "@/hooks/use-owner";
+import { useHasRole } from "@/hooks/use-session";
+import { LocationFormDialog, LOCATION_KINDS } from "@/components/locations/LocationFormDialog";
+import { StockTransferDialog } from "@/components/locations/StockTransferDialog";
+import { stockAt } from "@/lib/location-stock";
+import { formatQty } from "@/lib/units";
+import type { StockLocation, StockTransfer } from "@/lib/types";
+
+// Stock locations with how many materials each one holds, and the latest transfers.
+export function LocationList({ locations, transfers }: { locations: StockLocation[]; transfers: StockTransfer[] }) {
+  const { materials } = useMaterials();
+  const isOwner = useOwner();
+  const canTransfer = useHasRole("storekeeper");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="font-headline">Locations</CardTitle>
+            <CardDescription>Stock received or filled goes to the default location. Transfer it to vans or site stores from here.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {canTransfer && locations.length > 1 && (
+              <StockTransferDialog
+                locations={locations}
+                trigger={
+                  <Button variant="outline" size="sm">
+                    <ArrowLeftRight className="w-4 h-4 mr-2" />
+                    Transfer Stock
+                  </Button>
+                }
+              />
+            )}
+            {isOwner && (
+              <LocationFormDialog
+                trigger={
+                  <Button size="sm">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Location
+                  </Button>
+                }
+              />
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {locations.map(location => {
+              const stocked = materials.filter(m => stockAt(m, location) > 0).length;
+              return (
+                <div key={location.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-semibold break-words">{location.name}</p>
+                      <p className="text-sm text-muted-foreground">{LOCATION_KINDS[location.kind] ?? location.kind}</p>
+                    </div>
+                    {location.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  {location.address && <p className="text-sm text-muted-foreground break-words">{location.address}</p>}
+                  <p className="text-xs text-muted-foreground">{stocked} material(s) in stock</p>
+                  {isOwner && (
+                    <LocationFormDialog
+                      location={location}
+                      trigger={
+                        <Button variant="ghost" size="sm">
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </Button>
+                      }
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Recent Transfers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {transfers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transfers yet.</p>
+          ) : (
+            <div className="w-full overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transfer</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>From → To</TableHead>
+                    <TableHead className="min-w-[200px]">Materials</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map(transfer => (
+                    <TableRow key={transfer.id}>
+                      <TableCell className="font-medium whitespace-nowrap">{transfer.transferNo}</TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(transfer.date).toLocaleDateString()}</TableCell>
+                      <TableCell className="whitespace-nowrap">{transfer.fromLocationName} → {transfer.toLocationName}</TableCell>
+                      <TableCell>
+                        {transfer.lines.map(l => `${l.materialName} ${formatQty(l.quantity, l.unit)}`).join(", ")}
+                        {transfer.note && <p className="text-xs text-muted-foreground">{transfer.note}</p>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{transfer.createdBy ?? "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
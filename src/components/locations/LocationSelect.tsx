@@ -0,0 +1,34 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { StockLocation } from "@/lib/types";
+
+// Radix Select cannot hold an empty value, so "all locations" has its own key.
+const ALL = "__all__";
+
+type Props = {
+  locations: StockLocation[];
+  value: string;                   // Location id; "" for the default location (or all, see allLabel).
+  onChange: (locationId: string) => void;
+  allLabel?: string;               // Offer an "all locations" option that maps to "".
+  id?: string;
+};
+
+// Picks a stock location. Without 'allLabel' an empty value shows the default location.
+export function LocationSelect({ locations, value, onChange, allLabel, id }: Props) {
+  const defaultId = locations.find(l => l.isDefault)?.id ?? "";
+  const selected = value || (allLabel ? ALL : defaultId);
+  return (
+    <Select value={selected} onValueChange={(v) => onChange(v === ALL ? "" : v)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select location" />
+      </SelectTrigger>
+      <SelectContent>
+        {allLabel && <SelectItem value={ALL}>{allLabel}</SelectItem>}
+        {locations.map(l => (
+          <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
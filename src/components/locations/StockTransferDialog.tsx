@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect, useActionState, useMemo } from "react";
+import { useFormStatus } from "react-dom";
+import { ArrowRight, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMaterials } from "@/hooks/use-materials";
+import { useToast } from "@/hooks/use-toast";
+import { transferStockAction } from "@/app/location-actions";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import { stockAt } from "@/lib/location-stock";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import type { StockLocation } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? "Transferring..." : "Transfer Stock"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+type Line = { key: number; materialId: string; quantity: string };
+
+let nextLineKey = 1;
+const emptyLine = (): Line => ({ key: nextLineKey++, materialId: "", quantity: "" });
+
+// Moves materials from one location to another. The total stock does not change.
+export function StockTransferDialog({ locations, trigger }: { locations: StockLocation[]; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [lines, setLines] = useState<Line[]>(() => [emptyLine()]);
+  const [fromId, setFromId] = useState(() => locations.find(l => l.isDefault)?.id ?? "");
+  const [toId, setToId] = useState(() => locations.find(l => !l.isDefault)?.id ?? "");
+  const [state, formAction] = useActionState(transferStockAction, initialState);
+  const { materials } = useMaterials();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+      setLines([emptyLine()]);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const from = locations.find(l => l.id === fromId);
+  const materialsById = useMemo(() => new Map(materials.map(m => [m.id, m])), [materials]);
+  const updateLine = (key: number, patch: Partial<Line>) => {
+    setLines(prev => prev.map(l => (l.key === key ? { ...l, ...patch } : l)));
+  };
+
+  const items = lines
+    .filter(l => l.materialId)
+    .map(l => ({ materialId: l.materialId, quantity: Number(l.quantity) || 0 }));
+  const overStock = items.some(i => {
+    const m = materialsById.get(i.materialId);
+    return m && from ? i.quantity > stockAt(m, from) : false;
+  });
+  // Only materials that are actually at the source location can be moved.
+  const movable = from ? materials.filter(m => stockAt(m, from) > 0) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Transfer Stock</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="fromLocationId" value={fromId} />
+          <input type="hidden" name="toLocationId" value={toId} />
+          <input type="hidden" name="items" value={JSON.stringify(items)} />
+          <div className="grid gap-2 sm:grid-cols-[1fr_auto_1fr] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-from">From</Label>
+              <LocationSelect id="transfer-from" locations={locations} value={fromId} onChange={(v) => { setFromId(v); setLines([emptyLine()]); }} />
+            </div>
+            <ArrowRight className="hidden sm:block w-4 h-4 mb-3 text-muted-foreground" />
+            <div className="space-y-2">
+              <Label htmlFor="transfer-to">To</Label>
+              <LocationSelect id="transfer-to" locations={locations.filter(l => l.id !== fromId)} value={toId} onChange={setToId} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Materials</Label>
+            {lines.map(line => {
+              const material = materialsById.get(line.materialId);
+              const taken = new Set(lines.filter(l => l.key !== line.key).map(l => l.materialId));
+              const atSource = material && from ? stockAt(material, from) : 0;
+              return (
+                <div key={line.key} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Select value={line.materialId} onValueChange={(v) => updateLine(line.key, { materialId: v })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select material" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {movable.filter(m => !taken.has(m.id)).map(m => (
+                          <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      inputMode="numeric"
+                      className="w-24 text-center"
+                      placeholder="Qty"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={lines.length === 1}
+                      onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span className="sr-only">Remove line</span>
+                    </Button>
+                  </div>
+                  {material && from && (
+                    <p className={`text-xs ${(Number(line.quantity) || 0) > atSource ? "text-destructive" : "text-muted-foreground"}`}>
+                      At {from.name}: {formatQty(atSource, baseUnitOf(material))}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-note">Note</Label>
+            <Textarea id="transfer-note" name="note" placeholder="Optional" className="min-h-[40px]" />
+          </div>
+          {overStock && (
+            <p className="text-sm text-destructive">One or more quantities exceed the stock at {from?.name}.</p>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton disabled={!fromId || !toId || fromId === toId || items.length === 0 || items.some(i => i.quantity < 1) || overStock} />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
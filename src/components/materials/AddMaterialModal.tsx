@@ -21,6 +21,8 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { COMMON_UNITS, DEFAULT_UNIT } from "@/lib/units";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 // Import the server action that will handle adding a new material to the database.
 import { addMaterialAction } from "@/app/actions";
@@ -68,6 +70,8 @@ export function AddMaterialModal() {
   const [categoryMode, setCategoryMode] = useState<"existing" | "new">("existing");
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [price, setPrice] = useState<string>("");
+  // Serialized materials (panels, inverters) record one serial number per unit.
+  const [serialized, setSerialized] = useState(false);
 
   // The 'useEffect' hook runs after the component renders and whenever 'state' changes.
   // This is the perfect place to handle the result of the form submission.
@@ -86,6 +90,7 @@ export function AddMaterialModal() {
         formRef.current?.reset();
         // Also reset local states for controlled inputs
         setPrice("");
+        setSerialized(false);
         setSelectedCategory("");
         setCategoryMode("existing");
       } else {
@@ -148,6 +153,20 @@ export function AddMaterialModal() {
             {/* Display validation errors for the 'quantity' field, if any. */}
             {state.errors?.quantity && <p className="text-sm text-destructive">{state.errors.quantity[0]}</p>}
           </div>
+          {/* Unit of measure: stock is counted in the base unit, purchase units convert into it. */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="unit">Base Unit</Label>
+              <Input id="unit" name="unit" list="unit-options" placeholder={DEFAULT_UNIT} maxLength={10} />
+              <datalist id="unit-options">
+                {COMMON_UNITS.map(u => <option key={u} value={u} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchaseUnits">Purchase Units (optional)</Label>
+              <Input id="purchaseUnits" name="purchaseUnits" placeholder="e.g., roll=90, box=100" />
+            </div>
+          </div>
           {/* Category selection or new category creation */}
           <div className="space-y-2">
             <Label htmlFor="category">Category</Label>
@@ -199,6 +218,20 @@ export function AddMaterialModal() {
               placeholder="e.g., 12.50"
             />
           </div>
+          {/* Serial tracking */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox id="serialized" name="serialized" checked={serialized} onCheckedChange={(c) => setSerialized(c === true)} />
+              <Label htmlFor="serialized">Track serial numbers</Label>
+            </div>
+            {serialized && (
+              <Textarea
+                id="serialNumbers"
+                name="serialNumbers"
+                placeholder="One serial number per unit in the quantity above"
+              />
+            )}
+          </div>
           <DialogFooter>
             {/* The 'Cancel' button closes the dialog. */}
             <DialogClose asChild>
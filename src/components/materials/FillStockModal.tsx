@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useActionState, useEffect, useRef } from "react";
+import { Fragment, useState, useActionState, useEffect, useRef } from "react";
 import { useFormStatus } from "react-dom";
 import { Boxes } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -16,9 +16,12 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { fillStockAction } from "@/app/actions";
 import type { Material } from "@/lib/types";
+import { baseUnitOf, formatQty, purchaseUnitsOf, toBaseQty } from "@/lib/units";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table";
 import { Alert, AlertDescription, AlertTitle } from "../ui/alert";
 import { Info } from "lucide-react";
@@ -37,15 +40,16 @@ const initialState = {
   message: null,
 };
 
-type FillStockModalProps = {
-    materials: Material[];
-}
-
-export function FillStockModal({ materials }: FillStockModalProps) {
+// Lists every material, loaded when the dialog opens (the inventory only has one page).
+export function FillStockModal() {
   const [open, setOpen] = useState(false);
+  const [materials, setMaterials] = useState<Material[] | null>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const { toast } = useToast();
   const [state, formAction] = useActionState(fillStockAction, initialState);
+  // Entered quantities and their units, to show what a purchase-unit entry adds in base units.
+  const [entered, setEntered] = useState<Record<string, string>>({});
+  const [units, setUnits] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (state.message) {
@@ -56,6 +60,8 @@ export function FillStockModal({ materials }: FillStockModalProps) {
         });
         setOpen(false);
         formRef.current?.reset();
+        setEntered({});
+        setUnits({});
       } else {
         toast({
           variant: "destructive",
@@ -66,6 +72,23 @@ export function FillStockModal({ materials }: FillStockModalProps) {
     }
   }, [state, toast]);
 
+  useEffect(() => {
+    if (!open) return;
+    const fetchMaterials = async () => {
+      try {
+        const response = await fetch('/api/materials');
+        if (!response.ok) {
+          throw new Error('Failed to fetch materials');
+        }
+        setMaterials(await response.json());
+      } catch (error) {
+        console.error("Error fetching materials:", error);
+        setMaterials([]);
+      }
+    };
+    fetchMaterials();
+  }, [open]);
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -74,14 +97,16 @@ export function FillStockModal({ materials }: FillStockModalProps) {
           Fill Stock
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-lg">
         <DialogHeader>
           <DialogTitle className="font-headline">Fill Stock</DialogTitle>
           <DialogDescription>
-            Add quantities to your existing materials. The amounts entered below will be added to the current stock levels.
+            Add quantities to your existing materials. The amounts entered below will be added to the current stock levels, valued at the purchase cost paid (before GST).
           </DialogDescription>
         </DialogHeader>
-        {materials.length > 0 ? (
+        {materials === null ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">Loading materials...</p>
+        ) : materials.length > 0 ? (
             <form ref={formRef} action={formAction} className="space-y-4">
                 <div className="max-h-[60vh] overflow-y-auto pr-2">
                     <Table>
@@ -89,14 +114,24 @@ export function FillStockModal({ materials }: FillStockModalProps) {
                             <TableRow>
                                 <TableHead>Material</TableHead>
                                 <TableHead className="text-right w-32">Add Quantity</TableHead>
+                                <TableHead className="text-right w-28">Cost / Unit</TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
-                            {materials.map((material) => (
-                                <TableRow key={material.id}>
+                            {materials.map((material) => {
+                                const baseUnit = baseUnitOf(material);
+                                const purchaseUnits = purchaseUnitsOf(material);
+                                const unit = units[material.id] || baseUnit;
+                                const baseQty = toBaseQty(material, Number(entered[material.id]) || 0, unit) ?? 0;
+                                return (
+                                <Fragment key={material.id}>
+                                <TableRow className={material.serialized ? "border-b-0" : undefined}>
                                     <TableCell>
                                         <Label htmlFor={`material-${material.id}`}>{material.name}</Label>
-                                        <p className="text-xs text-muted-foreground">Current: {material.quantity}</p>
+                                        <p className="text-xs text-muted-foreground">Current: {formatQty(material.quantity, baseUnit)}</p>
+                                        {unit !== baseUnit && baseQty > 0 && (
+                                            <p className="text-xs text-muted-foreground">Adds {formatQty(baseQty, baseUnit)}</p>
+                                        )}
                                     </TableCell>
                                     <TableCell>
                                         <Input
@@ -107,10 +142,56 @@ export function FillStockModal({ materials }: FillStockModalProps) {
                                         min="0"
                                         defaultValue="0"
                                         className="text-right"
+                                        onChange={(e) => setEntered(prev => ({ ...prev, [material.id]: e.target.value }))}
+                                        />
+                                        {purchaseUnits.length > 0 ? (
+                                            <Select
+                                                name={`unit-${material.id}`}
+                                                value={unit}
+                                                onValueChange={(value) => setUnits(prev => ({ ...prev, [material.id]: value }))}
+                                            >
+                                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={baseUnit}>{baseUnit}</SelectItem>
+                                                    {purchaseUnits.map(u => (
+                                                        <SelectItem key={u.name} value={u.name}>{u.name} ({u.factor} {baseUnit})</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        ) : (
+                                            <p className="text-xs text-muted-foreground text-right mt-1">{baseUnit}</p>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="align-top">
+                                        <Input
+                                        name={`cost-${material.id}`}
+                                        type="number"
+                                        placeholder="0.00"
+                                        min="0"
+                                        step="0.01"
+                                        aria-label={`Purchase cost per ${unit} of ${material.name}`}
+                                        className="text-right"
                                         />
+                                        <p className="text-xs text-muted-foreground text-right mt-1">per {unit}</p>
                                     </TableCell>
                                 </TableRow>
-                            ))}
+                                {/* Serialized materials need one serial number per unit received. */}
+                                {material.serialized && (
+                                    <TableRow>
+                                        <TableCell colSpan={3} className="pt-0">
+                                            <Textarea
+                                                name={`serials-${material.id}`}
+                                                placeholder={`Serial numbers for ${material.name}, one per ${baseUnit}`}
+                                                className="min-h-[60px] text-sm"
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                </Fragment>
+                                );
+                            })}
                         </TableBody>
                     </Table>
                 </div>
@@ -2,8 +2,10 @@
 "use client";
 
 import { useMemo, useState, useEffect, useRef } from "react";
-import { useMaterials } from "@/hooks/use-materials";
+import { useMaterialPage } from "@/hooks/use-materials";
+import { useLocations } from "@/hooks/use-locations";
 import { useOwner } from "@/hooks/use-owner";
+import { useHasRole } from "@/hooks/use-session";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import type { UserOptions } from "jspdf-autotable";
@@ -21,9 +23,16 @@ import { DeleteMaterialDialog } from "./DeleteMaterialDialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Terminal, Search, FileDown, AlertTriangle } from "lucide-react";
 import { FillStockModal } from "./FillStockModal";
+import { PriceHistoryDialog } from "./PriceHistoryDialog";
 import { Input } from "../ui/input";
 import type { Material } from "@/lib/types";
+import { availableOf, isLowStock as isLowStockFor } from "@/lib/reorder";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import { locationBreakdown, stockAt } from "@/lib/location-stock";
+import { LocationSelect } from "@/components/locations/LocationSelect";
 import { Button } from "../ui/button";
+import { ListPager } from "@/components/layout/ListPager";
+import { listQuery, pageCount } from "@/lib/paging";
 import { setMaterialQuantityAction, setMaterialPricesAction, updateMaterialsPricingAction } from "@/app/actions";
 import { useActionState } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -32,12 +41,35 @@ interface jsPDFWithAutoTable extends jsPDF {
   autoTable: (options: UserOptions) => jsPDF;
 }
 
-const LOW_STOCK_THRESHOLD = 10;
+const PAGE_SIZE = 50;
+
+const groupByCategory = (list: Material[]) =>
+  list.reduce((acc, material) => {
+    const category = material.category || 'Other';
+    if (!acc[category]) {
+      acc[category] = [];
+    }
+    acc[category].push(material);
+    return acc;
+  }, {} as Record<string, Material[]>);
 
 export function MaterialInventory({ showDescription = true }: { showDescription?: boolean }) {
-  const { materials, loading } = useMaterials();
   const isOwner = useOwner();
+  // Storekeepers may receive stock but not edit prices or delete materials.
+  const canMoveStock = useHasRole("storekeeper");
   const [searchTerm, setSearchTerm] = useState("");
+  const { locations } = useLocations();
+  // "" shows all locations; a location id narrows the list to what is stocked there.
+  const [locationFilter, setLocationFilter] = useState("");
+  const [pageNo, setPageNo] = useState(1);
+  // Search, the location filter and paging happen on the server, sorted by category and name.
+  const { materials, page, loading } = useMaterialPage({ q: searchTerm, locationId: locationFilter, page: pageNo, pageSize: PAGE_SIZE });
+  useEffect(() => setPageNo(1), [searchTerm, locationFilter]);
+  useEffect(() => {
+    if (page && page.page > pageCount(page)) setPageNo(pageCount(page));
+  }, [page]);
+  const selectedLocation = locations.find(l => l.id === locationFilter);
+  const multiLocation = locations.length > 1;
   const { toast } = useToast();
   const [setState, setQtyAction] = useActionState(setMaterialQuantityAction as any, { success: false, submissionId: 0, message: null } as any);
   const [lastSetSubmission, setLastSetSubmission] = useState<number>(0);
@@ -61,9 +93,11 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
     }
   }, [setState, lastSetSubmission, toast]);
 
+  // The server totals everything matching at stored prices; unsaved edits on this page
+  // adjust it until they are saved.
   const totalInvested = useMemo(() => {
-    return (materials || []).reduce((sum, m) => {
-      const draft = priceDraft.current[m.id] || {};
+    const valueOf = (m: Material, withDrafts: boolean) => {
+      const draft: { price?: string; gst?: string } = withDrafts ? priceDraft.current[m.id] || {} : {};
       const draftPrice = draft.price !== undefined && draft.price !== "" ? Number(draft.price) : undefined;
       const unitPriceSource = draftPrice !== undefined ? draftPrice : (Number((m as any).price ?? 0) || 0);
       const pp = Number((m as any).pricePerPiece ?? 0) || 0;
@@ -72,12 +106,13 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
       const unitPrice = unitPriceSource > 0 ? unitPriceSource : pp > 0 ? pp : pm > 0 ? pm : r > 0 ? r : 0;
       const gstDraft = draft.gst !== undefined && draft.gst !== "" ? Number(draft.gst) : undefined;
       const gstPercent = (gstDraft !== undefined ? gstDraft : Number((m as any).gstPercent ?? 0)) || 0;
-      const qty = qtyDraft.current[m.id] !== undefined ? Number(qtyDraft.current[m.id] || 0) : Number(m.quantity || 0);
+      const qty = withDrafts && qtyDraft.current[m.id] !== undefined ? Number(qtyDraft.current[m.id] || 0) : Number(m.quantity || 0);
       const base = unitPrice * qty;
       const gst = (base * gstPercent) / 100;
-      return sum + base + gst;
-    }, 0);
-  }, [materials, draftTick]);
+      return base + gst;
+    };
+    return (page?.valueAtPrice ?? 0) + materials.reduce((sum, m) => sum + valueOf(m, true) - valueOf(m, false), 0);
+  }, [materials, page, draftTick]);
 
   const totalGST = useMemo(() => {
     return (materials || []).reduce((sum, m) => sum + (Number((m as any).investedGst ?? 0) || 0), 0);
@@ -93,24 +128,25 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
     }, 700);
   };
 
-  const filteredMaterials = materials.filter(material => 
-    material.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (material.description && material.description.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
 
-  const groupedMaterials = useMemo(() => {
-    return filteredMaterials.reduce((acc, material) => {
-        const category = material.category || 'Other';
-        if (!acc[category]) {
-            acc[category] = [];
-        }
-        acc[category].push(material);
-        return acc;
-    }, {} as Record<string, Material[]>);
-  }, [filteredMaterials]);
+  const breakdownText = (material: Material) =>
+    locationBreakdown(material, locations).map(b => `${b.location.name} ${formatQty(b.quantity, baseUnitOf(material))}`).join(" · ") || "-";
+
+  const groupedMaterials = useMemo(() => groupByCategory(materials), [materials]);
 
 
-  const handleDownloadPdf = () => {
+  // The report covers every matching material, not just the page on screen.
+  const handleDownloadPdf = async () => {
+    let reportMaterials: Record<string, Material[]>;
+    try {
+      const response = await fetch(`/api/materials?${listQuery({ q: searchTerm, locationId: locationFilter })}`);
+      if (!response.ok) throw new Error('Failed to fetch materials');
+      reportMaterials = groupByCategory(await response.json());
+    } catch (error) {
+      console.error("Error fetching materials for the report:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not load the materials for the report." });
+      return;
+    }
     const doc = new jsPDF();
     
     doc.setFontSize(20);
@@ -123,11 +159,17 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
     const categories = ['Fabrication', 'Wiring', 'Other'];
 
     categories.forEach((category, index) => {
-        if (groupedMaterials[category] && groupedMaterials[category].length > 0) {
+        if (reportMaterials[category] && reportMaterials[category].length > 0) {
             
             autoTable(doc, {
-                head: [['Material', 'Description', 'Quantity']],
-                body: groupedMaterials[category].map(m => [m.name, m.description, m.quantity]),
+                head: [['Material', 'Description', selectedLocation ? `At ${selectedLocation.name}` : 'On Hand', 'Available', ...(multiLocation ? ['By Location'] : [])]],
+                body: reportMaterials[category].map(m => [
+                  m.name,
+                  m.description,
+                  formatQty(selectedLocation ? stockAt(m, selectedLocation) : m.quantity, baseUnitOf(m)),
+                  formatQty(availableOf(m), baseUnitOf(m)),
+                  ...(multiLocation ? [breakdownText(m)] : []),
+                ]),
                 startY: finalY === 0 ? 40 : finalY + 15,
                 didDrawPage: (data) => {
                     if (data.pageNumber === 1) {
@@ -169,16 +211,17 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                         <TableRow>
                             <TableHead className="font-headline w-[25%]">Material</TableHead>
                             <TableHead className="font-headline w-[35%]">Description</TableHead>
-                            <TableHead className="text-center font-headline w-[15%]">Quantity</TableHead>
+                            <TableHead className="text-center font-headline w-[15%]">{selectedLocation ? `At ${selectedLocation.name}` : "On Hand"}</TableHead>
+                            {multiLocation && <TableHead className="font-headline w-[15%]">By Location</TableHead>}
                             <TableHead className="text-center font-headline w-[15%]">Price</TableHead>
                             <TableHead className="text-center font-headline w-[7%]">GST %</TableHead>
-                            {isOwner && <TableHead className="text-center font-headline w-[15%]">Invested</TableHead>}
+                            {isOwner && <TableHead className="text-center font-headline w-[15%]">At Current Price</TableHead>}
                             {isOwner && <TableHead className="w-[10%]"><span className="sr-only">Actions</span></TableHead>}
                         </TableRow>
                     </TableHeader>
                     <TableBody>
                         {materialList.map((material) => {
-                            const isLowStock = material.quantity <= LOW_STOCK_THRESHOLD;
+                            const isLowStock = isLowStockFor(material);
                             return (
                             <TableRow key={material.id} className={isLowStock ? "bg-destructive/5" : ""}>
                                 <TableCell className="font-medium break-words">
@@ -189,7 +232,12 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                                 </TableCell>
                                 <TableCell className="text-muted-foreground break-words">{material.description || '-'}</TableCell>
                                 <TableCell className="text-center">
-                                  {isOwner ? (
+                                  {selectedLocation ? (
+                                    <>
+                                      <span className="inline-block w-24 text-center font-semibold">{formatQty(stockAt(material, selectedLocation), baseUnitOf(material))}</span>
+                                      <p className="text-xs text-muted-foreground mt-1">of {formatQty(material.quantity, baseUnitOf(material))} total</p>
+                                    </>
+                                  ) : isOwner ? (
                                     <form action={setQtyAction} className="inline-flex items-center justify-center gap-2">
                                       <input type="hidden" name="materialId" value={material.id} />
                                       <Input
@@ -208,10 +256,22 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                                       />
                                     </form>
                                   ) : (
-                                    <span className={`inline-block w-24 text-center ${isLowStock ? 'text-destructive font-bold' : 'font-semibold'}`}>{material.quantity}</span>
+                                    <span className={`inline-block w-24 text-center ${isLowStock ? 'text-destructive font-bold' : 'font-semibold'}`}>{formatQty(material.quantity, baseUnitOf(material))}</span>
+                                  )}
+                                  {(material.reserved ?? 0) > 0 && (
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                      {material.reserved} reserved · {formatQty(availableOf(material), baseUnitOf(material))} available
+                                    </p>
                                   )}
                                 </TableCell>
-                                <TableCell className="text-center">
+                                {multiLocation && (
+                                  <TableCell className="text-xs text-muted-foreground">
+                                    {locationBreakdown(material, locations).map(b => (
+                                      <div key={b.location.id}>{b.location.name}: <span className="font-medium text-foreground">{formatQty(b.quantity, baseUnitOf(material))}</span></div>
+                                    ))}
+                                  </TableCell>
+                                )}
+                                <TableCell className="text-center whitespace-nowrap">
                                   {isOwner ? (
                                     <form action={priceAction} className="inline-flex items-center justify-center">
                                       <input type="hidden" name="materialId" value={material.id} />
@@ -248,6 +308,7 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                                   ) : (
                                     <span className="inline-block w-28 text-center">{(material as any).price ?? '-'}</span>
                                   )}
+                                  <PriceHistoryDialog material={material} />
                                 </TableCell>
                                 <TableCell className="text-center">
                                   {isOwner ? (
@@ -313,7 +374,7 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
             {/* Mobile Card View */}
             <div className="space-y-3 md:hidden">
                 {materialList.map((material) => {
-                    const isLowStock = material.quantity <= LOW_STOCK_THRESHOLD;
+                    const isLowStock = isLowStockFor(material);
                     return (
                     <div key={material.id} className={`border rounded-lg p-4 ${isLowStock ? 'bg-destructive/5 border-destructive/20' : ''}`}>
                         <div className="flex justify-between items-start mb-3">
@@ -332,7 +393,13 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                         </div>
                         <div className="space-y-2 pt-2 border-t">
                             <div className="flex items-center justify-between">
-                                {isOwner ? (
+                                {selectedLocation ? (
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-sm font-medium">At {selectedLocation.name}:</span>
+                                    <span className="font-bold text-primary">{formatQty(stockAt(material, selectedLocation), baseUnitOf(material))}</span>
+                                    <span className="text-xs text-muted-foreground">of {formatQty(material.quantity, baseUnitOf(material))}</span>
+                                  </div>
+                                ) : isOwner ? (
                                   <form action={setQtyAction} className="flex items-center gap-2">
                                       <input type="hidden" name="materialId" value={material.id} />
                                       <span className="text-sm font-medium">Qty:</span>
@@ -354,10 +421,18 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                                 ) : (
                                   <div className="flex items-center gap-2">
                                     <span className="text-sm font-medium">Qty:</span>
-                                    <span className={`w-24 text-center ${isLowStock ? 'text-destructive font-bold' : 'text-primary font-bold'}`}>{material.quantity}</span>
+                                    <span className={`w-24 text-center ${isLowStock ? 'text-destructive font-bold' : 'text-primary font-bold'}`}>{formatQty(material.quantity, baseUnitOf(material))}</span>
                                   </div>
                                 )}
+                                {(material.reserved ?? 0) > 0 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    {material.reserved} reserved · {formatQty(availableOf(material), baseUnitOf(material))} available
+                                  </span>
+                                )}
                             </div>
+                            {multiLocation && (
+                              <p className="text-xs text-muted-foreground">{breakdownText(material)}</p>
+                            )}
                             <div className="grid grid-cols-2 gap-2">
                               {isOwner ? (
                                 <form action={priceAction} className="flex items-center gap-2">
@@ -398,6 +473,7 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                                   <span className="text-center">{(material as any).price ?? '-'}</span>
                                 </div>
                               )}
+                              <PriceHistoryDialog material={material} />
                             </div>
                             <div className="grid grid-cols-2 gap-2">
                               {isOwner ? (
@@ -436,7 +512,7 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                             {isOwner && (
                               <div className="grid grid-cols-1 gap-2">
                                 <div className="flex items-center gap-2">
-                                  <span className="text-sm">Invested</span>
+                                  <span className="text-sm">At Current Price</span>
                                   <span className="text-center">
                                     {(() => {
                                       const draft = priceDraft.current[material.id] || {};
@@ -469,36 +545,48 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
   return (
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
-        <div className="relative w-full sm:max-w-xs">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input 
-                placeholder="Search materials..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-            />
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <div className="relative w-full sm:w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input 
+                  placeholder="Search materials..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+              />
+          </div>
+          {multiLocation && (
+            <div className="w-full sm:w-48">
+              <LocationSelect locations={locations} value={locationFilter} onChange={setLocationFilter} allLabel="All locations" />
+            </div>
+          )}
         </div>
-        {isOwner && (
+        {canMoveStock && (
           <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
-            <Button variant="outline" onClick={handleDownloadPdf} className="w-full sm:w-auto">
-              <FileDown className="w-4 h-4 mr-2" />
-              Download PDF
-            </Button>
-            <FillStockModal materials={materials} />
-            <AddMaterialModal />
+            {isOwner && (
+              <Button variant="outline" onClick={handleDownloadPdf} className="w-full sm:w-auto">
+                <FileDown className="w-4 h-4 mr-2" />
+                Download PDF
+              </Button>
+            )}
+            <FillStockModal />
+            {isOwner && <AddMaterialModal />}
           </div>
         )}
       </div>
       {isOwner && (
         <div className="grid grid-cols-1 gap-2 text-sm border rounded-lg p-3 bg-muted/30">
           <div className="flex items-center justify-between sm:justify-start sm:gap-2">
-            <span className="font-medium">Total Invested</span>
+            <span className="font-medium">Total at Current Price (incl. GST)</span>
             <span className="font-mono">{totalInvested.toFixed(2)}</span>
           </div>
+          <a href="/valuation" className="text-xs text-muted-foreground hover:underline">
+            Stock at purchase cost: see Valuation
+          </a>
         </div>
       )}
       
-      {loading ? (
+      {loading && !page ? (
          <div className="space-y-4">
             <Skeleton className="h-10 w-1/4" />
             <div className="border rounded-lg p-4">
@@ -510,7 +598,7 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                 ))}
             </div>
         </div>
-      ) : filteredMaterials.length > 0 ? (
+      ) : materials.length > 0 ? (
           <div>
             {['Fabrication', 'Wiring', 'Other'].map(category => {
                 const categoryMaterials = groupedMaterials[category];
@@ -519,10 +607,11 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                 }
                 return null;
             })}
+            <ListPager page={page} onPageChange={setPageNo} noun="materials" />
             {isOwner && (
               <div className="mt-4 grid grid-cols-1 gap-2 text-sm border rounded-lg p-3 bg-muted/30">
                 <div className="flex items-center justify-between sm:justify-start sm:gap-2">
-                  <span className="font-medium">Total Invested</span>
+                  <span className="font-medium">Total at Current Price (incl. GST)</span>
                   <span className="font-mono">{totalInvested.toFixed(2)}</span>
                 </div>
               </div>
@@ -542,7 +631,9 @@ export function MaterialInventory({ showDescription = true }: { showDescription?
                 <TableBody>
                     <TableRow>
                         <TableCell colSpan={isOwner ? 4 : 3} className="h-24 text-center text-muted-foreground">
-                            {searchTerm ? "No materials match your search." : "No materials found. Add one to get started!"}
+                            {selectedLocation && !searchTerm
+                              ? `Nothing in stock at ${selectedLocation.name}.`
+                              : searchTerm ? "No materials match your search." : "No materials found. Add one to get started!"}
                         </TableCell>
                     </TableRow>
                 </TableBody>
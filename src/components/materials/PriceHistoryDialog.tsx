@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { isHistoryStart, priceOn, unitPriceOf } from "@/lib/price-history";
+import type { Material, MaterialPrice } from "@/lib/types";
+
+// YYYY-MM-DD in local time, as date inputs use.
+const dayString = (date: Date | string) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+const today = () => dayString(new Date());
+
+const changeText = (from: number, to: number) => {
+  if (from === to) return "-";
+  if (from === 0) return "new";
+  const pct = ((to - from) / from) * 100;
+  return `${pct > 0 ? "+" : ""}${pct.toFixed(1)}%`;
+};
+
+// Past prices of a material, newest first, and the price in effect on any two dates
+// side by side. Dispatches are billed at the price in effect on their date.
+export function PriceHistoryDialog({ material }: { material: Material }) {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<MaterialPrice[] | null>(null);
+  const [compareFrom, setCompareFrom] = useState("");
+  const [compareTo, setCompareTo] = useState(today);
+
+  useEffect(() => {
+    if (!open) return;
+    setHistory(null);
+    fetch(`/api/materials/${material.id}/prices`)
+      .then(res => (res.ok ? res.json() : { history: [] }))
+      .then(data => {
+        const entries: MaterialPrice[] = Array.isArray(data.history) ? data.history : [];
+        setHistory(entries);
+        const previous = entries[entries.length - 2];
+        setCompareFrom(previous && !isHistoryStart(previous) ? dayString(previous.effectiveFrom) : "");
+      })
+      .catch(() => setHistory([]));
+  }, [open, material.id]);
+
+  const current = { price: unitPriceOf(material), gstPercent: Number(material.gstPercent) || 0 };
+  const on = (day: string) => (day ? priceOn(history ?? [], `${day}T23:59:59`) ?? current : null);
+  const a = on(compareFrom);
+  const b = on(compareTo);
+  const newestFirst = [...(history ?? [])].reverse();
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8">
+          <History className="w-4 h-4" />
+          <span className="sr-only">Price history of {material.name}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Price History: {material.name}</DialogTitle>
+          <DialogDescription>
+            Client costing bills each dispatch at the price in effect on its date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3 sm:items-end border rounded-lg p-3 bg-muted/30">
+          <div className="space-y-2">
+            <Label htmlFor="price-compare-from">Price on</Label>
+            <Input id="price-compare-from" type="date" max={today()} value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-compare-to">Compared with</Label>
+            <Input id="price-compare-to" type="date" max={today()} value={compareTo} onChange={(e) => setCompareTo(e.target.value)} />
+          </div>
+          <div className="text-sm">
+            {a && b ? (
+              <>
+                <p>{a.price.toFixed(2)} → {b.price.toFixed(2)} <span className="text-muted-foreground">({changeText(a.price, b.price)})</span></p>
+                <p className="text-muted-foreground">GST {a.gstPercent}% → {b.gstPercent}%</p>
+              </>
+            ) : (
+              <p className="text-muted-foreground">Pick two dates to compare.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="w-full overflow-x-auto border rounded-lg max-h-[50vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Effective From</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-center">GST %</TableHead>
+                <TableHead className="text-center">Change</TableHead>
+                <TableHead>Changed By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history === null ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : newestFirst.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    The price has not changed since history was kept. Current price: {current.price.toFixed(2)}, GST {current.gstPercent}%.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                newestFirst.map((entry, idx) => {
+                  const previous = newestFirst[idx + 1];
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {isHistoryStart(entry) ? "Before history" : new Date(entry.effectiveFrom).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.price.toFixed(2)}</TableCell>
+                      <TableCell className="text-center">{entry.gstPercent}</TableCell>
+                      <TableCell className="text-center">{previous ? changeText(previous.price, entry.price) : "-"}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {isHistoryStart(entry) ? "-" : `${entry.changedBy ?? "-"} · ${new Date(entry.changedAt).toLocaleDateString()}`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
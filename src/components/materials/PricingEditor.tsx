@@ -4,20 +4,37 @@ import React, { useState, useEffect } from "react";
 import { useMaterials } from "@/hooks/use-materials";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { SerializedToggle } from "@/components/materials/SerializedToggle";
+import { PriceHistoryDialog } from "@/components/materials/PriceHistoryDialog";
+import { DEFAULT_REORDER_POINT } from "@/lib/reorder";
+import { DEFAULT_UNIT, formatPurchaseUnits } from "@/lib/units";
 
 type PricingData = {
   gstPercent: number;
   price: number;
   quantity: number;
+  hsnCode: string;
+  unit: string;
+  purchaseUnits: string; // "roll=90, box=100"
+  // Stock levels are kept as text so an empty box can clear the level.
+  minLevel: string;
+  reorderPoint: string;
+  reorderQty: string;
 };
 
+const LEVEL_FIELDS = ['minLevel', 'reorderPoint', 'reorderQty'] as const;
+const levelText = (value: number | undefined) => (value === undefined || value === null ? "" : String(value));
+
 export function PricingEditor() {
   const { materials } = useMaterials();
   const [pricing, setPricing] = useState<Record<string, PricingData>>({});
   const [saving, setSaving] = useState(false);
+  // Price and GST changes apply from this day; empty means today.
+  const [effectiveFrom, setEffectiveFrom] = useState("");
   const { toast } = useToast();
 
   // Initialize pricing state from materials without overwriting user edits
@@ -31,6 +48,12 @@ export function PricingEditor() {
             gstPercent: m.gstPercent ?? 0,
             price,
             quantity: m.quantity ?? 0,
+            hsnCode: m.hsnCode ?? "",
+            unit: m.unit ?? "",
+            purchaseUnits: formatPurchaseUnits(m.purchaseUnits),
+            minLevel: levelText(m.minLevel),
+            reorderPoint: levelText(m.reorderPoint),
+            reorderQty: levelText(m.reorderQty),
           };
         }
       }
@@ -38,7 +61,7 @@ export function PricingEditor() {
     });
   }, [materials]);
 
-  const updatePricing = (materialId: string, field: keyof PricingData, value: number) => {
+  const updatePricing = (materialId: string, field: keyof PricingData, value: number | string) => {
     setPricing(prev => ({
       ...prev,
       [materialId]: {
@@ -52,6 +75,7 @@ export function PricingEditor() {
     setSaving(true);
     try {
       const formData = new FormData();
+      if (effectiveFrom) formData.append('effectiveFrom', effectiveFrom);
       
       Object.entries(pricing).forEach(([id, data]) => {
         const mat = materials.find(m => m.id === id);
@@ -63,6 +87,22 @@ export function PricingEditor() {
         if (data.price !== currentPrice) {
           formData.append(`pricing[${id}][price]`, String(data.price));
         }
+        if (data.hsnCode !== (mat?.hsnCode ?? "")) {
+          formData.append(`pricing[${id}][hsnCode]`, data.hsnCode);
+        }
+        // Purchase units are checked against the base unit, so it is sent along with them.
+        const purchaseUnitsChanged = data.purchaseUnits.trim() !== formatPurchaseUnits(mat?.purchaseUnits);
+        if (data.unit !== (mat?.unit ?? "") || purchaseUnitsChanged) {
+          formData.append(`pricing[${id}][unit]`, data.unit);
+        }
+        if (purchaseUnitsChanged) {
+          formData.append(`pricing[${id}][purchaseUnits]`, data.purchaseUnits.trim());
+        }
+        for (const field of LEVEL_FIELDS) {
+          if (data[field].trim() !== levelText(mat?.[field])) {
+            formData.append(`pricing[${id}][${field}]`, data[field].trim());
+          }
+        }
         if (mat && data.quantity !== mat.quantity) {
           formData.append(`pricing[${id}][quantity]`, String(data.quantity));
         }
@@ -113,19 +153,31 @@ export function PricingEditor() {
                   <TableHead className="text-center">Quantity</TableHead>
                   <TableHead className="text-center">GST %</TableHead>
                   <TableHead className="text-center">Price</TableHead>
+                  <TableHead className="text-center">HSN/SAC</TableHead>
+                  <TableHead className="text-center">Base Unit</TableHead>
+                  <TableHead className="text-center">Purchase Units</TableHead>
+                  <TableHead className="text-center">Min Level</TableHead>
+                  <TableHead className="text-center">Reorder Point</TableHead>
+                  <TableHead className="text-center">Reorder Qty</TableHead>
+                  <TableHead className="text-center">Serialized</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {materials.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center text-muted-foreground">No materials found.</TableCell>
+                    <TableCell colSpan={11} className="text-center text-muted-foreground">No materials found.</TableCell>
                   </TableRow>
                 ) : (
                   materials.map(m => {
-                    const data = pricing[m.id] || { quantity: 0, gstPercent: 0, price: 0 };
+                    const data = pricing[m.id] || { quantity: 0, gstPercent: 0, price: 0, hsnCode: "", unit: "", purchaseUnits: "", minLevel: "", reorderPoint: "", reorderQty: "" };
                     return (
                       <TableRow key={m.id}>
-                        <TableCell className="font-medium">{m.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-1">
+                            <span>{m.name}</span>
+                            <PriceHistoryDialog material={m} />
+                          </div>
+                        </TableCell>
                         <TableCell className="text-center">
                           <Input
                             type="number"
@@ -159,6 +211,49 @@ export function PricingEditor() {
                             className="w-32 mx-auto text-center"
                           />
                         </TableCell>
+                        <TableCell className="text-center">
+                          <Input
+                            value={data.hsnCode}
+                            onChange={(e) => updatePricing(m.id, 'hsnCode', e.target.value.replace(/[^0-9]/g, ''))}
+                            maxLength={8}
+                            inputMode="numeric"
+                            className="w-28 mx-auto text-center"
+                          />
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <Input
+                            value={data.unit}
+                            onChange={(e) => updatePricing(m.id, 'unit', e.target.value)}
+                            placeholder={DEFAULT_UNIT}
+                            maxLength={10}
+                            className="w-20 mx-auto text-center"
+                          />
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <Input
+                            value={data.purchaseUnits}
+                            onChange={(e) => updatePricing(m.id, 'purchaseUnits', e.target.value)}
+                            placeholder="roll=90"
+                            className="w-36 mx-auto text-center"
+                          />
+                        </TableCell>
+                        {LEVEL_FIELDS.map(field => (
+                          <TableCell key={field} className="text-center">
+                            <Input
+                              type="number"
+                              value={data[field]}
+                              onChange={(e) => updatePricing(m.id, field, e.target.value)}
+                              placeholder={field === 'reorderPoint' ? String(DEFAULT_REORDER_POINT) : "-"}
+                              min={0}
+                              step={1}
+                              inputMode="numeric"
+                              className="w-24 mx-auto text-center"
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-center">
+                          <SerializedToggle material={m} />
+                        </TableCell>
                       </TableRow>
                     );
                   })
@@ -166,7 +261,19 @@ export function PricingEditor() {
               </TableBody>
             </Table>
           </div>
-          <div className="flex justify-end">
+          <div className="flex flex-col sm:flex-row sm:items-end justify-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="prices-effective-from">Price and GST changes effective from</Label>
+              <Input
+                id="prices-effective-from"
+                type="date"
+                max={new Date().toISOString().slice(0, 10)}
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="w-full sm:w-44"
+              />
+              <p className="text-xs text-muted-foreground">Leave empty for today. Earlier dispatches keep the price they were made at.</p>
+            </div>
             <Button onClick={handleSave} disabled={saving}>
               {saving ? "Saving..." : "Save Pricing"}
             </Button>
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import type { SerialNumber, SerialNumberStatus } from "@/lib/types";
+
+type SerialPickerProps = {
+  materialId: string;
+  status: SerialNumberStatus;   // Which units can be picked, e.g. 'in_stock' for dispatch.
+  clientId?: string;            // Limit to units issued to this client (returns).
+  value: string[];
+  onChange: (serials: string[]) => void;
+};
+
+// Checkbox list of the serial numbers of one material that are currently in the given
+// state. The picked serials decide the quantity moved.
+export function SerialPicker({ materialId, status, clientId, value, onChange }: SerialPickerProps) {
+  const [serials, setSerials] = useState<SerialNumber[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState("");
+
+  useEffect(() => {
+    if (!materialId) return;
+    const params = new URLSearchParams({ materialId, status });
+    if (clientId) params.set("clientId", clientId);
+    setLoading(true);
+    fetch(`/api/serials?${params.toString()}`)
+      .then(res => (res.ok ? res.json() : { serials: [] }))
+      .then(data => setSerials(Array.isArray(data.serials) ? data.serials : []))
+      .catch(error => console.error("Error fetching serial numbers:", error))
+      .finally(() => setLoading(false));
+  }, [materialId, status, clientId]);
+
+  const toggle = (serial: string, checked: boolean) => {
+    onChange(checked ? [...value, serial] : value.filter(s => s !== serial));
+  };
+
+  const term = filter.trim().toLowerCase();
+  const visible = term ? serials.filter(s => s.serial.toLowerCase().includes(term)) : serials;
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Loading serial numbers...</p>;
+  }
+  if (serials.length === 0) {
+    return <p className="text-xs text-muted-foreground">No serial numbers available.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {serials.length > 8 && (
+        <Input placeholder="Filter serials..." value={filter} onChange={(e) => setFilter(e.target.value)} className="h-8" />
+      )}
+      <div className="max-h-40 overflow-y-auto rounded-md border p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+        {visible.map(s => (
+          <label key={s.serial} className="flex items-center gap-2 text-sm font-mono cursor-pointer">
+            <Checkbox checked={value.includes(s.serial)} onCheckedChange={(c) => toggle(s.serial, c === true)} />
+            {s.serial}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{value.length} selected</p>
+    </div>
+  );
+}
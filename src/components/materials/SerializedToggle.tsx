@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { setMaterialSerializedAction } from "@/app/actions";
+import { useToast } from "@/hooks/use-toast";
+import { parseSerials } from "@/lib/utils";
+import type { Material } from "@/lib/types";
+
+// Owner switch for serial tracking. Switching it on for a material that already has
+// stock asks for the serial numbers of the units on hand first.
+export function SerializedToggle({ material }: { material: Material }) {
+  const [open, setOpen] = useState(false);
+  const [serials, setSerials] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const save = async (serialized: boolean, serialNumbers?: string) => {
+    setSaving(true);
+    const result = await setMaterialSerializedAction(material.id, serialized, serialNumbers);
+    setSaving(false);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      setOpen(false);
+      setSerials("");
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  const onCheckedChange = (checked: boolean) => {
+    if (checked && (material.quantity ?? 0) > 0) {
+      setOpen(true);
+    } else {
+      save(checked);
+    }
+  };
+
+  const count = parseSerials(serials).length;
+
+  return (
+    <>
+      <Switch checked={material.serialized === true} onCheckedChange={onCheckedChange} disabled={saving} />
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="font-headline">Track serial numbers - {material.name}</DialogTitle>
+            <DialogDescription>
+              Enter the serial numbers of the {material.quantity} unit(s) currently in stock.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`serials-${material.id}`}>Serial numbers</Label>
+            <Textarea
+              id={`serials-${material.id}`}
+              value={serials}
+              onChange={(e) => setSerials(e.target.value)}
+              placeholder="One per line or comma separated"
+              className="min-h-[120px]"
+            />
+            <p className="text-xs text-muted-foreground">{count} of {material.quantity} entered</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={() => save(true, serials)} disabled={saving || count !== material.quantity}>
+              {saving ? "Saving..." : "Enable Tracking"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
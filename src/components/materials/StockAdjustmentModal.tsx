@@ -11,10 +11,17 @@ import { Plus, Minus, PackagePlus, PackageMinus } from "lucide-react";
 import { stockAdjustmentAction, clientStockAdjustmentAction } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import type { Material } from "@/lib/types";
+import { parseSerials } from "@/lib/utils";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import { SerialPicker } from "@/components/materials/SerialPicker";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import { useLocations } from "@/hooks/use-locations";
+import { stockAt } from "@/lib/location-stock";
 
 type StockAdjustmentModalProps = {
   material: Material;
   clientId?: string;
+  projectId?: string;   // Client project (site) the entry is booked to.
   currentOutQty?: number;
   currentInQty?: number;
 };
@@ -26,11 +33,17 @@ const initialState = {
   submissionId: 0,
 };
 
-export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, currentInQty = 0 }: StockAdjustmentModalProps) {
+export function StockAdjustmentModal({ material, clientId, projectId, currentOutQty = 0, currentInQty = 0 }: StockAdjustmentModalProps) {
   const [open, setOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<"in" | "out">("in");
   const [quantity, setQuantity] = useState("1");
   const [reason, setReason] = useState("");
+  // Serialized materials move by serial number: new serials are typed in on a plain
+  // stock In, existing ones are picked for Out and for client returns.
+  const [pickedSerials, setPickedSerials] = useState<string[]>([]);
+  const [newSerials, setNewSerials] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const { locations } = useLocations();
   const { toast } = useToast();
   
   const [state, formAction] = useActionState((clientId ? clientStockAdjustmentAction : stockAdjustmentAction) as any, initialState as any);
@@ -51,6 +64,8 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
         // Reset form and close modal
         setQuantity("1");
         setReason("");
+        setPickedSerials([]);
+        setNewSerials("");
         setOpen(false);
       } else if (state.message) {
         const fieldErr = state.errors?.quantity?.[0]
@@ -69,6 +84,14 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
 
   // No manual submit; we use form action={formAction} and include clientId as hidden input when present.
 
+  const serialized = material.serialized === true;
+  const inSerials = clientId ? pickedSerials : parseSerials(newSerials);
+  const inQty = serialized ? inSerials.length : Number(quantity || 0);
+  const outQty = serialized ? pickedSerials.length : Number(quantity || 0);
+  // Stock at the chosen location; the total until locations have loaded.
+  const location = locations.find(l => l.id === locationId) ?? locations.find(l => l.isDefault);
+  const onHand = location ? stockAt(material, location) : material.quantity;
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -86,7 +109,8 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
             </span>
           </DialogTitle>
           <DialogDescription>
-            Add stock (In) or remove stock (Out). Current stock: <strong>{material.quantity}</strong>
+            Add stock (In) or remove stock (Out). Current stock: <strong>{formatQty(material.quantity, baseUnitOf(material))}</strong>
+            {locations.length > 1 && location && <> ({formatQty(onHand, baseUnitOf(material))} at {location.name})</>}
           </DialogDescription>
         </DialogHeader>
 
@@ -105,7 +129,14 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
 
         
 
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "in" | "out")} className="w-full">
+        {locations.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor={`location-${material.id}`}>Location</Label>
+            <LocationSelect id={`location-${material.id}`} locations={locations} value={locationId} onChange={setLocationId} />
+          </div>
+        )}
+
+        <Tabs value={activeTab} onValueChange={(v) => { setActiveTab(v as "in" | "out"); setPickedSerials([]); }} className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="in" className="flex items-center gap-2">
               <Plus className="w-4 h-4" />
@@ -121,9 +152,37 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
             <form action={formAction as any} className="space-y-4">
               <input type="hidden" name="materialId" value={material.id} />
               {clientId && <input type="hidden" name="clientId" value={clientId} />}
+              {clientId && projectId && <input type="hidden" name="projectId" value={projectId} />}
               <input type="hidden" name="materialName" value={material.name} />
+              <input type="hidden" name="locationId" value={locationId} />
               <input type="hidden" name="type" value="in" />
 
+              {serialized ? (
+                <div className="space-y-2">
+                  <input type="hidden" name="quantity" value={inQty} />
+                  <input type="hidden" name="serialNumbers" value={inSerials.join("\n")} />
+                  {clientId ? (
+                    <>
+                      <Label>Serial numbers being returned</Label>
+                      <SerialPicker materialId={material.id} status="issued" clientId={clientId} value={pickedSerials} onChange={setPickedSerials} />
+                    </>
+                  ) : (
+                    <>
+                      <Label htmlFor="serials-in">Serial numbers (one per unit)</Label>
+                      <Textarea
+                        id="serials-in"
+                        value={newSerials}
+                        onChange={(e) => setNewSerials(e.target.value)}
+                        placeholder="One per line or comma separated"
+                      />
+                      <p className="text-xs text-muted-foreground">{inQty} unit(s)</p>
+                    </>
+                  )}
+                  {clientId && inQty > maxInQty && (
+                    <p className="text-sm text-destructive">⚠ Cannot return more than what was taken out!</p>
+                  )}
+                </div>
+              ) : (
               <div className="space-y-2">
                 <Label htmlFor="quantity-in">Quantity</Label>
                 <Input
@@ -152,12 +211,13 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
                   <p className="text-sm text-destructive">⚠ Cannot return more than what was taken out!</p>
                 )}
               </div>
+              )}
 
               <Button 
                 type="submit" 
                 className="w-full" 
                 size="lg"
-                disabled={(Number(quantity || 0) < 1) || (clientId && (maxInQty === 0 || Number(quantity || 0) > maxInQty))}
+                disabled={(inQty < 1) || (clientId && (maxInQty === 0 || inQty > maxInQty))}
               >
                 <Plus className="w-4 h-4 mr-2" />
                 {clientId ? "Return to Stock" : "Add to Stock"}
@@ -169,9 +229,19 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
             <form action={formAction as any} className="space-y-4">
               <input type="hidden" name="materialId" value={material.id} />
               {clientId && <input type="hidden" name="clientId" value={clientId} />}
+              {clientId && projectId && <input type="hidden" name="projectId" value={projectId} />}
               <input type="hidden" name="materialName" value={material.name} />
+              <input type="hidden" name="locationId" value={locationId} />
               <input type="hidden" name="type" value="out" />
 
+              {serialized ? (
+                <div className="space-y-2">
+                  <input type="hidden" name="quantity" value={outQty} />
+                  <input type="hidden" name="serialNumbers" value={pickedSerials.join("\n")} />
+                  <Label>Serial numbers going out</Label>
+                  <SerialPicker materialId={material.id} status="in_stock" value={pickedSerials} onChange={setPickedSerials} />
+                </div>
+              ) : (
               <div className="space-y-2">
                 <Label htmlFor="quantity-out">Quantity</Label>
                 <Input
@@ -179,7 +249,7 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
                   name="quantity"
                   type="number"
                   min="1"
-                  max={material.quantity}
+                  max={onHand}
                   step="1"
                   inputMode="numeric"
                   pattern="\\d*"
@@ -196,7 +266,8 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
                   <p className="text-sm text-destructive">{state.errors.quantity[0]}</p>
                 )}
               </div>
-              {Number(quantity || 0) > material.quantity && (
+              )}
+              {outQty > onHand && (
                 <p className="text-sm text-destructive">⚠ Insufficient stock!</p>
               )}
 
@@ -205,7 +276,7 @@ export function StockAdjustmentModal({ material, clientId, currentOutQty = 0, cu
                 className="w-full" 
                 size="lg"
                 variant="destructive"
-                disabled={(Number(quantity || 0) < 1) || (Number(quantity || 0) > material.quantity)}
+                disabled={(outQty < 1) || (outQty > onHand)}
               >
                 <Minus className="w-4 h-4 mr-2" />
                 Remove from Stock
@@ -8,6 +8,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Alert, AlertDescription, AlertTitle } from "../ui/alert";
 import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import type { StockMovement, StockMovementKind } from "@/lib/types";
 
 function formatTimestamp(timestamp: any) {
     if (!timestamp) return "No date";
@@ -36,34 +40,134 @@ function formatTimestamp(timestamp: any) {
     }).format(date);
 }
 
+const KIND_LABELS: Record<StockMovementKind, string> = {
+    opening: "Opening balance",
+    fill: "Stock fill",
+    in: "Stock in",
+    out: "Stock out",
+    set: "Quantity set",
+    client_out: "Client dispatch",
+    client_in: "Client return",
+    po_receipt: "Purchase receipt",
+    transfer: "Location transfer",
+    count_variance: "Count variance",
+    restore: "Backup restore",
+};
+
+function formatSigned(quantity: number) {
+    return quantity > 0 ? `+${quantity}` : String(quantity);
+}
+
+// Lines recorded together (one stock fill, one client entry) are shown as one record.
+type MovementGroup = {
+    id: string;
+    date: Date | string;
+    kind: StockMovementKind;
+    reason?: string;
+    userName?: string;
+    lines: StockMovement[];
+    total: number;
+};
+
+function groupMovements(movements: StockMovement[]): MovementGroup[] {
+    const groups: MovementGroup[] = [];
+    const byKey = new Map<string, MovementGroup>();
+    for (const movement of movements) {
+        const key = movement.batchId || movement.id;
+        let group = byKey.get(key);
+        if (!group) {
+            group = {
+                id: key,
+                date: movement.date,
+                kind: movement.kind,
+                reason: movement.reason,
+                userName: movement.userName,
+                lines: [],
+                total: 0,
+            };
+            byKey.set(key, group);
+            groups.push(group);
+        }
+        group.lines.push(movement);
+        group.total += Number(movement.quantity) || 0;
+    }
+    return groups;
+}
+
+const ALL_KINDS = "all";
+
 export function StockHistory() {
-    const { history, loading } = useStockHistory();
     const [searchTerm, setSearchTerm] = useState("");
-
-    const filteredHistory = (history || []).filter(record => {
-        const items = Array.isArray(record?.items) ? record.items : [];
-        const term = searchTerm.toLowerCase();
-        return items.some(item => String(item?.materialName || "").toLowerCase().includes(term));
+    const [kind, setKind] = useState<StockMovementKind | typeof ALL_KINDS>(ALL_KINDS);
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [order, setOrder] = useState<"desc" | "asc">("desc");
+    // Filtering happens on the server; the ledger arrives a slice at a time.
+    const { history, loading, hasMore, loadMore, loadingMore } = useStockHistory({
+        q: searchTerm,
+        kind: kind === ALL_KINDS ? "" : kind,
+        from,
+        to,
+        order,
     });
+    const filtered = Boolean(searchTerm || kind !== ALL_KINDS || from || to);
+
+    const filteredHistory = groupMovements(history || []);
 
     return (
         <Card>
             <CardHeader>
                 <div className="flex items-center gap-2">
                     <History className="w-6 h-6" />
-                    <CardTitle className="font-headline">Stock Fill History</CardTitle>
+                    <CardTitle className="font-headline">Stock Movement History</CardTitle>
                 </div>
-                <CardDescription>A log of all previous stock updates.</CardDescription>
+                <CardDescription>Every change to stock: fills, In/Out adjustments, client dispatches and returns.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-                <div className="relative w-full sm:max-w-xs">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input 
-                        placeholder="Search by material name..."
-                        value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        className="pl-10"
-                    />
+                <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+                    <div className="relative w-full lg:max-w-xs">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input 
+                            placeholder="Search by material name..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className="pl-10"
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="history-kind">Type</Label>
+                        <Select value={kind} onValueChange={(v) => setKind(v as typeof kind)}>
+                            <SelectTrigger id="history-kind" className="w-full lg:w-48">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_KINDS}>All movements</SelectItem>
+                                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="history-from">From</Label>
+                        <Input id="history-from" type="date" className="w-full lg:w-40" max={to || undefined} value={from} onChange={(e) => setFrom(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="history-to">To</Label>
+                        <Input id="history-to" type="date" className="w-full lg:w-40" min={from || undefined} value={to} onChange={(e) => setTo(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="history-order">Order</Label>
+                        <Select value={order} onValueChange={(v) => setOrder(v as typeof order)}>
+                            <SelectTrigger id="history-order" className="w-full lg:w-36">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="desc">Newest first</SelectItem>
+                                <SelectItem value="asc">Oldest first</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
                 </div>
 
                 {loading ? (
@@ -74,26 +178,35 @@ export function StockHistory() {
                     </div>
                 ) : filteredHistory.length > 0 ? (
                     <Accordion type="single" collapsible className="w-full">
-                        {filteredHistory.map((record) => (
-                            <AccordionItem value={record.id} key={record.id}>
+                        {filteredHistory.map((group) => (
+                            <AccordionItem value={group.id} key={group.id}>
                                 <AccordionTrigger>
                                     <div className="flex justify-between items-center w-full pr-4">
                                         <div className="flex flex-col text-left">
-                                            <span className="font-semibold">{formatTimestamp(record.timestamp)}</span>
-                                            <span className="text-sm text-muted-foreground">{Array.isArray(record.items) ? record.items.length : 0} material types updated</span>
+                                            <span className="font-semibold">{formatTimestamp(group.date)}</span>
+                                            <span className="text-sm text-muted-foreground">
+                                                {KIND_LABELS[group.kind] ?? group.kind}
+                                                {group.reason && group.reason !== KIND_LABELS[group.kind] ? ` · ${group.reason}` : ""}
+                                                {group.userName ? ` · ${group.userName}` : ""}
+                                            </span>
                                         </div>
                                         <div className="text-right">
-                                            <span className="font-semibold text-primary">+{record.totalItems}</span>
-                                            <span className="text-sm text-muted-foreground ml-1">total units</span>
+                                            <span className={`font-semibold ${group.total < 0 ? "text-red-600" : "text-primary"}`}>{formatSigned(group.total)}</span>
+                                            <span className="text-sm text-muted-foreground ml-1">units</span>
                                         </div>
                                     </div>
                                 </AccordionTrigger>
                                 <AccordionContent>
                                     <ul className="space-y-2 pl-4 pt-2 border-l ml-2">
-                                        {(Array.isArray(record.items) ? record.items : []).map((item) => (
-                                            <li key={item.materialId} className="flex justify-between">
-                                                <span>{item.materialName}</span>
-                                                <span className="font-mono text-green-600">+{item.quantityAdded}</span>
+                                        {group.lines.map((line) => (
+                                            <li key={line.id} className="flex justify-between">
+                                                <span>{line.materialName}</span>
+                                                <span>
+                                                    <span className={`font-mono ${line.quantity < 0 ? "text-red-600" : "text-green-600"}`}>{formatSigned(line.quantity)}</span>
+                                                    {line.balanceAfter !== undefined && (
+                                                        <span className="text-sm text-muted-foreground ml-2">→ {line.balanceAfter}</span>
+                                                    )}
+                                                </span>
                                             </li>
                                         ))}
                                     </ul>
@@ -101,14 +214,22 @@ export function StockHistory() {
                             </AccordionItem>
                         ))}
                     </Accordion>
-                ) : (
+                ) : null}
+                {!loading && hasMore && (
+                    <div className="flex justify-center">
+                        <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                            {loadingMore ? "Loading..." : "Load more"}
+                        </Button>
+                    </div>
+                )}
+                {!loading && filteredHistory.length === 0 && (
                     <Alert>
                         <List className="h-4 w-4" />
-                        <AlertTitle>{searchTerm ? "No Results" : "No History"}</AlertTitle>
+                        <AlertTitle>{filtered ? "No Results" : "No History"}</AlertTitle>
                         <AlertDescription>
-                            {searchTerm 
-                                ? "No history records match your search." 
-                                : "There are no stock history records yet. Fill stock from the inventory table to create one."
+                            {filtered 
+                                ? "No history records match your filters." 
+                                : "There are no stock movements yet. Fill stock from the inventory table to create one."
                             }
                         </AlertDescription>
                     </Alert>
@@ -116,4 +237,4 @@ export function StockHistory() {
             </CardContent>
         </Card>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { Split } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { allocatePaymentAction } from "@/app/payment-actions";
+import { AllocationFields, allocationsOf } from "@/components/payments/AllocationFields";
+import { allocationKey, roundMoney } from "@/lib/payments";
+import type { ClientPayment, PaymentTarget } from "@/lib/types";
+
+// Re-allocates a recorded payment, typically an advance once the invoice is issued.
+export function AllocatePaymentDialog({ payment, targets }: { payment: ClientPayment; targets: PaymentTarget[] }) {
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // What this payment already covers is available to it again.
+  const own = new Map(payment.allocations.map(a => [allocationKey(a), a.amount]));
+  const available = targets.map(t => ({ ...t, due: roundMoney(t.due + (own.get(t.key) ?? 0)) }));
+
+  const onOpenChange = (next: boolean) => {
+    if (next) {
+      setValues(Object.fromEntries(available.filter(t => own.has(t.key)).map(t => [t.key, String(own.get(t.key))])));
+    }
+    setOpen(next);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    const result = await allocatePaymentAction(payment.id, allocationsOf(values));
+    setSaving(false);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" onClick={() => onOpenChange(true)}>
+        <Split className="w-4 h-4" />
+        <span className="sr-only">Allocate payment</span>
+      </Button>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-headline">Allocate {payment.receiptNo}</DialogTitle>
+            <DialogDescription>
+              {payment.amount.toFixed(2)} received on {new Date(payment.date).toLocaleDateString()}.
+            </DialogDescription>
+          </DialogHeader>
+          <AllocationFields targets={available} amount={payment.amount} values={values} onChange={setValues} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={save} disabled={saving}>{saving ? "Saving..." : "Save Allocation"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
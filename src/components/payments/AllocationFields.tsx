@@ -0,0 +1,96 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { roundMoney } from "@/lib/payments";
+import type { PaymentTarget } from "@/lib/types";
+
+type Props = {
+  targets: PaymentTarget[];
+  amount: number;                       // The payment being allocated.
+  values: Record<string, string>;       // Amount per target key, as typed.
+  onChange: (values: Record<string, string>) => void;
+};
+
+// Spreads a payment over the client's open invoices (or costings before anything is
+// invoiced). What is left over is kept as an advance.
+export function AllocationFields({ targets, amount, values, onChange }: Props) {
+  const allocated = roundMoney(Object.values(values).reduce((sum, v) => sum + (Number(v) || 0), 0));
+  const open = targets.filter(t => t.due > 0 || Number(values[t.key]) > 0);
+
+  // Oldest first, until the payment runs out.
+  const settleOldestFirst = () => {
+    let left = amount;
+    const next: Record<string, string> = {};
+    for (const target of open) {
+      const share = roundMoney(Math.min(left, target.due));
+      if (share > 0) next[target.key] = String(share);
+      left = roundMoney(left - share);
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Allocate Against</Label>
+        {open.length > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={settleOldestFirst} disabled={amount <= 0}>
+            Oldest first
+          </Button>
+        )}
+      </div>
+      {open.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing is due; the payment is kept as an advance.</p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Against</TableHead>
+                <TableHead className="text-right">Due</TableHead>
+                <TableHead className="text-center">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {open.map(target => (
+                <TableRow key={target.key}>
+                  <TableCell>
+                    <span className="font-medium">{target.reference}</span>
+                    <p className="text-xs text-muted-foreground">{new Date(target.date).toLocaleDateString()} · {target.billed.toFixed(2)}</p>
+                  </TableCell>
+                  <TableCell className="text-right">{target.due.toFixed(2)}</TableCell>
+                  <TableCell className="text-center">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={target.due}
+                      step={0.01}
+                      inputMode="decimal"
+                      aria-label={`Amount against ${target.reference}`}
+                      className="w-28 mx-auto text-center"
+                      value={values[target.key] ?? ""}
+                      onChange={(e) => onChange({ ...values, [target.key]: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <p className={`text-sm ${allocated > amount ? "text-destructive" : "text-muted-foreground"}`}>
+        Allocated {allocated.toFixed(2)} of {amount.toFixed(2)}
+        {allocated <= amount && ` · advance ${roundMoney(amount - allocated).toFixed(2)}`}
+      </p>
+    </div>
+  );
+}
+
+// The allocations to send to the server: targets with an amount entered.
+export const allocationsOf = (values: Record<string, string>) =>
+  Object.entries(values)
+    .map(([key, value]) => ({ key, amount: Number(value) || 0 }))
+    .filter(a => a.amount > 0);
@@ -0,0 +1,209 @@
+"use client";
+
+import { FileDown, Trash2, Wallet } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOwner } from "@/hooks/use-owner";
+import { useToast } from "@/hooks/use-toast";
+import { deletePaymentAction } from "@/app/payment-actions";
+import { RecordPaymentDialog } from "@/components/payments/RecordPaymentDialog";
+import { AllocatePaymentDialog } from "@/components/payments/AllocatePaymentDialog";
+import { advanceOf, PAYMENT_MODES } from "@/lib/payments";
+import { balanceText, downloadStatementPdf } from "@/lib/statement-pdf";
+import type { Client, ClientBalance, ClientPayment, PaymentTarget, StatementLine } from "@/lib/types";
+
+type Props = {
+  client: Client;
+  balance: ClientBalance;
+  lines: StatementLine[];
+  payments: ClientPayment[];
+  targets: PaymentTarget[];
+};
+
+// Running statement of account of a client and the payments received from them.
+// Owners record, allocate and delete payments.
+export function ClientStatement({ client, balance, lines, payments, targets }: Props) {
+  const isOwner = useOwner();
+  const { toast } = useToast();
+
+  const remove = async (payment: ClientPayment) => {
+    const result = await deletePaymentAction(payment.id);
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              <CardTitle className="font-headline">Statement of Account</CardTitle>
+            </div>
+            <CardDescription>
+              Issued invoices net of credit notes; until the first invoice, the client costing. Cr is an advance with us.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => downloadStatementPdf(client, lines, balance)}>
+              <FileDown className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+            {isOwner && <RecordPaymentDialog clientId={client.id} targets={targets} />}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="border rounded-lg p-3">
+              <p className="text-sm text-muted-foreground">Billed</p>
+              <p className="text-xl font-semibold">{balance.billed.toFixed(2)}</p>
+            </div>
+            <div className="border rounded-lg p-3">
+              <p className="text-sm text-muted-foreground">Paid</p>
+              <p className="text-xl font-semibold">{balance.paid.toFixed(2)}</p>
+            </div>
+            <div className="border rounded-lg p-3">
+              <p className="text-sm text-muted-foreground">{balance.outstanding < 0 ? "Advance" : "Outstanding"}</p>
+              <p className={`text-xl font-semibold ${balance.outstanding > 0 ? "text-destructive" : ""}`}>
+                {Math.abs(balance.outstanding).toFixed(2)}
+              </p>
+            </div>
+          </div>
+
+          <div className="w-full overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">Nothing billed or paid yet.</TableCell>
+                  </TableRow>
+                ) : (
+                  lines.map((line, idx) => (
+                    <TableRow key={`${line.reference}-${idx}`}>
+                      <TableCell className="whitespace-nowrap">{new Date(line.date).toLocaleDateString()}</TableCell>
+                      <TableCell className="font-medium whitespace-nowrap">{line.reference}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{line.debit ? line.debit.toFixed(2) : ""}</TableCell>
+                      <TableCell className="text-right">{line.credit ? line.credit.toFixed(2) : ""}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{balanceText(line.balance)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Payments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="w-full overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Allocated To</TableHead>
+                  {isOwner && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={isOwner ? 6 : 5} className="text-center text-muted-foreground">No payments recorded.</TableCell>
+                  </TableRow>
+                ) : (
+                  payments.map(payment => {
+                    const advance = advanceOf(payment);
+                    return (
+                      <TableRow key={payment.id}>
+                        <TableCell className="font-medium">
+                          {payment.receiptNo}
+                          {payment.createdBy && <p className="text-xs text-muted-foreground">{payment.createdBy}</p>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(payment.date).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {PAYMENT_MODES[payment.mode] ?? payment.mode}
+                          {payment.reference && <p className="text-xs text-muted-foreground">{payment.reference}</p>}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{payment.amount.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {payment.allocations.map(a => (
+                              <Badge key={`${a.type}-${a.invoiceId ?? a.projectId ?? ""}`} variant="secondary">
+                                {a.reference}: {a.amount.toFixed(2)}
+                              </Badge>
+                            ))}
+                            {advance > 0 && <Badge variant="outline">Advance: {advance.toFixed(2)}</Badge>}
+                          </div>
+                          {payment.notes && <p className="text-xs text-muted-foreground mt-1">{payment.notes}</p>}
+                        </TableCell>
+                        {isOwner && (
+                          <TableCell className="text-right whitespace-nowrap">
+                            <AllocatePaymentDialog payment={payment} targets={targets} />
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10">
+                                  <Trash2 className="w-4 h-4" />
+                                  <span className="sr-only">Delete payment</span>
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle className="font-headline">Delete {payment.receiptNo}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Only delete a payment that was recorded by mistake. The receipt number is not reused.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => remove(payment)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                                    Delete Payment
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
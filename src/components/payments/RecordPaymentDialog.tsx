@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { recordPaymentAction } from "@/app/payment-actions";
+import { AllocationFields, allocationsOf } from "@/components/payments/AllocationFields";
+import { PAYMENT_MODES } from "@/lib/payments";
+import type { PaymentMode, PaymentTarget } from "@/lib/types";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Saving..." : "Record Payment"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Records money received from a client and what it pays for.
+export function RecordPaymentDialog({ clientId, targets }: { clientId: string; targets: PaymentTarget[] }) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<PaymentMode>("bank_transfer");
+  const [amount, setAmount] = useState("");
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [state, formAction] = useActionState(recordPaymentAction, initialState);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+      setAmount("");
+      setAllocations({});
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="w-4 h-4 mr-2" />
+          Record Payment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Record Payment</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="clientId" value={clientId} />
+          <input type="hidden" name="mode" value={mode} />
+          <input type="hidden" name="allocations" value={JSON.stringify(allocationsOf(allocations))} />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input id="payment-date" name="date" type="date" max={today()} defaultValue={today()} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount</Label>
+              <Input
+                id="payment-amount"
+                name="amount"
+                type="number"
+                min={0.01}
+                step={0.01}
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="payment-mode">Mode</Label>
+              <Select value={mode} onValueChange={(v) => setMode(v as PaymentMode)}>
+                <SelectTrigger id="payment-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_MODES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input id="payment-reference" name="reference" placeholder="Cheque no., UTR, UPI id" />
+            </div>
+          </div>
+          <AllocationFields targets={targets} amount={Number(amount) || 0} values={allocations} onChange={setAllocations} />
+          <div className="space-y-2">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Textarea id="payment-notes" name="notes" rows={2} />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
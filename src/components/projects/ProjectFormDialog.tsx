@@ -0,0 +1,112 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveProjectAction } from "@/app/project-actions";
+import { PROJECT_STATUS } from "@/components/projects/ProjectStatusBadge";
+import type { Project, ProjectStatus } from "@/lib/types";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Saving..." : "Save Project"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+const dateInput = (value?: Date | string) => (value ? new Date(value).toISOString().slice(0, 10) : "");
+
+// Adds a project (site) to a client, or edits 'project'.
+export function ProjectFormDialog({ clientId, project, trigger }: { clientId: string; project?: Project; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<ProjectStatus>(project?.status ?? "planned");
+  const [state, formAction] = useActionState(saveProjectAction, initialState);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">{project ? `Edit ${project.name}` : "Add Project"}</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="clientId" value={clientId} />
+          {project && <input type="hidden" name="projectId" value={project.id} />}
+          <input type="hidden" name="status" value={status} />
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input id="project-name" name="name" defaultValue={project?.name} placeholder="e.g., Rooftop, Block B" required />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="project-capacity">Plant Capacity</Label>
+              <Input id="project-capacity" name="plantCapacity" defaultValue={project?.plantCapacity} placeholder="e.g., 5 kW" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-status">Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as ProjectStatus)}>
+                <SelectTrigger id="project-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PROJECT_STATUS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="project-start">Start Date</Label>
+              <Input id="project-start" name="startDate" type="date" defaultValue={dateInput(project?.startDate)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-end">End Date</Label>
+              <Input id="project-end" name="endDate" type="date" defaultValue={dateInput(project?.endDate)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-address">Site Address</Label>
+            <Textarea id="project-address" name="address" defaultValue={project?.address} placeholder="Leave empty if same as the client's address" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
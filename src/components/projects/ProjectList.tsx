@@ -0,0 +1,85 @@
+"use client";
+
+import Link from "next/link";
+import { Calculator, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useHasRole } from "@/hooks/use-session";
+import { ProjectFormDialog } from "@/components/projects/ProjectFormDialog";
+import { ProjectStatusBadge } from "@/components/projects/ProjectStatusBadge";
+import type { Project } from "@/lib/types";
+
+const formatDate = (value?: Date | string) => (value ? new Date(value).toLocaleDateString() : null);
+
+// A client's projects (sites), each with a link to its own costing.
+export function ProjectList({ clientId, projects }: { clientId: string; projects: Project[] }) {
+  const canEdit = useHasRole("storekeeper");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="font-headline">Projects / Sites</CardTitle>
+        {canEdit && (
+          <ProjectFormDialog
+            clientId={clientId}
+            trigger={
+              <Button variant="outline" size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Project
+              </Button>
+            }
+          />
+        )}
+      </CardHeader>
+      <CardContent>
+        {projects.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No projects yet. Add one per installation to keep material and costing separate for each site.
+          </p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {projects.map(project => {
+              const start = formatDate(project.startDate);
+              const end = formatDate(project.endDate);
+              return (
+                <div key={project.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-semibold break-words">{project.name}</p>
+                      {project.plantCapacity && <p className="text-sm text-muted-foreground">{project.plantCapacity}</p>}
+                    </div>
+                    <ProjectStatusBadge status={project.status} />
+                  </div>
+                  {project.address && <p className="text-sm text-muted-foreground break-words">{project.address}</p>}
+                  {(start || end) && (
+                    <p className="text-xs text-muted-foreground">{start ?? "?"} – {end ?? "ongoing"}</p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button asChild variant="outline" size="sm">
+                      <Link href={`/client-costing/${clientId}?projectId=${project.id}`}>
+                        <Calculator className="w-4 h-4 mr-2" />
+                        Costing
+                      </Link>
+                    </Button>
+                    {canEdit && (
+                      <ProjectFormDialog
+                        clientId={clientId}
+                        project={project}
+                        trigger={
+                          <Button variant="ghost" size="sm">
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Edit
+                          </Button>
+                        }
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Project } from "@/lib/types";
+
+// Radix Select cannot hold an empty value, so "no project" has its own key.
+const NONE = "__none__";
+
+type Props = {
+  projects: Project[];
+  value: string;                  // Project id, or "" for none / all.
+  onChange: (projectId: string) => void;
+  noneLabel?: string;
+  id?: string;
+};
+
+// Picks one of a client's projects (sites). Completed projects stay selectable so
+// late returns can still be booked against them.
+export function ProjectSelect({ projects, value, onChange, noneLabel = "No specific site", id }: Props) {
+  return (
+    <Select value={value || NONE} onValueChange={(v) => onChange(v === NONE ? "" : v)}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{noneLabel}</SelectItem>
+        {projects.map(p => (
+          <SelectItem key={p.id} value={p.id}>
+            {p.name}{p.plantCapacity ? ` (${p.plantCapacity})` : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
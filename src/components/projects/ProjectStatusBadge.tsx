@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+import type { ProjectStatus } from "@/lib/types";
+
+export const PROJECT_STATUS: Record<ProjectStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  planned: { label: "Planned", variant: "outline" },
+  in_progress: { label: "In progress", variant: "default" },
+  completed: { label: "Completed", variant: "secondary" },
+  on_hold: { label: "On hold", variant: "destructive" },
+};
+
+export function ProjectStatusBadge({ status }: { status: ProjectStatus }) {
+  const { label, variant } = PROJECT_STATUS[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={variant}>{label}</Badge>;
+}
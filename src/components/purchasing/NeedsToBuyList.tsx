@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { useRouter } from "next/navigation";
+import { ClipboardList } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOwner } from "@/hooks/use-owner";
+import { useToast } from "@/hooks/use-toast";
+import { createPurchaseOrderAction } from "@/app/purchase-actions";
+import { availableOf, isBelowMinimum, reorderPointOf } from "@/lib/reorder";
+import type { Material, Supplier } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      <ClipboardList className="w-4 h-4 mr-2" />
+      {pending ? "Creating..." : "Create Purchase Order"}
+    </Button>
+  );
+}
+
+const initialState = {
+  success: false,
+  message: null as string | null,
+  submissionId: 0,
+  purchaseOrderId: null as string | null,
+};
+
+type Props = {
+  materials: Material[];
+  suppliers: Supplier[];
+  onOrder: Record<string, number>;   // Units already on open purchase orders.
+  suggestions: Record<string, { quantity: number; dailyUsage: number }>;
+};
+
+// Low-stock materials. Owners tick the ones to buy, pick a supplier and turn the
+// selection into a draft purchase order priced from that supplier's price list.
+export function NeedsToBuyList({ materials, suppliers, onOrder, suggestions }: Props) {
+  const isOwner = useOwner();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [state, formAction] = useActionState(createPurchaseOrderAction, initialState);
+  const [selected, setSelected] = useState<Record<string, { quantity: string; unitPrice: string }>>({});
+  const [supplierId, setSupplierId] = useState("");
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success && state.purchaseOrderId) {
+      toast({ title: "Success", description: state.message });
+      router.push(`/purchase-orders/${state.purchaseOrderId}`);
+    } else if (!state.success) {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const supplier = suppliers.find(s => s.id === supplierId);
+  const supplierPrice = (materialId: string) => supplier?.priceList.find(p => p.materialId === materialId)?.unitPrice;
+
+  const suggestedQty = (m: Material) => suggestions[m.id]?.quantity ?? 1;
+
+  const toggle = (m: Material, checked: boolean) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (checked) next[m.id] = { quantity: String(suggestedQty(m)), unitPrice: "" };
+      else delete next[m.id];
+      return next;
+    });
+  };
+
+  const items = Object.entries(selected).map(([materialId, line]) => ({
+    materialId,
+    quantity: Number(line.quantity) || 0,
+    unitPrice: Number(line.unitPrice) || supplierPrice(materialId) || undefined,
+  }));
+
+  return (
+    <div className="space-y-4">
+      {materials.map(material => {
+        const line = selected[material.id];
+        return (
+          <Card key={material.id} className="p-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div className="flex items-start gap-3 flex-1 min-w-0">
+                {isOwner && (
+                  <Checkbox
+                    className="mt-1"
+                    checked={!!line}
+                    onCheckedChange={(c) => toggle(material, c === true)}
+                    aria-label={`Order ${material.name}`}
+                  />
+                )}
+                <div className="min-w-0">
+                  <h3 className="font-bold text-lg break-words">{material.name}</h3>
+                  <p className="text-sm text-muted-foreground break-words">{material.description}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Reorder point {reorderPointOf(material)}
+                    {material.minLevel !== undefined && ` · Min ${material.minLevel}`}
+                    {` · Uses ~${(suggestions[material.id]?.dailyUsage ?? 0).toFixed(1)}/day`}
+                    {` · Suggested order ${suggestedQty(material)}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center justify-between sm:justify-end gap-2 shrink-0">
+                {(onOrder[material.id] ?? 0) > 0 && (
+                  <Badge variant="secondary">On order: {onOrder[material.id]}</Badge>
+                )}
+                {(material.reserved ?? 0) > 0 && (
+                  <Badge variant="outline">On hand: {material.quantity} · Reserved: {material.reserved}</Badge>
+                )}
+                <span className="text-sm font-medium text-muted-foreground">Available:</span>
+                <Badge variant={isBelowMinimum(material) ? "destructive" : "secondary"} className="text-base">
+                  {availableOf(material)}{material.unit ? ` ${material.unit}` : ""}
+                </Badge>
+              </div>
+            </div>
+            {line && (
+              <div className="grid grid-cols-2 gap-4 mt-4 sm:max-w-md sm:ml-7">
+                <div className="space-y-1">
+                  <Label htmlFor={`po-qty-${material.id}`}>Order Qty</Label>
+                  <Input
+                    id={`po-qty-${material.id}`}
+                    type="number"
+                    min={1}
+                    step={1}
+                    inputMode="numeric"
+                    value={line.quantity}
+                    onChange={(e) => setSelected(prev => ({ ...prev, [material.id]: { ...line, quantity: e.target.value } }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`po-price-${material.id}`}>Unit Price</Label>
+                  <Input
+                    id={`po-price-${material.id}`}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    inputMode="decimal"
+                    placeholder={String(supplierPrice(material.id) ?? material.price ?? 0)}
+                    value={line.unitPrice}
+                    onChange={(e) => setSelected(prev => ({ ...prev, [material.id]: { ...line, unitPrice: e.target.value } }))}
+                  />
+                </div>
+              </div>
+            )}
+          </Card>
+        );
+      })}
+
+      {isOwner && items.length > 0 && (
+        <Card className="p-4">
+          <form action={formAction} className="space-y-4">
+            <input type="hidden" name="supplierId" value={supplierId} />
+            <input type="hidden" name="items" value={JSON.stringify(items)} />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={suppliers.length ? "Select supplier" : "Add a supplier first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map(s => (
+                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="po-notes">Notes</Label>
+                <Textarea id="po-notes" name="notes" placeholder="Optional, printed on the PO" className="min-h-[40px]" />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">{items.length} material(s) selected. Empty prices use the supplier&apos;s price list.</p>
+              <SubmitButton disabled={!supplierId || items.some(i => i.quantity < 1)} />
+            </div>
+          </form>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileDown, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOwner } from "@/hooks/use-owner";
+import { useHasRole } from "@/hooks/use-session";
+import { useToast } from "@/hooks/use-toast";
+import { sendPurchaseOrderAction, deletePurchaseOrderAction } from "@/app/purchase-actions";
+import { downloadPurchaseOrderPdf } from "@/lib/purchase-order-pdf";
+import { formatQty } from "@/lib/units";
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/PurchaseOrderStatusBadge";
+import { ReceivePurchaseOrderForm } from "@/components/purchasing/ReceivePurchaseOrderForm";
+import type { CompanyProfile, PurchaseOrder, Supplier } from "@/lib/types";
+
+type Props = {
+  po: PurchaseOrder;
+  supplier: Supplier | null;
+  company: CompanyProfile | null;
+};
+
+export function PurchaseOrderDetail({ po, supplier, company }: Props) {
+  const isOwner = useOwner();
+  const canReceive = useHasRole("storekeeper");
+  const router = useRouter();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<{ success: boolean; message: string }>, after?: () => void) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+    if (result.success) after?.();
+  };
+
+  const base = po.lines.reduce((s, l) => s + l.quantity * l.unitPrice, 0);
+  const gst = po.lines.reduce((s, l) => s + (l.quantity * l.unitPrice * l.gstPercent) / 100, 0);
+  const isOpen = po.status === "sent" || po.status === "partially_received";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <CardTitle className="font-headline">{po.poNumber}</CardTitle>
+              <PurchaseOrderStatusBadge status={po.status} />
+            </div>
+            <CardDescription>
+              {po.supplierName} · created {new Date(po.createdAt).toLocaleDateString()}
+              {po.createdBy ? ` by ${po.createdBy}` : ""}
+              {po.sentAt ? ` · sent ${new Date(po.sentAt).toLocaleDateString()}` : ""}
+            </CardDescription>
+            {po.notes && <p className="text-sm text-muted-foreground">{po.notes}</p>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => downloadPurchaseOrderPdf(po, supplier, company)}>
+              <FileDown className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+            {isOwner && po.status === "draft" && (
+              <>
+                <Button variant="outline" disabled={busy} onClick={() => run(() => deletePurchaseOrderAction(po.id), () => router.push("/purchase-orders"))}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Draft
+                </Button>
+                <Button disabled={busy} onClick={() => run(() => sendPurchaseOrderAction(po.id))}>
+                  <Send className="w-4 h-4 mr-2" />
+                  Mark as Sent
+                </Button>
+              </>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="w-full overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material</TableHead>
+                  <TableHead className="text-center">Ordered</TableHead>
+                  <TableHead className="text-center">Received</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-center">GST %</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {po.lines.map(l => (
+                  <TableRow key={l.materialId}>
+                    <TableCell className="font-medium">{l.materialName}</TableCell>
+                    <TableCell className="text-center">{formatQty(l.quantity, l.unit)}</TableCell>
+                    <TableCell className="text-center">{formatQty(l.receivedQty || 0, l.unit)}</TableCell>
+                    <TableCell className="text-right">{l.unitPrice.toFixed(2)}</TableCell>
+                    <TableCell className="text-center">{l.gstPercent}</TableCell>
+                    <TableCell className="text-right">{(l.quantity * l.unitPrice).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={5} className="text-right font-semibold">Total Before Tax</TableCell>
+                  <TableCell className="text-right font-semibold">{base.toFixed(2)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={5} className="text-right font-semibold">Total GST</TableCell>
+                  <TableCell className="text-right font-semibold">{gst.toFixed(2)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={5} className="text-right font-bold">Grand Total</TableCell>
+                  <TableCell className="text-right font-bold">{(base + gst).toFixed(2)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {canReceive && isOpen && <ReceivePurchaseOrderForm po={po} />}
+
+      {po.receipts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Receipts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {po.receipts.map(r => (
+              <div key={r.batchId} className="border rounded-lg p-3 text-sm">
+                <p className="font-medium">
+                  {new Date(r.date).toLocaleString()}
+                  {r.receivedBy ? ` · ${r.receivedBy}` : ""}
+                </p>
+                <p className="text-muted-foreground">
+                  {r.lines.map(l => `${po.lines.find(pl => pl.materialId === l.materialId)?.materialName ?? l.materialId} × ${l.quantity}`).join(", ")}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import { ClipboardList } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/PurchaseOrderStatusBadge";
+import type { PurchaseOrder } from "@/lib/types";
+
+function orderTotal(po: PurchaseOrder) {
+  return po.lines.reduce((s, l) => s + l.quantity * l.unitPrice * (1 + l.gstPercent / 100), 0);
+}
+
+// All purchase orders, newest first. Each row opens the order for sending, printing
+// and receiving.
+export function PurchaseOrderList({ purchaseOrders }: { purchaseOrders: PurchaseOrder[] }) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2">
+        <ClipboardList className="w-6 h-6" />
+        <CardTitle className="font-headline">Purchase Orders</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO No</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-center">Received</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purchaseOrders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No purchase orders yet. Create one from the Needs To Buy page.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                purchaseOrders.map(po => {
+                  const ordered = po.lines.reduce((s, l) => s + l.quantity, 0);
+                  const received = po.lines.reduce((s, l) => s + (l.receivedQty || 0), 0);
+                  return (
+                    <TableRow key={po.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/purchase-orders/${po.id}`} className="hover:underline">{po.poNumber}</Link>
+                      </TableCell>
+                      <TableCell>{po.supplierName}</TableCell>
+                      <TableCell>{new Date(po.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-center">{received} / {ordered}</TableCell>
+                      <TableCell className="text-right">{orderTotal(po).toFixed(2)}</TableCell>
+                      <TableCell><PurchaseOrderStatusBadge status={po.status} /></TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+import type { PurchaseOrderStatus } from "@/lib/types";
+
+const STATUS: Record<PurchaseOrderStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  draft: { label: "Draft", variant: "outline" },
+  sent: { label: "Sent", variant: "default" },
+  partially_received: { label: "Partially received", variant: "secondary" },
+  received: { label: "Received", variant: "secondary" },
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const { label, variant } = STATUS[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={variant}>{label}</Badge>;
+}
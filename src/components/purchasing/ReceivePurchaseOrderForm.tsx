@@ -0,0 +1,123 @@
+"use client";
+
+import { Fragment, useState, useEffect, useActionState, useMemo } from "react";
+import { useFormStatus } from "react-dom";
+import { PackageCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMaterials } from "@/hooks/use-materials";
+import { useToast } from "@/hooks/use-toast";
+import { receivePurchaseOrderAction } from "@/app/purchase-actions";
+import { formatQty } from "@/lib/units";
+import type { PurchaseOrder } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      <PackageCheck className="w-4 h-4 mr-2" />
+      {pending ? "Receiving..." : "Receive Goods"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+// Books one delivery against a sent purchase order. Quantities default to everything
+// still outstanding; serialized materials need one serial number per unit received.
+export function ReceivePurchaseOrderForm({ po }: { po: PurchaseOrder }) {
+  const { materials } = useMaterials();
+  const { toast } = useToast();
+  const [state, formAction] = useActionState(receivePurchaseOrderAction, initialState);
+  const outstanding = (l: PurchaseOrder["lines"][number]) => Math.max(0, l.quantity - (l.receivedQty || 0));
+  const defaults = () => Object.fromEntries(po.lines.map(l => [l.materialId, String(outstanding(l))]));
+  const [quantities, setQuantities] = useState<Record<string, string>>(defaults);
+  const [formKey, setFormKey] = useState(0);
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setFormKey(k => k + 1);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  // The page re-renders with the updated order after a receipt; start from its new outstanding quantities.
+  useEffect(() => {
+    setQuantities(defaults());
+  }, [po]);
+
+  const serialized = useMemo(() => new Set(materials.filter(m => m.serialized).map(m => m.id)), [materials]);
+  const openLines = po.lines.filter(l => outstanding(l) > 0);
+  const anyQuantity = openLines.some(l => (Number(quantities[l.materialId]) || 0) > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Receive Goods</CardTitle>
+        <CardDescription>Stock is increased at the order price and recorded against {po.poNumber}.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form key={formKey} action={formAction} className="space-y-4">
+          <input type="hidden" name="purchaseOrderId" value={po.id} />
+          <div className="w-full overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material</TableHead>
+                  <TableHead className="text-center">Outstanding</TableHead>
+                  <TableHead className="text-center w-[140px]">Receiving Now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openLines.map(line => {
+                  const qty = Number(quantities[line.materialId]) || 0;
+                  return (
+                    <Fragment key={line.materialId}>
+                      <TableRow>
+                        <TableCell className="font-medium">{line.materialName}</TableCell>
+                        <TableCell className="text-center">{formatQty(outstanding(line), line.unit)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            name={`receive-${line.materialId}`}
+                            min={0}
+                            max={outstanding(line)}
+                            step={1}
+                            inputMode="numeric"
+                            className="text-center"
+                            value={quantities[line.materialId] ?? ""}
+                            onChange={(e) => setQuantities(prev => ({ ...prev, [line.materialId]: e.target.value }))}
+                          />
+                        </TableCell>
+                      </TableRow>
+                      {serialized.has(line.materialId) && qty > 0 && (
+                        <TableRow>
+                          <TableCell colSpan={3}>
+                            <Textarea
+                              name={`serials-${line.materialId}`}
+                              placeholder={`${qty} serial number(s) for ${line.materialName}, one per line or comma separated`}
+                              required
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex justify-end">
+            <SubmitButton disabled={!anyQuantity} />
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { saveSupplierAction } from "@/app/purchase-actions";
+import type { Supplier } from "@/lib/types";
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Saving..." : "Save Supplier"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+// Adds a new supplier, or edits the contact details of 'supplier'.
+export function SupplierFormDialog({ supplier, trigger }: { supplier?: Supplier; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [state, formAction] = useActionState(saveSupplierAction, initialState);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">{supplier ? `Edit ${supplier.name}` : "Add Supplier"}</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          {supplier && <input type="hidden" name="supplierId" value={supplier.id} />}
+          <div className="space-y-2">
+            <Label htmlFor="supplier-name">Name</Label>
+            <Input id="supplier-name" name="name" defaultValue={supplier?.name} required />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact">Contact Person</Label>
+              <Input id="supplier-contact" name="contactName" defaultValue={supplier?.contactName} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-phone">Phone</Label>
+              <Input id="supplier-phone" name="phone" defaultValue={supplier?.phone} />
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input id="supplier-email" name="email" type="email" defaultValue={supplier?.email} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-gstin">GSTIN</Label>
+              <Input
+                id="supplier-gstin"
+                name="gstin"
+                maxLength={15}
+                defaultValue={supplier?.gstin}
+                onInput={(e) => {
+                  const target = e.target as HTMLInputElement;
+                  target.value = target.value.toUpperCase();
+                }}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-address">Address</Label>
+            <Textarea id="supplier-address" name="address" defaultValue={supplier?.address} />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
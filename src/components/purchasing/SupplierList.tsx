@@ -0,0 +1,85 @@
+"use client";
+
+import { Factory, Pencil, PlusCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOwner } from "@/hooks/use-owner";
+import { SupplierFormDialog } from "@/components/purchasing/SupplierFormDialog";
+import { SupplierPriceListDialog } from "@/components/purchasing/SupplierPriceListDialog";
+import type { Supplier } from "@/lib/types";
+
+export function SupplierList({ suppliers }: { suppliers: Supplier[] }) {
+  const isOwner = useOwner();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Factory className="w-6 h-6" />
+          <CardTitle className="font-headline">Suppliers</CardTitle>
+        </div>
+        {isOwner && (
+          <SupplierFormDialog
+            trigger={
+              <Button>
+                <PlusCircle className="w-4 h-4 mr-2" />
+                Add Supplier
+              </Button>
+            }
+          />
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>GSTIN</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No suppliers added yet.</TableCell>
+                </TableRow>
+              ) : (
+                suppliers.map(s => (
+                  <TableRow key={s.id}>
+                    <TableCell className="font-medium">
+                      {s.name}
+                      {s.address && <p className="text-xs text-muted-foreground">{s.address}</p>}
+                    </TableCell>
+                    <TableCell>
+                      {[s.contactName, s.phone, s.email].filter(Boolean).join(" · ") || "-"}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{s.gstin || "-"}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap space-x-2">
+                      {isOwner && (
+                        <>
+                          <SupplierPriceListDialog supplier={s} />
+                          <SupplierFormDialog
+                            supplier={s}
+                            trigger={
+                              <Button variant="ghost" size="icon">
+                                <Pencil className="w-4 h-4" />
+                                <span className="sr-only">Edit supplier</span>
+                              </Button>
+                            }
+                          />
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
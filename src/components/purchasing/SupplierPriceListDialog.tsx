@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMaterials } from "@/hooks/use-materials";
+import { useToast } from "@/hooks/use-toast";
+import { saveSupplierPricesAction } from "@/app/purchase-actions";
+import type { Supplier } from "@/lib/types";
+
+// The prices a supplier quotes per material. They pre-fill purchase orders placed with
+// this supplier; leave a material empty if the supplier does not sell it.
+export function SupplierPriceListDialog({ supplier }: { supplier: Supplier }) {
+  const { materials } = useMaterials();
+  const [open, setOpen] = useState(false);
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const onOpenChange = (next: boolean) => {
+    if (next) {
+      setPrices(Object.fromEntries(supplier.priceList.map(p => [p.materialId, String(p.unitPrice)])));
+    }
+    setOpen(next);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    const result = await saveSupplierPricesAction(
+      supplier.id,
+      Object.entries(prices).map(([materialId, unitPrice]) => ({ materialId, unitPrice: Number(unitPrice) || 0 }))
+    );
+    setSaving(false);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => onOpenChange(true)}>
+        <Tags className="w-4 h-4 mr-2" />
+        Price List ({supplier.priceList.length})
+      </Button>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-headline">Price List - {supplier.name}</DialogTitle>
+            <DialogDescription>Base price per unit before GST.</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material</TableHead>
+                  <TableHead className="text-right">Our Price</TableHead>
+                  <TableHead className="text-center">Supplier Price</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {materials.map(m => (
+                  <TableRow key={m.id}>
+                    <TableCell className="font-medium">{m.name}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{(m.price ?? 0).toFixed(2)}</TableCell>
+                    <TableCell className="text-center">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        inputMode="decimal"
+                        className="w-28 mx-auto text-center"
+                        value={prices[m.id] ?? ""}
+                        onChange={(e) => setPrices(prev => ({ ...prev, [m.id]: e.target.value }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={save} disabled={saving}>{saving ? "Saving..." : "Save Prices"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useMaterials } from "@/hooks/use-materials";
+import { useLocations } from "@/hooks/use-locations";
+import { useToast } from "@/hooks/use-toast";
+import { dispatchReservationAction } from "@/app/reservation-actions";
+import { SerialPicker } from "@/components/materials/SerialPicker";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import { formatQty } from "@/lib/units";
+import type { ClientMaterialEntry, Reservation } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      <Truck className="w-4 h-4 mr-2" />
+      {pending ? "Dispatching..." : "Create Challan"}
+    </Button>
+  );
+}
+
+const initialState = {
+  success: false,
+  message: null as string | null,
+  submissionId: 0,
+  challan: null as ClientMaterialEntry | null,
+};
+
+// Turns a reservation into a dispatch challan in one step. Serialized materials still
+// need their exact units picked; everything else goes out as reserved.
+export function DispatchReservationDialog({ reservation, trigger }: { reservation: Reservation; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [serials, setSerials] = useState<Record<string, string[]>>({});
+  const [state, formAction] = useActionState(dispatchReservationAction, initialState);
+  const [locationId, setLocationId] = useState("");
+  const { materials } = useMaterials();
+  const { locations } = useLocations();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const isSerialized = (materialId: string) => materials.find(m => m.id === materialId)?.serialized === true;
+  const missingSerials = reservation.lines.some(l => isSerialized(l.materialId) && (serials[l.materialId]?.length ?? 0) !== l.quantity);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Dispatch Reservation</DialogTitle>
+          <DialogDescription>Creates a challan for {reservation.clientName ?? "the client"} with the reserved quantities and closes the reservation.</DialogDescription>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="reservationId" value={reservation.id} />
+          <input type="hidden" name="serials" value={JSON.stringify(serials)} />
+          <input type="hidden" name="locationId" value={locationId} />
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor={`location-${reservation.id}`}>Dispatch From</Label>
+              <LocationSelect id={`location-${reservation.id}`} locations={locations} value={locationId} onChange={setLocationId} />
+            </div>
+          )}
+          <div className="space-y-3">
+            {reservation.lines.map(line => (
+              <div key={line.materialId} className="border rounded-lg p-3 space-y-2">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="font-medium break-words">{line.materialName}</span>
+                  <span className="whitespace-nowrap">{formatQty(line.quantity, line.unit)}</span>
+                </div>
+                {isSerialized(line.materialId) && (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      Pick {line.quantity} serial number(s), {serials[line.materialId]?.length ?? 0} picked.
+                    </p>
+                    <SerialPicker
+                      materialId={line.materialId}
+                      status="in_stock"
+                      value={serials[line.materialId] ?? []}
+                      onChange={(picked) => setSerials(prev => ({ ...prev, [line.materialId]: picked }))}
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`vehicle-${reservation.id}`}>Vehicle No.</Label>
+              <Input id={`vehicle-${reservation.id}`} name="vehicleNo" placeholder="e.g. MH12AB1234" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`driver-${reservation.id}`}>Driver</Label>
+              <Input id={`driver-${reservation.id}`} name="driverName" placeholder="Driver name" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`remarks-${reservation.id}`}>Remarks</Label>
+            <Textarea id={`remarks-${reservation.id}`} name="remarks" defaultValue={reservation.note} placeholder="Optional notes printed on the challan" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton disabled={missingSerials} />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
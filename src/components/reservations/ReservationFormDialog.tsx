@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect, useActionState, useMemo } from "react";
+import { useFormStatus } from "react-dom";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMaterials } from "@/hooks/use-materials";
+import { useToast } from "@/hooks/use-toast";
+import { createReservationAction } from "@/app/reservation-actions";
+import { ProjectSelect } from "@/components/projects/ProjectSelect";
+import { availableOf } from "@/lib/reorder";
+import { baseUnitOf, formatQty } from "@/lib/units";
+import type { Project } from "@/lib/types";
+
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? "Reserving..." : "Reserve Stock"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0 };
+
+// Hold period the form suggests; the storekeeper can pick any future date.
+const DEFAULT_HOLD_DAYS = 14;
+
+type Line = { key: number; materialId: string; quantity: string };
+
+let nextLineKey = 1;
+const emptyLine = (): Line => ({ key: nextLineKey++, materialId: "", quantity: "" });
+
+const dateInput = (daysAhead: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() + daysAhead);
+  return d.toISOString().slice(0, 10);
+};
+
+// Sets stock aside for one of the client's upcoming jobs.
+export function ReservationFormDialog({ clientId, projects = [], trigger }: { clientId: string; projects?: Project[]; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [lines, setLines] = useState<Line[]>(() => [emptyLine()]);
+  const [projectId, setProjectId] = useState("");
+  const [state, formAction] = useActionState(createReservationAction, initialState);
+  const { materials } = useMaterials();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+      setLines([emptyLine()]);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  const materialsById = useMemo(() => new Map(materials.map(m => [m.id, m])), [materials]);
+  const updateLine = (key: number, patch: Partial<Line>) => {
+    setLines(prev => prev.map(l => (l.key === key ? { ...l, ...patch } : l)));
+  };
+
+  const items = lines
+    .filter(l => l.materialId)
+    .map(l => ({ materialId: l.materialId, quantity: Number(l.quantity) || 0 }));
+  const overAvailable = items.some(i => {
+    const m = materialsById.get(i.materialId);
+    return m ? i.quantity > availableOf(m) : false;
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Reserve Stock</DialogTitle>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="clientId" value={clientId} />
+          <input type="hidden" name="projectId" value={projectId} />
+          <input type="hidden" name="items" value={JSON.stringify(items)} />
+          {projects.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="reservation-project">Project / Site</Label>
+              <ProjectSelect id="reservation-project" projects={projects} value={projectId} onChange={setProjectId} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Materials</Label>
+            {lines.map(line => {
+              const material = materialsById.get(line.materialId);
+              const taken = new Set(lines.filter(l => l.key !== line.key).map(l => l.materialId));
+              return (
+                <div key={line.key} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Select value={line.materialId} onValueChange={(v) => updateLine(line.key, { materialId: v })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select material" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {materials.filter(m => !taken.has(m.id)).map(m => (
+                          <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      inputMode="numeric"
+                      className="w-24 text-center"
+                      placeholder="Qty"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={lines.length === 1}
+                      onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span className="sr-only">Remove line</span>
+                    </Button>
+                  </div>
+                  {material && (
+                    <p className={`text-xs ${(Number(line.quantity) || 0) > availableOf(material) ? "text-destructive" : "text-muted-foreground"}`}>
+                      Available: {formatQty(availableOf(material), baseUnitOf(material))}
+                      {(material.reserved ?? 0) > 0 && ` (on hand ${material.quantity}, ${material.reserved} reserved)`}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="reservation-scheduled">Installation Date</Label>
+              <Input id="reservation-scheduled" name="scheduledFor" type="date" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation-expires">Hold Until</Label>
+              <Input id="reservation-expires" name="expiresAt" type="date" min={dateInput(0)} defaultValue={dateInput(DEFAULT_HOLD_DAYS)} required />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reservation-note">Note</Label>
+            <Textarea id="reservation-note" name="note" placeholder="Optional" className="min-h-[40px]" />
+          </div>
+          {overAvailable && (
+            <p className="text-sm text-destructive">One or more quantities exceed the available stock.</p>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton disabled={items.length === 0 || items.some(i => i.quantity < 1) || overAvailable} />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
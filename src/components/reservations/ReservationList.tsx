@@ -0,0 +1,155 @@
+"use client";
+
+import Link from "next/link";
+import { CalendarClock, Plus, Truck, Undo2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useHasRole } from "@/hooks/use-session";
+import { useToast } from "@/hooks/use-toast";
+import { releaseReservationAction } from "@/app/reservation-actions";
+import { ReservationFormDialog } from "@/components/reservations/ReservationFormDialog";
+import { DispatchReservationDialog } from "@/components/reservations/DispatchReservationDialog";
+import { ReservationStatusBadge } from "@/components/reservations/ReservationStatusBadge";
+import { formatQty } from "@/lib/units";
+import type { Project, Reservation } from "@/lib/types";
+
+const formatDate = (value?: Date | string) => (value ? new Date(value).toLocaleDateString() : null);
+
+type Props = {
+  active: Reservation[];
+  closed: Reservation[];
+  clientId?: string;      // Set on a client's page: allows new reservations and hides client names.
+  projects?: Project[];
+};
+
+// Stock set aside for upcoming jobs, with dispatch and release for active reservations
+// and the most recently closed ones below.
+export function ReservationList({ active, closed, clientId, projects = [] }: Props) {
+  const canEdit = useHasRole("storekeeper");
+  const { toast } = useToast();
+
+  const release = async (reservation: Reservation) => {
+    const result = await releaseReservationAction(reservation.id);
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+  };
+
+  const projectName = (projectId?: string) => projects.find(p => p.id === projectId)?.name;
+
+  const renderReservation = (reservation: Reservation) => {
+    const isActive = reservation.status === "active";
+    const site = projectName(reservation.projectId);
+    return (
+      <div key={reservation.id} className="border rounded-lg p-3 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            {!clientId && (
+              <Link href={`/client-material/${reservation.clientId}`} className="font-semibold hover:underline break-words">
+                {reservation.clientName ?? "Client"}
+              </Link>
+            )}
+            {site && <p className="text-sm text-muted-foreground">{site}</p>}
+            <p className="text-xs text-muted-foreground">
+              {reservation.scheduledFor && `Install ${formatDate(reservation.scheduledFor)} · `}
+              {isActive ? `Held until ${formatDate(reservation.expiresAt)}` : `Closed ${formatDate(reservation.closedAt) ?? "-"}`}
+              {reservation.challanNo && ` · Challan ${reservation.challanNo}`}
+            </p>
+          </div>
+          <ReservationStatusBadge status={reservation.status} />
+        </div>
+        <ul className="text-sm space-y-1">
+          {reservation.lines.map(l => (
+            <li key={l.materialId} className="flex justify-between gap-2">
+              <span className="break-words">{l.materialName}</span>
+              <span className="text-muted-foreground whitespace-nowrap">{formatQty(l.quantity, l.unit)}</span>
+            </li>
+          ))}
+        </ul>
+        {reservation.note && <p className="text-sm text-muted-foreground break-words">{reservation.note}</p>}
+        {isActive && canEdit && (
+          <div className="flex gap-2">
+            <DispatchReservationDialog
+              reservation={reservation}
+              trigger={
+                <Button size="sm">
+                  <Truck className="w-4 h-4 mr-2" />
+                  Dispatch
+                </Button>
+              }
+            />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Release
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle className="font-headline">Release this reservation?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The reserved stock becomes available to other jobs again. Nothing leaves the warehouse.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => release(reservation)}>Release</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-6 h-6" />
+          <CardTitle className="font-headline">Reservations</CardTitle>
+        </div>
+        {clientId && canEdit && (
+          <ReservationFormDialog
+            clientId={clientId}
+            projects={projects}
+            trigger={
+              <Button variant="outline" size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Reserve Stock
+              </Button>
+            }
+          />
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {active.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No active reservations. Reserve stock for a scheduled installation so it is not used for other jobs.
+          </p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">{active.map(renderReservation)}</div>
+        )}
+        {closed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-muted-foreground">Recently closed</p>
+            <div className="grid gap-3 sm:grid-cols-2">{closed.map(renderReservation)}</div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+import type { ReservationStatus } from "@/lib/types";
+
+export const RESERVATION_STATUS: Record<ReservationStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  active: { label: "Reserved", variant: "default" },
+  dispatched: { label: "Dispatched", variant: "secondary" },
+  released: { label: "Released", variant: "outline" },
+  expired: { label: "Expired", variant: "destructive" },
+};
+
+export function ReservationStatusBadge({ status }: { status: ReservationStatus }) {
+  const { label, variant } = RESERVATION_STATUS[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={variant}>{label}</Badge>;
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Barcode, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { SerialNumberStatus, StockMovementKind } from "@/lib/types";
+
+type LookupResult = {
+  serial: string;
+  unit: {
+    materialName: string;
+    status: SerialNumberStatus;
+    clientId?: string;
+    clientName?: string;
+    receivedAt: string;
+  } | null;
+  history: {
+    id: string;
+    date: string;
+    kind: StockMovementKind;
+    materialName?: string;
+    reason?: string;
+    clientId?: string;
+    clientName?: string;
+    userName?: string;
+  }[];
+};
+
+const STATUS_LABELS: Record<SerialNumberStatus, string> = {
+  in_stock: "In stock",
+  issued: "With client",
+  removed: "Removed from stock",
+};
+
+const KIND_LABELS: Partial<Record<StockMovementKind, string>> = {
+  opening: "Opening stock",
+  fill: "Received (stock fill)",
+  po_receipt: "Received (purchase order)",
+  in: "Stock in",
+  out: "Stock out",
+  client_out: "Dispatched to client",
+  client_in: "Returned by client",
+};
+
+export function SerialLookup({ initialSerial }: { initialSerial: string }) {
+  const [query, setQuery] = useState(initialSerial);
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const lookup = async (serial: string) => {
+    const value = serial.trim();
+    if (!value) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/serials/${encodeURIComponent(value)}`);
+      setResult(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error("Error looking up serial number:", error);
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (initialSerial) lookup(initialSerial);
+  }, [initialSerial]);
+
+  const found = result && (result.unit || result.history.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Barcode className="w-6 h-6" />
+          <CardTitle className="font-headline">Serial Number Lookup</CardTitle>
+        </div>
+        <CardDescription>Find where a panel, inverter or other serialized unit is and how it got there.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="flex gap-2 w-full sm:max-w-md"
+          onSubmit={(e) => { e.preventDefault(); lookup(query); }}
+        >
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input placeholder="Enter serial number..." value={query} onChange={(e) => setQuery(e.target.value)} className="pl-10" />
+          </div>
+          <Button type="submit" disabled={loading || !query.trim()}>{loading ? "Searching..." : "Search"}</Button>
+        </form>
+
+        {result && !found && (
+          <Alert>
+            <Barcode className="h-4 w-4" />
+            <AlertTitle>Not Found</AlertTitle>
+            <AlertDescription>No record of serial number {result.serial}.</AlertDescription>
+          </Alert>
+        )}
+
+        {result && found && (
+          <div className="space-y-4">
+            {result.unit && (
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-mono font-semibold">{result.serial}</span>
+                <span>{result.unit.materialName}</span>
+                <Badge variant={result.unit.status === "in_stock" ? "secondary" : "default"}>{STATUS_LABELS[result.unit.status]}</Badge>
+                {result.unit.status === "issued" && result.unit.clientId && (
+                  <Link href={`/client-material/${result.unit.clientId}`} className="text-sm underline">
+                    {result.unit.clientName || "View client"}
+                  </Link>
+                )}
+              </div>
+            )}
+            <div className="w-full overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.history.map(h => (
+                    <TableRow key={h.id}>
+                      <TableCell>{new Date(h.date).toLocaleString()}</TableCell>
+                      <TableCell>{KIND_LABELS[h.kind] ?? h.kind}</TableCell>
+                      <TableCell>
+                        {h.clientId ? (
+                          <Link href={`/client-material/${h.clientId}`} className="underline">{h.clientName || h.clientId}</Link>
+                        ) : "-"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{h.reason || "-"}</TableCell>
+                      <TableCell className="text-muted-foreground">{h.userName || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useEffect, useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { startStockCountAction } from "@/app/stock-count-actions";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import type { StockLocation } from "@/lib/types";
+
+const ALL_CATEGORIES = "__all__";
+const CATEGORIES = ["Fabrication", "Wiring", "Other"];
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? "Starting..." : "Start Count"}
+    </Button>
+  );
+}
+
+const initialState = { success: false, message: null as string | null, submissionId: 0, countId: null as string | null };
+
+// Freezes today's system quantities at a location and opens the count sheet.
+export function StartStockCountDialog({ locations, trigger }: { locations: StockLocation[]; trigger: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [locationId, setLocationId] = useState("");
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [state, formAction] = useActionState(startStockCountAction, initialState);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!state.message) return;
+    if (state.success && state.countId) {
+      toast({ title: "Success", description: state.message });
+      setOpen(false);
+      router.push(`/stock-counts/${state.countId}`);
+    } else if (!state.success) {
+      toast({ variant: "destructive", title: "Error", description: state.message });
+    }
+  }, [state.submissionId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Start Stock Count</DialogTitle>
+          <DialogDescription>
+            System quantities are frozen now. Serialized materials are not included; correct them with In/Out.
+          </DialogDescription>
+        </DialogHeader>
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="locationId" value={locationId} />
+          <input type="hidden" name="category" value={category === ALL_CATEGORIES ? "" : category} />
+          <div className="grid gap-4 sm:grid-cols-2">
+            {locations.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="count-location">Location</Label>
+                <LocationSelect id="count-location" locations={locations} value={locationId} onChange={setLocationId} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="count-category">Materials</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="count-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {CATEGORIES.map(c => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="count-note">Note</Label>
+            <Textarea id="count-note" name="note" placeholder="Optional, e.g. year-end stock take" className="min-h-[40px]" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <SubmitButton />
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
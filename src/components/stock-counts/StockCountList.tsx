@@ -0,0 +1,91 @@
+"use client";
+
+import Link from "next/link";
+import { ClipboardCheck, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useHasRole } from "@/hooks/use-session";
+import { StartStockCountDialog } from "@/components/stock-counts/StartStockCountDialog";
+import { StockCountStatusBadge } from "@/components/stock-counts/StockCountStatusBadge";
+import type { StockCount, StockLocation } from "@/lib/types";
+
+type Props = {
+  open: StockCount[];
+  closed: StockCount[];
+  locations: StockLocation[];
+};
+
+// Open count sheets and the most recently posted or cancelled ones.
+export function StockCountList({ open, closed, locations }: Props) {
+  const canCount = useHasRole("storekeeper");
+  const counts = [...open, ...closed];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-6 h-6" />
+          <CardTitle className="font-headline">Stock Counts</CardTitle>
+        </div>
+        {canCount && (
+          <StartStockCountDialog
+            locations={locations}
+            trigger={
+              <Button size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Start Count
+              </Button>
+            }
+          />
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Count No</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead className="text-center">Counted</TableHead>
+                <TableHead className="text-center">Variances</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {counts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No stock counts yet. Start one to check the shelves against the system.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                counts.map(count => {
+                  const counted = count.lines.filter(l => l.countedQty !== undefined);
+                  const variances = counted.filter(l => l.countedQty !== l.systemQty).length;
+                  return (
+                    <TableRow key={count.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/stock-counts/${count.id}`} className="hover:underline">{count.countNo}</Link>
+                        {count.note && <p className="text-xs text-muted-foreground font-normal">{count.note}</p>}
+                      </TableCell>
+                      <TableCell>{count.locationName}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(count.createdAt).toLocaleDateString()}
+                        {count.createdBy ? ` · ${count.createdBy}` : ""}
+                      </TableCell>
+                      <TableCell className="text-center">{counted.length} / {count.lines.length}</TableCell>
+                      <TableCell className="text-center">{variances}</TableCell>
+                      <TableCell><StockCountStatusBadge status={count.status} /></TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
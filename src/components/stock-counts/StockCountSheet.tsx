@@ -0,0 +1,291 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CheckCheck, Save, Search, XCircle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOwner } from "@/hooks/use-owner";
+import { useHasRole } from "@/hooks/use-session";
+import { useToast } from "@/hooks/use-toast";
+import { cancelStockCountAction, postStockCountAction, saveStockCountsAction } from "@/app/stock-count-actions";
+import { StockCountStatusBadge } from "@/components/stock-counts/StockCountStatusBadge";
+import { formatQty } from "@/lib/units";
+import type { StockCount, StockCountLine } from "@/lib/types";
+
+const ALL_CATEGORIES = "__all__";
+
+function formatSigned(value: number, digits = 0) {
+  const text = value.toFixed(digits);
+  return value > 0 ? `+${text}` : text;
+}
+
+// The count sheet. Counters type what they find and save; the variance against the
+// frozen system quantity and its value at the current price show as they go. Owners
+// untick variances they do not trust and post the rest to the stock ledger.
+export function StockCountSheet({ count }: { count: StockCount }) {
+  const isOwner = useOwner();
+  const canCount = useHasRole("storekeeper");
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [searchTerm, setSearchTerm] = useState("");
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const isOpen = count.status === "open";
+  const categories = useMemo(() => Array.from(new Set(count.lines.map(l => l.category || "Other"))), [count.lines]);
+
+  const countedOf = (line: StockCountLine) => {
+    const draft = drafts[line.materialId];
+    if (draft === undefined) return line.countedQty;
+    return draft === "" ? undefined : Number(draft);
+  };
+  const varianceOf = (line: StockCountLine) => {
+    const counted = countedOf(line);
+    return counted === undefined || Number.isNaN(counted) ? 0 : counted - line.systemQty;
+  };
+  // Saved variances the owner has not unticked; unsaved edits are never posted.
+  const isApproved = (line: StockCountLine) =>
+    isOpen ? line.countedQty !== undefined && line.countedQty !== line.systemQty && !excluded.has(line.materialId) : line.approved === true;
+
+  const visible = count.lines.filter(line =>
+    line.materialName.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (category === ALL_CATEGORIES || (line.category || "Other") === category) &&
+    (!uncountedOnly || countedOf(line) === undefined)
+  );
+
+  const counted = count.lines.filter(l => countedOf(l) !== undefined).length;
+  const valueOf = (line: StockCountLine) => varianceOf(line) * (line.unitPrice ?? 0);
+  const gains = count.lines.reduce((s, l) => s + Math.max(0, valueOf(l)), 0);
+  const losses = count.lines.reduce((s, l) => s + Math.min(0, valueOf(l)), 0);
+  const approvedLines = count.lines.filter(isApproved);
+
+  const dirty = Object.keys(drafts).length > 0;
+  const invalidDraft = Object.values(drafts).some(v => v !== "" && (!Number.isInteger(Number(v)) || Number(v) < 0));
+
+  const run = async (action: () => Promise<{ success: boolean; message: string }>, after?: () => void) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+    if (result.success) after?.();
+  };
+
+  const save = () => run(
+    () => saveStockCountsAction(count.id, Object.fromEntries(Object.entries(drafts).map(([id, v]) => [id, v === "" ? null : Number(v)]))),
+    () => setDrafts({})
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <CardTitle className="font-headline">{count.countNo} · {count.locationName}</CardTitle>
+            <StockCountStatusBadge status={count.status} />
+          </div>
+          <CardDescription>
+            Started {new Date(count.createdAt).toLocaleString()}
+            {count.createdBy ? ` by ${count.createdBy}` : ""}
+            {count.closedAt ? ` · ${count.status} ${new Date(count.closedAt).toLocaleDateString()}` : ""}
+            {count.closedBy ? ` by ${count.closedBy}` : ""}
+          </CardDescription>
+          {count.note && <p className="text-sm text-muted-foreground">{count.note}</p>}
+        </div>
+        {isOpen && (
+          <div className="flex flex-wrap gap-2">
+            {canCount && (
+              <Button variant="outline" disabled={busy || !dirty || invalidDraft} onClick={save}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Counts
+              </Button>
+            )}
+            {isOwner && (
+              <>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" disabled={busy}>
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Cancel Count
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle className="font-headline">Cancel {count.countNo}?</AlertDialogTitle>
+                      <AlertDialogDescription>The counts are kept for reference but no stock is adjusted.</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep Counting</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => run(() => cancelStockCountAction(count.id))}>Cancel Count</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={busy || dirty}>
+                      <CheckCheck className="w-4 h-4 mr-2" />
+                      Post Variances
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle className="font-headline">Post {count.countNo}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {approvedLines.length} approved variance(s) will be booked at {count.locationName} and the count closed.
+                        Uncounted and unticked lines are left as they are.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => run(() => postStockCountAction(count.id, approvedLines.map(l => l.materialId)))}>
+                        Post
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm border rounded-lg p-3 bg-muted/30">
+          <div className="flex justify-between sm:justify-start sm:gap-2">
+            <span className="font-medium">Counted</span>
+            <span>{counted} / {count.lines.length}</span>
+          </div>
+          <div className="flex justify-between sm:justify-start sm:gap-2">
+            <span className="font-medium">Surplus Value</span>
+            <span className="font-mono">{formatSigned(gains, 2)}</span>
+          </div>
+          <div className="flex justify-between sm:justify-start sm:gap-2">
+            <span className="font-medium">Shortage Value</span>
+            <span className="font-mono text-destructive">{losses.toFixed(2)}</span>
+          </div>
+        </div>
+        {isOpen && dirty && isOwner && (
+          <p className="text-sm text-muted-foreground">Save the counts before posting.</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input placeholder="Search materials..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-10" />
+          </div>
+          <div className="w-full sm:w-48">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map(c => (
+                  <SelectItem key={c} value={c}>{c}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isOpen && (
+            <div className="flex items-center gap-2">
+              <Switch id="uncounted-only" checked={uncountedOnly} onCheckedChange={setUncountedOnly} />
+              <Label htmlFor="uncounted-only">Uncounted only</Label>
+            </div>
+          )}
+        </div>
+
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[180px]">Material</TableHead>
+                <TableHead className="text-center">System</TableHead>
+                <TableHead className="text-center w-[120px]">Counted</TableHead>
+                <TableHead className="text-center">Variance</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Counted By</TableHead>
+                <TableHead className="text-center">{isOpen ? "Approve" : "Booked"}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">No lines match.</TableCell>
+                </TableRow>
+              ) : (
+                visible.map(line => {
+                  const variance = varianceOf(line);
+                  const draft = drafts[line.materialId];
+                  return (
+                    <TableRow key={line.materialId} className={variance !== 0 ? "bg-destructive/5" : ""}>
+                      <TableCell className="font-medium">
+                        {line.materialName}
+                        <p className="text-xs text-muted-foreground font-normal">{line.category || "Other"}</p>
+                      </TableCell>
+                      <TableCell className="text-center">{formatQty(line.systemQty, line.unit)}</TableCell>
+                      <TableCell className="text-center">
+                        {isOpen && canCount ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            step={1}
+                            inputMode="numeric"
+                            className={`w-24 text-center ${draft !== undefined ? "border-primary" : ""}`}
+                            value={draft ?? (line.countedQty ?? "")}
+                            onChange={(e) => setDrafts(prev => ({ ...prev, [line.materialId]: e.target.value }))}
+                          />
+                        ) : (
+                          line.countedQty !== undefined ? formatQty(line.countedQty, line.unit) : "-"
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-center font-semibold ${variance < 0 ? "text-destructive" : ""}`}>
+                        {countedOf(line) === undefined ? "-" : formatSigned(variance)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{variance === 0 ? "-" : formatSigned(valueOf(line), 2)}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{line.countedBy ?? "-"}</TableCell>
+                      <TableCell className="text-center">
+                        {isOpen ? (
+                          <Checkbox
+                            checked={isApproved(line)}
+                            disabled={!isOwner || line.countedQty === undefined || line.countedQty === line.systemQty}
+                            onCheckedChange={(checked) => setExcluded(prev => {
+                              const next = new Set(prev);
+                              if (checked) next.delete(line.materialId);
+                              else next.add(line.materialId);
+                              return next;
+                            })}
+                          />
+                        ) : (
+                          line.approved ? "Yes" : "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,13 @@
+import { Badge } from "@/components/ui/badge";
+import type { StockCountStatus } from "@/lib/types";
+
+const STATUS: Record<StockCountStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  open: { label: "Counting", variant: "default" },
+  posted: { label: "Posted", variant: "secondary" },
+  cancelled: { label: "Cancelled", variant: "outline" },
+};
+
+export function StockCountStatusBadge({ status }: { status: StockCountStatus }) {
+  const { label, variant } = STATUS[status] ?? { label: status, variant: "outline" };
+  return <Badge variant={variant}>{label}</Badge>;
+}
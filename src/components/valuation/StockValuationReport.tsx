@@ -0,0 +1,175 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useRouter } from "next/navigation";
+import autoTable from "jspdf-autotable";
+import { Coins, FileDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { saveCostingMethodAction } from "@/app/valuation-actions";
+import { createClientPdf, addPageNumbers, afterLastTable, pdfFileName, PDF_MARGIN_X, PDF_TABLE_STYLES } from "@/lib/pdf";
+import { formatQty } from "@/lib/units";
+import type { CostingMethod, StockValuationRow } from "@/lib/types";
+
+export const COSTING_METHODS: Record<CostingMethod, string> = {
+  weighted_average: "Weighted average",
+  fifo: "FIFO (first in, first out)",
+};
+
+const CATEGORIES = ["Fabrication", "Wiring", "Other"];
+
+type Props = {
+  asOf: string | null;           // YYYY-MM-DD; null for now.
+  method: CostingMethod;         // Method this report was computed with.
+  savedMethod: CostingMethod;    // Method used everywhere else.
+  rows: StockValuationRow[];
+  total: number;
+};
+
+// Closing stock at purchase cost. Pick a date to see the valuation as it stood at the
+// end of that day, or try the other costing method before making it the default.
+export function StockValuationReport({ asOf, method, savedMethod, rows, total }: Props) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+
+  const show = (next: { asOf?: string | null; method?: CostingMethod }) => {
+    const params = new URLSearchParams();
+    const day = next.asOf === undefined ? asOf : next.asOf;
+    if (day) params.set("asOf", day);
+    const m = next.method ?? method;
+    if (m !== savedMethod) params.set("method", m);
+    const query = params.toString();
+    router.push(`/valuation${query ? `?${query}` : ""}`);
+  };
+
+  const makeDefault = async () => {
+    setBusy(true);
+    const result = await saveCostingMethodAction(method);
+    setBusy(false);
+    toast(result.success
+      ? { title: "Success", description: result.message }
+      : { variant: "destructive", title: "Error", description: result.message });
+  };
+
+  const byCategory = CATEGORIES
+    .map(category => ({ category, rows: rows.filter(r => (CATEGORIES.includes(r.category ?? "") ? r.category : "Other") === category) }))
+    .filter(g => g.rows.length > 0);
+  const label = asOf ? new Date(asOf).toLocaleDateString() : "today";
+
+  const downloadPdf = () => {
+    const doc = createClientPdf("Stock Valuation");
+    doc.setFontSize(10);
+    doc.text(`As of ${label} · ${COSTING_METHODS[method]} · before GST`, PDF_MARGIN_X, 28);
+    autoTable(doc, {
+      head: [["Material", "Category", "Qty", "Unit Cost", "Value"]],
+      body: [
+        ...rows.map(r => [r.materialName, r.category ?? "Other", formatQty(r.quantity, r.unit), r.unitCost.toFixed(2), r.value.toFixed(2)]),
+        [{ content: "Total", colSpan: 4, styles: { fontStyle: "bold", halign: "right" } }, { content: total.toFixed(2), styles: { fontStyle: "bold" } }],
+      ],
+      startY: 34,
+      ...PDF_TABLE_STYLES,
+      columnStyles: { 2: { halign: "center" }, 3: { halign: "right" }, 4: { halign: "right" } },
+    });
+    afterLastTable(doc);
+    addPageNumbers(doc);
+    doc.save(pdfFileName("stock-valuation", asOf ?? new Date().toISOString().slice(0, 10)));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Coins className="w-6 h-6" />
+            <CardTitle className="font-headline">Stock Valuation</CardTitle>
+          </div>
+          <CardDescription>
+            Stock on hand at purchase cost (before GST) as of the end of {label}, costed by {COSTING_METHODS[method].toLowerCase()}.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={downloadPdf} disabled={rows.length === 0}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Download PDF
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="valuation-date">As of</Label>
+            <Input
+              id="valuation-date"
+              type="date"
+              className="w-full sm:w-44"
+              max={new Date().toISOString().slice(0, 10)}
+              value={asOf ?? ""}
+              onChange={(e) => show({ asOf: e.target.value || null })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="valuation-method">Costing Method</Label>
+            <Select value={method} onValueChange={(v) => show({ method: v as CostingMethod })}>
+              <SelectTrigger id="valuation-method" className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COSTING_METHODS).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>{name}{value === savedMethod ? " (default)" : ""}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {method !== savedMethod && (
+            <Button variant="outline" disabled={busy} onClick={makeDefault}>Make Default</Button>
+          )}
+        </div>
+
+        <div className="w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Material</TableHead>
+                <TableHead className="text-center">Qty</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {byCategory.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No stock on hand on this date.</TableCell>
+                </TableRow>
+              ) : (
+                byCategory.map(group => (
+                  <Fragment key={group.category}>
+                    <TableRow className="bg-muted/30">
+                      <TableCell colSpan={3} className="font-semibold">{group.category}</TableCell>
+                      <TableCell className="text-right font-semibold">{group.rows.reduce((s, r) => s + r.value, 0).toFixed(2)}</TableCell>
+                    </TableRow>
+                    {group.rows.map(r => (
+                      <TableRow key={r.materialId}>
+                        <TableCell className="font-medium">{r.materialName}</TableCell>
+                        <TableCell className="text-center">{formatQty(r.quantity, r.unit)}</TableCell>
+                        <TableCell className="text-right">{r.unitCost.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{r.value.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))
+              )}
+              <TableRow>
+                <TableCell colSpan={3} className="text-right font-bold">Closing Stock Value</TableCell>
+                <TableCell className="text-right font-bold">{total.toFixed(2)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,35 +1,33 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { usePagedList } from "@/hooks/use-paged-list";
 import type { Client } from "@/lib/types";
 
-export function useClients() {
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
+export type ClientListParams = {
+  q?: string;
+  view?: "active" | "dues" | "archived" | "all";
+  sort?: "name" | "consumerNo" | "added";
+  order?: "asc" | "desc";
+  page: number;
+  pageSize?: number;
+};
 
-  useEffect(() => {
-    const fetchClients = async () => {
-      try {
-        const response = await fetch('/api/clients');
-        if (!response.ok) {
-          throw new Error('Failed to fetch clients');
-        }
-        const data = await response.json();
-        setClients(data);
-        setLoading(false);
-      } catch (error) {
-        console.error("Error fetching clients:", error);
-        setLoading(false);
-      }
-    };
-
-    fetchClients();
-    
-    // Poll for updates every 5 seconds
-    const interval = setInterval(fetchClients, 5000);
-    
-    return () => clearInterval(interval);
-  }, []);
+// One page of clients, searched and filtered on the server. Kept current by live updates,
+// polling every 5 seconds only while they are down.
+export function useClients(params: ClientListParams) {
+  const { page, items, loading } = usePagedList<Client>("/api/clients", params, {
+    topic: "clients",
+    pollMs: 5000,
+    refetchOn: clientRefetchFields(params),
+  });
+  return { clients: items, page, loading };
+}
 
-  return { clients, loading };
+// Fields whose change moves a client into, out of or within the page.
+function clientRefetchFields(params: ClientListParams) {
+  const fields: string[] = [];
+  if (params.sort !== "added") fields.push(params.sort ?? "name");
+  if (params.q) fields.push("name", "consumerNo");
+  if (params.view && params.view !== "all") fields.push("archived");
+  return fields;
 }
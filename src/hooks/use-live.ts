@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import type { LiveEvent, LiveTopic } from "@/lib/live";
+import { getLiveStatus, subscribeStatus, subscribeTopic, type LiveStatus } from "@/lib/live-client";
+
+// Events that arrive together (one action often writes several documents) cause one refetch.
+const REFETCH_DELAY_MS = 300;
+
+// Whether live updates are reaching this browser.
+export function useLiveStatus(): LiveStatus {
+  return useSyncExternalStore(subscribeStatus, getLiveStatus, () => "connecting");
+}
+
+type LiveOptions = {
+  // Applies an event to the data in hand; returning false refetches instead.
+  apply?: (event: LiveEvent) => boolean;
+  refetch: () => void;
+  // Polling interval while the live connection is down.
+  pollMs: number;
+};
+
+// Keeps a list hook's data current from the topic's live events. Polls only while the
+// connection is down, and refetches once when it comes back to catch up on what it missed.
+export function useLiveUpdates(topic: LiveTopic, { apply, refetch, pollMs }: LiveOptions) {
+  const status = useLiveStatus();
+  const handlers = useRef({ apply, refetch });
+  handlers.current = { apply, refetch };
+  const wasLive = useRef(true);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeTopic(topic, event => {
+      if (handlers.current.apply?.(event)) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => handlers.current.refetch(), REFETCH_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [topic]);
+
+  useEffect(() => {
+    if (status === "live") {
+      if (!wasLive.current) handlers.current.refetch();
+      wasLive.current = true;
+      return;
+    }
+    if (status !== "offline") return;
+    wasLive.current = false;
+    const interval = setInterval(() => handlers.current.refetch(), pollMs);
+    return () => clearInterval(interval);
+  }, [status, pollMs]);
+
+  return status;
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { StockLocation } from "@/lib/types";
+
+// Stock locations, default location first. They change rarely, so this loads once.
+export function useLocations() {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const response = await fetch('/api/locations');
+        if (!response.ok) {
+          throw new Error('Failed to fetch locations');
+        }
+        const data = await response.json();
+        setLocations(data);
+        setLoading(false);
+      } catch (error) {
+        console.error("Error fetching locations:", error);
+        setLoading(false);
+      }
+    };
+
+    fetchLocations();
+  }, []);
+
+  return { locations, loading };
+}
@@ -1,35 +1,84 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { usePagedList } from "@/hooks/use-paged-list";
+import { useLiveUpdates } from "@/hooks/use-live";
+import { applyFields } from "@/lib/live";
 import type { Material } from "@/lib/types";
 
+// Every material, for pickers and forms. Kept current by live updates, polling every
+// 1.5 seconds only while they are down, so availability reflects quickly.
 export function useMaterials() {
   const [materials, setMaterials] = useState<Material[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    const fetchMaterials = async () => {
-      try {
-        const response = await fetch('/api/materials');
-        if (!response.ok) {
-          throw new Error('Failed to fetch materials');
-        }
-        const data = await response.json();
-        setMaterials(data);
-        setLoading(false);
-      } catch (error) {
-        console.error("Error fetching materials:", error);
-        setLoading(false);
+  const fetchMaterials = useCallback(async () => {
+    try {
+      const response = await fetch('/api/materials');
+      if (!response.ok) {
+        throw new Error('Failed to fetch materials');
       }
-    };
+      const data = await response.json();
+      setMaterials(data);
+    } catch (error) {
+      console.error("Error fetching materials:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     fetchMaterials();
-    
-    // Poll for updates more frequently so availability reflects quickly
-    const interval = setInterval(fetchMaterials, 1500);
-    
-    return () => clearInterval(interval);
-  }, []);
+  }, [fetchMaterials]);
+
+  useLiveUpdates("materials", {
+    pollMs: 1500,
+    refetch: fetchMaterials,
+    // New materials and reservations need the server's view; edits and deletions do not.
+    apply: event => {
+      if (event.op === "update") {
+        setMaterials(prev => prev.map(m => (m.id === event.id ? applyFields(m, event.fields) : m)));
+        return true;
+      }
+      if (event.op === "delete") {
+        setMaterials(prev => prev.filter(m => m.id !== event.id));
+        return true;
+      }
+      return false;
+    },
+  });
 
   return { materials, loading };
 }
+
+export type MaterialListParams = {
+  q?: string;
+  category?: string;
+  locationId?: string;
+  sort?: "category" | "name" | "quantity";
+  order?: "asc" | "desc";
+  page: number;
+  pageSize?: number;
+};
+
+// One page of materials for the inventory, with the value of everything matching at
+// current prices. Pickers that need every material use 'useMaterials'.
+export function useMaterialPage(params: MaterialListParams) {
+  const { page, items, loading } = usePagedList<Material, { valueAtPrice: number }>("/api/materials", params, {
+    topic: "materials",
+    pollMs: 1500,
+    refetchOn: materialRefetchFields(params),
+  });
+  return { materials: items, page, loading };
+}
+
+// Fields whose change moves a material on the inventory page or changes its total value.
+function materialRefetchFields(params: MaterialListParams) {
+  const fields = ["quantity", "price", "pricePerPiece", "pricePerMeter", "rate", "gstPercent"];
+  const sort = params.sort ?? "category";
+  fields.push(...(sort === "category" ? ["category", "name"] : [sort]));
+  if (params.q) fields.push("name", "description");
+  if (params.category) fields.push("category");
+  if (params.locationId) fields.push("stockByLocation");
+  return fields;
+}
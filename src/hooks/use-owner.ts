@@ -1,14 +1,13 @@
 "use client";
 
-import { usePathname } from 'next/navigation';
+import { useHasRole } from '@/hooks/use-session';
 
 /**
- * A custom hook that determines if the user is in "owner" (admin) mode.
- * Admin mode is enabled if the current URL path contains '/admin'.
- * @returns {boolean} - True if the user is in owner mode, false otherwise.
+ * A custom hook that determines if the signed-in user is an owner (admin).
+ * It mirrors the role the server resolved from the session; owner-only
+ * actions are still authorized on the server.
+ * @returns {boolean} - True if the user has the owner role, false otherwise.
  */
 export function useOwner() {
-  const pathname = usePathname();
-  const isOwner = pathname.includes('/admin');
-  return isOwner;
+  return useHasRole('owner');
 }
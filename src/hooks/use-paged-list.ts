@@ -0,0 +1,75 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { listQuery, type Page } from "@/lib/paging";
+import { applyFields, type LiveTopic } from "@/lib/live";
+import { useLiveUpdates } from "@/hooks/use-live";
+
+type Params = Record<string, string | number | boolean | null | undefined>;
+
+type LiveListOptions = {
+  topic: LiveTopic;
+  // Polling interval while live updates are down.
+  pollMs: number;
+  // Fields whose change can move an item into, out of or within the page (the sort key,
+  // filtered fields) or change the route's totals; updates to them refetch the page.
+  refetchOn?: string[];
+};
+
+// One page of a list API ('/api/materials', '/api/clients'), refetched when the
+// parameters change. Live updates to items on the page are applied in place; anything
+// else refetches it. 'Extra' types fields the route adds next to the page, e.g. totals.
+export function usePagedList<T extends { id: string }, Extra extends object = object>(
+  path: string,
+  params: Params,
+  { topic, pollMs, refetchOn = [] }: LiveListOptions,
+) {
+  const query = listQuery(params);
+  const [page, setPage] = useState<(Page<T> & Extra) | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPage = useCallback(async () => {
+    try {
+      const response = await fetch(`${path}?${query}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${path}`);
+      }
+      return (await response.json()) as Page<T> & Extra;
+    } catch (error) {
+      console.error(`Error fetching ${path}:`, error);
+      return null;
+    }
+  }, [path, query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchPage().then(data => {
+      if (cancelled) return;
+      if (data) setPage(data);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  useLiveUpdates(topic, {
+    pollMs,
+    refetch: () => fetchPage().then(data => data && setPage(data)),
+    apply: event => {
+      if (event.op !== "update") return false;
+      const fields = Object.keys(event.fields ?? {});
+      if (fields.some(field => refetchOn.includes(field.split(".")[0]))) return false;
+      // Other changes to items on other pages do not show here.
+      if (!page?.items.some(item => item.id === event.id)) return true;
+      setPage(prev => prev && {
+        ...prev,
+        items: prev.items.map(item => (item.id === event.id ? applyFields(item, event.fields) : item)),
+      });
+      return true;
+    },
+  });
+
+  return { page, items: page?.items ?? [], loading };
+}
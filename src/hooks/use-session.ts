@@ -0,0 +1,54 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { SessionUser, UserRole } from "@/lib/types";
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, storekeeper: 2, owner: 3 };
+
+// Shared across every component on the page so the session is fetched only once.
+// Signing in or out does a full navigation, which resets it.
+let sessionPromise: Promise<SessionUser | null> | null = null;
+
+function loadSession() {
+  if (!sessionPromise) {
+    sessionPromise = fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => (data.user ?? null) as SessionUser | null)
+      .catch(error => {
+        console.error("Error fetching session:", error);
+        sessionPromise = null;
+        return null;
+      });
+  }
+  return sessionPromise;
+}
+
+/**
+ * Loads the signed-in user from the server once per mount.
+ * The server is the source of truth: this only decides what the UI shows,
+ * every action re-checks the role itself.
+ */
+export function useSession() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession().then(sessionUser => {
+      if (cancelled) return;
+      setUser(sessionUser);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return { user, loading };
+}
+
+/**
+ * Returns true when the signed-in user holds at least the given role.
+ */
+export function useHasRole(minRole: UserRole) {
+  const { user } = useSession();
+  return !!user && ROLE_RANK[user.role] >= ROLE_RANK[minRole];
+}
@@ -1,40 +1,119 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import type { StockHistory } from "@/lib/types";
+import { useState, useEffect, useCallback } from "react";
+import { listQuery, type CursorPage } from "@/lib/paging";
+import { useLiveUpdates } from "@/hooks/use-live";
+import type { StockMovement, StockMovementKind } from "@/lib/types";
 
-export function useStockHistory() {
-  const [history, setHistory] = useState<StockHistory[]>([]);
+const SLICE = 50;
+
+export type StockHistoryFilters = {
+  q?: string;
+  materialId?: string;
+  kind?: StockMovementKind | "";
+  from?: string;  // YYYY-MM-DD
+  to?: string;
+  order?: "asc" | "desc";
+};
+
+// The stock ledger a slice at a time, newest first; 'loadMore' appends the next slice.
+// Lines recorded since arrive as live updates and are added on top; while those are
+// down it polls every 5 seconds instead.
+export function useStockHistory(filters: StockHistoryFilters = {}) {
+  const query = listQuery({ ...filters, limit: SLICE });
+  const [history, setHistory] = useState<StockMovement[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const fetchSlice = useCallback(async (cursor?: string): Promise<CursorPage<StockMovement>> => {
+    const response = await fetch(`/api/stock-history?${query}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch stock history');
+    }
+    const data = await response.json();
+    // Convert date strings back to Date objects
+    return {
+      items: data.items.map((item: any) => ({ ...item, date: new Date(item.date) })),
+      nextCursor: data.nextCursor,
+    };
+  }, [query]);
 
   useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setHistory([]);
+    setNextCursor(null);
+
     const fetchHistory = async () => {
       try {
-        const response = await fetch('/api/stock-history');
-        if (!response.ok) {
-          throw new Error('Failed to fetch stock history');
-        }
-        const data = await response.json();
-        // Convert timestamp strings back to Date objects
-        const formattedData = data.map((item: any) => ({
-          ...item,
-          timestamp: new Date(item.timestamp),
-        }));
-        setHistory(formattedData);
-        setLoading(false);
+        const first = await fetchSlice();
+        if (cancelled) return;
+        setHistory(first.items);
+        setNextCursor(first.nextCursor);
       } catch (error) {
         console.error("Error fetching stock history:", error);
-        setLoading(false);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchHistory();
-    
-    // Poll for updates every 5 seconds
-    const interval = setInterval(fetchHistory, 5000);
-    
-    return () => clearInterval(interval);
-  }, []);
-
-  return { history, loading };
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchSlice]);
+
+  // Later fetches only add new lines on top; older slices stay as loaded. Oldest first,
+  // new lines belong at the end, where 'loadMore' reaches them.
+  const fetchNewest = async () => {
+    if (filters.order === "asc") return;
+    try {
+      const first = await fetchSlice();
+      addNewest(first.items);
+    } catch (error) {
+      console.error("Error fetching stock history:", error);
+    }
+  };
+  const addNewest = (lines: StockMovement[]) => {
+    setHistory(prev => {
+      const known = new Set(prev.map(m => m.id));
+      const fresh = lines.filter(m => !known.has(m.id));
+      return fresh.length > 0 ? [...fresh, ...prev] : prev;
+    });
+  };
+
+  useLiveUpdates("stock-history", {
+    pollMs: 5000,
+    refetch: fetchNewest,
+    // A new line is added as it is, or skipped when its material or kind is filtered out;
+    // with a text or date filter, the server decides whether it belongs.
+    apply: event => {
+      if (filters.order === "asc") return true;
+      if (event.op !== "insert" || !event.doc || filters.q || filters.from || filters.to) return false;
+      const line = { ...event.doc, date: new Date(String(event.doc.date)) } as StockMovement;
+      if ((filters.materialId && line.materialId !== filters.materialId) || (filters.kind && line.kind !== filters.kind)) return true;
+      addNewest([line]);
+      return true;
+    },
+  });
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const next = await fetchSlice(nextCursor);
+      setHistory(prev => {
+        const known = new Set(prev.map(m => m.id));
+        return [...prev, ...next.items.filter(m => !known.has(m.id))];
+      });
+      setNextCursor(next.nextCursor);
+    } catch (error) {
+      console.error("Error fetching stock history:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return { history, loading, hasMore: nextCursor !== null, loadMore, loadingMore };
 }
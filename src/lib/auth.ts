@@ -0,0 +1,148 @@
+// Server-side authentication helpers.
+// Sessions are random tokens stored (hashed) in the 'sessions' collection and
+// handed to the browser as an httpOnly cookie. Every server action and API route
+// resolves the current user through 'authorize' before touching data.
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { ObjectId } from "mongodb";
+import { randomBytes, scrypt, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import { getDatabase } from "@/lib/mongodb";
+import type { SessionUser, UserRole } from "@/lib/types";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "mc_session";
+const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+// Higher rank includes every permission of the lower ranks.
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 1,
+  storekeeper: 2,
+  owner: 3,
+};
+
+export const USER_ROLES: UserRole[] = ["viewer", "storekeeper", "owner"];
+
+export function hasRole(user: SessionUser | null | undefined, minRole: UserRole) {
+  if (!user) return false;
+  return (ROLE_RANK[user.role] ?? 0) >= ROLE_RANK[minRole];
+}
+
+// Passwords are stored as "salt:hash" using scrypt.
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hashHex] = String(stored || "").split(":");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Only a hash of the token is persisted, so a leaked database dump cannot be replayed as a cookie.
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+let indexesEnsured = false;
+async function ensureAuthIndexes() {
+  if (indexesEnsured) return;
+  const db = await getDatabase();
+  await db.collection("users").createIndex({ email: 1 }, { unique: true });
+  await db.collection("sessions").createIndex({ tokenHash: 1 }, { unique: true });
+  // MongoDB removes expired sessions on its own.
+  await db.collection("sessions").createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  indexesEnsured = true;
+}
+
+export async function createSession(userId: string) {
+  await ensureAuthIndexes();
+  const db = await getDatabase();
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await db.collection("sessions").insertOne({
+    tokenHash: hashToken(token),
+    userId,
+    createdAt: new Date(),
+    expiresAt,
+  });
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function destroySession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const db = await getDatabase();
+    await db.collection("sessions").deleteOne({ tokenHash: hashToken(token) });
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// Resolve the signed-in user from the session cookie. Returns null when the cookie is
+// missing, the session has expired or the account was deactivated.
+export async function getSessionUser(): Promise<SessionUser | null> {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+    const db = await getDatabase();
+    const session = await db.collection("sessions").findOne({ tokenHash: hashToken(token) });
+    if (!session || new Date(session.expiresAt) < new Date()) return null;
+    if (!ObjectId.isValid(session.userId)) return null;
+    const user = await db.collection("users").findOne({ _id: new ObjectId(session.userId) });
+    if (!user || user.active === false) return null;
+    return {
+      id: user._id.toString(),
+      name: String(user.name || ""),
+      email: String(user.email || ""),
+      role: (user.role as UserRole) || "viewer",
+    };
+  } catch (error) {
+    console.error("Error resolving session:", error);
+    return null;
+  }
+}
+
+// Guard used at the top of every server action and API route.
+// 'error' is null when the current user holds at least 'minRole'.
+export async function authorize(minRole: UserRole) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { user: null, error: "You must be signed in.", status: 401 } as const;
+  }
+  if (!hasRole(user, minRole)) {
+    return { user, error: "You do not have permission to perform this action.", status: 403 } as const;
+  }
+  return { user, error: null, status: 200 } as const;
+}
+
+// Where to go after signing in: only a path on this site, so a crafted '?next=' link
+// cannot send the user elsewhere ("//host" and "/\host" are other hosts to browsers).
+export function safeNextPath(next: unknown) {
+  const path = typeof next === "string" ? next.trim() : "";
+  if (!path.startsWith("/") || path.startsWith("//") || path.startsWith("/\\")) return "/dashboard";
+  return path;
+}
+
+// Guard for server-rendered pages: sends anonymous visitors to the login page and
+// users without the required role back to the dashboard.
+export async function requirePageRole(minRole: UserRole) {
+  const user = await getSessionUser();
+  if (!user) redirect("/login");
+  if (!hasRole(user, minRole)) redirect("/dashboard");
+  return user;
+}
@@ -0,0 +1,9 @@
+// Reads for bill-of-materials templates ('bom_templates'). Server-only.
+
+import type { Db } from "mongodb";
+import type { BomTemplate } from "@/lib/types";
+
+export async function getBomTemplates(db: Db): Promise<BomTemplate[]> {
+  const docs = await db.collection("bom_templates").find({}).sort({ baseCapacityKw: 1, name: 1 }).toArray();
+  return docs.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest, lines: Array.isArray(rest.lines) ? rest.lines : [] }) as BomTemplate);
+}
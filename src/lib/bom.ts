@@ -0,0 +1,44 @@
+// Scaling bill-of-materials templates to a plant capacity. Pure functions, safe to use
+// on the client and the server.
+
+import type { BomTemplate, Material } from "@/lib/types";
+
+// Capacity in kW from free text such as "5 kW", "5.5kw", "3000 W" or "1 MW".
+// Returns null when no number can be found.
+export function parseCapacityKw(text: string | null | undefined) {
+  const match = String(text || "").replace(/,/g, "").match(/([0-9]*\.?[0-9]+)\s*(mw|kw|kwp|w|wp)?\b/i);
+  if (!match) return null;
+  const value = Number(match[1]);
+  if (!(value > 0)) return null;
+  const unit = (match[2] || "kw").toLowerCase();
+  if (unit === "mw") return value * 1000;
+  if (unit === "w" || unit === "wp") return value / 1000;
+  return value;
+}
+
+export type BomRequirement = {
+  materialId: string;
+  materialName: string;
+  quantity: number;
+  available: number;     // Current stock; 0 for materials that no longer exist.
+  shortfall: number;     // How much more is needed than is in stock.
+};
+
+// Quantities for one installation of `capacityKw`. Scaled lines are rounded up, since
+// half a panel cannot be dispatched.
+export function scaleBom(template: Pick<BomTemplate, "baseCapacityKw" | "lines">, capacityKw: number, materials: Material[]): BomRequirement[] {
+  const factor = template.baseCapacityKw > 0 ? capacityKw / template.baseCapacityKw : 1;
+  const byId = new Map(materials.map(m => [m.id, m]));
+  return template.lines.map(line => {
+    const quantity = line.scale === "fixed" ? line.quantity : Math.ceil(line.quantity * factor - 1e-9);
+    const material = byId.get(line.materialId);
+    const available = Number(material?.quantity) || 0;
+    return {
+      materialId: line.materialId,
+      materialName: material?.name ?? line.materialName,
+      quantity,
+      available,
+      shortfall: Math.max(0, quantity - available),
+    };
+  }).filter(r => r.quantity > 0);
+}
@@ -0,0 +1,69 @@
+// Printable delivery note for a dispatch challan. Browser-only. Single In/Out entries
+// print the same way, returns as a return note.
+
+import autoTable from "jspdf-autotable";
+import type { Client, ClientMaterialEntry, Project } from "@/lib/types";
+import { createClientPdf, addClientBlock, addProjectBlock, addPageNumbers, afterLastTable, pdfFileName, PDF_MARGIN_X, PDF_TABLE_STYLES } from "@/lib/pdf";
+import { formatQty } from "@/lib/units";
+
+export function downloadChallanPdf(client: Client, challan: ClientMaterialEntry, project?: Project | null) {
+  const isReturn = challan.type === 'in';
+  const doc = createClientPdf(isReturn ? "Material Return Note" : "Delivery Challan");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const marginX = PDF_MARGIN_X;
+
+  let y = addProjectBlock(doc, project, addClientBlock(doc, client)) + 8;
+  doc.setFontSize(11);
+  doc.text(challan.challanNo ? `Challan No: ${challan.challanNo}` : `Entry: ${challan.reason || '-'}`, marginX, y);
+  doc.text(`Date: ${new Date(challan.date).toLocaleDateString()}`, marginX + 80, y);
+  y += 6;
+  doc.text(`Vehicle No: ${challan.vehicleNo || '-'}`, marginX, y);
+  doc.text(`Driver: ${challan.driverName || '-'}`, marginX + 80, y);
+  if (challan.locationName) {
+    y += 6;
+    doc.text(`Dispatched From: ${challan.locationName}`, marginX, y);
+  }
+
+  const lines = Array.isArray(challan.materials) ? challan.materials : [];
+  autoTable(doc, {
+    head: [["#", "Material", "Qty", "Serial Numbers"]],
+    body: lines.map((line, i) => [
+      String(i + 1),
+      line.materialName,
+      formatQty(line.quantity, line.unit),
+      line.serialNumbers || "-",
+    ]),
+    startY: y + 6,
+    ...PDF_TABLE_STYLES,
+    columnStyles: {
+      0: { halign: 'right', cellWidth: 10 },
+      2: { halign: 'right', cellWidth: 20 },
+    },
+  });
+
+  y = afterLastTable(doc);
+  doc.setFontSize(11);
+  // Quantities only add up when every line is in the same unit.
+  const units = new Set(lines.map(l => l.unit || ""));
+  doc.text(units.size <= 1
+    ? `Total Quantity: ${formatQty(lines.reduce((s, l) => s + (Number(l.quantity) || 0), 0), lines[0]?.unit)}`
+    : `Total Lines: ${lines.length}`, marginX, y);
+  if (challan.remarks) {
+    y += 8;
+    const remarkLines = doc.splitTextToSize(`Remarks: ${challan.remarks}`, pageWidth - marginX * 2);
+    doc.text(remarkLines, marginX, y);
+    y += (Array.isArray(remarkLines) ? remarkLines.length : 1) * 5;
+  }
+
+  // Signature lines
+  y += 20;
+  doc.setDrawColor(150);
+  doc.line(marginX, y, marginX + 60, y);
+  doc.line(pageWidth - marginX - 60, y, pageWidth - marginX, y);
+  doc.setFontSize(9);
+  doc.text(`${isReturn ? "Received" : "Dispatched"} by${challan.createdBy ? `: ${challan.createdBy}` : ''}`, marginX, y + 5);
+  doc.text(isReturn ? "Returned by" : "Received by", pageWidth - marginX - 60, y + 5);
+
+  addPageNumbers(doc);
+  doc.save(pdfFileName(isReturn ? "Return" : "Challan", challan.challanNo || challan.id, client.name));
+}
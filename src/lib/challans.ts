@@ -0,0 +1,119 @@
+// Creating dispatch challans. Shared by the challan form and by dispatching a
+// reservation, so both number, book and cost a challan the same way. Server-only.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { StockError, moveStock, resolveStockLocation } from "@/lib/stock";
+import { ActionError } from "@/lib/errors";
+import { getDefaultLocation } from "@/lib/locations";
+import { clientEntrySourceKey } from "@/lib/stock-ledger";
+import { refreshClientCosting } from "@/lib/client-costing";
+import { requireClientProject } from "@/lib/projects";
+import { assertAvailable } from "@/lib/reservations";
+import { moveSerials } from "@/lib/serials";
+import { nextSequence, formatSequence } from "@/lib/sequence";
+import { baseUnitOf } from "@/lib/units";
+import { insertClientEntry, type NewClientEntry } from "@/lib/client-material-entries";
+import type { ClientMaterialEntry, SessionUser } from "@/lib/types";
+import { clientsCollection } from "@/lib/clients";
+import { materialsCollection } from "@/lib/materials";
+
+const CHALLAN_SEQUENCE = "challan";
+const CHALLAN_PREFIX = "DC";
+
+export type ChallanInput = {
+  clientId: string;
+  projectId?: string | null;
+  locationId?: string | null;  // Location the stock leaves from; the default location when unset.
+  items: { materialId: string; quantity: number; serialNumbers?: string | null }[];
+  vehicleNo?: string | null;
+  driverName?: string | null;
+  remarks?: string | null;
+};
+
+// Creates the challan entry, removes every line from stock and refreshes the client's
+// costing. Must run inside 'withTransaction': if any line is short on stock (or held by
+// another client's reservation) nothing is dispatched.
+export async function createChallan(db: Db, input: ChallanInput, user: SessionUser, session: ClientSession) {
+  const { clientId, vehicleNo, driverName, remarks } = input;
+  if (!ObjectId.isValid(clientId) || !(await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }, { session }))) {
+    throw new ActionError("Client not found.");
+  }
+  const projectId = await requireClientProject(db, clientId, input.projectId, session);
+  await assertAvailable(db, input.items, { clientId, session });
+  const location = (await resolveStockLocation(db, input.locationId, session)) ?? (await getDefaultLocation(db, session));
+
+  const materialIds = input.items.map(i => i.materialId).filter(id => ObjectId.isValid(id));
+  const materials = await materialsCollection(db)
+    .find({ _id: { $in: materialIds.map(id => new ObjectId(id)) } }, { session })
+    .toArray();
+  const namesById = new Map(materials.map(m => [m._id.toString(), String(m.name || "")]));
+  const unitsById = new Map(materials.map(m => [m._id.toString(), baseUnitOf(m)]));
+
+  // Serialized materials must name the exact in-stock units being dispatched;
+  // other materials may carry free-text serial numbers for reference.
+  const lines: Record<string, any>[] = [];
+  const lineSerials: string[][] = [];
+  for (const item of input.items) {
+    if (!namesById.has(item.materialId)) throw new StockError("Material not found.");
+    const serials = await moveSerials(db, {
+      materialId: item.materialId,
+      direction: "issue",
+      quantity: item.quantity,
+      serials: item.serialNumbers,
+      clientId,
+    }, session);
+    const line: Record<string, any> = {
+      materialId: item.materialId,
+      materialName: namesById.get(item.materialId),
+      quantity: item.quantity,
+      unit: unitsById.get(item.materialId),
+    };
+    const serialText = serials.length > 0 ? serials.join(", ") : String(item.serialNumbers || "").trim();
+    if (serialText) line.serialNumbers = serialText;
+    lines.push(line);
+    lineSerials.push(serials);
+  }
+
+  const challanNo = formatSequence(CHALLAN_PREFIX, await nextSequence(db, CHALLAN_SEQUENCE, session));
+  const date = new Date();
+  const doc: Record<string, any> = {
+    clientId,
+    type: "out",
+    date,
+    entryTitle: `Challan ${challanNo}`,
+    reason: "Client Dispatch",
+    challanNo,
+    materials: lines,
+    locationId: location.id,
+    locationName: location.name,
+    createdBy: user.name,
+  };
+  if (vehicleNo?.trim()) doc.vehicleNo = vehicleNo.trim();
+  if (driverName?.trim()) doc.driverName = driverName.trim();
+  if (remarks?.trim()) doc.remarks = remarks.trim();
+  if (projectId) doc.projectId = projectId;
+
+  const entryId = await insertClientEntry(db, doc as NewClientEntry, session);
+
+  for (let i = 0; i < lines.length; i++) {
+    await moveStock(db, {
+      materialId: lines[i].materialId,
+      kind: "client_out",
+      delta: -lines[i].quantity,
+      reason: `Challan ${challanNo}`,
+      batchId: entryId,
+      clientId,
+      reference: { type: "client_entry", id: entryId },
+      sourceKey: clientEntrySourceKey(entryId, i),
+      serials: lineSerials[i],
+      locationId: location.id,
+      date,
+      user,
+    }, session);
+  }
+
+  await refreshClientCosting(db, clientId, projectId, session, { reason: `Challan ${challanNo}`, user });
+
+  const { _id, ...rest } = doc;
+  return { id: entryId, ...rest, date: date.toISOString() } as ClientMaterialEntry;
+}
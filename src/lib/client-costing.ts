@@ -0,0 +1,317 @@
+// Server-side client costing: rebuilds the 'client_costing' snapshot for a client from
+// all of their material entries (net of returns) at the client's agreed rates, or else the
+// prices in effect when dispatched.
+// A client has one roll-up snapshot over all of its entries (projectId null) and one
+// snapshot per project (site) over that project's entries only. Every change to a
+// snapshot is also kept as a numbered version in 'client_costing_versions'; a locked
+// (approved) snapshot is left alone by automatic recomputes.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import type { ClientCostingRecord, ClientCostRow, ClientPrice, CostingCharge, CostingVersionSource, SessionUser } from "@/lib/types";
+import { baseUnitOf } from "@/lib/units";
+import { priceOn, unitPriceOf } from "@/lib/price-history";
+import { getPriceHistory } from "@/lib/material-prices";
+import { costingTotals, costRow } from "@/lib/costing-totals";
+import { z } from "zod";
+import { fromDoc, validated, type StoredDoc } from "@/lib/documents";
+import { materialsCollection } from "@/lib/materials";
+import { clientsCollection } from "@/lib/clients";
+import { findClientEntries, toClientEntry } from "@/lib/client-material-entries";
+import { billedLayers, layersByPrice } from "@/lib/usage";
+
+export type ClientCostingDoc = StoredDoc<ClientCostingRecord>;
+
+export const costingCollection = (db: Db) => db.collection<ClientCostingDoc>('client_costing');
+
+const money = z.number().finite();
+const percent = z.number().min(0).max(100);
+
+const costRowSchema = z.object({
+  materialId: z.string().min(1),
+  name: z.string(),
+  qty: z.number().finite().nonnegative(),
+  unit: z.string().optional(),
+  rate: money.nonnegative(),
+  listRate: money.nonnegative().optional(),
+  discountPercent: percent.optional(),
+  gstPercent: percent,
+  base: money,
+  gst: money,
+  total: money,
+}).passthrough();
+
+const chargeSchema = z.object({
+  label: z.string().min(1),
+  sacCode: z.string().optional(),
+  amount: money.nonnegative(),
+  gstPercent: percent,
+  gst: money,
+  total: money,
+}).passthrough();
+
+// What a costing snapshot stores besides its client, project and version details.
+const contentSchema = z.object({
+  items: z.array(costRowSchema),
+  subTotal: money.optional(),
+  discountPercent: percent.optional(),
+  discount: money.optional(),
+  charges: z.array(chargeSchema).optional(),
+  beforeTax: money,
+  gst: money,
+  grand: money,
+}).passthrough();
+
+// A stored snapshot, e.g. from a backup. Older snapshots lack fields new content has, so
+// only what identifies it is required.
+const storedCostingSchema = z.object({
+  clientId: z.string().min(1),
+  projectId: z.string().nullable().optional(),
+  items: z.array(z.object({ materialId: z.string().min(1) }).passthrough()),
+}).passthrough();
+
+export type NewClientCosting = z.input<typeof storedCostingSchema> & { _id?: ObjectId };
+
+// Checks snapshots the way 'insertCostings' does, without storing them.
+export function checkCostings(costings: NewClientCosting[]) {
+  return costings.map(costing => validated(storedCostingSchema, costing, "client costing"));
+}
+
+// Validates and stores costing snapshots as they are. New content goes through
+// 'saveCostingVersion'.
+export async function insertCostings(db: Db, costings: NewClientCosting[], session?: ClientSession) {
+  if (costings.length === 0) return;
+  const docs = checkCostings(costings);
+  await db.collection('client_costing').insertMany(docs, { session });
+}
+
+// A stored snapshot as returned by the costing API.
+export const toClientCosting = (doc: ClientCostingDoc) => fromDoc<ClientCostingRecord>(doc);
+
+// Filter for a costing snapshot; a null projectId is the client roll-up (and also
+// matches snapshots written before projects existed).
+export function costingFilter(clientId: string, projectId?: string | null) {
+  return { clientId, projectId: projectId || null };
+}
+
+// What a recompute keeps from the previous snapshot: discounts and charges entered on
+// the costing page.
+export type CostingTerms = {
+  lineDiscounts?: Record<string, number>;   // Discount % per material.
+  discountPercent?: number;
+  charges?: CostingCharge[];
+};
+
+export function termsOf(costing: Record<string, any> | null | undefined): CostingTerms {
+  if (!costing) return {};
+  const lineDiscounts: Record<string, number> = {};
+  for (const row of Array.isArray(costing.items) ? costing.items : []) {
+    if (Number(row.discountPercent) > 0) lineDiscounts[String(row.materialId)] = Number(row.discountPercent);
+  }
+  return { lineDiscounts, discountPercent: costing.discountPercent, charges: costing.charges };
+}
+
+// How a client's materials are priced: the client's agreed rate, or else our price in
+// effect on a date. 'names' are the names on the entries, for materials matched by name.
+async function clientPricing(db: Db, clientId: string, names: Map<string, string>, session?: ClientSession) {
+  const validObjIds = Array.from(names.keys()).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  const mats = validObjIds.length > 0 ? await materialsCollection(db).find({ _id: { $in: validObjIds } }, { session }).toArray() : [];
+  const byId: Record<string, any> = {};
+  const byName: Record<string, any> = {};
+  for (const m of mats) { byId[m._id.toString()] = m; if (m.name) byName[String(m.name).toLowerCase()] = m; }
+  const materialOf = (id: string) => {
+    const m = byId[id];
+    if (m) return m;
+    const key = String(names.get(id) || '').toLowerCase();
+    return (key && byName[key]) || {};
+  };
+  const history = await getPriceHistory(db, mats.map(m => m._id.toString()), session);
+  const client = ObjectId.isValid(clientId)
+    ? await clientsCollection(db).findOne({ _id: new ObjectId(clientId) }, { projection: { priceList: 1 }, session })
+    : null;
+  const agreed = new Map<string, number>(
+    (Array.isArray(client?.priceList) ? client.priceList : []).map((p: ClientPrice) => [p.materialId, Number(p.unitPrice) || 0])
+  );
+
+  const priceOf = (mid: string, date: Date | string) => {
+    const m = materialOf(mid);
+    const dated = m._id ? priceOn(history.get(m._id.toString()), date) : null;
+    return {
+      rate: agreed.get(m._id ? m._id.toString() : mid) ?? (dated ? dated.price : unitPriceOf(m)),
+      gstPercent: dated ? dated.gstPercent : Number(m.gstPercent) || 0,
+    };
+  };
+  // Our price, shown struck through next to an agreed rate.
+  const listRateOf = (mid: string) => {
+    const m = materialOf(mid);
+    return agreed.has(m._id ? m._id.toString() : mid) ? unitPriceOf(m) : undefined;
+  };
+  return { materialOf, priceOf, listRateOf };
+}
+
+// Costing rows from the client's entries, oldest first. Each Out is priced at the
+// client's agreed rate, or else our price in effect on its date; a return takes back the
+// most recent dispatches of the material first, and a reversed entry is dropped with its
+// reversal. A material dispatched at different
+// prices gets one row per price.
+export async function computeClientCosting(db: Db, clientId: string, projectId?: string | null, session?: ClientSession, terms: CostingTerms = {}) {
+  const entries = await findClientEntries(db, clientId, { projectId, session });
+  const names = new Map<string, string>();
+  for (const entry of entries) {
+    for (const it of Array.isArray(entry.materials) ? entry.materials : []) {
+      const mid = String(it.materialId || '');
+      if (mid && !names.get(mid)) names.set(mid, String(it.materialName || ''));
+    }
+  }
+  const { materialOf, priceOf, listRateOf } = await clientPricing(db, clientId, names, session);
+
+  // Quantity still billed per material, priced when it went out.
+  const billed = billedLayers(entries.map(toClientEntry), (mid, entry) => priceOf(mid, entry.date));
+
+  const items: ClientCostRow[] = [];
+  for (const [id, layers] of billed) {
+    const m = materialOf(id);
+    const listRate = listRateOf(id);
+    for (const { qty, rate, gstPercent } of layersByPrice(layers)) {
+      items.push(costRow({
+        materialId: id,
+        name: names.get(id) || m.name || '',
+        qty,
+        unit: baseUnitOf(m),
+        rate,
+        ...(listRate !== undefined && listRate !== rate ? { listRate } : {}),
+        discountPercent: terms.lineDiscounts?.[id],
+        gstPercent,
+      }));
+    }
+  }
+  items.sort((a, b) => a.name.localeCompare(b.name) || a.rate - b.rate);
+  return { items, ...costingTotals(items, terms) };
+}
+
+// The part of a costing row the costing page may change; the row's rate only picks which
+// of the material's price rows it is.
+export type CostRowEdit = Pick<ClientCostRow, 'materialId' | 'qty' | 'discountPercent' | 'gstPercent'> & { rate?: number };
+
+// Costing rows for edits from the costing page, priced here rather than trusted from the
+// page: each row keeps a rate the client was billed at for the material (as computed
+// from their entries), or else gets the client's agreed rate or our current price.
+export async function priceCostRows(db: Db, clientId: string, projectId: string | null, edits: CostRowEdit[], session?: ClientSession) {
+  const { items } = await computeClientCosting(db, clientId, projectId, session);
+  const names = new Map(edits.map(e => [e.materialId, items.find(it => it.materialId === e.materialId)?.name ?? '']));
+  const { materialOf, priceOf, listRateOf } = await clientPricing(db, clientId, names, session);
+
+  return edits.map(edit => {
+    const m = materialOf(edit.materialId);
+    const billedAt = items.filter(it => it.materialId === edit.materialId);
+    const row = billedAt.find(it => it.rate === edit.rate) ?? billedAt[0];
+    const rate = row ? row.rate : priceOf(edit.materialId, new Date()).rate;
+    const listRate = row ? row.listRate : listRateOf(edit.materialId);
+    return costRow({
+      materialId: edit.materialId,
+      name: row?.name || m.name || '',
+      qty: edit.qty,
+      unit: baseUnitOf(m),
+      rate,
+      ...(listRate !== undefined && listRate !== rate ? { listRate } : {}),
+      discountPercent: edit.discountPercent,
+      gstPercent: edit.gstPercent,
+    });
+  });
+}
+
+export type CostingContent = Awaited<ReturnType<typeof computeClientCosting>>;
+
+// Who changed a costing and why, kept on the version.
+export type CostingChange = { reason?: string; user?: SessionUser };
+
+const CONTENT_FIELDS = ['items', 'subTotal', 'discountPercent', 'discount', 'charges', 'beforeTax', 'gst', 'grand'] as const;
+
+function contentOf(costing: Record<string, any>) {
+  return Object.fromEntries(CONTENT_FIELDS.map(field => [field, costing[field] ?? null]));
+}
+
+const sameContent = (a: Record<string, any>, b: Record<string, any>) =>
+  JSON.stringify(contentOf(a)) === JSON.stringify(contentOf(b));
+
+// Validates 'costing', then stores it as the next version and the current snapshot. A
+// snapshot saved before versions were kept is first stored as version 1 so it can be
+// compared. The lock is left as it is; callers check it.
+export async function saveCostingVersion(
+  db: Db,
+  clientId: string,
+  projectId: string | null | undefined,
+  costing: CostingContent,
+  { source, reason, user }: CostingChange & { source: CostingVersionSource },
+  session?: ClientSession
+) {
+  validated(contentSchema, costing, "client costing");
+  const filter = costingFilter(clientId, projectId);
+  const current = await costingCollection(db).findOne(filter, { session });
+  const versions = db.collection('client_costing_versions');
+  let version = Number(current?.version) || 0;
+  if (current && version === 0) {
+    version = 1;
+    await versions.insertOne({
+      ...filter,
+      version,
+      source: 'legacy',
+      ...contentOf(current),
+      createdAt: current.updatedAt ?? new Date(),
+    }, { session });
+  }
+
+  version++;
+  const now = new Date();
+  await versions.insertOne({
+    ...filter,
+    version,
+    source,
+    ...(reason ? { reason } : {}),
+    ...contentOf(costing),
+    createdAt: now,
+    ...(user ? { createdBy: user.name } : {}),
+  }, { session });
+  await costingCollection(db).updateOne(
+    filter,
+    { $set: { ...filter, ...costing, version, updatedAt: now, ...(user ? { updatedBy: user.name } : {}) } },
+    { upsert: true, session }
+  );
+  return version;
+}
+
+// Recompute and upsert the costing snapshot, as a new version when it changed. A locked
+// snapshot is returned as stored and only marked stale; that write still makes
+// concurrent stock transactions for the client conflict. Pass the session when called
+// inside a stock transaction so the snapshot is written atomically with the entries.
+export async function recomputeClientCosting(
+  db: Db,
+  clientId: string,
+  session?: ClientSession,
+  projectId?: string | null,
+  change: CostingChange = {}
+): Promise<CostingContent> {
+  const previous = await costingCollection(db).findOne(costingFilter(clientId, projectId), { session });
+  if (previous?.locked) {
+    await costingCollection(db).updateOne({ _id: previous._id }, { $set: { staleAt: new Date() } }, { session });
+    return contentOf(previous) as CostingContent;
+  }
+  const costing = await computeClientCosting(db, clientId, projectId, session, termsOf(previous));
+  if (!previous || !sameContent(previous, costing)) {
+    await saveCostingVersion(db, clientId, projectId, costing, { source: 'recompute', ...change }, session);
+  }
+  return costing;
+}
+
+// After entries change: the client roll-up, plus the project's own snapshot if the
+// entries belong to one.
+export async function refreshClientCosting(
+  db: Db,
+  clientId: string,
+  projectId: string | null | undefined,
+  session?: ClientSession,
+  change: CostingChange = {}
+) {
+  const rollUp = await recomputeClientCosting(db, clientId, session, null, change);
+  if (projectId) await recomputeClientCosting(db, clientId, session, projectId, change);
+  return rollUp;
+}
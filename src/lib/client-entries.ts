@@ -0,0 +1,205 @@
+// Booking and reversing client entries. An In/Out from the client page is booked here;
+// challans are created in lib/challans. A wrong entry is never edited: a reversal books
+// the opposite movement as a new entry, so stock, the ledger and costing stay traceable.
+// Server-only; everything here must run inside 'withTransaction'.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { StockError, moveStock, resolveStockLocation } from "@/lib/stock";
+import { getDefaultLocation } from "@/lib/locations";
+import { clientEntrySourceKey } from "@/lib/stock-ledger";
+import { refreshClientCosting } from "@/lib/client-costing";
+import { requireClientProject } from "@/lib/projects";
+import { assertAvailable } from "@/lib/reservations";
+import { moveSerials } from "@/lib/serials";
+import { clientEntries, findClientEntries, insertClientEntry, toClientEntry } from "@/lib/client-material-entries";
+import { materialUsage } from "@/lib/usage";
+import type { ClientMaterialEntryItem, SessionUser } from "@/lib/types";
+
+export type ClientEntryInput = {
+  clientId: string;
+  materialId: string;
+  materialName: string;
+  quantity: number;
+  type: "in" | "out";
+  reason?: string | null;
+  serialNumbers?: string | null;
+  projectId?: string | null;
+  locationId?: string | null;
+  correctionOf?: string;  // The reversed entry this one replaces.
+};
+
+// What the client holds of a material (out less in), of one site when 'projectId' is set.
+export async function heldQuantity(db: Db, clientId: string, materialId: string, projectId: string | null, session: ClientSession) {
+  const entries = await findClientEntries(db, clientId, { projectId, session });
+  const [usage] = materialUsage(entries, materialId);
+  return { totalOut: usage?.outQty ?? 0, totalIn: usage?.inQty ?? 0, held: usage?.netQty ?? 0 };
+}
+
+// Books a single In/Out: checks the return against what the client holds (and a
+// dispatch against other clients' reservations), moves serials and stock, and refreshes
+// the client's costing. Concurrent entries for the same client both write the same
+// 'client_costing' document, so MongoDB aborts one and the driver retries it.
+export async function bookClientEntry(db: Db, input: ClientEntryInput, user: SessionUser, session: ClientSession) {
+  const { clientId, materialId, materialName, quantity, type } = input;
+  const projectId = await requireClientProject(db, clientId, input.projectId, session);
+  const location = (await resolveStockLocation(db, input.locationId, session)) ?? (await getDefaultLocation(db, session));
+
+  // Stock reserved for other clients' jobs cannot go out to this one
+  if (type === "out") {
+    await assertAvailable(db, [{ materialId, quantity }], { clientId, session });
+  }
+
+  // A return cannot exceed what went out (to the project, when booked to one)
+  if (type === "in") {
+    const { totalOut, totalIn, held } = await heldQuantity(db, clientId, materialId, projectId, session);
+    if (quantity > held) {
+      throw new StockError(`Cannot return more than taken. Max returnable: ${held} (OUT: ${totalOut}, IN: ${totalIn})`);
+    }
+  }
+
+  // Serialized units must be in stock to go out, and issued to this client to come back
+  const serials = await moveSerials(db, {
+    materialId,
+    direction: type === "in" ? "return" : "issue",
+    quantity,
+    serials: input.serialNumbers,
+    clientId,
+  }, session);
+
+  const date = new Date();
+  const entryReason = input.reason || (type === "in" ? "Client Return" : "Client Dispatch");
+  const item: ClientMaterialEntryItem = { materialId, materialName, quantity };
+  if (serials.length > 0) item.serialNumbers = serials.join(", ");
+  const entryId = await insertClientEntry(db, {
+    clientId,
+    type,
+    date,
+    reason: entryReason,
+    materials: [item],
+    locationId: location.id,
+    locationName: location.name,
+    createdBy: user.name,
+    ...(projectId ? { projectId } : {}),
+    ...(input.correctionOf ? { correctionOf: input.correctionOf } : {}),
+  }, session);
+
+  // Adjust global stock and write the ledger line pointing back at the entry
+  const { change } = await moveStock(db, {
+    materialId,
+    kind: type === "in" ? "client_in" : "client_out",
+    delta: type === "in" ? quantity : -quantity,
+    reason: entryReason,
+    batchId: entryId,
+    clientId,
+    reference: { type: "client_entry", id: entryId },
+    sourceKey: clientEntrySourceKey(entryId, 0),
+    serials,
+    locationId: location.id,
+    date,
+    user,
+  }, session);
+
+  await refreshClientCosting(db, clientId, projectId, session, { reason: `${entryReason}: ${materialName}`, user });
+  return { entryId, newStock: change.next };
+}
+
+// How an entry is referred to in reasons and messages.
+export const entryReference = (entry: { challanNo?: string; reason?: string }) =>
+  entry.challanNo ? `Challan ${entry.challanNo}` : entry.reason || "entry";
+
+// Reverses a client entry with a compensating entry of the opposite type carrying the
+// same lines, location and site: stock, serials and the ledger go back, and the costing
+// is recomputed. The original is kept, marked with who reversed it and why. Returns the
+// original so a corrected entry can be booked in the same transaction.
+export async function reverseClientEntry(
+  db: Db,
+  entryId: string,
+  { reason, user }: { reason: string; user: SessionUser },
+  session: ClientSession
+) {
+  if (!ObjectId.isValid(entryId)) throw new StockError("Entry not found.");
+  const doc = await clientEntries(db).findOne({ _id: new ObjectId(entryId) }, { session });
+  if (!doc) throw new StockError("Entry not found.");
+  const entry = toClientEntry(doc);
+  if (entry.reversalOf) throw new StockError("A reversal cannot be reversed. Record a new entry instead.");
+  const reference = entryReference(entry);
+
+  const reversedAt = new Date();
+  const reversalId = new ObjectId();
+  // Claim the entry first so two reversals of it cannot both go through.
+  const claimed = await clientEntries(db).updateOne(
+    { _id: doc._id, reversedAt: { $exists: false } },
+    { $set: { reversedAt, reversedBy: user.name, reversalReason: reason, reversalEntryId: reversalId.toString() } },
+    { session }
+  );
+  if (claimed.modifiedCount === 0) throw new StockError(`${reference} was already reversed.`);
+
+  const lines: ClientMaterialEntryItem[] = Array.isArray(entry.materials) ? entry.materials : [];
+  const type = entry.type === "in" ? "out" : "in";
+  const projectId = entry.projectId ?? null;
+
+  if (type === "in") {
+    // Taking a dispatch back: the client must still hold it.
+    const needed = new Map<string, { name: string; quantity: number }>();
+    for (const line of lines) {
+      const current = needed.get(line.materialId) ?? { name: line.materialName, quantity: 0 };
+      needed.set(line.materialId, { ...current, quantity: current.quantity + (Number(line.quantity) || 0) });
+    }
+    for (const [materialId, { name, quantity }] of needed) {
+      const { held } = await heldQuantity(db, entry.clientId, materialId, projectId, session);
+      if (quantity > held) {
+        throw new StockError(`The client holds only ${held} ${name} of the ${quantity} on ${reference}. Reverse their later returns first.`);
+      }
+    }
+  } else {
+    // Undoing a return sends the material out again.
+    await assertAvailable(db, lines.map(l => ({ materialId: l.materialId, quantity: Number(l.quantity) || 0 })), { clientId: entry.clientId, session });
+  }
+
+  const lineSerials: string[][] = [];
+  for (const line of lines) {
+    lineSerials.push(await moveSerials(db, {
+      materialId: line.materialId,
+      direction: type === "in" ? "return" : "issue",
+      quantity: Number(line.quantity) || 0,
+      serials: line.serialNumbers,
+      clientId: entry.clientId,
+    }, session));
+  }
+
+  const entryReason = `Reversal of ${reference}: ${reason}`;
+  await insertClientEntry(db, {
+    _id: reversalId,
+    clientId: entry.clientId,
+    type,
+    date: reversedAt,
+    reason: entryReason,
+    materials: lines,
+    ...(entry.locationId ? { locationId: entry.locationId, locationName: entry.locationName } : {}),
+    ...(projectId ? { projectId } : {}),
+    createdBy: user.name,
+    reversalOf: entryId,
+  }, session);
+
+  const newId = reversalId.toString();
+  for (let i = 0; i < lines.length; i++) {
+    const quantity = Number(lines[i].quantity) || 0;
+    await moveStock(db, {
+      materialId: lines[i].materialId,
+      kind: type === "in" ? "client_in" : "client_out",
+      delta: type === "in" ? quantity : -quantity,
+      reason: entryReason,
+      batchId: newId,
+      clientId: entry.clientId,
+      reference: { type: "client_entry", id: newId },
+      sourceKey: clientEntrySourceKey(newId, i),
+      serials: lineSerials[i],
+      locationId: entry.locationId,
+      date: reversedAt,
+      user,
+    }, session);
+  }
+
+  await refreshClientCosting(db, entry.clientId, projectId, session, { reason: `Reversal of ${reference}`, user });
+  return { entry, reversalId: newId };
+}
@@ -0,0 +1,55 @@
+// Repository for the 'client_material_entries' collection: typed access, the stored
+// document's schema (checked on every insert) and mapping to ClientMaterialEntry.
+// Entries are booked in lib/client-entries and lib/challans; their usage is calculated
+// in lib/usage. Server-only.
+
+import type { ClientSession, Db, Filter, ObjectId } from "mongodb";
+import { z } from "zod";
+import { fromDoc, validated, type StoredDoc } from "@/lib/documents";
+import type { ClientMaterialEntry } from "@/lib/types";
+
+export type ClientEntryDoc = StoredDoc<ClientMaterialEntry>;
+
+const lineSchema = z.object({
+  materialId: z.string().min(1),
+  materialName: z.string().default(""),
+  quantity: z.coerce.number().positive(),
+  unit: z.string().optional(),
+  serialNumbers: z.string().optional(),
+}).passthrough();
+
+const entrySchema = z.object({
+  clientId: z.string().min(1),
+  type: z.enum(["in", "out"]),
+  date: z.date(),
+  materials: z.array(lineSchema).min(1),
+  reason: z.string().optional(),
+  challanNo: z.string().optional(),
+  projectId: z.string().optional(),
+  locationId: z.string().optional(),
+  reversalOf: z.string().optional(),
+  correctionOf: z.string().optional(),
+}).passthrough();
+
+export type NewClientEntry = z.input<typeof entrySchema> & { _id?: ObjectId };
+
+export const clientEntries = (db: Db) => db.collection<ClientEntryDoc>("client_material_entries");
+
+export const toClientEntry = (doc: ClientEntryDoc) => fromDoc<ClientMaterialEntry>(doc, ["date", "reversedAt"]);
+
+// The client's entries, oldest first; one site's only with 'projectId'.
+export async function findClientEntries(
+  db: Db,
+  clientId: string,
+  { projectId, session }: { projectId?: string | null; session?: ClientSession } = {}
+) {
+  const filter: Filter<ClientEntryDoc> = projectId ? { clientId, projectId } : { clientId };
+  return clientEntries(db).find(filter, { session }).sort({ date: 1, _id: 1 }).toArray();
+}
+
+// Validates and stores a new entry. Returns its id.
+export async function insertClientEntry(db: Db, entry: NewClientEntry, session: ClientSession) {
+  const doc = validated(entrySchema, entry, "client entry");
+  const result = await db.collection("client_material_entries").insertOne(doc, { session });
+  return result.insertedId.toString();
+}
@@ -0,0 +1,283 @@
+// Client payments ('client_payments' collection), what they can be allocated against,
+// and the statement of account built from invoices, costing and payments. Server-only.
+// A client is billed by their issued invoices (net of credit notes); until they have an
+// issued invoice, their costing roll-up is what they owe. What payments allocate to an
+// invoice or costing is also kept on it as 'paid', raised only while it stays within what
+// it bills, so two payments at once cannot together cover more than is due.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { costingFilter, costingCollection } from "@/lib/client-costing";
+import { allocationKey, PAYMENT_MODES, roundMoney } from "@/lib/payments";
+import { ActionError } from "@/lib/errors";
+import type { ClientBalance, ClientPayment, PaymentAllocation, PaymentTarget, StatementLine } from "@/lib/types";
+
+const PAID_TOTALS_ID = "paid_totals";
+
+// The invoice or costing an allocation settles, and what it bills, for '$expr'. Only
+// issued invoices take new allocations.
+function allocationTarget(clientId: string, allocation: PaymentAllocation) {
+  return allocation.type === "invoice"
+    ? { collection: "invoices", filter: { _id: new ObjectId(allocation.invoiceId) }, open: { status: "issued" }, billed: { $ifNull: ["$totals.grand", 0] } }
+    : { collection: "client_costing", filter: costingFilter(clientId, allocation.projectId), open: {}, billed: { $ifNull: ["$grand", 0] } };
+}
+
+// Sets 'paid' on every invoice and costing from the payments' allocations, e.g. after a restore.
+export async function recountPaid(db: Db, session?: ClientSession) {
+  await db.collection("invoices").updateMany({ paid: { $exists: true } }, { $set: { paid: 0 } }, { session });
+  await costingCollection(db).updateMany({ paid: { $exists: true } }, { $set: { paid: 0 } }, { session });
+  const payments = await db.collection("client_payments").find({}, { session }).toArray();
+  for (const payment of payments.map(toPayment)) {
+    await bookAllocations(db, payment.clientId, [], payment.allocations, session, { guard: false });
+  }
+}
+
+// Invoices and costings stored before 'paid' was kept get it from the payments, once.
+async function ensurePaidTotals(db: Db, session: ClientSession) {
+  const settings = db.collection<{ _id: string; at: Date }>("settings");
+  if (await settings.findOne({ _id: PAID_TOTALS_ID }, { session })) return;
+  await recountPaid(db, session);
+  await settings.updateOne({ _id: PAID_TOTALS_ID }, { $setOnInsert: { at: new Date() } }, { upsert: true, session });
+}
+
+// Moves the 'paid' totals from a payment's 'previous' allocations to its 'next' ones.
+// Each of the next raises its target's total only while it stays within what the
+// target bills; a payment allocated meanwhile fails that guard.
+export async function bookAllocations(
+  db: Db,
+  clientId: string,
+  previous: PaymentAllocation[],
+  next: PaymentAllocation[],
+  session: ClientSession,
+  { guard = true }: { guard?: boolean } = {}
+) {
+  for (const allocation of previous) {
+    const { collection, filter } = allocationTarget(clientId, allocation);
+    await db.collection(collection).updateOne(filter, { $inc: { paid: -allocation.amount } }, { session });
+  }
+  for (const allocation of next) {
+    const { collection, filter, open, billed } = allocationTarget(clientId, allocation);
+    // Half a paisa of slack, as the amounts compared are rounded to two places.
+    const within = { $lte: [{ $add: [{ $ifNull: ["$paid", 0] }, allocation.amount] }, { $add: [billed, 0.005] }] };
+    const booked = await db.collection(collection).updateOne(
+      guard ? { ...filter, ...open, $expr: within } : filter,
+      { $inc: { paid: allocation.amount } },
+      { session }
+    );
+    if (guard && booked.modifiedCount === 0) {
+      throw new ActionError(`${allocation.reference} was paid meanwhile. Reload and try again.`);
+    }
+  }
+}
+
+export function toPayment(doc: Record<string, any>): ClientPayment {
+  const { _id, ...rest } = doc;
+  return {
+    id: _id.toString(),
+    ...rest,
+    allocations: Array.isArray(rest.allocations) ? rest.allocations : [],
+    date: new Date(rest.date).toISOString(),
+    createdAt: new Date(rest.createdAt).toISOString(),
+  } as ClientPayment;
+}
+
+// Newest first.
+export async function getPayments(db: Db, clientId: string, session?: ClientSession) {
+  const docs = await db.collection("client_payments").find({ clientId }, { session }).sort({ date: -1, createdAt: -1 }).toArray();
+  return docs.map(toPayment);
+}
+
+const costingReference = (version: unknown, projectName?: string) =>
+  `${projectName ? `${projectName} costing` : "Costing"}${version ? ` v${version}` : ""}`;
+
+// Issued invoices, or while there are none the client's costings, with what other
+// payments have not yet covered. The roll-up already includes every site, so a client is
+// paid against either the roll-up or their site costings, never both: the sites once
+// they have any and nothing was allocated to the roll-up, else the roll-up. 'exceptPaymentId' leaves out the
+// payment being re-allocated.
+export async function getPaymentTargets(db: Db, clientId: string, exceptPaymentId?: string, session?: ClientSession) {
+  const payments = await db.collection("client_payments")
+    .find({ clientId, ...(exceptPaymentId && ObjectId.isValid(exceptPaymentId) ? { _id: { $ne: new ObjectId(exceptPaymentId) } } : {}) }, { session })
+    .toArray();
+  const allocated = new Map<string, number>();
+  for (const allocation of payments.flatMap(p => toPayment(p).allocations)) {
+    allocated.set(allocationKey(allocation), (allocated.get(allocationKey(allocation)) ?? 0) + allocation.amount);
+  }
+
+  const targets: PaymentTarget[] = [];
+  const invoices = await db.collection("invoices")
+    .find({ clientId, kind: "invoice", status: "issued" }, { session })
+    .sort({ date: 1 })
+    .toArray();
+  for (const invoice of invoices) {
+    const target = { type: "invoice" as const, invoiceId: invoice._id.toString() };
+    const billed = Number(invoice.totals?.grand) || 0;
+    targets.push({
+      ...target,
+      key: allocationKey(target),
+      reference: String(invoice.number),
+      date: new Date(invoice.date).toISOString(),
+      billed,
+      due: roundMoney(billed - (allocated.get(allocationKey(target)) ?? 0)),
+    });
+  }
+  if (invoices.length > 0) return targets;
+
+  const allCostings = await costingCollection(db).find({ clientId }, { session }).toArray();
+  const paidOnRollUp = allocated.has(allocationKey({ type: "costing", projectId: null }));
+  const bySite = !paidOnRollUp && allCostings.some(c => c.projectId);
+  const costings = allCostings.filter(c => Boolean(c.projectId) === bySite);
+  const projectIds = costings.map(c => c.projectId).filter((id): id is string => Boolean(id) && ObjectId.isValid(id));
+  const projects = await db.collection("projects")
+    .find({ _id: { $in: projectIds.map(id => new ObjectId(id)) } }, { session, projection: { name: 1 } })
+    .toArray();
+  const projectNames = new Map(projects.map(p => [p._id.toString(), String(p.name || "")]));
+  for (const costing of costings) {
+    const projectId = (costing.projectId as string | null) || null;
+    const target = { type: "costing" as const, projectId };
+    const billed = roundMoney(Number(costing.grand) || 0);
+    targets.push({
+      ...target,
+      ...(costing.version ? { version: Number(costing.version) } : {}),
+      key: allocationKey(target),
+      reference: costingReference(costing.version, projectId ? projectNames.get(projectId) ?? "Site" : undefined),
+      date: new Date(costing.updatedAt ?? Date.now()).toISOString(),
+      billed,
+      due: roundMoney(billed - (allocated.get(allocationKey(target)) ?? 0)),
+    });
+  }
+  // Sites by name.
+  return targets.sort((a, b) => a.reference.localeCompare(b.reference));
+}
+
+// Turns the amounts a user spread over targets (by target key) into allocations of a
+// payment of 'amount'. Each may cover at most what is still due on its target, and
+// together no more than the payment; the rest stays an advance.
+export async function resolveAllocations(
+  db: Db,
+  clientId: string,
+  requested: { key: string; amount: number }[],
+  amount: number,
+  exceptPaymentId: string | undefined,
+  session: ClientSession
+) {
+  await ensurePaidTotals(db, session);
+  const targets = new Map((await getPaymentTargets(db, clientId, exceptPaymentId, session)).map(t => [t.key, t]));
+  const allocations: PaymentAllocation[] = [];
+  for (const { key, amount: value } of requested) {
+    const share = roundMoney(Number(value) || 0);
+    if (share <= 0) continue;
+    const target = targets.get(key);
+    if (!target) throw new ActionError("An invoice or costing to allocate against was not found. Reload and try again.");
+    if (share > target.due) throw new ActionError(`Only ${target.due.toFixed(2)} is due on ${target.reference}.`);
+    const { key: _key, date: _date, billed: _billed, due: _due, ...allocation } = target;
+    allocations.push({ ...allocation, amount: share });
+  }
+  if (roundMoney(allocations.reduce((sum, a) => sum + a.amount, 0)) > amount) {
+    throw new ActionError("Allocations cannot add up to more than the payment.");
+  }
+  return allocations;
+}
+
+// Every invoice, credit note and payment of the client (and their costing while nothing
+// is invoiced) oldest first, with the running balance.
+export async function getClientStatement(db: Db, clientId: string): Promise<ClientBalance & { lines: StatementLine[] }> {
+  const lines: Omit<StatementLine, "balance">[] = [];
+  const invoices = await db.collection("invoices").find({ clientId }).sort({ date: 1 }).toArray();
+  for (const invoice of invoices) {
+    const amount = Number(invoice.totals?.grand) || 0;
+    const isCreditNote = invoice.kind === "credit_note";
+    lines.push({
+      date: new Date(invoice.date).toISOString(),
+      kind: isCreditNote ? "credit_note" : "invoice",
+      reference: String(invoice.number),
+      description: isCreditNote
+        ? `Credit note against ${invoice.againstInvoiceNo ?? "invoice"}`
+        : `Tax invoice${invoice.status === "voided" ? " (voided)" : ""}`,
+      debit: isCreditNote ? 0 : amount,
+      credit: isCreditNote ? amount : 0,
+    });
+  }
+
+  if (!invoices.some(i => i.kind === "invoice" && i.status === "issued")) {
+    const rollUp = await costingCollection(db).findOne(costingFilter(clientId));
+    const grand = roundMoney(Number(rollUp?.grand) || 0);
+    if (rollUp && grand > 0) {
+      lines.push({
+        date: new Date(rollUp.updatedAt ?? Date.now()).toISOString(),
+        kind: "costing",
+        reference: costingReference(rollUp.version),
+        description: "Material supplied as per client costing (not yet invoiced)",
+        debit: grand,
+        credit: 0,
+      });
+    }
+  }
+
+  for (const payment of await getPayments(db, clientId)) {
+    const against = payment.allocations.map(a => a.reference).join(", ");
+    lines.push({
+      date: payment.date,
+      kind: "payment",
+      reference: payment.receiptNo,
+      description: [
+        `${PAYMENT_MODES[payment.mode] ?? payment.mode}${payment.reference ? ` ${payment.reference}` : ""}`,
+        against ? `against ${against}` : "advance",
+      ].join(" · "),
+      debit: 0,
+      credit: payment.amount,
+    });
+  }
+
+  lines.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const billed = roundMoney(lines.reduce((sum, l) => sum + (l.kind === "payment" ? 0 : l.debit - l.credit), 0));
+  const paid = roundMoney(lines.reduce((sum, l) => sum + (l.kind === "payment" ? l.credit : 0), 0));
+  let balance = 0;
+  return {
+    lines: lines.map(line => ({ ...line, balance: (balance = roundMoney(balance + line.debit - line.credit)) })),
+    billed,
+    paid,
+    outstanding: roundMoney(billed - paid),
+  };
+}
+
+// The same balance as the statement, for every client at once.
+export async function getClientBalances(db: Db) {
+  const balances = new Map<string, ClientBalance>();
+  const balanceOf = (clientId: string) => {
+    const balance = balances.get(clientId) ?? { billed: 0, paid: 0, outstanding: 0 };
+    balances.set(clientId, balance);
+    return balance;
+  };
+
+  const invoiced = await db.collection("invoices").aggregate<{ _id: string; net: number; issued: number }>([
+    {
+      $group: {
+        _id: "$clientId",
+        net: { $sum: { $cond: [{ $eq: ["$kind", "credit_note"] }, { $multiply: ["$totals.grand", -1] }, "$totals.grand"] } },
+        issued: { $sum: { $cond: [{ $and: [{ $eq: ["$kind", "invoice"] }, { $eq: ["$status", "issued"] }] }, 1, 0] } },
+      },
+    },
+  ]).toArray();
+  const hasIssued = new Set<string>();
+  for (const row of invoiced) {
+    balanceOf(String(row._id)).billed += Number(row.net) || 0;
+    if (row.issued > 0) hasIssued.add(String(row._id));
+  }
+
+  const rollUps = await costingCollection(db).find({ projectId: null }, { projection: { clientId: 1, grand: 1 } }).toArray();
+  for (const rollUp of rollUps) {
+    if (!hasIssued.has(String(rollUp.clientId))) balanceOf(String(rollUp.clientId)).billed += roundMoney(Number(rollUp.grand) || 0);
+  }
+
+  const paid = await db.collection("client_payments").aggregate<{ _id: string; amount: number }>([
+    { $group: { _id: "$clientId", amount: { $sum: "$amount" } } },
+  ]).toArray();
+  for (const row of paid) balanceOf(String(row._id)).paid += Number(row.amount) || 0;
+
+  for (const balance of balances.values()) {
+    balance.billed = roundMoney(balance.billed);
+    balance.paid = roundMoney(balance.paid);
+    balance.outstanding = roundMoney(balance.billed - balance.paid);
+  }
+  return balances;
+}
@@ -0,0 +1,150 @@
+// Repository for the 'clients' collection: typed access, the stored document's schema
+// (checked on every insert and field update), mapping to Client, checks, entries and the
+// change history. Server-only.
+
+import type { ClientSession, Db, ObjectId } from "mongodb";
+import { z } from "zod";
+import { fromDoc, validated, type StoredDoc } from "@/lib/documents";
+import { findClientEntries, toClientEntry } from "@/lib/client-material-entries";
+import { entryNet, materialUsage } from "@/lib/usage";
+import type { Client, ClientAuditAction, ClientAuditEntry, ClientMaterialEntry, ClientTimeline, SessionUser } from "@/lib/types";
+
+export type ClientDoc = StoredDoc<Client>;
+
+export const clientsCollection = (db: Db) => db.collection<ClientDoc>("clients");
+
+const clientSchema = z.object({
+  name: z.string().min(1),
+  consumerNo: z.string().min(1),
+  avatarUrl: z.string().optional(),
+  address: z.string().default(""),
+  plantCapacity: z.string().default(""),
+  gstin: z.string().optional(),
+  stateCode: z.string().optional(),
+  priceList: z.array(z.object({
+    materialId: z.string().min(1),
+    unitPrice: z.number().finite().nonnegative(),
+  }).passthrough()).optional(),
+  archived: z.boolean().optional(),
+  archivedAt: z.preprocess(value => (typeof value === "string" ? new Date(value) : value), z.date()).optional(),
+  archivedBy: z.string().optional(),
+}).passthrough();
+
+export type NewClient = z.input<typeof clientSchema> & { _id?: ObjectId };
+
+// Checks clients against the schema without storing them.
+export function checkClients(clients: NewClient[]) {
+  return clients.map(client => validated(clientSchema, client, "client"));
+}
+
+// Validates and stores new clients. Returns their ids.
+export async function insertClients(db: Db, clients: NewClient[], session?: ClientSession) {
+  if (clients.length === 0) return [];
+  const docs = checkClients(clients);
+  const result = await db.collection("clients").insertMany(docs, { session });
+  return Object.values(result.insertedIds).map(id => id.toString());
+}
+
+// The '$set' of an update to a client's fields, checked against the schema.
+export function clientFields<T extends Partial<ClientDoc>>(fields: T): T {
+  validated(clientSchema.partial(), fields, "client");
+  return fields;
+}
+
+// A client as listed, with what they owe. The price list and GST details stay on the
+// client page.
+export function toClient(doc: ClientDoc, outstanding = 0): Client {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    consumerNo: doc.consumerNo,
+    avatarUrl: doc.avatarUrl,
+    address: doc.address,
+    plantCapacity: doc.plantCapacity,
+    outstanding,
+    ...(doc.archived ? { archived: true } : {}),
+  };
+}
+
+let indexesEnsured = false;
+
+// Indexes behind the client list's search, filter and sort.
+export async function ensureClientIndexes(db: Db) {
+  if (indexesEnsured) return;
+  const clients = clientsCollection(db);
+  await clients.createIndex({ name: 1 });
+  await clients.createIndex({ consumerNo: 1 });
+  await clients.createIndex({ archived: 1, name: 1 });
+  await db.collection("client_audit").createIndex({ clientId: 1, at: -1 });
+  indexesEnsured = true;
+}
+
+// Consumer numbers identify a client; no two clients may share one.
+export async function consumerNoInUse(db: Db, consumerNo: string, exceptClientId?: string, session?: ClientSession) {
+  const existing = await clientsCollection(db).findOne({ consumerNo }, { session, projection: { _id: 1 } });
+  return Boolean(existing) && existing!._id.toString() !== exceptClientId;
+}
+
+// Materials the client still holds: dispatched less returned, per material.
+export async function getUnreturnedMaterials(db: Db, clientId: string, session?: ClientSession) {
+  const entries = await findClientEntries(db, clientId, { session });
+  return materialUsage(entries)
+    .filter(row => row.netQty > 0)
+    .map(row => ({ materialId: row.materialId, materialName: row.materialName, quantity: row.netQty }));
+}
+
+export async function recordClientChange(
+  db: Db,
+  change: { clientId: string; clientName: string; action: ClientAuditAction; changes?: ClientAuditEntry["changes"]; user?: SessionUser },
+  session?: ClientSession
+) {
+  const { user, ...rest } = change;
+  await db.collection("client_audit").insertOne({ ...rest, at: new Date(), ...(user ? { by: user.name } : {}) }, { session });
+}
+
+// Newest first.
+export async function getClientAudit(db: Db, clientId: string): Promise<ClientAuditEntry[]> {
+  const docs = await db.collection<StoredDoc<ClientAuditEntry>>("client_audit").find({ clientId }).sort({ at: -1 }).limit(100).toArray();
+  return docs.map(doc => fromDoc<ClientAuditEntry>(doc, ["at"]));
+}
+
+// The client's material entries, oldest first; one site's only with 'projectId'.
+export async function getClientEntries(db: Db, clientId: string, projectId?: string | null): Promise<ClientMaterialEntry[]> {
+  const docs = await findClientEntries(db, clientId, { projectId });
+  return docs.map(toClientEntry);
+}
+
+// Every entry of the client in date order with the running net holding, optionally for
+// one material and between two days (inclusive, "YYYY-MM-DD"). Entries before 'from'
+// still count towards the balance, as the opening.
+export async function getClientTimeline(
+  db: Db,
+  clientId: string,
+  filter: { materialId?: string | null; from?: string | null; to?: string | null } = {}
+): Promise<ClientTimeline> {
+  const entries = await getClientEntries(db, clientId);
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+
+  const materials = new Map<string, ClientTimeline["materials"][number]>();
+  const timeline: ClientTimeline = { opening: 0, entries: [], materials: [] };
+  let balance = 0;
+  for (const entry of entries) {
+    const lines = Array.isArray(entry.materials) ? entry.materials : [];
+    for (const line of lines) {
+      if (!materials.has(line.materialId)) {
+        materials.set(line.materialId, { materialId: line.materialId, materialName: line.materialName, unit: line.unit });
+      }
+    }
+    const shown = filter.materialId ? lines.filter(l => l.materialId === filter.materialId) : lines;
+    if (shown.length === 0) continue;
+
+    const net = entryNet(entry, filter.materialId);
+    balance += net;
+    const at = new Date(entry.date).getTime();
+    if (at < from) timeline.opening = balance;
+    else if (at <= to) timeline.entries.push({ ...entry, net, balance });
+  }
+  timeline.materials = [...materials.values()].sort((a, b) => a.materialName.localeCompare(b.materialName));
+  return timeline;
+}
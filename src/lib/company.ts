@@ -0,0 +1,24 @@
+// The company's own details (seller on tax invoices), stored as a single document
+// in the 'settings' collection. Server-only.
+
+import type { ClientSession, Db } from "mongodb";
+import type { CompanyProfile } from "@/lib/types";
+
+const COMPANY_SETTINGS_ID = "company";
+
+type CompanySettingsDoc = CompanyProfile & { _id: string; updatedAt?: Date };
+
+export async function getCompanyProfile(db: Db, session?: ClientSession): Promise<CompanyProfile | null> {
+  const doc = await db.collection<CompanySettingsDoc>("settings").findOne({ _id: COMPANY_SETTINGS_ID }, { session });
+  if (!doc) return null;
+  const { _id, updatedAt, ...profile } = doc;
+  return profile;
+}
+
+export async function saveCompanyProfile(db: Db, profile: CompanyProfile) {
+  await db.collection<CompanySettingsDoc>("settings").updateOne(
+    { _id: COMPANY_SETTINGS_ID },
+    { $set: { ...profile, updatedAt: new Date() } },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,53 @@
+// Differences between two versions of a client costing, for showing them side by side.
+// Pure functions, safe to use on the client and the server.
+
+import type { ClientCostRow, ClientCostingVersion, CostingCharge } from "@/lib/types";
+
+export type CostingDiffRow = {
+  key: string;
+  name: string;
+  unit?: string;
+  before?: ClientCostRow;
+  after?: ClientCostRow;
+  changed: boolean;
+};
+
+export type CostingDiffLine = { label: string; before: number; after: number };
+
+// Rows are matched by material and rate, as a material billed at two prices has a row
+// for each.
+const rowKey = (row: ClientCostRow) => `${row.materialId}|${row.rate}`;
+
+const sameRow = (a: ClientCostRow, b: ClientCostRow) =>
+  a.qty === b.qty && (a.discountPercent ?? 0) === (b.discountPercent ?? 0) && a.gstPercent === b.gstPercent && a.total === b.total;
+
+export function diffCostingRows(before: ClientCostRow[], after: ClientCostRow[]): CostingDiffRow[] {
+  const rows = new Map<string, CostingDiffRow>();
+  for (const row of before) {
+    rows.set(rowKey(row), { key: rowKey(row), name: row.name, unit: row.unit, before: row, changed: true });
+  }
+  for (const row of after) {
+    const existing = rows.get(rowKey(row));
+    rows.set(rowKey(row), existing?.before
+      ? { ...existing, after: row, changed: !sameRow(existing.before, row) }
+      : { key: rowKey(row), name: row.name, unit: row.unit, after: row, changed: true });
+  }
+  return [...rows.values()].sort((a, b) => a.name.localeCompare(b.name) || a.key.localeCompare(b.key));
+}
+
+const chargeTotal = (charges: CostingCharge[] | undefined, label: string) =>
+  (charges ?? []).filter(c => c.label === label).reduce((sum, c) => sum + c.amount, 0);
+
+// Summary lines of both versions: materials, discount, each charge and the totals.
+export function diffCostingTotals(before: ClientCostingVersion, after: ClientCostingVersion): CostingDiffLine[] {
+  const subTotal = (v: ClientCostingVersion) => v.subTotal ?? v.items.reduce((sum, r) => sum + r.base, 0);
+  const chargeLabels = [...new Set([...(before.charges ?? []), ...(after.charges ?? [])].map(c => c.label))];
+  return [
+    { label: "Materials", before: subTotal(before), after: subTotal(after) },
+    { label: "Discount", before: before.discount ?? 0, after: after.discount ?? 0 },
+    ...chargeLabels.map(label => ({ label, before: chargeTotal(before.charges, label), after: chargeTotal(after.charges, label) })),
+    { label: "Total Before Tax", before: before.beforeTax, after: after.beforeTax },
+    { label: "Total GST", before: before.gst, after: after.gst },
+    { label: "Grand Total", before: before.grand, after: after.grand },
+  ];
+}
@@ -0,0 +1,49 @@
+// Amounts of a client costing: line discounts, the bill discount on the materials and
+// extra charges. The server stores what these return; the costing page uses them to
+// preview edits before saving. Pure functions, safe to use on the client and the server.
+
+import type { ClientCostRow, CostingCharge } from "@/lib/types";
+
+const percent = (value: unknown) => Math.min(100, Math.max(0, Number(value) || 0));
+
+export function costRow<T extends Pick<ClientCostRow, "qty" | "rate" | "gstPercent" | "discountPercent">>(row: T) {
+  const qty = Math.max(0, Number(row.qty) || 0);
+  const rate = Math.max(0, Number(row.rate) || 0);
+  const discountPercent = percent(row.discountPercent);
+  const gstPercent = Math.max(0, Number(row.gstPercent) || 0);
+  const base = qty * rate * (1 - discountPercent / 100);
+  const gst = base * (gstPercent / 100);
+  const { discountPercent: _discount, ...rest } = row;
+  return { ...rest, qty, rate, gstPercent, ...(discountPercent > 0 ? { discountPercent } : {}), base, gst, total: base + gst };
+}
+
+export function costCharge(charge: Pick<CostingCharge, "label" | "sacCode" | "amount" | "gstPercent">): CostingCharge {
+  const amount = Math.max(0, Number(charge.amount) || 0);
+  const gstPercent = Math.max(0, Number(charge.gstPercent) || 0);
+  const gst = amount * (gstPercent / 100);
+  return {
+    label: String(charge.label || "").trim(),
+    ...(charge.sacCode ? { sacCode: String(charge.sacCode).trim() } : {}),
+    amount,
+    gstPercent,
+    gst,
+    total: amount + gst,
+  };
+}
+
+// The bill discount comes off the materials only, and their GST with it; charges are
+// added in full.
+export function costingTotals(
+  items: ClientCostRow[],
+  { discountPercent, charges = [] }: { discountPercent?: number; charges?: CostingCharge[] }
+) {
+  const billPercent = percent(discountPercent);
+  const subTotal = items.reduce((s, r) => s + r.base, 0);
+  const materialsGst = items.reduce((s, r) => s + r.gst, 0);
+  const discount = subTotal * (billPercent / 100);
+  const chargesBase = charges.reduce((s, c) => s + c.amount, 0);
+  const chargesGst = charges.reduce((s, c) => s + c.gst, 0);
+  const beforeTax = subTotal - discount + chargesBase;
+  const gst = materialsGst * (1 - billPercent / 100) + chargesGst;
+  return { subTotal, discountPercent: billPercent, discount, charges, beforeTax, gst, grand: beforeTax + gst };
+}
@@ -0,0 +1,39 @@
+// Mapping between stored MongoDB documents and the domain types in lib/types, and
+// validation of documents before they are written. The per-collection repositories
+// (lib/materials, lib/clients, lib/client-material-entries, lib/stock-ledger,
+// lib/client-costing) build on these. Server-only.
+
+import type { ObjectId } from "mongodb";
+import type { z } from "zod";
+
+// How a domain type is stored: MongoDB's '_id' in place of 'id'.
+export type StoredDoc<T extends { id?: string }> = Omit<T, "id"> & { _id: ObjectId };
+
+// A stored document as its domain type, with '_id' as the string 'id' and the given
+// date fields as ISO strings so the result can be passed to client components.
+export function fromDoc<T extends { id?: string }>(doc: StoredDoc<T>, dates: (keyof T & string)[] = []): T {
+  const { _id, ...fields } = doc;
+  const rest: Record<string, unknown> = fields;
+  for (const field of dates) {
+    if (rest[field] != null) rest[field] = new Date(rest[field] as Date | string).toISOString();
+  }
+  return { id: _id.toString(), ...rest } as unknown as T;
+}
+
+// A document that does not match its schema. Callers validate user input first, so this
+// is a bug in the caller rather than something to show the user.
+export class DocumentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentValidationError";
+  }
+}
+
+// Checks a document against its schema before it is written. Fields the schema does not
+// name are kept, so schemas should be 'passthrough'.
+export function validated<S extends z.ZodTypeAny>(schema: S, doc: z.input<S>, what: string): z.output<S> {
+  const result = schema.safeParse(doc);
+  if (result.success) return result.data;
+  const issue = result.error.issues[0];
+  throw new DocumentValidationError(`Invalid ${what}: ${issue.path.join(".") || "document"}: ${issue.message}`);
+}
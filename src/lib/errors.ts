@@ -0,0 +1,9 @@
+// Raised for expected business-rule failures (client not found, nothing to invoice, an
+// allocation larger than the payment). Actions and routes show its message to the user
+// as-is; anything else is logged and reported as a generic failure.
+export class ActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionError";
+  }
+}
@@ -0,0 +1,77 @@
+// Invoice lines from a costing, and what of a costing earlier invoices have not billed.
+
+import { describe, expect, it } from "vitest";
+import { buildInvoiceLines, uninvoicedPart } from "@/lib/gst";
+import type { ClientCostRow, CostingCharge, InvoiceLine } from "@/lib/types";
+
+const row = (materialId: string, qty: number, rate: number, extra: Partial<ClientCostRow> = {}): ClientCostRow => ({
+  materialId,
+  name: materialId,
+  qty,
+  rate,
+  gstPercent: 18,
+  base: qty * rate,
+  gst: 0,
+  total: 0,
+  ...extra,
+});
+
+const freight: CostingCharge = { label: "Freight", amount: 500, gstPercent: 18, gst: 90, total: 590 };
+
+const invoiceFor = (rows: ClientCostRow[], charges: CostingCharge[] = [], status = "issued") =>
+  ({ status, lines: buildInvoiceLines(rows, {}, false, { charges }) });
+
+describe("buildInvoiceLines", () => {
+  it("splits the tax into CGST and SGST within the state and IGST across states", () => {
+    const [intra] = buildInvoiceLines([row("m1", 2, 100)], { m1: "8544" }, false);
+    expect(intra).toMatchObject({ hsnCode: "8544", taxable: 200, cgst: 18, sgst: 18, igst: 0, total: 236 });
+
+    const [inter] = buildInvoiceLines([row("m1", 2, 100)], {}, true);
+    expect(inter).toMatchObject({ taxable: 200, cgst: 0, sgst: 0, igst: 36, total: 236 });
+  });
+
+  it("bills a fully discounted row at nothing", () => {
+    const [line] = buildInvoiceLines([row("m1", 2, 100, { discountPercent: 100, base: 0 })], {}, false);
+    expect(line).toMatchObject({ qty: 2, taxable: 0, total: 0 });
+  });
+});
+
+describe("uninvoicedPart", () => {
+  const rows = [row("m1", 10, 100), row("m2", 4, 50)];
+
+  it("leaves nothing once an issued invoice bills the whole costing", () => {
+    expect(uninvoicedPart(rows, [freight], [invoiceFor(rows, [freight])])).toEqual({ rows: [], charges: [] });
+  });
+
+  it("keeps only what was dispatched after the last invoice", () => {
+    const earlier = invoiceFor([row("m1", 6, 100)]);
+    expect(uninvoicedPart(rows, [freight], [earlier])).toEqual({
+      rows: [row("m1", 4, 100), rows[1]],
+      charges: [freight],
+    });
+  });
+
+  it("takes invoiced quantities from the oldest rows of a material first", () => {
+    const layered = [row("m1", 5, 100), row("m1", 5, 120)];
+    const earlier = invoiceFor([row("m1", 7, 100)]);
+    expect(uninvoicedPart(layered, [], [earlier]).rows).toEqual([row("m1", 3, 120)]);
+  });
+
+  it("keeps the line discount on a part-invoiced row", () => {
+    const discounted = [row("m1", 10, 100, { discountPercent: 10, base: 900 })];
+    const earlier = invoiceFor([row("m1", 4, 100, { discountPercent: 10, base: 360 })]);
+    expect(uninvoicedPart(discounted, [], [earlier]).rows).toEqual([
+      row("m1", 6, 100, { discountPercent: 10, base: 540 }),
+    ]);
+  });
+
+  it("ignores voided invoices", () => {
+    const voided = invoiceFor(rows, [freight], "voided");
+    expect(uninvoicedPart(rows, [freight], [voided])).toEqual({ rows, charges: [freight] });
+  });
+
+  it("does not invoice a return below what was already invoiced", () => {
+    const earlier = { status: "issued", lines: [{ materialId: "m1", name: "m1", qty: 12 } as InvoiceLine] };
+    expect(uninvoicedPart(rows, [], [earlier]).rows).toEqual([rows[1]]);
+  });
+});
@@ -0,0 +1,185 @@
+// GST helpers for tax invoices: state codes, financial years, the CGST/SGST vs IGST
+// split and amount in words. Pure functions, safe to use on the client and the server.
+
+import type { ClientCostRow, CostingCharge, InvoiceLine, InvoiceTotals } from "@/lib/types";
+
+// GST state / union territory codes (first two digits of a GSTIN).
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+];
+
+export function stateName(code: string | undefined) {
+  return GST_STATES.find(s => s.code === code)?.name ?? "";
+}
+
+// 15 characters: state code, PAN, entity number, 'Z', checksum.
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][0-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidGstin(gstin: string) {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+export function stateCodeFromGstin(gstin: string | undefined) {
+  return gstin && isValidGstin(gstin) ? gstin.trim().slice(0, 2) : "";
+}
+
+// Indian financial year (April to March) a date falls in, e.g. "2025-26".
+export function financialYearOf(date: Date) {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, "0")}`;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Turn costing rows into invoice lines. Intra-state supplies split the tax equally into
+// CGST and SGST; inter-state supplies (place of supply differs from the seller's state) carry IGST.
+// The costing's bill discount reduces each material line's taxable value; its charges
+// (freight, installation, ...) become lines of their own.
+export function buildInvoiceLines(
+  rows: ClientCostRow[],
+  hsnCodes: Record<string, string>,
+  interState: boolean,
+  { discountPercent = 0, charges = [] }: { discountPercent?: number; charges?: CostingCharge[] } = {}
+): InvoiceLine[] {
+  const keep = 1 - (Math.min(100, Math.max(0, Number(discountPercent) || 0)) / 100);
+  const line = (fields: Pick<InvoiceLine, "materialId" | "name" | "hsnCode" | "qty" | "unit" | "rate">, taxableIn: number, gstPercent: number) => {
+    const taxable = round2(taxableIn);
+    const tax = round2(taxable * gstPercent / 100);
+    const cgst = interState ? 0 : round2(tax / 2);
+    const sgst = interState ? 0 : round2(tax - cgst);
+    const igst = interState ? tax : 0;
+    return { ...fields, taxable, gstPercent, cgst, sgst, igst, total: round2(taxable + tax) };
+  };
+  const materialLines = rows.filter(r => (Number(r.qty) || 0) > 0).map(r => line(
+    {
+      materialId: r.materialId,
+      name: r.name,
+      hsnCode: hsnCodes[r.materialId] || "",
+      qty: Number(r.qty) || 0,
+      ...(r.unit ? { unit: r.unit } : {}),
+      rate: Number(r.rate) || 0,
+    },
+    (r.base ?? (Number(r.qty) || 0) * (Number(r.rate) || 0)) * keep,
+    Number(r.gstPercent) || 0
+  ));
+  const chargeLines = charges.filter(c => (Number(c.amount) || 0) > 0).map(c => line(
+    { materialId: "", name: c.label, hsnCode: c.sacCode || "", qty: 1, rate: Number(c.amount) || 0 },
+    Number(c.amount) || 0,
+    Number(c.gstPercent) || 0
+  ));
+  return [...materialLines, ...chargeLines];
+}
+
+// What of a costing is not invoiced yet: each material's quantity less what issued
+// invoices already bill of it (taken from its oldest rows first), and the charges no
+// issued invoice carries. Voided invoices are left out, as their credit notes cancel
+// them. A part-invoiced row keeps its rate and line discount.
+export function uninvoicedPart(
+  rows: ClientCostRow[],
+  charges: CostingCharge[],
+  invoices: { status: string; lines: InvoiceLine[] }[]
+): { rows: ClientCostRow[]; charges: CostingCharge[] } {
+  const invoicedQty = new Map<string, number>();
+  const invoicedCharges = new Set<string>();
+  for (const invoice of invoices) {
+    if (invoice.status !== "issued") continue;
+    for (const l of invoice.lines) {
+      if (l.materialId) invoicedQty.set(l.materialId, (invoicedQty.get(l.materialId) ?? 0) + l.qty);
+      else invoicedCharges.add(l.name);
+    }
+  }
+  const rowsLeft: ClientCostRow[] = [];
+  for (const r of rows) {
+    const qty = Number(r.qty) || 0;
+    const invoiced = Math.min(qty, invoicedQty.get(r.materialId) ?? 0);
+    invoicedQty.set(r.materialId, (invoicedQty.get(r.materialId) ?? 0) - invoiced);
+    const left = round2(qty - invoiced);
+    if (left <= 0) continue;
+    rowsLeft.push(invoiced > 0 ? { ...r, qty: left, base: round2((r.base ?? qty * (Number(r.rate) || 0)) * left / qty) } : r);
+  }
+  return { rows: rowsLeft, charges: charges.filter(c => !invoicedCharges.has(c.label)) };
+}
+
+// Totals rounded to the nearest rupee, as printed on the invoice.
+export function invoiceTotals(lines: InvoiceLine[]): InvoiceTotals {
+  const taxable = round2(lines.reduce((s, l) => s + l.taxable, 0));
+  const cgst = round2(lines.reduce((s, l) => s + l.cgst, 0));
+  const sgst = round2(lines.reduce((s, l) => s + l.sgst, 0));
+  const igst = round2(lines.reduce((s, l) => s + l.igst, 0));
+  const total = round2(taxable + cgst + sgst + igst);
+  const grand = Math.round(total);
+  return { taxable, cgst, sgst, igst, total, roundOff: round2(grand - total), grand };
+}
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function belowHundred(n: number) {
+  return n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ""}`;
+}
+
+function belowThousand(n: number) {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? belowHundred(rest) : ""].filter(Boolean).join(" ");
+}
+
+// Indian numbering (crore, lakh, thousand), e.g. 125000.5 ->
+// "Rupees One Lakh Twenty Five Thousand and Fifty Paise Only".
+export function amountInWords(amount: number) {
+  const abs = Math.abs(amount);
+  let rupees = Math.floor(abs);
+  const paise = Math.round((abs - rupees) * 100);
+  const parts: string[] = [];
+  const crore = Math.floor(rupees / 10000000);
+  rupees %= 10000000;
+  const lakh = Math.floor(rupees / 100000);
+  rupees %= 100000;
+  const thousand = Math.floor(rupees / 1000);
+  rupees %= 1000;
+  if (crore) parts.push(`${crore >= 100 ? belowThousand(crore) : belowHundred(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  if (rupees) parts.push(belowThousand(rupees));
+  const words = parts.length ? parts.join(" ") : "Zero";
+  return `${amount < 0 ? "Minus " : ""}Rupees ${words}${paise ? ` and ${belowHundred(paise)} Paise` : ""} Only`;
+}
@@ -0,0 +1,124 @@
+// Printable GST tax invoice / credit note. Everything printed comes from the stored
+// invoice document, so a reprint always matches what was issued. Browser-only.
+
+import autoTable from "jspdf-autotable";
+import type { Invoice } from "@/lib/types";
+import { stateName } from "@/lib/gst";
+import { createClientPdf, addPageNumbers, afterLastTable, pdfFileName, PDF_MARGIN_X, PDF_TABLE_STYLES } from "@/lib/pdf";
+import { formatQty } from "@/lib/units";
+
+const money = (n: number) => n.toFixed(2);
+
+export function downloadInvoicePdf(invoice: Invoice) {
+  const isCreditNote = invoice.kind === "credit_note";
+  const doc = createClientPdf(isCreditNote ? "Credit Note" : "Tax Invoice");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const marginX = PDF_MARGIN_X;
+  const colWidth = (pageWidth - marginX * 2) / 2 - 4;
+  const rightX = marginX + colWidth + 8;
+
+  // Document details
+  let y = 26;
+  doc.setFontSize(11);
+  doc.text(`${isCreditNote ? "Credit Note" : "Invoice"} No: ${invoice.number}`, marginX, y);
+  doc.text(`Date: ${new Date(invoice.date).toLocaleDateString()}`, rightX, y);
+  y += 6;
+  doc.text(`Place of Supply: ${invoice.placeOfSupply} - ${stateName(invoice.placeOfSupply)}`, marginX, y);
+  if (isCreditNote && invoice.againstInvoiceNo) {
+    doc.text(`Against Invoice: ${invoice.againstInvoiceNo}`, rightX, y);
+  }
+  y += 8;
+
+  // Seller and buyer side by side
+  const party = (label: string, x: number, lines: string[]) => {
+    doc.setFontSize(10);
+    doc.text(label, x, y);
+    doc.setFontSize(9);
+    const wrapped = lines.flatMap(line => doc.splitTextToSize(line, colWidth) as string[]);
+    doc.text(wrapped, x, y + 5);
+    return y + 5 + wrapped.length * 4;
+  };
+  const sellerEnd = party("Seller", marginX, [
+    invoice.seller.name,
+    invoice.seller.address,
+    `GSTIN: ${invoice.seller.gstin}`,
+    `State: ${invoice.seller.stateCode} - ${stateName(invoice.seller.stateCode)}`,
+    ...(invoice.seller.phone ? [`Phone: ${invoice.seller.phone}`] : []),
+  ]);
+  const buyerEnd = party("Buyer", rightX, [
+    invoice.buyer.name,
+    invoice.buyer.address || "-",
+    `GSTIN: ${invoice.buyer.gstin || "Unregistered"}`,
+    `State: ${invoice.buyer.stateCode} - ${stateName(invoice.buyer.stateCode)}`,
+  ]);
+  y = Math.max(sellerEnd, buyerEnd);
+
+  // Lines: CGST/SGST columns for intra-state supplies, IGST for inter-state.
+  const taxHead = invoice.interState ? ["IGST"] : ["CGST", "SGST"];
+  autoTable(doc, {
+    head: [["#", "Item", "HSN/SAC", "Qty", "Rate", "Taxable", "GST %", ...taxHead, "Total"]],
+    body: invoice.lines.map((l, i) => [
+      String(i + 1),
+      l.name,
+      l.hsnCode || "-",
+      formatQty(l.qty, l.unit),
+      money(l.rate),
+      money(l.taxable),
+      String(l.gstPercent),
+      ...(invoice.interState ? [money(l.igst)] : [money(l.cgst), money(l.sgst)]),
+      money(l.total),
+    ]),
+    startY: y + 4,
+    ...PDF_TABLE_STYLES,
+    styles: { ...PDF_TABLE_STYLES.styles, fontSize: 8 },
+    columnStyles: {
+      0: { halign: "right", cellWidth: 8 },
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+      7: { halign: "right" },
+      8: { halign: "right" },
+      9: { halign: "right" },
+    },
+  });
+
+  // Totals
+  y = afterLastTable(doc);
+  const t = invoice.totals;
+  const totalRows: [string, number][] = [
+    ["Taxable Value", t.taxable],
+    ...(invoice.interState
+      ? [["IGST", t.igst] as [string, number]]
+      : [["CGST", t.cgst] as [string, number], ["SGST", t.sgst] as [string, number]]),
+    ["Round Off", t.roundOff],
+    [isCreditNote ? "Credit Amount" : "Grand Total", t.grand],
+  ];
+  doc.setFontSize(10);
+  for (const [label, value] of totalRows) {
+    doc.text(label, pageWidth - marginX - 60, y);
+    doc.text(money(value), pageWidth - marginX, y, { align: "right" });
+    y += 5;
+  }
+  y += 3;
+  const words = doc.splitTextToSize(`Amount in words: ${invoice.amountInWords}`, pageWidth - marginX * 2);
+  doc.text(words, marginX, y);
+  y += (Array.isArray(words) ? words.length : 1) * 5;
+  if (isCreditNote && invoice.voidReason) {
+    y += 2;
+    const reason = doc.splitTextToSize(`Reason: ${invoice.voidReason}`, pageWidth - marginX * 2);
+    doc.text(reason, marginX, y);
+    y += (Array.isArray(reason) ? reason.length : 1) * 5;
+  }
+
+  // Signature
+  y += 18;
+  doc.setDrawColor(150);
+  doc.line(pageWidth - marginX - 60, y, pageWidth - marginX, y);
+  doc.setFontSize(9);
+  doc.text(`For ${invoice.seller.name}`, pageWidth - marginX - 60, y + 5);
+  doc.text("Authorised Signatory", pageWidth - marginX - 60, y + 10);
+
+  addPageNumbers(doc);
+  doc.save(pdfFileName(isCreditNote ? "CreditNote" : "Invoice", invoice.number.replace(/\//g, "-"), invoice.buyer.name));
+}
@@ -0,0 +1,84 @@
+// The browser's one connection to '/api/live', shared by every hook that listens for
+// live updates and by the header's indicator. Opened by the first subscriber and closed
+// after the last. Browser-only.
+
+import type { LiveEvent, LiveTopic } from "@/lib/live";
+
+// 'connecting' only before the first connection; a dropped one is 'offline' until it
+// is back, and the hooks poll meanwhile.
+export type LiveStatus = "connecting" | "live" | "offline";
+
+// When the server refuses the stream (e.g. 503), the browser does not retry by itself.
+const RECONNECT_MS = 15000;
+
+type TopicListener = (event: LiveEvent) => void;
+
+let source: EventSource | null = null;
+let reconnect: ReturnType<typeof setTimeout> | undefined;
+let status: LiveStatus = "connecting";
+let users = 0;
+const topicListeners = new Map<LiveTopic, Set<TopicListener>>();
+const statusListeners = new Set<() => void>();
+
+function setStatus(next: LiveStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach(listener => listener());
+}
+
+function connect() {
+  reconnect = undefined;
+  source = new EventSource("/api/live");
+  source.onopen = () => setStatus("live");
+  source.onmessage = message => {
+    try {
+      const event = JSON.parse(message.data) as LiveEvent;
+      topicListeners.get(event.topic)?.forEach(listener => listener(event));
+    } catch (error) {
+      console.error("Bad live update:", error);
+    }
+  };
+  source.onerror = () => {
+    setStatus("offline");
+    if (source?.readyState === EventSource.CLOSED) {
+      source = null;
+      reconnect = setTimeout(connect, RECONNECT_MS);
+    }
+  };
+}
+
+function retain() {
+  if (users++ === 0 && !source && !reconnect) connect();
+  return () => {
+    if (--users > 0) return;
+    source?.close();
+    source = null;
+    clearTimeout(reconnect);
+    reconnect = undefined;
+    setStatus("connecting");
+  };
+}
+
+// Calls 'listener' with each event of the topic. Returns the unsubscribe.
+export function subscribeTopic(topic: LiveTopic, listener: TopicListener) {
+  const listeners = topicListeners.get(topic) ?? new Set<TopicListener>();
+  topicListeners.set(topic, listeners);
+  listeners.add(listener);
+  const release = retain();
+  return () => {
+    listeners.delete(listener);
+    release();
+  };
+}
+
+// For useSyncExternalStore.
+export function subscribeStatus(listener: () => void) {
+  statusListeners.add(listener);
+  const release = retain();
+  return () => {
+    statusListeners.delete(listener);
+    release();
+  };
+}
+
+export const getLiveStatus = () => status;
@@ -0,0 +1,97 @@
+// Publishes live update events from a MongoDB change stream. Every committed write by a
+// server action (stock movements, client changes, payments) shows up here once, and
+// nothing from a rolled-back transaction does. One stream per server process is shared
+// by all '/api/live' connections and closed when the last one goes. Server-only.
+
+import type { ChangeStream, ChangeStreamDocument, Document } from "mongodb";
+import { getDatabase } from "@/lib/mongodb";
+import { toStockMovement, type StockMovementDoc } from "@/lib/stock-ledger";
+import type { LiveEvent } from "@/lib/live";
+
+type Listener = (event: LiveEvent | null) => void;  // null: the stream failed.
+
+// Kept on the global object so that reloads in development do not open a second stream.
+const live = global as typeof globalThis & {
+  _liveListeners?: Set<Listener>;
+  _liveStream?: Promise<ChangeStream> | null;
+};
+const listeners = (live._liveListeners ??= new Set());
+
+// Collections whose changes only mean a list has to be fetched again.
+const REFRESHES: Record<string, LiveEvent["topic"]> = {
+  reservations: "materials",
+  invoices: "clients",
+  client_payments: "clients",
+  client_costing: "clients",
+};
+const WATCHED = ["materials", "clients", "stock_movements", ...Object.keys(REFRESHES)];
+
+function toEvent(change: ChangeStreamDocument<Document>): LiveEvent | null {
+  if (!("ns" in change) || !("documentKey" in change)) return null;
+  const collection = change.ns.coll ?? "";
+  const id = String(change.documentKey._id);
+
+  if (REFRESHES[collection]) return { topic: REFRESHES[collection], op: "refresh" };
+  if (collection === "stock_movements") {
+    if (change.operationType !== "insert") return null;
+    // The same fields as a line from '/api/stock-history'.
+    const doc = toStockMovement(change.fullDocument as StockMovementDoc);
+    return { topic: "stock-history", op: "insert", id, doc };
+  }
+
+  const topic = collection === "materials" ? "materials" : "clients";
+  switch (change.operationType) {
+    case "insert":
+      return { topic, op: "insert", id };
+    case "delete":
+      return { topic, op: "delete", id };
+    case "update": {
+      const removed = Object.fromEntries((change.updateDescription.removedFields ?? []).map(field => [field, undefined]));
+      return { topic, op: "update", id, fields: { ...change.updateDescription.updatedFields, ...removed } };
+    }
+    case "replace": {
+      const { _id, ...fields } = change.fullDocument;
+      return { topic, op: "update", id, fields };
+    }
+    default:
+      return null;
+  }
+}
+
+async function openStream() {
+  const db = await getDatabase();
+  const stream = db.watch([{ $match: { "ns.coll": { $in: WATCHED } } }]);
+  stream.on("change", change => {
+    const event = toEvent(change);
+    if (event) listeners.forEach(listener => listener(event));
+  });
+  stream.on("error", error => {
+    console.error("Live update stream failed:", error);
+    closeStream();
+    listeners.forEach(listener => listener(null));
+  });
+  return stream;
+}
+
+function closeStream() {
+  const stream = live._liveStream;
+  live._liveStream = null;
+  stream?.then(s => s.close()).catch(() => {});
+}
+
+// Adds a listener and opens the stream if needed; rejects when change streams are not
+// available (they need a replica set, as transactions do). Returns the unsubscribe.
+export async function subscribeLive(listener: Listener) {
+  live._liveStream ??= openStream();
+  try {
+    await live._liveStream;
+  } catch (error) {
+    live._liveStream = null;
+    throw error;
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) closeStream();
+  };
+}
@@ -0,0 +1,34 @@
+// Live update events pushed over '/api/live'. Pure, shared by the server that publishes
+// them and the hooks that apply them.
+
+export type LiveTopic = "materials" | "clients" | "stock-history";
+
+export const LIVE_TOPICS: LiveTopic[] = ["materials", "clients", "stock-history"];
+
+// 'update' carries the changed top-level or dotted fields ("stockByLocation.<id>");
+// 'insert' may carry the new document; 'refresh' means something the list derives
+// from changed (reservations, invoices, payments), so it has to be fetched again.
+export type LiveEvent = {
+  topic: LiveTopic;
+  op: "insert" | "update" | "delete" | "refresh";
+  id?: string;
+  fields?: Record<string, unknown>;
+  doc?: Record<string, unknown>;
+};
+
+// Applies an update event's fields to an item of a list. Dotted fields set one key of
+// a nested object, e.g. a location's balance in 'stockByLocation'.
+export function applyFields<T extends object>(item: T, fields: Record<string, unknown> = {}): T {
+  const next: Record<string, any> = { ...item };
+  for (const [path, value] of Object.entries(fields)) {
+    const [key, ...rest] = path.split(".");
+    if (rest.length === 0) {
+      next[key] = value;
+    } else {
+      const nested = typeof next[key] === "object" && next[key] !== null ? { ...next[key] } : {};
+      nested[rest.join(".")] = value;
+      next[key] = nested;
+    }
+  }
+  return next as T;
+}
@@ -0,0 +1,21 @@
+// Per-location stock balances of a material. Locations other than the default one keep
+// their balance in 'stockByLocation'; the default location holds the rest of the total.
+// Pure functions, safe to use on the client and the server.
+
+import type { Material, StockLocation } from "@/lib/types";
+
+type LocationFields = Pick<Material, "quantity" | "stockByLocation">;
+
+export function stockAt(material: LocationFields, location: Pick<StockLocation, "id" | "isDefault">) {
+  const others = material.stockByLocation ?? {};
+  if (!location.isDefault) return Number(others[location.id]) || 0;
+  const elsewhere = Object.values(others).reduce((sum, q) => sum + (Number(q) || 0), 0);
+  return (Number(material.quantity) || 0) - elsewhere;
+}
+
+// Non-empty balances in location order, e.g. for "Godown 40 · Van 1 5".
+export function locationBreakdown(material: LocationFields, locations: StockLocation[]) {
+  return locations
+    .map(location => ({ location, quantity: stockAt(material, location) }))
+    .filter(b => b.quantity !== 0);
+}
@@ -0,0 +1,31 @@
+// Reads for stock locations ('locations') and transfers between them ('stock_transfers').
+// Server-only.
+
+import type { ClientSession, Db } from "mongodb";
+import type { StockLocationRef } from "@/lib/stock";
+import type { StockLocation, StockTransfer } from "@/lib/types";
+
+export const DEFAULT_LOCATION_NAME = "Main Godown";
+
+// The default location, created the first time locations are used. Everything in stock
+// before locations existed is counted there.
+export async function getDefaultLocation(db: Db, session?: ClientSession): Promise<StockLocationRef> {
+  const location = await db.collection("locations").findOneAndUpdate(
+    { isDefault: true },
+    { $setOnInsert: { name: DEFAULT_LOCATION_NAME, kind: "warehouse", isDefault: true, createdAt: new Date() } },
+    { upsert: true, returnDocument: "after", session }
+  );
+  return { id: location!._id.toString(), name: String(location!.name || ""), isDefault: true };
+}
+
+// The default location first, then by name.
+export async function getLocations(db: Db): Promise<StockLocation[]> {
+  await getDefaultLocation(db);
+  const docs = await db.collection("locations").find({}).sort({ isDefault: -1, name: 1 }).toArray();
+  return docs.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest }) as StockLocation);
+}
+
+export async function getStockTransfers(db: Db, limit = 50): Promise<StockTransfer[]> {
+  const docs = await db.collection("stock_transfers").find({}).sort({ date: -1 }).limit(limit).toArray();
+  return docs.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest }) as StockTransfer);
+}
@@ -0,0 +1,86 @@
+// Price history of materials ('material_prices' collection). Every price or GST change
+// goes through recordPriceChanges, which keeps one entry per material per effective day
+// and mirrors the entry in effect today onto the material. Server-only.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { PRICE_HISTORY_START, priceOn, startOfDay, unitPriceOf } from "@/lib/price-history";
+import type { MaterialPrice, SessionUser } from "@/lib/types";
+import { materialFields, materialsCollection } from "@/lib/materials";
+
+export type PriceChange = {
+  materialId: string;
+  price?: number;        // Unchanged when omitted.
+  gstPercent?: number;   // Unchanged when omitted.
+};
+
+const toMaterialPrice = ({ _id, ...rest }: Record<string, any>) => ({ id: _id.toString(), ...rest }) as MaterialPrice;
+
+// Oldest first, per material. Materials that never had a price change are absent.
+export async function getPriceHistory(db: Db, materialIds: string[], session?: ClientSession) {
+  const history = new Map<string, MaterialPrice[]>();
+  if (materialIds.length === 0) return history;
+  const docs = await db.collection("material_prices")
+    .find({ materialId: { $in: materialIds } }, { session })
+    .sort({ effectiveFrom: 1 })
+    .toArray();
+  for (const doc of docs) {
+    const entry = toMaterialPrice(doc);
+    history.set(entry.materialId, [...(history.get(entry.materialId) ?? []), entry]);
+  }
+  return history;
+}
+
+// Records price and GST changes effective from the start of 'effectiveFrom' (today when
+// omitted; it may be back-dated, never in the future). Changes that leave the price in
+// effect on that day as it was are skipped. Returns the number of materials changed.
+export async function recordPriceChanges(
+  db: Db,
+  changes: PriceChange[],
+  { effectiveFrom, user }: { effectiveFrom?: Date; user?: SessionUser },
+  session?: ClientSession
+) {
+  const from = startOfDay(effectiveFrom ?? new Date());
+  if (from.getTime() > Date.now()) throw new Error("Prices cannot take effect in the future.");
+  const prices = db.collection("material_prices");
+  let changed = 0;
+
+  for (const change of changes) {
+    if (!ObjectId.isValid(change.materialId)) continue;
+    const material = await materialsCollection(db).findOne({ _id: new ObjectId(change.materialId) }, { session });
+    if (!material) continue;
+    const history = (await getPriceHistory(db, [change.materialId], session)).get(change.materialId) ?? [];
+    const current = { price: unitPriceOf(material), gstPercent: Number(material.gstPercent) || 0 };
+    const inEffect = priceOn(history, from) ?? current;
+    const price = change.price ?? inEffect.price;
+    const gstPercent = change.gstPercent ?? inEffect.gstPercent;
+    if (price === inEffect.price && gstPercent === inEffect.gstPercent) continue;
+
+    const now = new Date();
+    // The first change keeps the price that applied until now for everything before it.
+    if (history.length === 0) {
+      await prices.insertOne({
+        materialId: change.materialId,
+        materialName: String(material.name || ""),
+        ...current,
+        effectiveFrom: PRICE_HISTORY_START,
+        changedAt: now,
+      }, { session });
+    }
+    await prices.updateOne(
+      { materialId: change.materialId, effectiveFrom: from },
+      { $set: { materialName: String(material.name || ""), price, gstPercent, changedAt: now, changedBy: user?.name } },
+      { upsert: true, session }
+    );
+
+    // A back-dated change may sit before a later one; the material shows today's price.
+    const updated = (await getPriceHistory(db, [change.materialId], session)).get(change.materialId);
+    const today = priceOn(updated, now)!;
+    await materialsCollection(db).updateOne(
+      { _id: material._id },
+      { $set: materialFields({ price: today.price, gstPercent: today.gstPercent }), $unset: { pricePerPiece: "", pricePerMeter: "" } },
+      { session }
+    );
+    changed++;
+  }
+  return changed;
+}
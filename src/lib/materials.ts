@@ -0,0 +1,138 @@
+// Repository for the 'materials' collection: typed access, the stored document's schema
+// (checked on every insert and field update), mapping to Material, and the indexes,
+// filters and totals behind the inventory pages. Quantities change only through
+// lib/stock. Server-only.
+
+import type { ClientSession, Db, Filter, ObjectId } from "mongodb";
+import { z } from "zod";
+import type { StockLocationRef } from "@/lib/stock";
+import { validated, type StoredDoc } from "@/lib/documents";
+import type { Material } from "@/lib/types";
+
+// Older documents carry their price in one of the legacy fields.
+export type MaterialDoc = StoredDoc<Material> & { pricePerPiece?: number; pricePerMeter?: number };
+
+export const materialsCollection = (db: Db) => db.collection<MaterialDoc>("materials");
+
+const amount = z.number().finite().nonnegative();
+
+const materialSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  quantity: z.number().int().nonnegative(),
+  category: z.string().optional(),
+  rate: amount.optional(),
+  gstPercent: z.number().min(0).max(100).optional(),
+  price: amount.optional(),
+  investedBase: z.number().finite().optional(),
+  investedGst: z.number().finite().optional(),
+  investedTotal: z.number().finite().optional(),
+  serialized: z.boolean().optional(),
+  hsnCode: z.string().optional(),
+  unit: z.string().optional(),
+  purchaseUnits: z.array(z.object({ name: z.string().min(1), factor: z.number().positive() })).optional(),
+  minLevel: amount.optional(),
+  reorderPoint: amount.optional(),
+  reorderQty: amount.optional(),
+  reserved: z.number().int().nonnegative().optional(),
+  stockByLocation: z.record(z.number().finite()).optional(),
+}).passthrough();
+
+export type NewMaterial = z.input<typeof materialSchema> & { _id?: ObjectId };
+
+// Checks materials against the schema without storing them, e.g. a whole backup before
+// anything is replaced.
+export function checkMaterials(materials: NewMaterial[]) {
+  return materials.map(material => validated(materialSchema, material, "material"));
+}
+
+// Validates and stores new materials. Returns their ids.
+export async function insertMaterials(db: Db, materials: NewMaterial[], session?: ClientSession) {
+  if (materials.length === 0) return [];
+  const docs = checkMaterials(materials);
+  const result = await db.collection("materials").insertMany(docs, { session });
+  return Object.values(result.insertedIds).map(id => id.toString());
+}
+
+// The '$set' of an update to a material's own fields, checked against the schema.
+export function materialFields<T extends Partial<MaterialDoc>>(fields: T): T {
+  validated(materialSchema.partial(), fields, "material");
+  return fields;
+}
+
+// A material as listed, with what active reservations hold of it.
+export function toMaterial(doc: MaterialDoc): Material {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    description: doc.description,
+    quantity: doc.quantity,
+    category: doc.category,
+    rate: doc.rate,
+    gstPercent: doc.gstPercent,
+    price: doc.price ?? doc.pricePerPiece ?? doc.pricePerMeter,
+    investedBase: doc.investedBase ?? 0,
+    investedGst: doc.investedGst ?? 0,
+    investedTotal: doc.investedTotal ?? 0,
+    serialized: doc.serialized === true,
+    hsnCode: doc.hsnCode,
+    unit: doc.unit,
+    minLevel: doc.minLevel,
+    reorderPoint: doc.reorderPoint,
+    reorderQty: doc.reorderQty,
+    purchaseUnits: Array.isArray(doc.purchaseUnits) ? doc.purchaseUnits : [],
+    reserved: doc.reserved ?? 0,
+    stockByLocation: doc.stockByLocation ?? {},
+  };
+}
+
+let indexesEnsured = false;
+
+export async function ensureMaterialIndexes(db: Db) {
+  if (indexesEnsured) return;
+  const materials = materialsCollection(db);
+  await materials.createIndex({ category: 1, name: 1 });
+  await materials.createIndex({ name: 1 });
+  await materials.createIndex({ quantity: 1 });
+  indexesEnsured = true;
+}
+
+// Materials with stock at a location. The default location holds whatever the other
+// locations do not (see lib/location-stock), so it needs the difference.
+export function stockedAtFilter(location: StockLocationRef): Filter<MaterialDoc> {
+  if (!location.isDefault) return { [`stockByLocation.${location.id}`]: { $nin: [0, null] } };
+  const elsewhere = { $sum: { $map: { input: { $objectToArray: { $ifNull: ["$stockByLocation", {}] } }, in: "$$this.v" } } };
+  return { $expr: { $ne: [{ $subtract: [{ $ifNull: ["$quantity", 0] }, elsewhere] }, 0] } };
+}
+
+// Value of the matching stock at current prices including GST. The unit price falls
+// back through the legacy price fields, as on the inventory page.
+export async function valueAtPrice(db: Db, filter: Filter<MaterialDoc>) {
+  const positive = (field: string) => ({ $gt: [{ $ifNull: [field, 0] }, 0] });
+  const [row] = await materialsCollection(db).aggregate<{ value: number }>([
+    { $match: filter },
+    {
+      $project: {
+        value: {
+          $multiply: [
+            {
+              $switch: {
+                branches: [
+                  { case: positive("$price"), then: "$price" },
+                  { case: positive("$pricePerPiece"), then: "$pricePerPiece" },
+                  { case: positive("$pricePerMeter"), then: "$pricePerMeter" },
+                  { case: positive("$rate"), then: "$rate" },
+                ],
+                default: 0,
+              },
+            },
+            { $ifNull: ["$quantity", 0] },
+            { $add: [1, { $divide: [{ $ifNull: ["$gstPercent", 0] }, 100] }] },
+          ],
+        },
+      },
+    },
+    { $group: { _id: null, value: { $sum: "$value" } } },
+  ]).toArray();
+  return row?.value ?? 0;
+}
@@ -1,7 +1,7 @@
 // MongoDB connection configuration
 // This file provides a singleton MongoDB client instance for the application
 
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, Db, ClientSession } from 'mongodb';
 
 if (!process.env.MONGODB_URI) {
   throw new Error('Invalid/Missing environment variable: "MONGODB_URI"');
@@ -9,6 +9,7 @@ if (!process.env.MONGODB_URI) {
 
 const uri = process.env.MONGODB_URI;
 const options = {};
+const DB_NAME = 'material_count_app';
 
 let client: MongoClient;
 let clientPromise: Promise<MongoClient>;
@@ -38,5 +39,24 @@ export default clientPromise;
 // Helper function to get the database instance
 export async function getDatabase(): Promise<Db> {
   const client = await clientPromise;
-  return client.db('material_count_app'); // Database name
+  return client.db(DB_NAME); // Database name
+}
+
+// Run 'fn' inside a MongoDB multi-document transaction. Every read and write in 'fn'
+// must pass the given session. The driver retries the whole callback on transient
+// errors (e.g. a write conflict with a concurrent transaction), so 'fn' must not
+// have side effects outside the database.
+export async function withTransaction<T>(fn: (db: Db, session: ClientSession) => Promise<T>): Promise<T> {
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const session = client.startSession();
+  try {
+    let result: T;
+    await session.withTransaction(async () => {
+      result = await fn(db, session);
+    });
+    return result!;
+  } finally {
+    await session.endSession();
+  }
 }
@@ -0,0 +1,60 @@
+// Paging, search and sort parameters shared by the list APIs and the hooks that page
+// through them. Pure functions, safe to use on the client and the server.
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// A numbered page of a list ('/api/materials', '/api/clients').
+export type Page<T> = {
+  items: T[];
+  total: number;     // Matching items across all pages.
+  page: number;      // 1-based.
+  pageSize: number;
+};
+
+// A slice of a long, growing list ('/api/stock-history'); pass 'nextCursor' back as
+// ?cursor= for the following slice. Null on the last one.
+export type CursorPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+export type SortOrder = "asc" | "desc";
+
+// ?page= and ?pageSize=. Null without ?page=, for callers that still want the whole list.
+export function parsePage(params: URLSearchParams) {
+  if (!params.has("page")) return null;
+  const page = Math.max(1, Math.floor(Number(params.get("page"))) || 1);
+  const pageSize = parsePageSize(params);
+  return { page, pageSize, skip: (page - 1) * pageSize };
+}
+
+export function parsePageSize(params: URLSearchParams, fallback = DEFAULT_PAGE_SIZE) {
+  const size = Math.floor(Number(params.get("pageSize") ?? params.get("limit")));
+  return size > 0 ? Math.min(size, MAX_PAGE_SIZE) : fallback;
+}
+
+// ?sort= limited to the given keys, and ?order=.
+export function parseSort<K extends string>(params: URLSearchParams, keys: readonly K[], fallback: K) {
+  const sort = params.get("sort");
+  const key = keys.includes(sort as K) ? (sort as K) : fallback;
+  const order: SortOrder = params.get("order") === "desc" ? "desc" : "asc";
+  return { key, order, direction: order === "desc" ? -1 as const : 1 as const };
+}
+
+// Case-insensitive "contains" match for ?q=, with the user's text taken literally.
+export function searchPattern(q: string | null | undefined) {
+  const text = (q ?? "").trim();
+  return text ? new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i") : null;
+}
+
+// Query string for a list request, leaving out empty values.
+export function listQuery(params: Record<string, string | number | boolean | null | undefined>) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null && value !== undefined && value !== "" && value !== false) query.set(key, String(value));
+  }
+  return query.toString();
+}
+
+export const pageCount = (page: Pick<Page<unknown>, "total" | "pageSize">) => Math.max(1, Math.ceil(page.total / page.pageSize));
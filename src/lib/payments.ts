@@ -0,0 +1,29 @@
+// Client payment modes and allocation arithmetic, shared by the payment forms and the
+// server. Pure functions, safe to use on the client and the server.
+
+import type { ClientPayment, PaymentAllocation, PaymentMode } from "@/lib/types";
+
+export const PAYMENT_MODES: Record<PaymentMode, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank transfer",
+  upi: "UPI",
+  cheque: "Cheque",
+  card: "Card",
+};
+
+// Rupees and paise; keeps sums of allocations from drifting.
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Allocations to the same invoice, or to any version of the same costing, share a key.
+export function allocationKey(allocation: Pick<PaymentAllocation, "type" | "invoiceId" | "projectId">) {
+  return allocation.type === "invoice" ? `invoice:${allocation.invoiceId}` : `costing:${allocation.projectId || ""}`;
+}
+
+export function allocatedAmount(payment: Pick<ClientPayment, "allocations">) {
+  return roundMoney(payment.allocations.reduce((sum, a) => sum + a.amount, 0));
+}
+
+// What is left of a payment after its allocations, held as an advance.
+export function advanceOf(payment: Pick<ClientPayment, "amount" | "allocations">) {
+  return Math.max(0, roundMoney(payment.amount - allocatedAmount(payment)));
+}
@@ -0,0 +1,76 @@
+// Shared jsPDF layout for client documents (costing sheets, delivery challans):
+// a title row, the client details block, table styling and page numbers.
+// Browser-only; import from client components.
+
+import jsPDF from "jspdf";
+import type { Client, Project } from "@/lib/types";
+
+export const PDF_MARGIN_X = 14;
+
+// autoTable options every client document uses.
+export const PDF_TABLE_STYLES = {
+  theme: "grid" as const,
+  styles: { fontSize: 9, cellPadding: 2 },
+  headStyles: { fillColor: [30, 58, 138] as [number, number, number], textColor: 255 },
+};
+
+// Starts a document with the title on the left and the generation date on the right.
+export function createClientPdf(title: string) {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(18);
+  doc.text(title, PDF_MARGIN_X, 16);
+  doc.setFontSize(10);
+  doc.text(`Generated: ${new Date().toLocaleString()}`, pageWidth - PDF_MARGIN_X - 50, 16, { align: "left" });
+  doc.setDrawColor(200);
+  doc.line(PDF_MARGIN_X, 20, pageWidth - PDF_MARGIN_X, 20);
+  return doc;
+}
+
+// Writes the client name, address, consumer number and plant capacity.
+// Returns the y position of the last line written.
+export function addClientBlock(doc: jsPDF, client: Client, startY = 26) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(11);
+  doc.text(`Client: ${client.name}`, PDF_MARGIN_X, startY);
+  const addr = client.address || "-";
+  const addrLines = doc.splitTextToSize(`Address: ${addr}`, pageWidth - PDF_MARGIN_X * 2);
+  doc.text(addrLines, PDF_MARGIN_X, startY + 4);
+  const yAfterAddr = startY + 4 + (Array.isArray(addrLines) ? addrLines.length * 5 : 5);
+  doc.text(`Consumer No: ${client.consumerNo ?? '-'}`, PDF_MARGIN_X, yAfterAddr);
+  doc.text(`Plant Capacity: ${client.plantCapacity ?? '-'}`, PDF_MARGIN_X + 80, yAfterAddr);
+  return yAfterAddr;
+}
+
+// Writes the project (site) a document is for below the client block, if any.
+// Takes and returns the y position of the last line written.
+export function addProjectBlock(doc: jsPDF, project: Project | null | undefined, lastY: number) {
+  if (!project) return lastY;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(11);
+  doc.text(`Site: ${project.name}`, PDF_MARGIN_X, lastY + 6);
+  if (project.plantCapacity) doc.text(`Site Capacity: ${project.plantCapacity}`, PDF_MARGIN_X + 80, lastY + 6);
+  if (!project.address) return lastY + 6;
+  const addrLines = doc.splitTextToSize(`Site Address: ${project.address}`, pageWidth - PDF_MARGIN_X * 2);
+  doc.text(addrLines, PDF_MARGIN_X, lastY + 11);
+  return lastY + 11 + ((Array.isArray(addrLines) ? addrLines.length : 1) - 1) * 5;
+}
+
+// Y position just below the last table drawn by autoTable.
+export function afterLastTable(doc: jsPDF, gap = 8) {
+  return (doc as any).lastAutoTable.finalY + gap;
+}
+
+export function addPageNumbers(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(9);
+    doc.text(`Page ${i} of ${pageCount}`, pageWidth - PDF_MARGIN_X, doc.internal.pageSize.getHeight() - 10, { align: 'right' });
+  }
+}
+
+export function pdfFileName(prefix: string, ...parts: string[]) {
+  return [prefix, ...parts].map(p => p.replace(/\s+/g, "_")).join("_") + ".pdf";
+}
@@ -0,0 +1,42 @@
+// Effective-dated material prices. A price applies from the start of its day until the
+// next entry; dispatches are billed at the price in effect on their date.
+// Pure functions, safe to use on the client and the server.
+
+import type { MaterialPrice } from "@/lib/types";
+
+// 'effectiveFrom' of the entry holding a material's price from before history was kept.
+export const PRICE_HISTORY_START = new Date(0);
+
+type PriceEntry = Pick<MaterialPrice, "price" | "gstPercent" | "effectiveFrom">;
+
+// Same fallback order used everywhere a unit price is needed: unified price first,
+// then the legacy per-piece / per-meter fields, then rate.
+export function unitPriceOf(material: Record<string, any> | null | undefined) {
+  const p = Number(material?.price ?? 0) || 0;
+  const pp = Number(material?.pricePerPiece ?? 0) || 0;
+  const pm = Number(material?.pricePerMeter ?? 0) || 0;
+  const r = Number(material?.rate ?? 0) || 0;
+  return p > 0 ? p : pp > 0 ? pp : pm > 0 ? pm : r > 0 ? r : 0;
+}
+
+export function startOfDay(date: Date | string) {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export function isHistoryStart(entry: Pick<MaterialPrice, "effectiveFrom">) {
+  return new Date(entry.effectiveFrom).getTime() <= PRICE_HISTORY_START.getTime();
+}
+
+// The entry in effect on 'date', or null when the history does not reach back that far
+// (or is empty) and the material's current price applies.
+export function priceOn<T extends PriceEntry>(history: T[] | undefined, date: Date | string): T | null {
+  const at = new Date(date).getTime();
+  let found: T | null = null;
+  for (const entry of history ?? []) {
+    const from = new Date(entry.effectiveFrom).getTime();
+    if (from <= at && (!found || from > new Date(found.effectiveFrom).getTime())) found = entry;
+  }
+  return found;
+}
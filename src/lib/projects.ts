@@ -0,0 +1,34 @@
+// Reads and checks for client projects (sites) in the 'projects' collection. Server-only.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { ActionError } from "@/lib/errors";
+import type { Project, ProjectStatus } from "@/lib/types";
+
+export const PROJECT_STATUSES: ProjectStatus[] = ["planned", "in_progress", "completed", "on_hold"];
+
+function toProject(doc: Record<string, any>): Project {
+  const { _id, ...rest } = doc;
+  return { id: _id.toString(), ...rest } as Project;
+}
+
+export async function getProjects(db: Db, clientId: string): Promise<Project[]> {
+  const docs = await db.collection("projects").find({ clientId }).sort({ createdAt: 1 }).toArray();
+  return docs.map(toProject);
+}
+
+export async function getProject(db: Db, projectId: string): Promise<Project | null> {
+  if (!ObjectId.isValid(projectId)) return null;
+  const doc = await db.collection("projects").findOne({ _id: new ObjectId(projectId) });
+  return doc ? toProject(doc) : null;
+}
+
+// Material can only be booked to a project of the same client. Returns the project id
+// to store on the entry, or undefined when no project was chosen.
+export async function requireClientProject(db: Db, clientId: string, projectId: string | null | undefined, session?: ClientSession) {
+  if (!projectId) return undefined;
+  const project = ObjectId.isValid(projectId)
+    ? await db.collection("projects").findOne({ _id: new ObjectId(projectId), clientId }, { session, projection: { _id: 1 } })
+    : null;
+  if (!project) throw new ActionError("Project not found for this client.");
+  return projectId;
+}
@@ -0,0 +1,99 @@
+// Printable purchase order sent to a supplier. Browser-only.
+
+import autoTable from "jspdf-autotable";
+import type { CompanyProfile, PurchaseOrder, Supplier } from "@/lib/types";
+import { createClientPdf, addPageNumbers, afterLastTable, pdfFileName, PDF_MARGIN_X, PDF_TABLE_STYLES } from "@/lib/pdf";
+import { formatQty } from "@/lib/units";
+
+export function downloadPurchaseOrderPdf(po: PurchaseOrder, supplier: Supplier | null, company: CompanyProfile | null) {
+  const doc = createClientPdf("Purchase Order");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const marginX = PDF_MARGIN_X;
+  const colWidth = (pageWidth - marginX * 2) / 2 - 4;
+  const rightX = marginX + colWidth + 8;
+
+  let y = 26;
+  doc.setFontSize(11);
+  doc.text(`PO No: ${po.poNumber}`, marginX, y);
+  doc.text(`Date: ${new Date(po.sentAt ?? po.createdAt).toLocaleDateString()}`, rightX, y);
+  y += 8;
+
+  // Supplier on the left, our delivery address on the right
+  const party = (label: string, x: number, lines: string[]) => {
+    doc.setFontSize(10);
+    doc.text(label, x, y);
+    doc.setFontSize(9);
+    const wrapped = lines.filter(Boolean).flatMap(line => doc.splitTextToSize(line, colWidth) as string[]);
+    doc.text(wrapped, x, y + 5);
+    return y + 5 + wrapped.length * 4;
+  };
+  const supplierEnd = party("Supplier", marginX, [
+    po.supplierName,
+    supplier?.address ?? "",
+    supplier?.gstin ? `GSTIN: ${supplier.gstin}` : "",
+    supplier?.contactName ? `Attn: ${supplier.contactName}` : "",
+    supplier?.phone ? `Phone: ${supplier.phone}` : "",
+  ]);
+  const buyerEnd = company
+    ? party("Deliver To", rightX, [company.name, company.address, `GSTIN: ${company.gstin}`, company.phone ? `Phone: ${company.phone}` : ""])
+    : y;
+  y = Math.max(supplierEnd, buyerEnd);
+
+  const amounts = po.lines.map(l => {
+    const base = l.quantity * l.unitPrice;
+    const gst = (base * l.gstPercent) / 100;
+    return { base, gst, total: base + gst };
+  });
+  autoTable(doc, {
+    head: [["#", "Material", "Qty", "Rate", "Amount", "GST %", "GST", "Total"]],
+    body: po.lines.map((l, i) => [
+      String(i + 1),
+      l.materialName,
+      formatQty(l.quantity, l.unit),
+      l.unitPrice.toFixed(2),
+      amounts[i].base.toFixed(2),
+      String(l.gstPercent),
+      amounts[i].gst.toFixed(2),
+      amounts[i].total.toFixed(2),
+    ]),
+    startY: y + 4,
+    ...PDF_TABLE_STYLES,
+    columnStyles: {
+      0: { halign: 'right', cellWidth: 10 },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+    },
+  });
+
+  y = afterLastTable(doc);
+  doc.setFontSize(10);
+  const totals: [string, number][] = [
+    ["Total Before Tax", amounts.reduce((s, a) => s + a.base, 0)],
+    ["Total GST", amounts.reduce((s, a) => s + a.gst, 0)],
+    ["Grand Total", amounts.reduce((s, a) => s + a.total, 0)],
+  ];
+  for (const [label, value] of totals) {
+    doc.text(label, pageWidth - marginX - 60, y);
+    doc.text(value.toFixed(2), pageWidth - marginX, y, { align: 'right' });
+    y += 5;
+  }
+  if (po.notes) {
+    y += 4;
+    const noteLines = doc.splitTextToSize(`Notes: ${po.notes}`, pageWidth - marginX * 2);
+    doc.text(noteLines, marginX, y);
+    y += (Array.isArray(noteLines) ? noteLines.length : 1) * 5;
+  }
+
+  y += 18;
+  doc.setDrawColor(150);
+  doc.line(pageWidth - marginX - 60, y, pageWidth - marginX, y);
+  doc.setFontSize(9);
+  doc.text(company ? `For ${company.name}` : "Authorised Signatory", pageWidth - marginX - 60, y + 5);
+
+  addPageNumbers(doc);
+  doc.save(pdfFileName("PurchaseOrder", po.poNumber, po.supplierName));
+}
@@ -0,0 +1,50 @@
+// Reads for suppliers and purchase orders ('suppliers', 'purchase_orders'), shared by
+// the purchasing pages and the Needs To Buy page. Server-only.
+
+import { ObjectId, type Db } from "mongodb";
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from "@/lib/types";
+
+// Orders whose goods are expected but not yet fully received.
+export const OPEN_PO_STATUSES: PurchaseOrderStatus[] = ["sent", "partially_received"];
+
+function toSupplier(doc: Record<string, any>): Supplier {
+  const { _id, ...rest } = doc;
+  return { id: _id.toString(), ...rest, priceList: Array.isArray(rest.priceList) ? rest.priceList : [] } as Supplier;
+}
+
+function toPurchaseOrder(doc: Record<string, any>): PurchaseOrder {
+  const { _id, ...rest } = doc;
+  return { id: _id.toString(), ...rest, receipts: Array.isArray(rest.receipts) ? rest.receipts : [] } as PurchaseOrder;
+}
+
+export async function getSuppliers(db: Db): Promise<Supplier[]> {
+  const docs = await db.collection("suppliers").find({}).sort({ name: 1 }).toArray();
+  return docs.map(toSupplier);
+}
+
+export async function getPurchaseOrders(db: Db, statuses?: PurchaseOrderStatus[]): Promise<PurchaseOrder[]> {
+  const filter = statuses ? { status: { $in: statuses } } : {};
+  const docs = await db.collection("purchase_orders").find(filter).sort({ createdAt: -1 }).toArray();
+  return docs.map(toPurchaseOrder);
+}
+
+export async function getPurchaseOrder(db: Db, purchaseOrderId: string): Promise<PurchaseOrder | null> {
+  if (!ObjectId.isValid(purchaseOrderId)) return null;
+  const doc = await db.collection("purchase_orders").findOne({ _id: new ObjectId(purchaseOrderId) });
+  return doc ? toPurchaseOrder(doc) : null;
+}
+
+export function outstandingQty(line: PurchaseOrderLine) {
+  return Math.max(0, (Number(line.quantity) || 0) - (Number(line.receivedQty) || 0));
+}
+
+// Units still expected per material across all open purchase orders.
+export async function getOnOrderQuantities(db: Db): Promise<Record<string, number>> {
+  const onOrder: Record<string, number> = {};
+  for (const po of await getPurchaseOrders(db, OPEN_PO_STATUSES)) {
+    for (const line of po.lines) {
+      onOrder[line.materialId] = (onOrder[line.materialId] ?? 0) + outstandingQty(line);
+    }
+  }
+  return onOrder;
+}
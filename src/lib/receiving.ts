@@ -0,0 +1,59 @@
+// The single stock-increase path for bought-in goods, shared by stock fills and
+// purchase order receipts: registers serial numbers, adds the quantity with its
+// ledger line (carrying the purchase cost used for valuation) and accumulates the
+// invested amounts. Call inside 'withTransaction'.
+
+import type { ClientSession, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import { StockError, moveStock } from "@/lib/stock";
+import { moveSerials } from "@/lib/serials";
+import { unitPriceOf } from "@/lib/price-history";
+import type { SessionUser, StockMovementKind, StockMovementReference } from "@/lib/types";
+import { materialsCollection } from "@/lib/materials";
+
+export type ReceiptInput = {
+  materialId: string;
+  quantity: number;
+  kind: Extract<StockMovementKind, "fill" | "po_receipt">;
+  unitPrice?: number;   // Purchase price per unit; defaults to the material's current price.
+  serials?: string | string[] | null;
+  reason: string;
+  batchId: string;
+  reference?: StockMovementReference;
+  user?: SessionUser | null;
+};
+
+export async function receiveStock(db: Db, input: ReceiptInput, session: ClientSession) {
+  if (!ObjectId.isValid(input.materialId)) throw new StockError("Material not found.");
+  const material = await materialsCollection(db).findOne({ _id: new ObjectId(input.materialId) }, { session });
+  if (!material) throw new StockError("Material not found.");
+
+  const unitPrice = input.unitPrice !== undefined && input.unitPrice > 0 ? input.unitPrice : unitPriceOf(material);
+  const gstPercent = Number(material.gstPercent ?? 0) || 0;
+  const base = unitPrice * input.quantity;
+  const gst = (base * gstPercent) / 100;
+
+  const serials = await moveSerials(db, {
+    materialId: input.materialId,
+    direction: "receive",
+    quantity: input.quantity,
+    serials: input.serials,
+  }, session);
+  // Quantity and invested amounts move in the same atomic update.
+  return moveStock(db, {
+    materialId: input.materialId,
+    kind: input.kind,
+    delta: input.quantity,
+    reason: input.reason,
+    batchId: input.batchId,
+    reference: input.reference,
+    serials,
+    unitCost: unitPrice,
+    user: input.user,
+    extraInc: {
+      investedBase: base,
+      investedGst: gst,
+      investedTotal: base + gst,
+    },
+  }, session);
+}
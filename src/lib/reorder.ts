@@ -0,0 +1,47 @@
+// Per-material reorder rules. A material is low on stock once it falls to its reorder
+// point (10 units when none is set); its minimum level is the safety stock that should
+// never be crossed. Both are compared with the available quantity, i.e. stock on hand
+// less what active client reservations hold. Pure functions, safe to use on the client
+// and the server.
+
+import type { Material } from "@/lib/types";
+
+// Reorder point for materials that have none of their own.
+export const DEFAULT_REORDER_POINT = 10;
+
+// Days of consumption a suggested order should cover, on top of the minimum level.
+export const REORDER_COVER_DAYS = 30;
+
+// Window of client dispatches the consumption rate is measured over.
+export const CONSUMPTION_WINDOW_DAYS = 90;
+
+type StockLevels = Pick<Material, "quantity" | "reserved" | "minLevel" | "reorderPoint" | "reorderQty">;
+
+// On hand less reserved; just the quantity when reservations were not loaded.
+export function availableOf(material: Pick<Material, "quantity" | "reserved">) {
+  return Math.max(0, (Number(material.quantity) || 0) - (Number(material.reserved) || 0));
+}
+
+export function reorderPointOf(material: StockLevels) {
+  const point = material.reorderPoint;
+  return point !== undefined && point !== null && Number.isFinite(Number(point)) ? Number(point) : DEFAULT_REORDER_POINT;
+}
+
+export function isLowStock(material: StockLevels) {
+  return availableOf(material) <= reorderPointOf(material);
+}
+
+export function isBelowMinimum(material: StockLevels) {
+  return material.minLevel !== undefined && material.minLevel !== null && availableOf(material) < Number(material.minLevel);
+}
+
+// How much to order: enough to cover REORDER_COVER_DAYS of recent consumption and
+// still sit at the minimum level, less what is available or already on order. Never
+// below the material's standard reorder quantity, and at least 1.
+export function suggestOrderQty(material: StockLevels, dailyUsage: number, onOrder = 0) {
+  const minLevel = Number(material.minLevel) || 0;
+  const needed = Math.ceil(dailyUsage * REORDER_COVER_DAYS + minLevel - availableOf(material) - onOrder);
+  // Without a consumption history, bring stock back above the reorder point.
+  const fallback = reorderPointOf(material) + 1 - availableOf(material) - onOrder;
+  return Math.max(1, Number(material.reorderQty) || 0, dailyUsage > 0 ? needed : fallback);
+}
@@ -0,0 +1,160 @@
+// Client reservations ('reservations'). Reserved stock stays on hand in 'materials' but
+// is no longer available to other clients' dispatches or to new reservations. What
+// active reservations hold is also kept on each material as 'reserved': opening a
+// reservation raises it with an '$inc' guarded on 'quantity - reserved', and closing
+// one (release, dispatch, expiry) lowers it in the same transaction. Server-only.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { StockError } from "@/lib/stock";
+import type { Reservation } from "@/lib/types";
+import { materialsCollection } from "@/lib/materials";
+
+const RESERVED_COUNTS_ID = "reserved_counts";
+
+// On hand less what reservations hold, for '$expr'.
+const AVAILABLE = { $subtract: ["$quantity", { $ifNull: ["$reserved", 0] }] };
+
+function toReservation(doc: Record<string, any>): Reservation {
+  const { _id, ...rest } = doc;
+  return { id: _id.toString(), ...rest, lines: Array.isArray(rest.lines) ? rest.lines : [] } as Reservation;
+}
+
+// Units held per material by active reservations matching 'match'.
+async function heldQuantities(db: Db, match: Record<string, any>, session?: ClientSession): Promise<Record<string, number>> {
+  const rows = await db.collection("reservations").aggregate([
+    { $match: { ...match, status: "active" } },
+    { $unwind: "$lines" },
+    { $group: { _id: "$lines.materialId", quantity: { $sum: "$lines.quantity" } } },
+  ], { session }).toArray();
+  return Object.fromEntries(rows.map(r => [String(r._id), Number(r.quantity) || 0]));
+}
+
+// Sets every material's 'reserved' from the active reservations, e.g. after a restore.
+export async function recountReserved(db: Db, session?: ClientSession) {
+  const held = await heldQuantities(db, {}, session);
+  const ids = Object.keys(held).filter(id => ObjectId.isValid(id));
+  await materialsCollection(db).updateMany(
+    { _id: { $nin: ids.map(id => new ObjectId(id)) }, reserved: { $ne: 0 } },
+    { $set: { reserved: 0 } },
+    { session }
+  );
+  if (ids.length > 0) {
+    await materialsCollection(db).bulkWrite(ids.map(id => ({
+      updateOne: { filter: { _id: new ObjectId(id) }, update: { $set: { reserved: held[id] } } },
+    })), { session });
+  }
+}
+
+// Materials stored before 'reserved' was kept get it from the active reservations, once.
+async function ensureReservedCounts(db: Db, session: ClientSession) {
+  const settings = db.collection<{ _id: string; at: Date }>("settings");
+  if (await settings.findOne({ _id: RESERVED_COUNTS_ID }, { session })) return;
+  await recountReserved(db, session);
+  await settings.updateOne({ _id: RESERVED_COUNTS_ID }, { $setOnInsert: { at: new Date() } }, { upsert: true, session });
+}
+
+// Closes an active reservation and gives its units back to the materials. Returns the
+// reservation as it was, or null when it was no longer active.
+export async function closeReservation(
+  db: Db,
+  filter: Record<string, any>,
+  set: Record<string, any>,
+  session: ClientSession
+) {
+  const doc = await db.collection("reservations").findOneAndUpdate(
+    { ...filter, status: "active" },
+    { $set: set },
+    { session }
+  );
+  if (!doc) return null;
+  const reservation = toReservation(doc);
+  for (const line of reservation.lines) {
+    if (!ObjectId.isValid(line.materialId)) continue;
+    await materialsCollection(db).updateOne(
+      { _id: new ObjectId(line.materialId) },
+      { $inc: { reserved: -(Number(line.quantity) || 0) } },
+      { session }
+    );
+  }
+  return reservation;
+}
+
+// Marks active reservations past their expiry date as expired and frees their stock.
+// Stock checks run it first in their transaction; pages that list reserved stock run it
+// in one of its own ('withTransaction(expireReservations)').
+export async function expireReservations(db: Db, session: ClientSession) {
+  await ensureReservedCounts(db, session);
+  const now = new Date();
+  const expired = await db.collection("reservations")
+    .find({ status: "active", expiresAt: { $lte: now } }, { session, projection: { _id: 1 } })
+    .toArray();
+  for (const { _id } of expired) {
+    await closeReservation(db, { _id, expiresAt: { $lte: now } }, { status: "expired", closedAt: now }, session);
+  }
+}
+
+// Active reservations first (soonest expiry first), then the most recently closed ones.
+export async function getReservations(db: Db, { clientId, closedLimit = 20 }: { clientId?: string; closedLimit?: number } = {}) {
+  const scope = clientId ? { clientId } : {};
+  const [active, closed] = await Promise.all([
+    db.collection("reservations").find({ ...scope, status: "active" }).sort({ expiresAt: 1 }).toArray(),
+    db.collection("reservations").find({ ...scope, status: { $ne: "active" } }).sort({ closedAt: -1 }).limit(closedLimit).toArray(),
+  ]);
+  return { active: active.map(toReservation), closed: closed.map(toReservation) };
+}
+
+export async function getReservation(db: Db, reservationId: string, session?: ClientSession) {
+  if (!ObjectId.isValid(reservationId)) return null;
+  const doc = await db.collection("reservations").findOne({ _id: new ObjectId(reservationId) }, { session });
+  return doc ? toReservation(doc) : null;
+}
+
+// Sets the items aside for a new reservation. Each material's 'reserved' only rises
+// while it stays within what is on hand, so two reservations at once cannot together
+// hold more than there is. Throws for the first item that does not fit.
+export async function holdStock(db: Db, items: { materialId: string; quantity: number }[], session: ClientSession) {
+  await expireReservations(db, session);
+  for (const item of items) {
+    if (!ObjectId.isValid(item.materialId)) throw new StockError("Material not found.");
+    const _id = new ObjectId(item.materialId);
+    const held = await materialsCollection(db).updateOne(
+      { _id, $expr: { $gte: [AVAILABLE, item.quantity] } },
+      { $inc: { reserved: item.quantity } },
+      { session }
+    );
+    if (held.modifiedCount === 1) continue;
+    const material = await materialsCollection(db).findOne({ _id }, { session, projection: { name: 1, quantity: 1, reserved: 1 } });
+    if (!material) throw new StockError("Material not found.");
+    const reserved = Number(material.reserved) || 0;
+    const available = Math.max(0, (Number(material.quantity) || 0) - reserved);
+    throw new StockError(`Only ${available} ${material.name} available (${reserved} reserved for other jobs), requested ${item.quantity}.`);
+  }
+}
+
+// Throws when any item needs more than is on hand less what other reservations hold.
+// 'clientId' is the client the stock goes to; its own reservations are not held against it.
+// Reads 'reserved' from the material documents that the dispatch then writes, so a
+// reservation of the same material committed meanwhile makes the dispatch conflict and retry.
+export async function assertAvailable(
+  db: Db,
+  items: { materialId: string; quantity: number }[],
+  { clientId, session }: { clientId?: string; session?: ClientSession } = {}
+) {
+  await expireReservations(db, session);
+  const ids = items.map(i => i.materialId).filter(id => ObjectId.isValid(id));
+  if (ids.length === 0) return;
+  const own = clientId ? await heldQuantities(db, { clientId }, session) : {};
+  const materials = await materialsCollection(db)
+    .find({ _id: { $in: ids.map(id => new ObjectId(id)) } }, { session, projection: { name: 1, quantity: 1, reserved: 1 } })
+    .toArray();
+  for (const material of materials) {
+    const id = material._id.toString();
+    const reserved = Math.max(0, (Number(material.reserved) || 0) - (own[id] ?? 0));
+    if (reserved === 0) continue;
+    const requested = items.find(i => i.materialId === id)?.quantity ?? 0;
+    const available = Math.max(0, (Number(material.quantity) || 0) - reserved);
+    if (requested > available) {
+      throw new StockError(`Only ${available} ${material.name} available (${reserved} reserved for other jobs), requested ${requested}.`);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+// Gap-free document numbers (challans, later invoices and purchase orders).
+// Each sequence is one document in the 'counters' collection; '$inc' with upsert
+// hands out the next value atomically. Call it inside the transaction that creates
+// the numbered document so an aborted transaction does not burn a number.
+
+import type { ClientSession, Db } from "mongodb";
+
+export async function nextSequence(db: Db, name: string, session?: ClientSession) {
+  const counter = await db.collection<{ _id: string; value: number }>("counters").findOneAndUpdate(
+    { _id: name },
+    { $inc: { value: 1 } },
+    { upsert: true, returnDocument: "after", session }
+  );
+  return Number(counter?.value) || 1;
+}
+
+// e.g. formatSequence("DC", 7) -> "DC-0007"
+export function formatSequence(prefix: string, value: number, width = 4) {
+  return `${prefix}-${String(value).padStart(width, "0")}`;
+}
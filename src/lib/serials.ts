@@ -0,0 +1,115 @@
+// Per-unit tracking for serialized materials (panels, inverters).
+// Every unit received into stock gets a document in 'serial_numbers' holding its
+// current state; the full history of a unit lives on the stock ledger lines that
+// carry it in 'serials'. Call these inside the same transaction as 'moveStock'.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { StockError } from "@/lib/stock";
+import { parseSerials } from "@/lib/utils";
+import { stockMovements } from "@/lib/stock-ledger";
+import { materialsCollection } from "@/lib/materials";
+
+let indexesEnsured = false;
+export async function ensureSerialIndexes(db: Db) {
+  if (indexesEnsured) return;
+  await db.collection("serial_numbers").createIndex({ serial: 1 }, { unique: true });
+  await db.collection("serial_numbers").createIndex({ materialId: 1, status: 1 });
+  await stockMovements(db).createIndex({ serials: 1 }, { sparse: true });
+  indexesEnsured = true;
+}
+
+// Parse serials for a movement of 'quantity' units and make sure they line up.
+export function requireSerials(input: string | string[] | null | undefined, quantity: number, materialName: string) {
+  const serials = parseSerials(input);
+  if (new Set(serials).size !== serials.length) {
+    throw new StockError(`Duplicate serial numbers entered for ${materialName}.`);
+  }
+  if (serials.length !== quantity) {
+    throw new StockError(`${materialName} is serialized: enter exactly ${quantity} serial number(s), got ${serials.length}.`);
+  }
+  return serials;
+}
+
+type SerialMove = {
+  materialId: string;
+  materialName: string;
+  serials: string[];
+  clientId?: string;
+};
+
+// New units arriving into stock. A serial can only ever be received once.
+export async function receiveSerials(db: Db, { materialId, materialName, serials }: SerialMove, session?: ClientSession) {
+  if (serials.length === 0) return;
+  const existing = await db.collection("serial_numbers")
+    .find({ serial: { $in: serials } }, { session, projection: { serial: 1 } })
+    .toArray();
+  if (existing.length > 0) {
+    throw new StockError(`Serial number(s) already recorded: ${existing.map(s => s.serial).join(", ")}`);
+  }
+  const now = new Date();
+  await db.collection("serial_numbers").insertMany(
+    serials.map(serial => ({ serial, materialId, materialName, status: "in_stock", receivedAt: now, updatedAt: now })),
+    { session }
+  );
+}
+
+// Units leaving stock, either to a client or written out. Each serial must currently be
+// in stock for this material.
+export async function issueSerials(db: Db, { materialId, materialName, serials, clientId }: SerialMove, session?: ClientSession) {
+  if (serials.length === 0) return;
+  const filter = { serial: { $in: serials }, materialId, status: "in_stock" };
+  const available = await db.collection("serial_numbers").find(filter, { session, projection: { serial: 1 } }).toArray();
+  if (available.length !== serials.length) {
+    const ok = new Set(available.map(s => s.serial));
+    throw new StockError(`Not in stock for ${materialName}: ${serials.filter(s => !ok.has(s)).join(", ")}`);
+  }
+  await db.collection("serial_numbers").updateMany(
+    filter,
+    clientId
+      ? { $set: { status: "issued", clientId, updatedAt: new Date() } }
+      : { $set: { status: "removed", updatedAt: new Date() }, $unset: { clientId: "" } },
+    { session }
+  );
+}
+
+// Units a client sends back. Each serial must have been issued to that same client.
+export async function returnSerials(db: Db, { materialId, materialName, serials, clientId }: SerialMove, session?: ClientSession) {
+  if (serials.length === 0) return;
+  const filter = { serial: { $in: serials }, materialId, status: "issued", clientId };
+  const issued = await db.collection("serial_numbers").find(filter, { session, projection: { serial: 1 } }).toArray();
+  if (issued.length !== serials.length) {
+    const ok = new Set(issued.map(s => s.serial));
+    throw new StockError(`Not issued to this client for ${materialName}: ${serials.filter(s => !ok.has(s)).join(", ")}`);
+  }
+  await db.collection("serial_numbers").updateMany(
+    filter,
+    { $set: { status: "in_stock", updatedAt: new Date() }, $unset: { clientId: "" } },
+    { session }
+  );
+}
+
+export type SerialDirection = "receive" | "issue" | "return";
+
+// Validate and move the serials for one stock movement of 'quantity' units. Does nothing
+// (and returns no serials) when the material is not serialized.
+export async function moveSerials(
+  db: Db,
+  input: { materialId: string; direction: SerialDirection; quantity: number; serials?: string | string[] | null; clientId?: string },
+  session?: ClientSession
+): Promise<string[]> {
+  if (!ObjectId.isValid(input.materialId)) throw new StockError("Material not found.");
+  const material = await materialsCollection(db).findOne(
+    { _id: new ObjectId(input.materialId) },
+    { session, projection: { name: 1, serialized: 1 } }
+  );
+  if (!material) throw new StockError("Material not found.");
+  if (!material.serialized) return [];
+
+  const materialName = String(material.name || "");
+  const serials = requireSerials(input.serials, input.quantity, materialName);
+  const move = { materialId: input.materialId, materialName, serials, clientId: input.clientId };
+  if (input.direction === "receive") await receiveSerials(db, move, session);
+  else if (input.direction === "issue") await issueSerials(db, move, session);
+  else await returnSerials(db, move, session);
+  return serials;
+}
@@ -0,0 +1,50 @@
+// Printable statement of account of a client: invoices, credit notes, costing and
+// payments with the running balance. Browser-only.
+
+import autoTable from "jspdf-autotable";
+import type { Client, ClientBalance, StatementLine } from "@/lib/types";
+import { createClientPdf, addClientBlock, addPageNumbers, afterLastTable, pdfFileName, PDF_MARGIN_X, PDF_TABLE_STYLES } from "@/lib/pdf";
+
+// Positive balances are due from the client; negative ones are an advance with us.
+export const balanceText = (balance: number) =>
+  balance < 0 ? `${Math.abs(balance).toFixed(2)} Cr` : balance.toFixed(2);
+
+export function downloadStatementPdf(client: Client, lines: StatementLine[], balance: ClientBalance) {
+  const doc = createClientPdf("Statement of Account");
+  const y = addClientBlock(doc, client) + 8;
+
+  autoTable(doc, {
+    head: [["Date", "Reference", "Particulars", "Debit", "Credit", "Balance"]],
+    body: [
+      ...lines.map(line => [
+        new Date(line.date).toLocaleDateString(),
+        line.reference,
+        line.description,
+        line.debit ? line.debit.toFixed(2) : "",
+        line.credit ? line.credit.toFixed(2) : "",
+        balanceText(line.balance),
+      ]),
+      [
+        { content: "Total", colSpan: 3, styles: { fontStyle: "bold", halign: "right" } },
+        { content: balance.billed.toFixed(2), styles: { fontStyle: "bold" } },
+        { content: balance.paid.toFixed(2), styles: { fontStyle: "bold" } },
+        { content: balanceText(balance.outstanding), styles: { fontStyle: "bold" } },
+      ],
+    ],
+    startY: y,
+    ...PDF_TABLE_STYLES,
+    columnStyles: { 3: { halign: "right" }, 4: { halign: "right" }, 5: { halign: "right" } },
+  });
+
+  doc.setFontSize(12);
+  doc.text(
+    balance.outstanding < 0
+      ? `Advance with us: ${Math.abs(balance.outstanding).toFixed(2)}`
+      : `Balance Due: ${balance.outstanding.toFixed(2)}`,
+    PDF_MARGIN_X,
+    afterLastTable(doc)
+  );
+
+  addPageNumbers(doc);
+  doc.save(pdfFileName("Statement", client.name, new Date().toISOString().slice(0, 10)));
+}
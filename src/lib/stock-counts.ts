@@ -0,0 +1,34 @@
+// Reads for physical stock counts ('stock_counts'). Server-only.
+
+import { ObjectId, type Db } from "mongodb";
+import { unitPriceOf } from "@/lib/price-history";
+import type { StockCount } from "@/lib/types";
+import { materialsCollection } from "@/lib/materials";
+
+function toStockCount(doc: Record<string, any>): StockCount {
+  const { _id, ...rest } = doc;
+  return { id: _id.toString(), ...rest, lines: Array.isArray(rest.lines) ? rest.lines : [] } as StockCount;
+}
+
+// Open counts first, then the most recently closed ones.
+export async function getStockCounts(db: Db, closedLimit = 20) {
+  const [open, closed] = await Promise.all([
+    db.collection("stock_counts").find({ status: "open" }).sort({ createdAt: -1 }).toArray(),
+    db.collection("stock_counts").find({ status: { $ne: "open" } }).sort({ closedAt: -1 }).limit(closedLimit).toArray(),
+  ]);
+  return { open: open.map(toStockCount), closed: closed.map(toStockCount) };
+}
+
+// An open count is valued at today's prices; a closed one keeps the prices it was posted at.
+export async function getStockCount(db: Db, countId: string): Promise<StockCount | null> {
+  if (!ObjectId.isValid(countId)) return null;
+  const doc = await db.collection("stock_counts").findOne({ _id: new ObjectId(countId) });
+  if (!doc) return null;
+  const count = toStockCount(doc);
+  if (count.status !== "open") return count;
+
+  const ids = count.lines.map(l => l.materialId).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  const materials = await materialsCollection(db).find({ _id: { $in: ids } }).toArray();
+  const byId = new Map(materials.map(m => [m._id.toString(), m]));
+  return { ...count, lines: count.lines.map(l => ({ ...l, unitPrice: unitPriceOf(byId.get(l.materialId)) })) };
+}
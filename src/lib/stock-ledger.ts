@@ -0,0 +1,230 @@
+// Repository and maintenance helpers for the 'stock_movements' ledger: typed access,
+// the line schema (checked on every insert), mapping to StockMovement, indexes,
+// migration of the legacy 'stockHistory' / 'client_material_entries' documents, and
+// reconciliation of material quantities against the ledger.
+
+import type { Db, AnyBulkWriteOperation, ClientSession, ObjectId } from "mongodb";
+import { z } from "zod";
+import { validated, type StoredDoc } from "@/lib/documents";
+import type { StockMovement, StockMovementKind } from "@/lib/types";
+import { clientEntries } from "@/lib/client-material-entries";
+import { materialsCollection } from "@/lib/materials";
+
+export type StockMovementDoc = StoredDoc<StockMovement> & { sourceKey?: string };
+export type NewStockMovement = Omit<StockMovementDoc, "_id" | "date"> & { date: Date; _id?: ObjectId };
+
+export const stockMovements = (db: Db) => db.collection<StockMovementDoc>("stock_movements");
+
+const KINDS = [
+  "opening", "fill", "in", "out", "set", "client_out", "client_in", "po_receipt", "transfer", "count_variance", "restore",
+] as const satisfies readonly StockMovementKind[];
+
+const movementSchema = z.object({
+  materialId: z.string().min(1),
+  materialName: z.string(),
+  kind: z.enum(KINDS),
+  quantity: z.number().finite(),
+  balanceAfter: z.number().finite().optional(),
+  date: z.date(),
+  reference: z.object({
+    type: z.enum(["client_entry", "purchase_order", "stock_transfer", "stock_count"]),
+    id: z.string().min(1),
+  }).optional(),
+  serials: z.array(z.string()).optional(),
+  unitCost: z.number().nonnegative().optional(),
+}).passthrough();
+
+// Checks ledger lines without appending them.
+export function checkMovements(movements: NewStockMovement[]) {
+  return movements.map(movement => validated(movementSchema, movement, "stock movement"));
+}
+
+// Validates and appends ledger lines. Lines are never updated or deleted afterwards.
+export async function insertMovements(db: Db, movements: NewStockMovement[], session?: ClientSession) {
+  const lines = checkMovements(movements);
+  await db.collection("stock_movements").insertMany(lines, { session });
+}
+
+// A ledger line as listed in stock history.
+export function toStockMovement(doc: StockMovementDoc): StockMovement {
+  return {
+    id: doc._id.toString(),
+    materialId: doc.materialId,
+    materialName: doc.materialName,
+    kind: doc.kind,
+    quantity: doc.quantity,
+    balanceAfter: doc.balanceAfter,
+    date: doc.date,
+    reason: doc.reason,
+    batchId: doc.batchId,
+    clientId: doc.clientId,
+    reference: doc.reference,
+    userName: doc.userName,
+  };
+}
+
+let indexesEnsured = false;
+export async function ensureLedgerIndexes(db: Db) {
+  if (indexesEnsured) return;
+  const movements = stockMovements(db);
+  await movements.createIndex({ date: -1 });
+  // Stock history pages through the ledger by date, then id.
+  await movements.createIndex({ date: -1, _id: -1 });
+  await movements.createIndex({ kind: 1, date: -1 });
+  await movements.createIndex({ materialId: 1, date: -1 });
+  await movements.createIndex({ clientId: 1, date: -1 }, { sparse: true });
+  // A legacy document can only ever be imported once.
+  await movements.createIndex({ sourceKey: 1 }, { unique: true, partialFilterExpression: { sourceKey: { $exists: true } } });
+  indexesEnsured = true;
+}
+
+// Quantity per material as derived from the ledger.
+export async function getLedgerBalances(db: Db) {
+  const rows = await stockMovements(db).aggregate<{ _id: string; quantity: number }>([
+    { $group: { _id: "$materialId", quantity: { $sum: "$quantity" } } },
+  ]).toArray();
+  return new Map(rows.map(r => [String(r._id), Number(r.quantity) || 0]));
+}
+
+// Average units per day each material went out to clients over the last 'days' days,
+// net of client returns. Materials with no net consumption are left out.
+export async function getDailyConsumption(db: Db, days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const rows = await stockMovements(db).aggregate<{ _id: string; quantity: number }>([
+    { $match: { kind: { $in: ["client_out", "client_in"] }, date: { $gte: since } } },
+    { $group: { _id: "$materialId", quantity: { $sum: "$quantity" } } },
+  ]).toArray();
+  // Dispatches are negative ledger lines, so net consumption is the negated sum.
+  return new Map(rows.filter(r => r.quantity < 0).map(r => [String(r._id), -r.quantity / days]));
+}
+
+export type LedgerMismatch = {
+  materialId: string;
+  materialName: string;
+  quantity: number;        // Stored on the material document.
+  ledgerQuantity: number;  // Sum of the material's ledger lines.
+};
+
+// Compare every material's stored quantity with the ledger.
+export async function findLedgerMismatches(db: Db): Promise<LedgerMismatch[]> {
+  const balances = await getLedgerBalances(db);
+  const materials = await materialsCollection(db).find({}, { projection: { name: 1, quantity: 1 } }).toArray();
+  return materials
+    .map(m => ({
+      materialId: m._id.toString(),
+      materialName: String(m.name || ""),
+      quantity: Number(m.quantity) || 0,
+      ledgerQuantity: balances.get(m._id.toString()) ?? 0,
+    }))
+    .filter(m => m.quantity !== m.ledgerQuantity);
+}
+
+// Append a correcting line for every material whose quantity differs from its ledger,
+// so the ledger sums match again. Used for opening balances and after restores.
+export async function reconcileLedger(
+  db: Db,
+  kind: Extract<StockMovementKind, "opening" | "restore">,
+  reason: string,
+  options: { onlyWithoutOpening?: boolean } = {}
+) {
+  let mismatches = await findLedgerMismatches(db);
+  if (options.onlyWithoutOpening) {
+    const withOpening = new Set(
+      (await stockMovements(db).distinct("materialId", { kind: "opening" })).map(String)
+    );
+    mismatches = mismatches.filter(m => !withOpening.has(m.materialId));
+  }
+  if (mismatches.length === 0) return 0;
+  await insertMovements(db, mismatches.map(m => ({
+    materialId: m.materialId,
+    materialName: m.materialName,
+    kind,
+    quantity: m.quantity - m.ledgerQuantity,
+    balanceAfter: m.quantity,
+    date: new Date(),
+    reason,
+  })));
+  return mismatches.length;
+}
+
+// Import legacy documents into the ledger. Safe to run repeatedly: every imported line
+// carries a 'sourceKey' and existing keys are skipped.
+//  - 'stockHistory' fill documents ({ timestamp, items, totalItems }) become 'fill' lines.
+//  - 'stockHistory' adjustments ({ materialId, type, quantity, previousStock, newStock, date })
+//    become 'in' / 'out' lines.
+//  - 'client_material_entries' become 'client_out' / 'client_in' lines.
+export async function importLegacyMovements(db: Db) {
+  await ensureLedgerIndexes(db);
+  const ops: AnyBulkWriteOperation[] = [];
+  const add = (sourceKey: string, doc: Record<string, any>) => {
+    ops.push({
+      updateOne: {
+        filter: { sourceKey },
+        update: { $setOnInsert: { ...doc, sourceKey } },
+        upsert: true,
+      },
+    });
+  };
+
+  const history = await db.collection("stockHistory").find({}).toArray();
+  for (const h of history) {
+    const id = h._id.toString();
+    if (Array.isArray(h.items)) {
+      h.items.forEach((item: any, line: number) => {
+        add(`stockHistory:${id}:${line}`, {
+          materialId: String(item.materialId || ""),
+          materialName: String(item.materialName || ""),
+          kind: "fill",
+          quantity: Number(item.quantityAdded) || 0,
+          date: new Date(h.timestamp ?? h.date ?? Date.now()),
+          batchId: id,
+          reason: "Stock Fill",
+        });
+      });
+    } else if (h.materialId) {
+      const qty = Number(h.quantity) || 0;
+      const doc: Record<string, any> = {
+        materialId: String(h.materialId),
+        materialName: String(h.materialName || ""),
+        kind: h.type === "out" ? "out" : "in",
+        quantity: h.type === "out" ? -qty : qty,
+        date: new Date(h.date ?? h.timestamp ?? Date.now()),
+      };
+      if (h.reason) doc.reason = String(h.reason);
+      if (h.newStock !== undefined) doc.balanceAfter = Number(h.newStock) || 0;
+      add(`stockHistory:${id}:0`, doc);
+    }
+  }
+
+  const entries = await clientEntries(db).find({}).toArray();
+  for (const e of entries) {
+    const id = e._id.toString();
+    const isReturn = e.type === "in";
+    const items: any[] = Array.isArray(e.materials) ? e.materials : [];
+    items.forEach((item, line) => {
+      const qty = Number(item.quantity) || 0;
+      const doc: Record<string, any> = {
+        materialId: String(item.materialId || ""),
+        materialName: String(item.materialName || ""),
+        kind: isReturn ? "client_in" : "client_out",
+        quantity: isReturn ? qty : -qty,
+        date: new Date(e.date ?? Date.now()),
+        clientId: String(e.clientId || ""),
+        reference: { type: "client_entry", id },
+        batchId: id,
+      };
+      if (e.reason) doc.reason = String(e.reason);
+      add(clientEntrySourceKey(id, line), doc);
+    });
+  }
+
+  if (ops.length === 0) return 0;
+  const result = await db.collection("stock_movements").bulkWrite(ops, { ordered: false });
+  return result.upsertedCount;
+}
+
+// The key linking a ledger line to the client entry line it came from. Native client
+// movements use the same key so the legacy import never duplicates them.
+export function clientEntrySourceKey(entryId: string, line: number) {
+  return `client_material_entries:${entryId}:${line}`;
+}
@@ -0,0 +1,202 @@
+// Concurrent stock movements against a real (in-memory) MongoDB replica set: however
+// the requests interleave, no update is lost, stock never goes negative, and the ledger
+// always sums to the material's quantity.
+
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { ObjectId, type Db } from "mongodb";
+import { StockError, decrementStock, moveStock } from "@/lib/stock";
+import { createChallan } from "@/lib/challans";
+import { bookClientEntry } from "@/lib/client-entries";
+import { holdStock } from "@/lib/reservations";
+import { getDefaultLocation } from "@/lib/locations";
+import { settleAll, startMemoryDb } from "@/test/memory-db";
+import type { SessionUser } from "@/lib/types";
+
+const user: SessionUser = { id: new ObjectId().toString(), name: "Test Storekeeper", email: "store@example.com", role: "storekeeper" };
+
+// Null when no mongod is available; every suite below is then skipped.
+const memory = await startMemoryDb();
+const db = memory?.db as Db;
+const withTransaction = memory?.withTransaction as NonNullable<typeof memory>["withTransaction"];
+const describeWithDb = describe.skipIf(!memory);
+
+afterAll(async () => {
+  await memory?.stop();
+});
+
+beforeEach(async () => {
+  if (!memory) return;
+  await db.dropDatabase();
+  // Collections are created up front; the default location too, so concurrent
+  // transactions do not race to create it.
+  for (const name of ["materials", "stock_movements", "clients", "client_material_entries", "client_costing", "client_costing_versions", "counters", "reservations", "material_prices", "serial_numbers", "settings"]) {
+    await db.createCollection(name);
+  }
+  await getDefaultLocation(db);
+});
+
+// A material with an opening ledger line, as new materials are created.
+async function createMaterial(quantity: number) {
+  const { insertedId } = await db.collection("materials").insertOne({ name: "Solar Panel 540W", quantity: 0, price: 100, gstPercent: 12 });
+  const materialId = insertedId.toString();
+  await moveStock(db, { materialId, kind: "opening", delta: quantity, reason: "Opening stock", user });
+  return materialId;
+}
+
+async function createClient() {
+  const { insertedId } = await db.collection("clients").insertOne({ name: "Test Client", consumerNo: "C-1", address: "Pune", plantCapacity: "5 kW" });
+  return insertedId.toString();
+}
+
+async function quantityOf(materialId: string) {
+  const material = await db.collection("materials").findOne({ _id: new ObjectId(materialId) });
+  return Number(material?.quantity);
+}
+
+async function reservedOf(materialId: string) {
+  const material = await db.collection("materials").findOne({ _id: new ObjectId(materialId) });
+  return Number(material?.reserved) || 0;
+}
+
+// Holds stock and stores the reservation, as the reservation form does.
+function reserve(clientId: string, materialId: string, quantity: number) {
+  return withTransaction(async (db, session) => {
+    await holdStock(db, [{ materialId, quantity }], session);
+    await db.collection("reservations").insertOne({
+      clientId,
+      lines: [{ materialId, materialName: "Solar Panel 540W", quantity }],
+      status: "active",
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      createdAt: new Date(),
+    }, { session });
+  });
+}
+
+async function ledgerSum(materialId: string) {
+  const lines = await db.collection("stock_movements").find({ materialId }).toArray();
+  return lines.reduce((sum, line) => sum + Number(line.quantity), 0);
+}
+
+describeWithDb("decrementStock", () => {
+  it("lets exactly as many parallel removals through as there is stock", async () => {
+    const materialId = await createMaterial(10);
+    const { fulfilled, rejected } = await settleAll(Array.from({ length: 25 }, () => () => decrementStock(db, materialId, 1)));
+
+    expect(fulfilled).toHaveLength(10);
+    expect(rejected).toHaveLength(15);
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    expect(await quantityOf(materialId)).toBe(0);
+  });
+});
+
+describeWithDb("moveStock", () => {
+  it("loses no update when adds and removes run in parallel transactions", async () => {
+    const materialId = await createMaterial(20);
+    const deltas = Array.from({ length: 30 }, (_, i) => (i % 3 === 0 ? 4 : -3));
+    const { fulfilled, rejected } = await settleAll(deltas.map(delta => () =>
+      withTransaction((db, session) => moveStock(db, { materialId, kind: delta > 0 ? "in" : "out", delta, user }, session))
+    ));
+
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    const applied = fulfilled.reduce((sum, { movement }) => sum + movement.quantity, 0);
+    const quantity = await quantityOf(materialId);
+    expect(quantity).toBe(20 + applied);
+    expect(quantity).toBeGreaterThanOrEqual(0);
+    expect(await ledgerSum(materialId)).toBe(quantity);
+    // No line ever recorded a negative balance.
+    const balances = fulfilled.map(({ movement }) => Number(movement.balanceAfter));
+    expect(Math.min(...balances)).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describeWithDb("createChallan", () => {
+  it("never dispatches more than is in stock and numbers every challan once", async () => {
+    const materialId = await createMaterial(12);
+    const clientId = await createClient();
+    const { fulfilled, rejected } = await settleAll(Array.from({ length: 8 }, () => () =>
+      withTransaction((db, session) => createChallan(db, { clientId, items: [{ materialId, quantity: 5 }] }, user, session))
+    ));
+
+    expect(fulfilled).toHaveLength(2);
+    expect(rejected).toHaveLength(6);
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    expect(new Set(fulfilled.map(challan => challan.challanNo)).size).toBe(2);
+    expect(await quantityOf(materialId)).toBe(2);
+    expect(await ledgerSum(materialId)).toBe(2);
+    expect(await db.collection("client_material_entries").countDocuments({ clientId })).toBe(2);
+    const costing = await db.collection("client_costing").findOne({ clientId, projectId: null });
+    expect(costing?.items.reduce((sum: number, row: { qty: number }) => sum + row.qty, 0)).toBe(10);
+  });
+});
+
+describeWithDb("bookClientEntry", () => {
+  it("keeps parallel dispatches within stock", async () => {
+    const materialId = await createMaterial(7);
+    const clientId = await createClient();
+    const { fulfilled, rejected } = await settleAll(Array.from({ length: 10 }, () => () =>
+      withTransaction((db, session) => bookClientEntry(db, { clientId, materialId, materialName: "Solar Panel 540W", quantity: 1, type: "out" }, user, session))
+    ));
+
+    expect(fulfilled).toHaveLength(7);
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    expect(await quantityOf(materialId)).toBe(0);
+    expect(await ledgerSum(materialId)).toBe(0);
+  });
+
+  it("never takes back more than the client holds", async () => {
+    const materialId = await createMaterial(10);
+    const clientId = await createClient();
+    await withTransaction((db, session) => bookClientEntry(db, { clientId, materialId, materialName: "Solar Panel 540W", quantity: 5, type: "out" }, user, session));
+
+    const { fulfilled, rejected } = await settleAll(Array.from({ length: 9 }, () => () =>
+      withTransaction((db, session) => bookClientEntry(db, { clientId, materialId, materialName: "Solar Panel 540W", quantity: 1, type: "in" }, user, session))
+    ));
+
+    expect(fulfilled).toHaveLength(5);
+    expect(rejected).toHaveLength(4);
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    expect(await quantityOf(materialId)).toBe(10);
+    expect(await ledgerSum(materialId)).toBe(10);
+    const costing = await db.collection("client_costing").findOne({ clientId, projectId: null });
+    expect(costing?.items).toEqual([]);
+  });
+});
+
+describeWithDb("holdStock", () => {
+  it("never reserves more than is on hand", async () => {
+    const materialId = await createMaterial(10);
+    const clientId = await createClient();
+    const { fulfilled, rejected } = await settleAll(Array.from({ length: 6 }, () => () => reserve(clientId, materialId, 3)));
+
+    expect(fulfilled).toHaveLength(3);
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    expect(await reservedOf(materialId)).toBe(9);
+    expect(await db.collection("reservations").countDocuments({ status: "active" })).toBe(3);
+  });
+
+  it("keeps reservations and another client's dispatches within stock together", async () => {
+    const materialId = await createMaterial(10);
+    const holder = await createClient();
+    const other = await createClient();
+    const { rejected } = await settleAll<unknown>([
+      ...Array.from({ length: 4 }, () => () => reserve(holder, materialId, 2)),
+      ...Array.from({ length: 4 }, () => () =>
+        withTransaction((db, session) => createChallan(db, { clientId: other, items: [{ materialId, quantity: 2 }] }, user, session))
+      ),
+    ]);
+
+    expect(rejected.every(error => error instanceof StockError)).toBe(true);
+    expect(await reservedOf(materialId)).toBeLessThanOrEqual(await quantityOf(materialId));
+  });
+
+  it("frees the stock of an expired reservation", async () => {
+    const materialId = await createMaterial(5);
+    const clientId = await createClient();
+    await reserve(clientId, materialId, 5);
+    await db.collection("reservations").updateMany({}, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+
+    await reserve(clientId, materialId, 5);
+    expect(await reservedOf(materialId)).toBe(5);
+    expect(await db.collection("reservations").countDocuments({ status: "expired" })).toBe(1);
+  });
+});
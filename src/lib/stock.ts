@@ -0,0 +1,288 @@
+// Atomic stock quantity updates shared by every server action that moves stock.
+// Each helper is a single guarded MongoDB update, so two storekeepers working at
+// the same time can never lose each other's changes or push stock below zero.
+// Pass the transaction session when the change is part of a larger unit of work.
+//
+// Actions should go through 'moveStock', which pairs the quantity change with its
+// line in the append-only 'stock_movements' ledger.
+//
+// 'quantity' is the total over all locations. Balances at locations other than the
+// default one live in 'stockByLocation'; the default location holds the rest, so
+// materials that predate locations need no migration. Helpers take the location's
+// slot in that map, or null for the default location.
+
+import { ObjectId, type ClientSession, type Db } from "mongodb";
+import { insertMovements, type NewStockMovement } from "@/lib/stock-ledger";
+import type { SessionUser, StockMovementKind, StockMovementReference } from "@/lib/types";
+import { ActionError } from "@/lib/errors";
+import { materialsCollection } from "@/lib/materials";
+
+// Raised when a stock rule is broken (insufficient stock, unknown material). An
+// ActionError, so actions show its message to the user as-is.
+export class StockError extends ActionError {
+  constructor(message: string) {
+    super(message);
+    this.name = "StockError";
+  }
+}
+
+export type StockChange = {
+  material: Record<string, any>; // The material document after the update.
+  previous: number;
+  next: number;
+};
+
+function toObjectId(materialId: string) {
+  if (!ObjectId.isValid(materialId)) throw new StockError("Material not found.");
+  return new ObjectId(materialId);
+}
+
+// Stock held at non-default locations, as an aggregation expression.
+const OTHER_LOCATIONS_TOTAL = {
+  $sum: { $map: { input: { $objectToArray: { $ifNull: ["$stockByLocation", {}] } }, in: "$$this.v" } },
+};
+const DEFAULT_LOCATION_BALANCE = { $subtract: [{ $ifNull: ["$quantity", 0] }, OTHER_LOCATIONS_TOTAL] };
+
+function otherLocationsTotal(material: Record<string, any>) {
+  return Object.values(material.stockByLocation ?? {}).reduce<number>((sum, q) => sum + (Number(q) || 0), 0);
+}
+
+function balanceAt(material: Record<string, any>, slot: string | null) {
+  return slot ? Number(material.stockByLocation?.[slot]) || 0 : (Number(material.quantity) || 0) - otherLocationsTotal(material);
+}
+
+// Filter that only matches while the location holds at least 'quantity'.
+function holdsAtLeast(slot: string | null, quantity: number) {
+  return slot
+    ? { [`stockByLocation.${slot}`]: { $gte: quantity } }
+    : { $expr: { $gte: [DEFAULT_LOCATION_BALANCE, quantity] } };
+}
+
+export type StockLocationRef = { id: string; name: string; isDefault: boolean };
+
+// The location a movement happens at, or null when none was given (the default location).
+export async function resolveStockLocation(db: Db, locationId: string | null | undefined, session?: ClientSession): Promise<StockLocationRef | null> {
+  if (!locationId) return null;
+  const location = ObjectId.isValid(locationId)
+    ? await db.collection("locations").findOne({ _id: new ObjectId(locationId) }, { session })
+    : null;
+  if (!location) throw new StockError("Location not found.");
+  return { id: locationId, name: String(location.name || ""), isDefault: location.isDefault === true };
+}
+
+const slotOf = (location: StockLocationRef | null) => (location && !location.isDefault ? location.id : null);
+
+// Add 'quantity' to stock. Extra numeric fields (e.g. invested amounts) can be
+// incremented in the same update.
+export async function incrementStock(
+  db: Db,
+  materialId: string,
+  quantity: number,
+  session?: ClientSession,
+  extraInc: Record<string, number> = {},
+  slot: string | null = null
+): Promise<StockChange> {
+  const material = await materialsCollection(db).findOneAndUpdate(
+    { _id: toObjectId(materialId) },
+    { $inc: { quantity, ...extraInc, ...(slot ? { [`stockByLocation.${slot}`]: quantity } : {}) } },
+    { returnDocument: "after", session }
+  );
+  if (!material) throw new StockError("Material not found.");
+  const next = Number(material.quantity) || 0;
+  return { material, previous: next - quantity, next };
+}
+
+// Remove 'quantity' from stock. The filter only matches while the location holds
+// enough, so the check and the decrement happen in one atomic step.
+export async function decrementStock(
+  db: Db,
+  materialId: string,
+  quantity: number,
+  session?: ClientSession,
+  slot: string | null = null
+): Promise<StockChange> {
+  const _id = toObjectId(materialId);
+  const material = await materialsCollection(db).findOneAndUpdate(
+    { _id, ...holdsAtLeast(slot, quantity) },
+    { $inc: { quantity: -quantity, ...(slot ? { [`stockByLocation.${slot}`]: -quantity } : {}) } },
+    { returnDocument: "after", session }
+  );
+  if (!material) {
+    const current = await materialsCollection(db).findOne({ _id }, { session });
+    if (!current) throw new StockError("Material not found.");
+    throw new StockError(`Insufficient stock. Available: ${balanceAt(current, slot)}, Requested: ${quantity}`);
+  }
+  const next = Number(material.quantity) || 0;
+  return { material, previous: next + quantity, next };
+}
+
+// Apply a signed adjustment at the default location, clamping its balance at zero.
+export async function adjustStockClamped(
+  db: Db,
+  materialId: string,
+  adjustment: number,
+  session?: ClientSession
+): Promise<StockChange> {
+  const before = await materialsCollection(db).findOneAndUpdate(
+    { _id: toObjectId(materialId) },
+    [{ $set: { quantity: { $max: [OTHER_LOCATIONS_TOTAL, { $add: [{ $ifNull: ["$quantity", 0] }, adjustment] }] } } }],
+    { returnDocument: "before", session }
+  );
+  if (!before) throw new StockError("Material not found.");
+  const previous = Number(before.quantity) || 0;
+  const next = Math.max(otherLocationsTotal(before), previous + adjustment);
+  return { material: { ...before, quantity: next }, previous, next };
+}
+
+// Overwrite a balance with an absolute value (owner corrections, stock counts). Without
+// a slot this sets the total, which cannot go below what other locations hold.
+export async function setStock(
+  db: Db,
+  materialId: string,
+  quantity: number,
+  session?: ClientSession,
+  slot: string | null = null
+): Promise<StockChange> {
+  const _id = toObjectId(materialId);
+  if (slot) {
+    const before = await materialsCollection(db).findOneAndUpdate(
+      { _id },
+      [{ $set: {
+        quantity: { $add: [{ $ifNull: ["$quantity", 0] }, { $subtract: [quantity, { $ifNull: [`$stockByLocation.${slot}`, 0] }] }] },
+        stockByLocation: { $mergeObjects: [{ $ifNull: ["$stockByLocation", {}] }, { [slot]: quantity }] },
+      } }],
+      { returnDocument: "before", session }
+    );
+    if (!before) throw new StockError("Material not found.");
+    const previous = Number(before.quantity) || 0;
+    const next = previous + quantity - balanceAt(before, slot);
+    return { material: { ...before, quantity: next }, previous, next };
+  }
+  const before = await materialsCollection(db).findOneAndUpdate(
+    { _id, $expr: { $lte: [OTHER_LOCATIONS_TOTAL, quantity] } },
+    { $set: { quantity } },
+    { returnDocument: "before", session }
+  );
+  if (!before) {
+    const current = await materialsCollection(db).findOne({ _id }, { session });
+    if (!current) throw new StockError("Material not found.");
+    throw new StockError(`Cannot set below ${otherLocationsTotal(current)}, the stock held at other locations. Transfer it back first.`);
+  }
+  return { material: { ...before, quantity }, previous: Number(before.quantity) || 0, next: quantity };
+}
+
+export type MovementInput = {
+  materialId: string;
+  kind: StockMovementKind;
+  delta?: number;      // Signed change for relative movements.
+  setTo?: number;      // Absolute quantity, for 'set' and 'restore'.
+  clamp?: boolean;     // Clamp at zero instead of failing when removing more than is available (default location only).
+  locationId?: string | null; // Where the stock moves in or out; the default location when unset.
+  reason?: string;
+  batchId?: string;
+  clientId?: string;
+  reference?: StockMovementReference;
+  sourceKey?: string;  // Stable key of the document this line came from; makes migration idempotent.
+  serials?: string[];  // Serial numbers of the units moved (serialized materials).
+  unitCost?: number;   // Purchase cost per unit before GST, for valuation (receipts only).
+  user?: SessionUser | null;
+  extraInc?: Record<string, number>;
+  date?: Date;
+};
+
+// Change a material's stock and append the matching ledger line. Use inside
+// 'withTransaction' so the quantity and the ledger can never disagree.
+export async function moveStock(db: Db, input: MovementInput, session?: ClientSession) {
+  const { materialId, delta = 0 } = input;
+  const location = await resolveStockLocation(db, input.locationId, session);
+  const slot = slotOf(location);
+  let change: StockChange;
+  if (input.setTo !== undefined) {
+    change = await setStock(db, materialId, input.setTo, session, slot);
+  } else if (input.clamp) {
+    if (slot) throw new StockError("Clamped adjustments are only possible at the default location.");
+    change = await adjustStockClamped(db, materialId, delta, session);
+  } else if (delta >= 0) {
+    change = await incrementStock(db, materialId, delta, session, input.extraInc, slot);
+  } else {
+    change = await decrementStock(db, materialId, -delta, session, slot);
+  }
+
+  const movement: NewStockMovement = {
+    materialId,
+    materialName: String(change.material.name || ""),
+    kind: input.kind,
+    quantity: change.next - change.previous,
+    balanceAfter: change.next,
+    date: input.date ?? new Date(),
+  };
+  if (input.reason) movement.reason = input.reason;
+  if (input.batchId) movement.batchId = input.batchId;
+  if (input.clientId) movement.clientId = input.clientId;
+  if (input.reference) movement.reference = input.reference;
+  if (input.sourceKey) movement.sourceKey = input.sourceKey;
+  if (input.serials?.length) movement.serials = input.serials;
+  if (location) movement.locationId = location.id;
+  if (input.unitCost !== undefined && input.unitCost > 0) movement.unitCost = input.unitCost;
+  if (input.user) {
+    movement.userId = input.user.id;
+    movement.userName = input.user.name;
+  }
+  await insertMovements(db, [movement], session);
+  return { change, movement };
+}
+
+export type TransferInput = {
+  materialId: string;
+  quantity: number;
+  from: StockLocationRef;
+  to: StockLocationRef;
+  reason?: string;
+  batchId?: string;
+  reference?: StockMovementReference;
+  user?: SessionUser | null;
+  date?: Date;
+};
+
+// Move stock between two locations in one guarded update and append the pair of
+// 'transfer' ledger lines (out of 'from', into 'to'). The total quantity is unchanged.
+export async function transferStock(db: Db, input: TransferInput, session?: ClientSession) {
+  const { materialId, quantity, from, to } = input;
+  if (from.id === to.id) throw new StockError("Pick two different locations.");
+  const fromSlot = slotOf(from);
+  const toSlot = slotOf(to);
+  const _id = toObjectId(materialId);
+  const inc: Record<string, number> = {};
+  if (fromSlot) inc[`stockByLocation.${fromSlot}`] = -quantity;
+  if (toSlot) inc[`stockByLocation.${toSlot}`] = quantity;
+  const material = await materialsCollection(db).findOneAndUpdate(
+    { _id, ...holdsAtLeast(fromSlot, quantity) },
+    { $inc: inc },
+    { returnDocument: "after", session }
+  );
+  if (!material) {
+    const current = await materialsCollection(db).findOne({ _id }, { session });
+    if (!current) throw new StockError("Material not found.");
+    throw new StockError(`Insufficient stock of ${current.name} at ${from.name}. Available: ${balanceAt(current, fromSlot)}, Requested: ${quantity}`);
+  }
+
+  const line: Omit<NewStockMovement, "quantity" | "locationId"> = {
+    materialId,
+    materialName: String(material.name || ""),
+    kind: "transfer",
+    balanceAfter: Number(material.quantity) || 0,
+    date: input.date ?? new Date(),
+  };
+  if (input.reason) line.reason = input.reason;
+  if (input.batchId) line.batchId = input.batchId;
+  if (input.reference) line.reference = input.reference;
+  if (input.user) {
+    line.userId = input.user.id;
+    line.userName = input.user.name;
+  }
+  await insertMovements(db, [
+    { ...line, quantity: -quantity, locationId: from.id },
+    { ...line, quantity, locationId: to.id },
+  ], session);
+  return material;
+}
@@ -3,6 +3,12 @@
 // and provides better autocompletion and error-checking during development.
 
 // Defines the structure for a single material in the inventory.
+// A unit a material is bought in, with how many base units it holds.
+export type PurchaseUnit = {
+  name: string;    // e.g. "roll", "box".
+  factor: number;  // Base units per purchase unit, e.g. 90 (m per roll).
+};
+
 export type Material = {
   id: string;          // Unique identifier for the material, usually the Firestore document ID.
   name: string;        // The name of the material (e.g., "Steel Beams").
@@ -15,6 +21,82 @@ export type Material = {
   investedBase?: number; // Accumulated base investment from manual stock additions only.
   investedGst?: number;  // Accumulated GST portion from manual stock additions only.
   investedTotal?: number; // Accumulated total (base + GST) from manual stock additions only.
+  serialized?: boolean;  // Every unit carries a serial number that is tracked in and out.
+  hsnCode?: string;      // HSN (goods) or SAC (services) code printed on tax invoices.
+  unit?: string;         // Base unit the quantity is counted in (e.g. "pcs", "m"); "pcs" when unset.
+  purchaseUnits?: PurchaseUnit[]; // Larger units stock can be received in (e.g. roll = 90 m).
+  minLevel?: number;     // Safety stock; falling below it is urgent.
+  reorderPoint?: number; // Reorder once stock is at or below this (defaults to 10).
+  reorderQty?: number;   // Standard quantity to order at a time.
+  reserved?: number;     // Held by active client reservations; only lib/reservations changes it.
+  stockByLocation?: Record<string, number>; // Stock at each non-default location; the default location holds the rest of 'quantity'.
+};
+
+// A place stock is kept: the main godown, a van or a site store. 'quantity' on a material
+// is always the total over all locations.
+export type LocationKind = 'warehouse' | 'van' | 'site';
+
+export type StockLocation = {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  isDefault?: boolean;   // Receives stock fills and purchase receipts; exactly one location has it.
+  address?: string;
+  createdAt: Date | string;
+};
+
+// Stock moved from one location to another ('stock_transfers' collection). The total
+// quantity of each material is unchanged.
+export type StockTransferLine = {
+  materialId: string;
+  materialName: string;
+  quantity: number;
+  unit?: string;
+}
+
+export type StockTransfer = {
+  id: string;
+  transferNo: string;      // e.g. "TR-0001".
+  fromLocationId: string;
+  fromLocationName: string;
+  toLocationId: string;
+  toLocationName: string;
+  lines: StockTransferLine[];
+  date: Date | string;
+  note?: string;
+  createdBy?: string;
+};
+
+// A physical stock take ('stock_counts' collection). System quantities are frozen when
+// the count starts; counters fill in what they find and an owner posts the approved
+// variances. open -> posted | cancelled
+export type StockCountStatus = 'open' | 'posted' | 'cancelled';
+
+export type StockCountLine = {
+  materialId: string;
+  materialName: string;
+  category?: string;
+  unit?: string;
+  systemQty: number;       // Stock at the location when the count started.
+  countedQty?: number;     // Unset until someone counts it.
+  countedBy?: string;
+  countedAt?: Date | string;
+  unitPrice?: number;      // Current price while open; the price used when posted.
+  approved?: boolean;      // Set when posted: whether the variance was booked.
+}
+
+export type StockCount = {
+  id: string;
+  countNo: string;         // e.g. "SC-0001".
+  status: StockCountStatus;
+  locationId: string;
+  locationName: string;
+  lines: StockCountLine[];
+  note?: string;
+  createdAt: Date | string;
+  createdBy?: string;
+  closedAt?: Date | string;
+  closedBy?: string;
 };
 
 // Defines the structure for a client.
@@ -25,6 +107,33 @@ export type Client = {
   avatarUrl?: string;   // A URL for the client's avatar image (optional).
   address: string;     // The client's address.
   plantCapacity: string; // The capacity of the solar plant (e.g., "5 kW").
+  gstin?: string;      // Buyer GSTIN for tax invoices, if the client is registered.
+  stateCode?: string;  // GST state code of the place of supply (e.g., "33").
+  priceList?: ClientPrice[]; // Negotiated rates; other materials are billed at our price.
+  outstanding?: number; // In client lists only: billed less paid; negative when paid in advance.
+  archived?: boolean;   // Retired clients are hidden from the client list by default.
+  archivedAt?: Date | string;
+  archivedBy?: string;
+};
+
+export type ClientAuditAction = 'created' | 'updated' | 'archived' | 'unarchived' | 'deleted';
+
+// One change to a client ('client_audit' collection). Kept after the client is deleted.
+export type ClientAuditEntry = {
+  id: string;
+  clientId: string;
+  clientName: string;
+  action: ClientAuditAction;
+  changes?: { field: string; from: string; to: string }[];   // Updates only.
+  at: Date | string;
+  by?: string;
+};
+
+// A rate agreed with a client for one material, used by their costing instead of the
+// material's own price.
+export type ClientPrice = {
+  materialId: string;
+  unitPrice: number;   // Per base unit, before GST.
 };
 
 // This type is no longer used and is replaced by ClientMaterialEntry
@@ -34,11 +143,86 @@ export type ClientMaterial = {
     inQty: number;      // The total quantity of this material returned by the client.
 }
 
+// A client's usage of one material, from their entries (see lib/usage).
+export type MaterialUsage = ClientMaterial & {
+    materialName: string;
+    netQty: number;     // Still held: out less in.
+}
+
 export type ClientMaterialEntryItem = {
     materialId: string;
     materialName: string;
     quantity: number;
-    serialNumbers?: string;
+    unit?: string;          // Base unit of the material when the entry was made.
+    serialNumbers?: string; // Comma separated serial numbers of the units on this line.
+}
+
+// Bill of materials for a standard installation, e.g. "5 kW on-grid rooftop". Line
+// quantities are for the template's base capacity; 'per_kw' lines scale with the
+// capacity it is applied to, 'fixed' lines (one inverter, one meter) do not.
+export type BomLineScale = 'per_kw' | 'fixed';
+
+export type BomLine = {
+  materialId: string;
+  materialName: string;
+  quantity: number;      // At the template's base capacity, in the material's base unit.
+  scale: BomLineScale;
+}
+
+export type BomTemplate = {
+  id: string;
+  name: string;
+  description?: string;
+  baseCapacityKw: number;
+  lines: BomLine[];
+  createdAt: Date | string;
+  updatedAt?: Date | string;
+}
+
+// One installation (site) of a client. A client can have several, each with its own
+// capacity, material entries and costing.
+export type ProjectStatus = 'planned' | 'in_progress' | 'completed' | 'on_hold';
+
+export type Project = {
+  id: string;
+  clientId: string;
+  name: string;
+  address?: string;
+  plantCapacity?: string;  // e.g. "5 kW".
+  status: ProjectStatus;
+  startDate?: Date | string;
+  endDate?: Date | string;
+  createdAt: Date | string;
+  createdBy?: string;
+}
+
+// Stock set aside for a scheduled client job. Active reservations lower the available
+// quantity of a material but not what is on hand; dispatching the reservation is what
+// finally takes the stock out.
+export type ReservationStatus = 'active' | 'dispatched' | 'released' | 'expired';
+
+export type ReservationLine = {
+  materialId: string;
+  materialName: string;
+  quantity: number;   // In the material's base unit.
+  unit?: string;
+}
+
+export type Reservation = {
+  id: string;
+  clientId: string;
+  clientName?: string;
+  projectId?: string;
+  lines: ReservationLine[];
+  status: ReservationStatus;
+  scheduledFor?: Date | string;  // Planned installation date.
+  expiresAt: Date | string;      // Released automatically after this.
+  note?: string;
+  createdAt: Date | string;
+  createdBy?: string;
+  closedAt?: Date | string;      // When it was dispatched, released or expired.
+  closedBy?: string;
+  challanNo?: string;            // Challan it was dispatched on.
 }
 
 export type ClientMaterialEntry = {
@@ -50,10 +234,43 @@ export type ClientMaterialEntry = {
     materials: ClientMaterialEntryItem[];
     type: 'in' | 'out';
     entryTitle: string;
+    reason?: string;
+    // Set on dispatches made through a delivery challan.
+    challanNo?: string;
+    vehicleNo?: string;
+    driverName?: string;
+    remarks?: string;
+    createdBy?: string;   // Name of the user who recorded the entry.
+    projectId?: string;   // Project (site) the material went to or came back from.
+    locationId?: string;  // Stock location the material left from or was returned to.
+    locationName?: string;
+    // A wrong entry is reversed by a compensating entry of the opposite type; the
+    // original keeps who reversed it, when and why.
+    reversalOf?: string;        // On the compensating entry: the entry it reverses.
+    reversedAt?: Date | string;
+    reversedBy?: string;
+    reversalReason?: string;
+    reversalEntryId?: string;
+    correctionOf?: string;      // On a corrected re-entry: the reversed entry it replaces.
+}
+
+// A client entry on the client's movement timeline. 'net' is what it moved (out
+// positive, returns negative) and 'balance' what the client holds after it; both count
+// only the filtered material when one is picked.
+export type ClientTimelineEntry = ClientMaterialEntry & {
+    net: number;
+    balance: number;
+}
+
+export type ClientTimeline = {
+    opening: number;  // Balance before the first entry shown (entries before the 'from' date).
+    entries: ClientTimelineEntry[];
+    materials: { materialId: string; materialName: string; unit?: string }[];  // Everything the client ever moved, for the filter.
 }
 
 
-// Defines the structure for a stock history record.
+// Legacy shape of 'stockHistory' stock-fill documents. Nothing writes these any more;
+// they are kept so old backups can still be restored and migrated into the ledger.
 export type StockHistoryItem = {
     materialId: string;
     materialName: string;
@@ -67,24 +284,342 @@ export type StockHistory = {
     totalItems: number;
 }
 
+// Every way stock can move. Positive kinds add stock, negative kinds remove it,
+// 'set' and 'restore' carry whatever difference the absolute value produced.
+export type StockMovementKind =
+    | 'opening'     // Opening balance (new material, or history that predates the ledger)
+    | 'fill'        // Stock fill from the inventory page
+    | 'in'          // Manual In adjustment
+    | 'out'         // Manual Out adjustment
+    | 'set'         // Owner overwrote the quantity
+    | 'client_out'  // Dispatched to a client
+    | 'client_in'   // Returned by a client
+    | 'po_receipt'  // Received against a purchase order
+    | 'transfer'    // Moved between locations; a pair of lines that sums to zero
+    | 'count_variance' // Correction approved from a physical stock count
+    | 'restore';    // Correction written when restoring a backup
+
+export type StockMovementReference = {
+    type: 'client_entry' | 'purchase_order' | 'stock_transfer' | 'stock_count';
+    id: string;
+}
+
+// One line of the append-only stock ledger ('stock_movements' collection).
+// Lines are never updated or deleted; the sum of 'quantity' per material equals its stock.
+export type StockMovement = {
+    id: string;
+    materialId: string;
+    materialName: string;
+    kind: StockMovementKind;
+    quantity: number;       // Signed change in stock.
+    balanceAfter?: number;  // Stock right after this movement (unknown for migrated lines).
+    date: Date | string;
+    reason?: string;
+    batchId?: string;       // Groups lines recorded together, e.g. one stock fill.
+    clientId?: string;
+    reference?: StockMovementReference;
+    serials?: string[];     // Serial numbers moved by this line (serialized materials only).
+    locationId?: string;    // Location the stock moved in or out of; the default location when unset.
+    unitCost?: number;      // Purchase cost per base unit before GST, on receipts and opening balances.
+    userId?: string;
+    userName?: string;
+}
+
+// How stock is valued: receipts carry their purchase cost, and issues are costed at the
+// running weighted average or from the oldest remaining receipts first (FIFO).
+export type CostingMethod = 'weighted_average' | 'fifo';
+
+// One material's closing stock at cost, as of a date.
+export type StockValuationRow = {
+  materialId: string;
+  materialName: string;
+  category?: string;
+  unit?: string;
+  quantity: number;
+  value: number;        // Cost of the units on hand, before GST.
+  unitCost: number;     // value / quantity; 0 when nothing is on hand.
+};
+
+// Current state of one unit of a serialized material ('serial_numbers' collection).
+// 'removed' units left stock through a manual Out rather than to a client.
+export type SerialNumberStatus = 'in_stock' | 'issued' | 'removed';
+
+export type SerialNumber = {
+    id: string;
+    serial: string;
+    materialId: string;
+    materialName: string;
+    status: SerialNumberStatus;
+    clientId?: string;      // Client holding the unit while 'issued'.
+    receivedAt: Date | string;
+    updatedAt: Date | string;
+}
+
 // Client costing structures
+// A material's selling price from a given day on ('material_prices' collection). The
+// price on a date is the entry with the latest 'effectiveFrom' on or before it; the
+// material's own price and gstPercent mirror the entry in effect today.
+export type MaterialPrice = {
+  id: string;
+  materialId: string;
+  materialName: string;
+  price: number;
+  gstPercent: number;
+  effectiveFrom: Date | string;  // Start of the day; the epoch for the price before history was kept.
+  changedAt: Date | string;
+  changedBy?: string;
+};
+
 export type ClientCostRow = {
   materialId: string;
   name: string;
   qty: number;
+  unit?: string;
   rate: number;
+  listRate?: number;         // Our price when the client's price list overrides it.
+  discountPercent?: number;  // Line discount.
   gstPercent: number;
-  base: number;
+  base: number;              // qty x rate, less the line discount.
   gst: number;
   total: number;
 }
 
+// A charge billed on top of the materials, e.g. freight or installation.
+export type CostingCharge = {
+  label: string;
+  sacCode?: string;    // Services accounting code printed on invoices.
+  amount: number;      // Before GST.
+  gstPercent: number;
+  gst: number;
+  total: number;
+}
+
+// Roles, from least to most privileged. Viewers can only read, storekeepers can
+// move stock in and out, owners can additionally change prices, delete and restore.
+export type UserRole = 'viewer' | 'storekeeper' | 'owner';
+
+// A user account as exposed to the UI. The password hash never leaves the server.
+export type User = {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  active: boolean;
+  createdAt?: Date | string;
+};
+
+// The signed-in user resolved from the session cookie.
+export type SessionUser = Pick<User, 'id' | 'name' | 'email' | 'role'>;
+
 export type ClientCostingRecord = {
   id?: string;
   clientId: string;
+  projectId?: string | null;  // null for the client roll-up over all projects.
   items: ClientCostRow[];
+  subTotal?: number;          // Materials after line discounts, before the bill discount.
+  discountPercent?: number;   // Bill discount on the materials.
+  discount?: number;
+  charges?: CostingCharge[];
   beforeTax: number;
   gst: number;
   grand: number;
   updatedAt: Date | string;
+  version?: number;           // Latest entry in 'client_costing_versions'.
+  updatedBy?: string;
+  locked?: boolean;           // Approved: automatic recomputes leave it as it is.
+  lockedAt?: Date | string;
+  lockedBy?: string;
+  staleAt?: Date | string;    // Last time entries or prices changed while locked.
+  paid?: number;              // Allocated by payments; kept by lib/client-payments.
+}
+
+// Every change to a costing snapshot is kept as a numbered version per client and site
+// ('client_costing_versions' collection). 'legacy' holds a snapshot saved before
+// versions were kept.
+export type CostingVersionSource = 'recompute' | 'manual' | 'legacy';
+
+export type ClientCostingVersion = Pick<
+  ClientCostingRecord,
+  'clientId' | 'projectId' | 'items' | 'subTotal' | 'discountPercent' | 'discount' | 'charges' | 'beforeTax' | 'gst' | 'grand'
+> & {
+  id: string;
+  version: number;
+  source: CostingVersionSource;
+  reason?: string;
+  createdAt: Date | string;
+  createdBy?: string;
+}
+
+// The seller details printed on every tax invoice, kept in the 'settings' collection.
+export type CompanyProfile = {
+  name: string;
+  address: string;
+  gstin: string;
+  stateCode: string;   // GST state code of the seller's registration.
+  phone?: string;
+  email?: string;
+}
+
+export type InvoiceKind = 'invoice' | 'credit_note';
+
+// Issued documents are never edited; an invoice can only be voided by a credit note.
+export type InvoiceStatus = 'issued' | 'voided';
+
+export type InvoiceLine = {
+  materialId: string;
+  name: string;
+  hsnCode: string;
+  qty: number;
+  unit?: string;
+  rate: number;
+  taxable: number;
+  gstPercent: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export type InvoiceTotals = {
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  roundOff: number;
+  grand: number;   // Total rounded to the rupee; the amount payable.
+}
+
+// A GST tax invoice or credit note, frozen at the moment it was issued.
+export type Invoice = {
+  id: string;
+  kind: InvoiceKind;
+  number: string;          // e.g. "INV-0001/2025-26"; sequential within the financial year.
+  financialYear: string;   // e.g. "2025-26"
+  clientId: string;
+  date: Date | string;
+  seller: CompanyProfile;
+  buyer: { name: string; address: string; gstin?: string; stateCode: string };
+  placeOfSupply: string;   // State code; differs from the seller's for inter-state (IGST) supplies.
+  interState: boolean;
+  lines: InvoiceLine[];
+  totals: InvoiceTotals;
+  amountInWords: string;
+  status: InvoiceStatus;
+  createdBy?: string;
+  againstInvoiceId?: string;  // Credit notes: the invoice they cancel.
+  againstInvoiceNo?: string;
+  creditNoteId?: string;      // Voided invoices: the credit note that cancelled them.
+  creditNoteNo?: string;
+  voidReason?: string;
+  voidedAt?: Date | string;
+  paid?: number;              // Allocated by payments; kept by lib/client-payments.
+}
+
+export type PaymentMode = 'cash' | 'bank_transfer' | 'upi' | 'cheque' | 'card';
+
+// The part of a payment settled against a tax invoice or a costing (the client roll-up,
+// or one site's); whatever is not allocated is held as an advance.
+export type PaymentAllocation = {
+  type: 'invoice' | 'costing';
+  invoiceId?: string;          // Invoices.
+  projectId?: string | null;   // Costings: null for the client roll-up.
+  version?: number;            // Costings: the version the payment was agreed against.
+  reference: string;           // e.g. "INV-0001/2025-26", "Costing v3".
+  amount: number;
+}
+
+// Money received from a client ('client_payments' collection), numbered "RCPT-0001".
+export type ClientPayment = {
+  id: string;
+  receiptNo: string;
+  clientId: string;
+  date: Date | string;
+  mode: PaymentMode;
+  reference?: string;   // Cheque number, UTR, UPI transaction id.
+  amount: number;
+  allocations: PaymentAllocation[];
+  notes?: string;
+  createdAt: Date | string;
+  createdBy?: string;
+}
+
+// An invoice or costing a payment can be allocated against, with what is still due on it.
+export type PaymentTarget = Omit<PaymentAllocation, 'amount'> & {
+  key: string;
+  date: Date | string;
+  billed: number;
+  due: number;
+}
+
+// Billed is issued invoices net of credit notes, or the costing roll-up while the client
+// has no issued invoice; outstanding is billed less paid.
+export type ClientBalance = {
+  billed: number;
+  paid: number;
+  outstanding: number;
+}
+
+export type StatementLine = {
+  date: Date | string;
+  kind: 'invoice' | 'credit_note' | 'costing' | 'payment';
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;   // Running; negative is an advance.
+}
+
+// A vendor we buy materials from, with the prices they quote per material.
+export type SupplierPrice = {
+  materialId: string;
+  unitPrice: number;   // Base price per unit, before GST.
+}
+
+export type Supplier = {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  gstin?: string;
+  priceList: SupplierPrice[];
+  createdAt?: Date | string;
+}
+
+// draft -> sent -> partially_received -> received
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export type PurchaseOrderLine = {
+  materialId: string;
+  materialName: string;
+  quantity: number;      // Ordered, in the material's base unit.
+  unit?: string;
+  receivedQty: number;   // Received so far, across all receipts.
+  unitPrice: number;     // Agreed base price per unit.
+  gstPercent: number;
+}
+
+// One delivery booked against a purchase order.
+export type PurchaseOrderReceipt = {
+  batchId: string;       // Shared with the stock ledger lines of this delivery.
+  date: Date | string;
+  lines: { materialId: string; quantity: number }[];
+  receivedBy?: string;
+}
+
+export type PurchaseOrder = {
+  id: string;
+  poNumber: string;      // e.g. "PO-0001"
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+  notes?: string;
+  createdAt: Date | string;
+  createdBy?: string;
+  sentAt?: Date | string;
+  receivedAt?: Date | string;  // When the last outstanding unit arrived.
 }
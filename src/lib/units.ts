@@ -0,0 +1,61 @@
+// Units of measure. Stock, the ledger, client entries and costing are always counted in
+// a material's base unit; purchase units (e.g. 1 roll = 90 m) are only a way of entering
+// received quantities and are converted before anything is stored. Pure functions, safe
+// to use on the client and the server.
+
+import type { Material, PurchaseUnit } from "@/lib/types";
+
+// Base unit for materials that have none of their own.
+export const DEFAULT_UNIT = "pcs";
+
+// Offered in the unit pickers; any other short name can still be typed in.
+export const COMMON_UNITS = ["pcs", "m", "kg", "l", "set", "pair"];
+
+// Also accepts raw material documents from the database.
+type UnitFields = Pick<Material, "unit" | "purchaseUnits"> | Record<string, any>;
+
+export function baseUnitOf(material: UnitFields | null | undefined) {
+  return String(material?.unit || "").trim() || DEFAULT_UNIT;
+}
+
+// "12 m", or just "12" for records written before units existed.
+export function formatQty(quantity: number, unit?: string | null) {
+  const q = Number(quantity) || 0;
+  return unit ? `${q} ${unit}` : String(q);
+}
+
+export function purchaseUnitsOf(material: UnitFields | null | undefined): PurchaseUnit[] {
+  return Array.isArray(material?.purchaseUnits) ? material!.purchaseUnits : [];
+}
+
+// Quantity in the material's base unit for a quantity entered in `unit`, which is the
+// base unit itself (or empty) or one of its purchase units. Returns null for an unknown unit.
+export function toBaseQty(material: UnitFields, quantity: number, unit?: string | null) {
+  const name = String(unit || "").trim();
+  if (!name || name === baseUnitOf(material)) return quantity;
+  const purchaseUnit = purchaseUnitsOf(material).find(u => u.name === name);
+  if (!purchaseUnit) return null;
+  // Rounded to avoid float noise such as 0.1 * 3 = 0.30000000000000004.
+  return Math.round(quantity * purchaseUnit.factor * 1000) / 1000;
+}
+
+// "roll=90, box=100" -> [{ name: "roll", factor: 90 }, ...]. Throws on a malformed entry.
+export function parsePurchaseUnits(text: string, baseUnit: string): PurchaseUnit[] {
+  const units: PurchaseUnit[] = [];
+  for (const part of String(text || "").split(/[,;\n]+/).map(s => s.trim()).filter(Boolean)) {
+    const match = part.match(/^([^=]+)=\s*([0-9]*\.?[0-9]+)$/);
+    const name = match?.[1].trim() ?? "";
+    const factor = Number(match?.[2]);
+    if (!match || !name || !(factor > 0)) {
+      throw new Error(`Invalid purchase unit "${part}". Use name=factor, e.g. roll=90.`);
+    }
+    if (name === baseUnit) throw new Error(`Purchase unit "${name}" is the base unit.`);
+    if (units.some(u => u.name === name)) throw new Error(`Purchase unit "${name}" is listed twice.`);
+    units.push({ name, factor });
+  }
+  return units;
+}
+
+export function formatPurchaseUnits(units: PurchaseUnit[] | undefined) {
+  return (units ?? []).map(u => `${u.name}=${u.factor}`).join(", ");
+}
@@ -0,0 +1,163 @@
+// The shared usage calculator: what a client holds and the price layers their costing
+// bills, from their material entries.
+
+import { describe, expect, it } from "vitest";
+import { billedLayers, entryNet, layersByPrice, materialUsage, usageTotals } from "@/lib/usage";
+import type { ClientMaterialEntry } from "@/lib/types";
+
+type Entry = Pick<ClientMaterialEntry, "id" | "type" | "materials" | "date" | "reversalOf">;
+
+const line = (materialId: string, quantity: number | string, materialName = "") =>
+  ({ materialId, materialName, quantity }) as ClientMaterialEntry["materials"][number];
+
+const entry = (id: string, type: "in" | "out", date: string, quantity: number, extra: Partial<Entry> = {}): Entry => ({
+  id,
+  type,
+  date,
+  materials: [{ materialId: "m1", materialName: "Cable", quantity }],
+  ...extra,
+});
+
+// Priced by month: January dispatches at 100, later ones at 120.
+const priceByDate = (_materialId: string, { date }: Entry) => ({
+  rate: String(date).startsWith("2025-01") ? 100 : 120,
+  gstPercent: 18,
+});
+
+describe("materialUsage", () => {
+  const entries = [
+    { type: "out" as const, materials: [line("m1", 10, "Cable"), line("m2", 4, "Panel")] },
+    { type: "in" as const, materials: [line("m1", 3)] },
+    { type: "out" as const, materials: [line("m2", "2")] },
+  ];
+
+  it("adds up out, in and net per material in the order first seen", () => {
+    expect(materialUsage(entries)).toEqual([
+      { materialId: "m1", materialName: "Cable", outQty: 10, inQty: 3, netQty: 7 },
+      { materialId: "m2", materialName: "Panel", outQty: 6, inQty: 0, netQty: 6 },
+    ]);
+  });
+
+  it("keeps only the given material", () => {
+    expect(materialUsage(entries, "m2")).toEqual([
+      { materialId: "m2", materialName: "Panel", outQty: 6, inQty: 0, netQty: 6 },
+    ]);
+  });
+
+  it("counts entries without a type as dispatches", () => {
+    const legacy = [{ materials: [line("m1", 5)] }, { type: "in" as const, materials: [line("m1", 2)] }] as Entry[];
+    expect(materialUsage(legacy)).toEqual([{ materialId: "m1", materialName: "", outQty: 5, inQty: 2, netQty: 3 }]);
+  });
+
+  it("skips lines without a material and entries without lines", () => {
+    const odd = [{ type: "out", materials: [line("", 4)] }, { type: "out" }] as Entry[];
+    expect(materialUsage(odd)).toEqual([]);
+  });
+
+  it("totals every material", () => {
+    expect(usageTotals(materialUsage(entries))).toEqual({ totalOut: 16, totalIn: 3, netQuantity: 13 });
+    expect(usageTotals([])).toEqual({ totalOut: 0, totalIn: 0, netQuantity: 0 });
+  });
+});
+
+describe("entryNet", () => {
+  const out = { type: "out" as const, materials: [line("m1", 4), line("m2", 6)] };
+
+  it("is positive for a dispatch and negative for a return", () => {
+    expect(entryNet(out)).toBe(10);
+    expect(entryNet({ ...out, type: "in" })).toBe(-10);
+  });
+
+  it("counts only the given material", () => {
+    expect(entryNet(out, "m2")).toBe(6);
+    expect(entryNet(out, "m3")).toBe(0);
+  });
+
+  it("treats an entry without a type as a dispatch", () => {
+    expect(entryNet({ materials: [line("m1", 3)] } as Entry)).toBe(3);
+  });
+});
+
+describe("billedLayers", () => {
+  it("keeps one layer per price, oldest first", () => {
+    const layers = billedLayers([
+      entry("a", "out", "2025-01-10", 4),
+      entry("b", "out", "2025-01-20", 6),
+      entry("c", "out", "2025-03-10", 5),
+    ], priceByDate);
+
+    expect(layers.get("m1")).toEqual([
+      { qty: 10, rate: 100, gstPercent: 18 },
+      { qty: 5, rate: 120, gstPercent: 18 },
+    ]);
+  });
+
+  it("takes a return across several layers", () => {
+    const layers = billedLayers([
+      entry("jan", "out", "2025-01-10", 10),
+      entry("mar", "out", "2025-03-10", 5),
+      entry("ret", "in", "2025-04-01", 8),
+    ], priceByDate);
+
+    expect(layers.get("m1")).toEqual([{ qty: 7, rate: 100, gstPercent: 18 }]);
+  });
+
+  it("does not carry a return larger than the layers forward", () => {
+    const layers = billedLayers([
+      entry("jan", "out", "2025-01-10", 3),
+      entry("ret", "in", "2025-02-01", 5),
+      entry("mar", "out", "2025-03-10", 2),
+    ], priceByDate);
+
+    expect(layers.get("m1")).toEqual([{ qty: 2, rate: 120, gstPercent: 18 }]);
+  });
+
+  it("prices entries without a type as dispatches", () => {
+    const legacy = { id: "old", date: "2025-01-05", materials: [line("m1", 4)] } as Entry;
+    expect(billedLayers([legacy], priceByDate).get("m1")).toEqual([{ qty: 4, rate: 100, gstPercent: 18 }]);
+  });
+
+  it("takes a reversed dispatch back at its own price", () => {
+    const layers = billedLayers([
+      entry("jan", "out", "2025-01-10", 10),
+      entry("mar", "out", "2025-03-10", 5),
+      entry("rev", "in", "2025-04-01", 10, { reversalOf: "jan" }),
+    ], priceByDate);
+
+    expect(layers.get("m1")).toEqual([{ qty: 5, rate: 120, gstPercent: 18 }]);
+  });
+
+  it("takes a return back from the latest dispatch", () => {
+    const layers = billedLayers([
+      entry("jan", "out", "2025-01-10", 10),
+      entry("mar", "out", "2025-03-10", 5),
+      entry("ret", "in", "2025-04-01", 10),
+    ], priceByDate);
+
+    expect(layers.get("m1")).toEqual([{ qty: 5, rate: 100, gstPercent: 18 }]);
+  });
+
+  it("counts a reversal whose original is not in the list", () => {
+    const layers = billedLayers([
+      entry("mar", "out", "2025-03-10", 5),
+      entry("rev", "in", "2025-04-01", 2, { reversalOf: "other-site" }),
+    ], priceByDate);
+
+    expect(layers.get("m1")).toEqual([{ qty: 3, rate: 120, gstPercent: 18 }]);
+  });
+});
+
+describe("layersByPrice", () => {
+  it("adds layers at the same rate and GST % together", () => {
+    expect(layersByPrice([
+      { qty: 2, rate: 100, gstPercent: 18 },
+      { qty: 3, rate: 120, gstPercent: 18 },
+      { qty: 4, rate: 100, gstPercent: 18 },
+      { qty: 1, rate: 100, gstPercent: 12 },
+    ])).toEqual([
+      { qty: 6, rate: 100, gstPercent: 18 },
+      { qty: 3, rate: 120, gstPercent: 18 },
+      { qty: 1, rate: 100, gstPercent: 12 },
+    ]);
+  });
+});
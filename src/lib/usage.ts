@@ -0,0 +1,99 @@
+// What a client has taken and returned, from their material entries: dispatches (Out)
+// less returns (In) per material, and the priced layers a costing bills. The one place
+// this is calculated; routes, actions, the costing and the client pages all call it.
+// Pure functions, safe to use on the client and the server.
+
+import type { ClientMaterialEntry, MaterialUsage } from "@/lib/types";
+
+type UsageEntry = Pick<ClientMaterialEntry, "type" | "materials"> & { date?: Date | string };
+
+// Entries written before 'type' was stored are dispatches.
+const isReturn = (entry: Pick<UsageEntry, "type">) => entry.type === "in";
+const linesOf = (entry: UsageEntry) => (Array.isArray(entry.materials) ? entry.materials : []);
+const quantityOf = (line: { quantity?: unknown }) => Number(line.quantity) || 0;
+
+// Out, in and net per material, in the order first seen; only 'materialId' when given.
+export function materialUsage(entries: UsageEntry[], materialId?: string): MaterialUsage[] {
+  const usage = new Map<string, MaterialUsage>();
+  for (const entry of entries) {
+    for (const line of linesOf(entry)) {
+      const id = String(line.materialId || "");
+      if (!id || (materialId && id !== materialId)) continue;
+      const row = usage.get(id) ?? { materialId: id, materialName: "", outQty: 0, inQty: 0, netQty: 0 };
+      if (line.materialName) row.materialName = String(line.materialName);
+      if (isReturn(entry)) row.inQty += quantityOf(line);
+      else row.outQty += quantityOf(line);
+      row.netQty = row.outQty - row.inQty;
+      usage.set(id, row);
+    }
+  }
+  return [...usage.values()];
+}
+
+// Everything taken, returned and still held, over all materials.
+export function usageTotals(usage: MaterialUsage[]) {
+  const totalOut = usage.reduce((sum, row) => sum + row.outQty, 0);
+  const totalIn = usage.reduce((sum, row) => sum + row.inQty, 0);
+  return { totalOut, totalIn, netQuantity: totalOut - totalIn };
+}
+
+// What one entry moved: out positive, returns negative; only 'materialId' when given.
+export function entryNet(entry: UsageEntry, materialId?: string | null) {
+  const moved = linesOf(entry)
+    .filter(line => !materialId || line.materialId === materialId)
+    .reduce((sum, line) => sum + quantityOf(line), 0);
+  return isReturn(entry) ? -moved : moved;
+}
+
+export type PriceLayer = { qty: number; rate: number; gstPercent: number };
+
+// The quantity of each material still billed, in layers of (rate, GST %) oldest first.
+// 'entries' must be in date order. Each Out is priced by 'priceOf'; a return takes back
+// the most recent dispatches of the material first. A reversed entry and its reversal
+// are left out together, so undoing an old dispatch takes back its own price.
+export function billedLayers<E extends UsageEntry & Pick<ClientMaterialEntry, "id" | "reversalOf">>(
+  entries: E[],
+  priceOf: (materialId: string, entry: E) => Omit<PriceLayer, "qty">
+): Map<string, PriceLayer[]> {
+  const ids = new Set(entries.map(entry => entry.id));
+  const reversed = new Set(entries.map(entry => entry.reversalOf).filter(id => id && ids.has(id)));
+  const billed = new Map<string, PriceLayer[]>();
+  for (const entry of entries) {
+    if (reversed.has(entry.id) || reversed.has(entry.reversalOf)) continue;
+    for (const line of linesOf(entry)) {
+      const id = String(line.materialId || "");
+      const qty = quantityOf(line);
+      if (!id || qty <= 0) continue;
+      const layers = billed.get(id) ?? [];
+      billed.set(id, layers);
+      if (isReturn(entry)) {
+        let remaining = qty;
+        while (remaining > 0 && layers.length > 0) {
+          const last = layers[layers.length - 1];
+          const take = Math.min(last.qty, remaining);
+          last.qty -= take;
+          remaining -= take;
+          if (last.qty === 0) layers.pop();
+        }
+        continue;
+      }
+      const { rate, gstPercent } = priceOf(id, entry);
+      const last = layers[layers.length - 1];
+      if (last && last.rate === rate && last.gstPercent === gstPercent) last.qty += qty;
+      else layers.push({ qty, rate, gstPercent });
+    }
+  }
+  return billed;
+}
+
+// One row per price: layers at the same rate and GST % added together.
+export function layersByPrice(layers: PriceLayer[]): PriceLayer[] {
+  const byPrice = new Map<string, PriceLayer>();
+  for (const layer of layers) {
+    const key = `${layer.rate}|${layer.gstPercent}`;
+    const row = byPrice.get(key) ?? { qty: 0, rate: layer.rate, gstPercent: layer.gstPercent };
+    row.qty += layer.qty;
+    byPrice.set(key, row);
+  }
+  return [...byPrice.values()];
+}
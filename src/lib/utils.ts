@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Split a free-text list of serial numbers (comma, semicolon or newline separated)
+// into trimmed, non-empty values. Used by both forms and server actions.
+export function parseSerials(input: string | string[] | null | undefined): string[] {
+  const raw = Array.isArray(input) ? input : String(input ?? "").split(/[\n,;]+/);
+  return raw.map(s => String(s).trim()).filter(Boolean);
+}
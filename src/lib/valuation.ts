@@ -0,0 +1,151 @@
+// Inventory valuation from the stock ledger. Receipts (fills, purchase order receipts,
+// opening balances) carry their purchase cost; replaying a material's ledger in date
+// order with the chosen costing method gives the cost of every issue and the value of
+// what is left, as of any date. Server-only.
+//
+// Lines without a cost of their own (manual In, client returns, count surpluses) come
+// in at the cost stock is currently carried at. Transfers between locations do not
+// change a material's value and are skipped. Values are before GST.
+
+import { ObjectId, type Db } from "mongodb";
+import { unitPriceOf } from "@/lib/price-history";
+import { baseUnitOf } from "@/lib/units";
+import type { CostingMethod, StockMovementKind, StockValuationRow } from "@/lib/types";
+import { stockMovements } from "@/lib/stock-ledger";
+import { materialsCollection } from "@/lib/materials";
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = "weighted_average";
+
+const VALUATION_SETTINGS_ID = "valuation";
+
+export async function getCostingMethod(db: Db): Promise<CostingMethod> {
+  const doc = await db.collection<{ _id: string; method?: CostingMethod }>("settings").findOne({ _id: VALUATION_SETTINGS_ID });
+  return doc?.method === "fifo" ? "fifo" : DEFAULT_COSTING_METHOD;
+}
+
+export async function saveCostingMethod(db: Db, method: CostingMethod) {
+  await db.collection<{ _id: string }>("settings").updateOne(
+    { _id: VALUATION_SETTINGS_ID },
+    { $set: { method, updatedAt: new Date() } },
+    { upsert: true }
+  );
+}
+
+type CostLine = { id: string; kind: StockMovementKind; quantity: number; unitCost?: number };
+
+type CostReplay = {
+  quantity: number;
+  value: number;
+  lineValues: Map<string, number>;  // Signed value each line added to (or took out of) stock.
+};
+
+// Replays one material's ledger lines, oldest first. 'fallbackCost' prices stock that
+// comes in before any receipt with a known cost.
+export function replayCosts(lines: CostLine[], method: CostingMethod, fallbackCost: number): CostReplay {
+  // FIFO keeps one layer per receipt; weighted average keeps a single merged layer.
+  let layers: { qty: number; unitCost: number }[] = [];
+  let lastCost = fallbackCost;
+  const lineValues = new Map<string, number>();
+  const onHand = () => layers.reduce((s, l) => s + l.qty, 0);
+  const valueOnHand = () => layers.reduce((s, l) => s + l.qty * l.unitCost, 0);
+
+  for (const line of lines) {
+    if (line.kind === "transfer" || line.quantity === 0) continue;
+    if (line.quantity > 0) {
+      const qty = onHand();
+      const carried = qty > 0 ? (method === "fifo" ? layers[layers.length - 1].unitCost : valueOnHand() / qty) : lastCost;
+      const cost = line.unitCost !== undefined && line.unitCost > 0 ? line.unitCost : carried;
+      if (line.unitCost !== undefined && line.unitCost > 0) lastCost = line.unitCost;
+      if (method === "fifo") {
+        layers.push({ qty: line.quantity, unitCost: cost });
+      } else {
+        const total = qty + line.quantity;
+        layers = [{ qty: total, unitCost: (valueOnHand() + line.quantity * cost) / total }];
+      }
+      lineValues.set(line.id, line.quantity * cost);
+    } else {
+      let remaining = -line.quantity;
+      let issued = 0;
+      while (remaining > 0 && layers.length > 0) {
+        const layer = layers[0];
+        const take = Math.min(layer.qty, remaining);
+        issued += take * layer.unitCost;
+        layer.qty -= take;
+        remaining -= take;
+        if (layer.qty === 0) layers.shift();
+      }
+      // Only happens when history has gaps; the rest goes out at the last known cost.
+      issued += remaining * lastCost;
+      lineValues.set(line.id, -issued);
+    }
+  }
+  return { quantity: onHand(), value: valueOnHand(), lineValues };
+}
+
+// Replays the ledger of the given materials (all when omitted) up to 'asOf'.
+async function replayLedger(db: Db, method: CostingMethod, { materialIds, asOf }: { materialIds?: string[]; asOf?: Date } = {}) {
+  const match: Record<string, any> = {};
+  if (materialIds) match.materialId = { $in: materialIds };
+  if (asOf) match.date = { $lte: asOf };
+  const movements = await stockMovements(db)
+    .find(match, { projection: { materialId: 1, materialName: 1, kind: 1, quantity: 1, unitCost: 1 } })
+    .sort({ date: 1, _id: 1 })
+    .toArray();
+
+  const byMaterial = new Map<string, { name: string; lines: CostLine[] }>();
+  for (const m of movements) {
+    const id = String(m.materialId);
+    const entry = byMaterial.get(id) ?? { name: String(m.materialName || ""), lines: [] };
+    entry.lines.push({ id: m._id.toString(), kind: m.kind, quantity: Number(m.quantity) || 0, unitCost: m.unitCost });
+    byMaterial.set(id, entry);
+  }
+
+  const ids = Array.from(byMaterial.keys()).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  const materials = await materialsCollection(db).find({ _id: { $in: ids } }).toArray();
+  const materialsById = new Map(materials.map(m => [m._id.toString(), m]));
+
+  return Array.from(byMaterial.entries()).map(([materialId, { name, lines }]) => {
+    const material = materialsById.get(materialId);
+    return { materialId, name, material, replay: replayCosts(lines, method, unitPriceOf(material)) };
+  });
+}
+
+// Closing stock at cost per material as of the end of 'asOf' (now when omitted).
+export async function getStockValuation(db: Db, { asOf, method }: { asOf?: Date; method?: CostingMethod } = {}) {
+  const costingMethod = method ?? (await getCostingMethod(db));
+  const replayed = await replayLedger(db, costingMethod, { asOf });
+  const rows: StockValuationRow[] = replayed
+    .filter(r => r.replay.quantity !== 0)
+    .map(({ materialId, name, material, replay }) => ({
+      materialId,
+      materialName: String(material?.name || name),
+      category: material?.category || "Other",
+      unit: baseUnitOf(material),
+      quantity: replay.quantity,
+      value: replay.value,
+      unitCost: replay.quantity > 0 ? replay.value / replay.quantity : 0,
+    }))
+    .sort((a, b) => a.materialName.localeCompare(b.materialName));
+  return { method: costingMethod, rows, total: rows.reduce((s, r) => s + r.value, 0) };
+}
+
+// Cost of goods issued per client entry (challan or In/Out), keyed by entry id. Returns
+// count negative: they bring stock back at the cost it is carried at.
+export async function getClientIssueCosts(db: Db, clientId: string, method?: CostingMethod): Promise<Record<string, number>> {
+  const clientLines = await stockMovements(db)
+    .find({ clientId, "reference.type": "client_entry" }, { projection: { materialId: 1, reference: 1 } })
+    .toArray();
+  if (clientLines.length === 0) return {};
+
+  const materialIds = Array.from(new Set(clientLines.map(l => String(l.materialId))));
+  const replayed = await replayLedger(db, method ?? (await getCostingMethod(db)), { materialIds });
+  const lineValues = new Map<string, number>();
+  for (const r of replayed) r.replay.lineValues.forEach((value, id) => lineValues.set(id, value));
+
+  const costs: Record<string, number> = {};
+  for (const line of clientLines) {
+    const entryId = String(line.reference.id);
+    costs[entryId] = (costs[entryId] ?? 0) - (lineValues.get(line._id.toString()) ?? 0);
+  }
+  return costs;
+}
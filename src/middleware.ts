@@ -0,0 +1,23 @@
+// Edge middleware: a cheap first line of defence that sends visitors without a
+// session cookie to the login page. The cookie is fully validated (and roles are
+// checked) on the server by 'authorize' in every action and API route.
+import { NextResponse, type NextRequest } from 'next/server';
+
+const SESSION_COOKIE = 'mc_session';
+
+export function middleware(req: NextRequest) {
+  if (req.cookies.get(SESSION_COOKIE)?.value) {
+    return NextResponse.next();
+  }
+  if (req.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+  const loginUrl = new URL('/login', req.url);
+  loginUrl.searchParams.set('next', req.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Everything except the landing page, login, the session probe and static assets.
+  matcher: ['/((?!login|api/auth|_next/static|_next/image|favicon.ico).+)'],
+};
@@ -0,0 +1,45 @@
+// In-memory MongoDB replica set for tests that need real transactions (a standalone
+// server does not support them). lib/mongodb connects when it is first imported, so
+// it is imported here, after the server is up; import 'withTransaction' from the
+// returned object rather than from lib/mongodb.
+// Set MONGOMS_SYSTEM_BINARY to use an installed mongod instead of a downloaded one.
+// Without either (no network, no mongod) it returns null and the suite is skipped.
+
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+
+// A mongod binary could not be found or downloaded; anything else is a real failure.
+const isMissingBinary = (error: unknown) => /download|binary|ENOTFOUND|EAI_AGAIN/i.test(String((error as Error)?.message ?? error));
+
+export async function startMemoryDb() {
+  let replSet: MongoMemoryReplSet;
+  try {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: "wiredTiger" } });
+  } catch (error) {
+    if (!isMissingBinary(error)) throw error;
+    console.warn(
+      `Skipping MongoDB tests: no mongod binary is available (${(error as Error).message.split("\n")[0]}). ` +
+      "Set MONGOMS_SYSTEM_BINARY to an installed mongod to run them."
+    );
+    return null;
+  }
+  process.env.MONGODB_URI = replSet.getUri();
+  const { default: clientPromise, getDatabase, withTransaction } = await import("@/lib/mongodb");
+  const db = await getDatabase();
+  return {
+    db,
+    withTransaction,
+    async stop() {
+      await (await clientPromise).close();
+      await replSet.stop();
+    },
+  };
+}
+
+// Runs every task at once and splits the outcomes.
+export async function settleAll<T>(tasks: (() => Promise<T>)[]) {
+  const results = await Promise.allSettled(tasks.map(task => task()));
+  return {
+    fulfilled: results.filter((r): r is PromiseFulfilledResult<Awaited<T>> => r.status === "fulfilled").map(r => r.value),
+    rejected: results.filter((r): r is PromiseRejectedResult => r.status === "rejected").map(r => r.reason),
+  };
+}